@@ -0,0 +1,41 @@
+-- Add the contribution columns to the boards table, so a board captured again
+-- by a later game adds to what the archive knows instead of being turned away
+-- (POST /api/boards?merge=true):
+--
+--   word_observations  how many captures have seen each slot word, keyed by
+--                      the lower-cased word ({"caution": 3, "act": 3, ...})
+--   channels           every Twitch channel the board has been captured from
+--   first_seen_at      when the board was first captured
+--   last_seen_at       when the board was last captured or merged
+--
+-- Usage (via psql or Supabase SQL Editor):
+--   \i db-scripts/add-contributions-to-boards.sql
+--
+-- Or run directly in the Supabase SQL Editor
+--
+-- The columns are written by the API only; a caller can't supply them. A merge
+-- reads the stored row, adds to it and writes it back only if last_seen_at is
+-- still what it read, so two views merging the same board at once can't lose
+-- each other's observations: the one that loses the race reads again.
+--
+-- Boards already in the archive count as seen once, by the channel they were
+-- captured from, at the time they were saved.
+
+ALTER TABLE boards ADD COLUMN IF NOT EXISTS word_observations JSONB NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE boards ADD COLUMN IF NOT EXISTS channels TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE boards ADD COLUMN IF NOT EXISTS first_seen_at TIMESTAMPTZ;
+ALTER TABLE boards ADD COLUMN IF NOT EXISTS last_seen_at TIMESTAMPTZ;
+
+UPDATE boards
+SET
+  word_observations = COALESCE((
+    SELECT jsonb_object_agg(lower(slot ->> 'word'), 1)
+    FROM jsonb_array_elements(
+      CASE jsonb_typeof(slots::jsonb) WHEN 'string' THEN (slots::jsonb #>> '{}')::jsonb ELSE slots::jsonb END
+    ) AS slot
+    WHERE COALESCE(slot ->> 'word', '') <> ''
+  ), '{}'::jsonb),
+  channels = CASE WHEN twitch_channel IS NULL THEN '{}' ELSE ARRAY[twitch_channel] END,
+  first_seen_at = created_at,
+  last_seen_at = COALESCE(updated_at, created_at)
+WHERE first_seen_at IS NULL;
@@ -0,0 +1,25 @@
+-- Add a letters_signature column to the boards table: the big word's letters,
+-- folded the way Words on Stream compares them in the board's language and
+-- sorted (CAUTION -> 'acinotu', CORAÇÃO -> 'aaccoor'). A board is filed under
+-- its big word, so without this it can only be found once the big word is
+-- known; with it, a level's letters — or any anagram of the big word — find
+-- the board in one indexed lookup (GET /api/boards/by-letters/{letters}).
+--
+-- Usage (via psql or Supabase SQL Editor):
+--   \i db-scripts/add-letters-signature-to-boards.sql
+--
+-- Or run directly in the Supabase SQL Editor
+--
+-- Folding accents needs the same rules the app uses (src/lib/wos-letters.ts),
+-- which SQL can't reproduce in a generated column, so the column is written
+-- by the API: POST /api/boards sets it on every capture and PUT
+-- /api/boards/[id] sets it on every repair. Boards already in the archive get
+-- NULL here and are filled in by db-scripts/backfill-letters-signature.mjs;
+-- until then a letters lookup can't find them.
+--
+-- The index carries id in descending order because a lookup that matches
+-- several stored anagrams answers with the alphabetically last.
+
+ALTER TABLE boards ADD COLUMN IF NOT EXISTS letters_signature TEXT;
+
+CREATE INDEX IF NOT EXISTS boards_letters_signature_idx ON boards (letters_signature, id DESC);
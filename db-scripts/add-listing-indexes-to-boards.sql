@@ -0,0 +1,17 @@
+-- Add the indexes the archive listing (GET /api/boards, used by the /boards
+-- page) reads through. The listing is newest capture first, ties broken by id,
+-- and each page starts just after the last board of the one before, so one
+-- index in that order serves every page without scanning the ones before it.
+--
+-- Usage (via psql or Supabase SQL Editor):
+--   \i db-scripts/add-listing-indexes-to-boards.sql
+--
+-- Or run directly in the Supabase SQL Editor
+--
+-- `since` asks for boards captured or repaired after an instant, so
+-- updated_at (db-scripts/add-updated-at-to-boards.sql) gets an index of its
+-- own; created_at is already covered by the first one.
+
+CREATE INDEX IF NOT EXISTS boards_created_at_id_idx ON boards (created_at DESC, id ASC);
+
+CREATE INDEX IF NOT EXISTS boards_updated_at_idx ON boards (updated_at);
@@ -0,0 +1,21 @@
+-- Add a slot_count column to the boards table so the archive listing
+-- (GET /api/boards?slots=N, used by the /boards page) can filter boards by how
+-- many slots they have. PostgREST cannot filter on the length of a JSON
+-- array, so the count is kept as a column of its own.
+--
+-- Usage (via psql or Supabase SQL Editor):
+--   \i db-scripts/add-slot-count-to-boards.sql
+--
+-- Or run directly in the Supabase SQL Editor
+--
+-- The column is generated from slots, so it is filled in for every existing
+-- board when it is added and kept in step by every later insert or repair; it
+-- can't be written through the API. A board whose slots are not an array gets
+-- NULL and never matches a slot-count filter.
+
+ALTER TABLE boards ADD COLUMN IF NOT EXISTS slot_count INTEGER
+  GENERATED ALWAYS AS (
+    CASE WHEN jsonb_typeof(slots) = 'array' THEN jsonb_array_length(slots) END
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS boards_slot_count_idx ON boards (slot_count);
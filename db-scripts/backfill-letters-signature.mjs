@@ -0,0 +1,199 @@
+import { createClient } from "@supabase/supabase-js";
+import { loadDevEnv } from "./load-dev-env.mjs";
+
+// Load .dev.vars into process.env if present (non-fatal)
+await loadDevEnv();
+
+function parseArgs(argv) {
+  const args = {
+    apply: false,
+    pageSize: 500,
+    limit: Infinity,
+  };
+
+  for (const raw of argv) {
+    if (raw === "--apply") {
+      args.apply = true;
+      continue;
+    }
+
+    if (raw.startsWith("--page-size=")) {
+      const value = Number(raw.split("=")[1]);
+      if (!Number.isFinite(value) || value <= 0) {
+        throw new Error(`Invalid --page-size value: ${raw}`);
+      }
+      args.pageSize = Math.floor(value);
+      continue;
+    }
+
+    if (raw.startsWith("--limit=")) {
+      const value = Number(raw.split("=")[1]);
+      if (!Number.isFinite(value) || value <= 0) {
+        throw new Error(`Invalid --limit value: ${raw}`);
+      }
+      args.limit = Math.floor(value);
+      continue;
+    }
+
+    if (raw === "--help" || raw === "-h") {
+      args.help = true;
+      continue;
+    }
+
+    throw new Error(`Unknown argument: ${raw}`);
+  }
+
+  return args;
+}
+
+function usage() {
+  return `Fill in boards.letters_signature (the big word's letters, folded and
+sorted) for boards captured before the column existed, so a lookup by letters
+(GET /api/boards/by-letters/{letters}) can find them. Run
+db-scripts/add-letters-signature-to-boards.sql first.
+
+A board whose signature is already right is left alone, so the script can be
+re-run safely; a wrong one (e.g. set before a language was corrected) is
+rewritten.
+
+Usage:
+  SUPABASE_URL=... SUPABASE_KEY=... node db-scripts/backfill-letters-signature.mjs [--apply] [--page-size=500] [--limit=1000]
+
+Options:
+  --apply            Actually updates rows (default: dry-run)
+  --page-size=N      Rows to fetch per page (default: 500)
+  --limit=N          Max rows to process (default: unlimited)
+`;
+}
+
+// Must match foldLetters and lettersSignature in src/lib/wos-letters.ts:
+// lower-case, drop accents for Portuguese and French, sort.
+const ACCENT_FOLDING_LANGUAGES = new Set(["pt", "fr"]);
+
+function lettersSignature(id, languageCode) {
+  const lower = String(id ?? "")
+    .replace(/\s+/g, "")
+    .normalize("NFC")
+    .toLowerCase();
+  const letters = Array.from(lower, (letter) =>
+    ACCENT_FOLDING_LANGUAGES.has(languageCode)
+      ? letter.normalize("NFD").replace(/\p{M}+/gu, "")
+      : letter
+  );
+  return letters.sort().join("");
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+
+  if (args.help) {
+    console.log(usage());
+    process.exit(0);
+  }
+
+  const supabaseUrl = process.env.SUPABASE_URL;
+  const supabaseKey = process.env.SUPABASE_KEY;
+
+  if (!supabaseUrl || !supabaseKey) {
+    console.error("Missing SUPABASE_URL or SUPABASE_KEY in environment.");
+    console.error(usage());
+    process.exit(1);
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseKey, {
+    auth: { persistSession: false },
+  });
+
+  console.log(
+    `Mode: ${
+      args.apply ? "APPLY (updates will be written)" : "DRY-RUN (no writes)"
+    }`
+  );
+  console.log(`Page size: ${args.pageSize}`);
+  console.log(
+    `Limit: ${Number.isFinite(args.limit) ? args.limit : "unlimited"}`
+  );
+
+  let processed = 0;
+  let mismatched = 0;
+  let updated = 0;
+  let skipped = 0;
+  let page = 0;
+
+  while (processed < args.limit) {
+    const from = page * args.pageSize;
+    const to = from + args.pageSize - 1;
+
+    // Ordered so pages stay stable while rows are being updated.
+    const { data: rows, error } = await supabase
+      .from("boards")
+      .select("id, language_code, letters_signature")
+      .order("id", { ascending: true })
+      .range(from, to);
+
+    if (error) {
+      throw new Error(
+        `Failed to fetch boards rows (range ${from}-${to}): ${error.message}`
+      );
+    }
+
+    if (!rows || rows.length === 0) {
+      break;
+    }
+
+    for (const row of rows) {
+      if (processed >= args.limit) break;
+      processed += 1;
+
+      if (typeof row?.id !== "string" || row.id.trim() === "") {
+        skipped += 1;
+        continue;
+      }
+
+      const signature = lettersSignature(row.id, row.language_code ?? "en");
+      if (row.letters_signature === signature) {
+        continue;
+      }
+
+      mismatched += 1;
+      console.log(
+        `Signature: id=${row.id} ${
+          row.letters_signature ?? "(none)"
+        } -> ${signature}`
+      );
+
+      if (args.apply) {
+        const { error: updateError } = await supabase
+          .from("boards")
+          .update({ letters_signature: signature })
+          .eq("id", row.id);
+
+        if (updateError) {
+          skipped += 1;
+          console.warn(
+            `  Update failed for id=${row.id}: ${updateError.message}`
+          );
+        } else {
+          updated += 1;
+        }
+      }
+    }
+
+    page += 1;
+
+    if (rows.length < args.pageSize) {
+      break;
+    }
+  }
+
+  console.log("---");
+  console.log(`Processed:  ${processed}`);
+  console.log(`Mismatched: ${mismatched}`);
+  console.log(`Updated:    ${updated}`);
+  console.log(`Skipped:    ${skipped}`);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
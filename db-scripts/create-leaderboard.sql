@@ -0,0 +1,42 @@
+-- Create the channel opt-in list and the two views behind /api/leaderboard.
+--
+-- Usage (via psql or Supabase SQL Editor):
+--   \i db-scripts/create-leaderboard.sql
+--
+-- Or run directly in the Supabase SQL Editor
+--
+-- Channels are ranked against each other only once they have asked to be: a
+-- channel joins the leaderboard by having a row in wos_leaderboard_channels,
+-- and leaves it by having the row deleted. The streamer does either from the
+-- view's settings, through PUT and DELETE /api/leaderboard/[channel], which
+-- only accept the channel's own write token. The views join the chatbot's own
+-- record tables to that list, so a channel that has not opted in is never
+-- read by the leaderboard at all, and its records need no copy to rank.
+
+CREATE TABLE IF NOT EXISTS wos_leaderboard_channels (
+  -- The channel's Twitch login, lowercase as the record tables store it.
+  channel TEXT PRIMARY KEY CHECK (channel ~ '^[a-z0-9_]{1,50}$'),
+  joined_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE OR REPLACE VIEW wos_leaderboard_all_time AS
+SELECT
+  records.channel,
+  records.all_time_highest_level_reached AS highest_level
+FROM wos_channel_all_time_records AS records
+JOIN wos_leaderboard_channels AS opted_in ON opted_in.channel = records.channel
+WHERE records.all_time_highest_level_reached > 0;
+
+CREATE OR REPLACE VIEW wos_leaderboard_daily AS
+SELECT
+  daily.channel,
+  daily.stat_date_utc,
+  daily.highest_level_reached AS highest_level,
+  daily.board_clears
+FROM wos_channel_daily_achievements AS daily
+JOIN wos_leaderboard_channels AS opted_in ON opted_in.channel = daily.channel
+WHERE daily.highest_level_reached > 0;
+
+-- A day's leaderboard is read a page at a time, in its ranking order.
+CREATE INDEX IF NOT EXISTS wos_channel_daily_achievements_date_level_idx
+  ON wos_channel_daily_achievements (stat_date_utc, highest_level_reached DESC, channel ASC);
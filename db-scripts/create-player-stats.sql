@@ -0,0 +1,36 @@
+-- Create the per-player word statistics store behind /api/player-stats.
+--
+-- Usage (via psql or Supabase SQL Editor):
+--   \i db-scripts/create-player-stats.sql
+--
+-- Or run directly in the Supabase SQL Editor
+--
+-- Every open WoS+ view (the streamer's overlay, each player's page) watches the
+-- same level and reports it, so the raw data is one row per player per level,
+-- keyed by a level_key the client derives from the game room, level number and
+-- slot lengths. A second report of the same level hits the primary key and is
+-- ignored, which keeps the totals from multiplying with the number of viewers.
+-- The totals themselves are a view over those rows, so they can never drift
+-- from the levels that were actually recorded.
+
+CREATE TABLE IF NOT EXISTS wos_player_levels (
+  channel TEXT NOT NULL,
+  player TEXT NOT NULL,
+  level_key TEXT NOT NULL,
+  words_found INTEGER NOT NULL DEFAULT 0 CHECK (words_found >= 0),
+  big_words_hit INTEGER NOT NULL DEFAULT 0 CHECK (big_words_hit >= 0),
+  hidden_words_guessed INTEGER NOT NULL DEFAULT 0 CHECK (hidden_words_guessed >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (channel, player, level_key)
+);
+
+CREATE OR REPLACE VIEW wos_player_stats AS
+SELECT
+  channel,
+  player,
+  SUM(words_found)::INTEGER AS words_found,
+  SUM(big_words_hit)::INTEGER AS big_words_hit,
+  SUM(hidden_words_guessed)::INTEGER AS hidden_words_guessed,
+  COUNT(*)::INTEGER AS levels_played
+FROM wos_player_levels
+GROUP BY channel, player;
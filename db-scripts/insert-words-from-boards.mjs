@@ -87,7 +87,7 @@ Options:
   --page-size=N              Boards rows to fetch per page (default: 500)
   --limit=N                  Max boards rows to process (default: unlimited)
   --insert-chunk-size=N      Max words rows per insert call (default: 500)
-  --language-code=CODE       Language code to store (default: en)
+  --language-code=CODE       Language of the boards to read and the words to store (default: en)
   --no-preload-existing      Skip loading existing words to avoid duplicates (default: false)
 `;
 }
@@ -274,6 +274,8 @@ async function main() {
     const { data: rows, error } = await supabase
       .from("boards")
       .select("id, slots")
+      // A board's words belong to the language it was played in.
+      .eq("language_code", args.languageCode)
       .range(from, to);
 
     if (error) {
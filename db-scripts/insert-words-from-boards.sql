@@ -5,6 +5,9 @@
 --   \i db-scripts/insert-words-from-boards.sql
 --
 -- Or run directly in the Supabase SQL Editor
+--
+-- Each board's words are stored under the board's own language_code, so a
+-- Portuguese or French board adds to that language's word list, not English.
 
 -- Create a temp table to track counts
 CREATE TEMP TABLE IF NOT EXISTS _insert_stats (
@@ -17,8 +20,8 @@ TRUNCATE _insert_stats;
 -- Count words before insert
 INSERT INTO _insert_stats (words_before, unique_words_in_boards, words_after)
 SELECT
-    (SELECT COUNT(*) FROM words WHERE language_code = 'en'),
-    (SELECT COUNT(DISTINCT LOWER(TRIM(slot_obj->>'word')))
+    (SELECT COUNT(*) FROM words),
+    (SELECT COUNT(DISTINCT (language_code, LOWER(TRIM(slot_obj->>'word'))))
      FROM boards, jsonb_array_elements(slots) AS slot_obj
      WHERE slots IS NOT NULL
        AND jsonb_typeof(slots) = 'array'
@@ -30,13 +33,14 @@ SELECT
 INSERT INTO words (id, language_code, word, normalized_word, created_at, updated_at)
 SELECT
     gen_random_uuid() AS id,
-    'en' AS language_code,
+    extracted_words.language_code,
     LOWER(TRIM(slot_word)) AS word,
     LOWER(TRIM(slot_word)) AS normalized_word,
     NOW() AS created_at,
     NOW() AS updated_at
 FROM (
     SELECT DISTINCT
+        boards.language_code,
         slot_obj->>'word' AS slot_word
     FROM
         boards,
@@ -51,13 +55,13 @@ WHERE
     NOT EXISTS (
         SELECT 1
         FROM words w
-        WHERE w.language_code = 'en'
+        WHERE w.language_code = extracted_words.language_code
           AND w.normalized_word = LOWER(TRIM(slot_word))
     );
 
 -- Update words_after count
 UPDATE _insert_stats
-SET words_after = (SELECT COUNT(*) FROM words WHERE language_code = 'en');
+SET words_after = (SELECT COUNT(*) FROM words);
 
 -- Return results as a table (visible in Supabase SQL Editor)
 SELECT
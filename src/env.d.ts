@@ -5,6 +5,9 @@ declare namespace Cloudflare {
     SUPABASE_URL: string;
     SUPABASE_KEY: string;
     CORS_ALLOWED_ORIGINS?: string;
+    BOARD_WRITE_SECRET?: string;
+    TWITCH_CLIENT_ID?: string;
+    RATE_LIMITS?: string;
     MIN_WORD_LENGTH?: string;
     MAX_WORD_LENGTH?: string;
   }
@@ -1,20 +1,79 @@
 import { env } from 'cloudflare:workers';
+import { validateTwitchLogin } from '../scripts/twitch-channel';
 import { getCorsHeaders } from './cors';
 
 /**
- * Creates a JSON response with the API's shared CORS policy.
+ * Creates a JSON response with the API's shared CORS policy. `headers` are
+ * added to it, e.g. caching headers.
  */
 export function jsonResponse(
   body: unknown,
   request: Request,
   allowedMethods?: readonly string[],
   status = 200,
+  headers: Record<string, string> = {},
 ): Response {
   return new Response(JSON.stringify(body), {
     status,
     headers: {
       ...getCorsHeaders(request, env, allowedMethods),
+      ...headers,
       'Content-Type': 'application/json',
     },
   });
 }
+
+/**
+ * A 304 Not Modified with the API's shared CORS policy: the caller's cached
+ * copy (the one `If-None-Match` named) is still current. `headers` should
+ * repeat the caching headers the full response would have carried.
+ */
+export function notModifiedResponse(
+  request: Request,
+  allowedMethods?: readonly string[],
+  headers: Record<string, string> = {},
+): Response {
+  return new Response(null, {
+    status: 304,
+    headers: {
+      ...getCorsHeaders(request, env, allowedMethods),
+      ...headers,
+    },
+  });
+}
+
+/**
+ * True when the request's `If-None-Match` names `etag` (or is `*`). Weak and
+ * strong forms compare equal, as RFC 9110 asks for If-None-Match.
+ */
+export function matchesIfNoneMatch(request: Request, etag: string): boolean {
+  const header = request.headers.get('if-none-match');
+  if (!header) return false;
+  const strip = (tag: string) => tag.trim().replace(/^W\//, '');
+  return header.split(',').some(tag => tag.trim() === '*' || strip(tag) === strip(etag));
+}
+
+/**
+ * Validates the channel a channel-stats or player-stats route was asked
+ * about (specs/channel-stats.md § Naming a channel), the way
+ * normalizeTwitchChannel in ./board-utils reads one. Returns the cleaned
+ * login, or the 400 to answer with. `label` names a route's other login,
+ * such as the player, in the messages.
+ */
+export function validateChannelParam(
+  channel: string | undefined,
+  request: Request,
+  allowedMethods: readonly string[],
+  label: 'Channel' | 'Player' = 'Channel',
+): { channel: string } | { errorResponse: Response } {
+  const validation = validateTwitchLogin(channel);
+  if (!('error' in validation)) return { channel: validation.login };
+
+  const noun = label.toLowerCase();
+  const error = validation.error === 'required'
+    ? `${label} name is required`
+    : validation.error === 'format'
+      ? `Invalid ${noun} name format. Only lowercase letters, numbers, and underscores are allowed.`
+      : `Invalid ${noun} name length. Must be between 1 and 50 characters.`;
+  return { errorResponse: jsonResponse({ error }, request, allowedMethods, 400) };
+}
@@ -0,0 +1,257 @@
+import { normalizeLanguageCode, normalizeTwitchChannel } from './board-utils';
+import { isBoardNameSpelling } from './wos-letters';
+
+/**
+ * Reads the query string of GET /api/boards — the archive listing the /boards
+ * page browses (specs/boards.md § Browsing the archive). Every filter is
+ * optional; a value that is present but unusable is refused with a 400 in the
+ * `{ error, message, code }` shape the save path uses, rather than being
+ * ignored, so a typo can never pass for "no boards match".
+ *
+ * The listing is paged with a cursor rather than an offset: the cursor names
+ * the last board of the previous page, so a page never repeats or skips a
+ * board when new ones are captured while the archive is being read, and the
+ * archive never has to count past every earlier page to find it.
+ */
+
+export const DEFAULT_BOARD_PAGE_SIZE = 24;
+export const MAX_BOARD_PAGE_SIZE = 100;
+
+// The columns `fields` may ask for.
+export const BOARD_FIELDS = ['id', 'created_at', 'updated_at', 'slots', 'twitch_channel', 'language_code', 'slot_count'] as const;
+export type BoardField = typeof BOARD_FIELDS[number];
+
+// Always returned whatever `fields` says: they are the listing's sort order,
+// which the `next` cursor is made from.
+const CURSOR_FIELDS: readonly BoardField[] = ['id', 'created_at'];
+
+// Where a page starts: just after this board in the listing's order (newest
+// capture first, then by id).
+export interface BoardCursor {
+  createdAt: string;
+  id: string;
+}
+
+export interface BoardListQuery {
+  // Board ids start with this (upper-cased).
+  prefix?: string;
+  // Letters the board id must contain, each as many times as it is given
+  // (upper-cased, sorted).
+  letters?: string;
+  // Exact number of slots on the board.
+  slotCount?: number;
+  language?: string;
+  channel?: string;
+  // Captured at or after this instant (ISO 8601).
+  createdFrom?: string;
+  // Captured strictly before this instant (ISO 8601).
+  createdBefore?: string;
+  // Captured or repaired at or after this instant (ISO 8601).
+  since?: string;
+  // Columns to return, or undefined for all of them.
+  fields?: BoardField[];
+  // Absent for the first page.
+  cursor?: BoardCursor;
+  limit: number;
+}
+
+export interface BoardQueryError {
+  error: string;
+  message: string;
+  code: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+const invalid = (error: string, message: string, code: string): { error: BoardQueryError } =>
+  ({ error: { error, message, code } });
+
+/**
+ * Reads a whole number in `[min, max]`, or `fallback` when the parameter is
+ * absent. Returns null for anything else.
+ */
+function readInteger(value: string | null, min: number, max: number, fallback?: number): number | null | undefined {
+  if (value === null || value === '') return fallback;
+  if (!/^\d+$/.test(value)) return null;
+  const parsed = Number(value);
+  return parsed >= min && parsed <= max ? parsed : null;
+}
+
+/**
+ * A `from`/`to` bound as an instant. A bare date means the start of that day
+ * (UTC) for `from`; for `to` it means the whole day is included.
+ */
+function readDate(value: string, bound: 'from' | 'to' | 'since'): string | null {
+  const dateOnly = DATE_ONLY.test(value);
+  const time = Date.parse(dateOnly ? `${value}T00:00:00.000Z` : value);
+  if (Number.isNaN(time)) return null;
+  // `to` is stored as an exclusive upper bound so both forms query the same way.
+  const exclusive = bound === 'to' ? time + (dateOnly ? DAY_MS : 1) : time;
+  return new Date(exclusive).toISOString();
+}
+
+export function parseBoardListQuery(params: URLSearchParams): { query: BoardListQuery } | { error: BoardQueryError } {
+  const query: BoardListQuery = { limit: DEFAULT_BOARD_PAGE_SIZE };
+
+  const language = params.get('language');
+  if (language) {
+    const cleanLanguage = normalizeLanguageCode(language);
+    if (!cleanLanguage) {
+      return invalid('Unsupported word language', 'language must be one of en, pt or fr.', 'INVALID_LANGUAGE');
+    }
+    query.language = cleanLanguage;
+  }
+
+  // Names and letters are spelled the way board ids are stored: a Portuguese
+  // or French board's may carry accented letters (src/lib/wos-letters.ts).
+  const spelling = query.language ?? 'en';
+
+  const prefix = params.get('prefix');
+  if (prefix) {
+    const cleanPrefix = prefix.normalize('NFC').replace(/\s+/g, '').toUpperCase();
+    if (!isBoardNameSpelling(cleanPrefix, spelling) || cleanPrefix.length > 12) {
+      return invalid('Invalid board name prefix', 'prefix must be 1 to 12 letters.', 'INVALID_PREFIX');
+    }
+    query.prefix = cleanPrefix;
+  }
+
+  const letters = params.get('letters');
+  if (letters) {
+    const cleanLetters = letters.normalize('NFC').replace(/\s+/g, '').toUpperCase();
+    if (!isBoardNameSpelling(cleanLetters, spelling) || cleanLetters.length > 12) {
+      return invalid('Invalid letters', 'letters must be 1 to 12 letters.', 'INVALID_LETTERS');
+    }
+    query.letters = Array.from(cleanLetters).sort().join('');
+  }
+
+  const slotCount = readInteger(params.get('slots'), 1, 100);
+  if (slotCount === null) {
+    return invalid('Invalid slot count', 'slots must be a whole number from 1 to 100.', 'INVALID_SLOT_COUNT');
+  }
+  query.slotCount = slotCount;
+
+  const channel = params.get('channel');
+  if (channel) {
+    const cleanChannel = normalizeTwitchChannel(channel);
+    if (!cleanChannel) {
+      return invalid('Invalid channel name', 'channel must be a Twitch channel name.', 'INVALID_CHANNEL');
+    }
+    query.channel = cleanChannel;
+  }
+
+  for (const bound of ['from', 'to'] as const) {
+    const value = params.get(bound);
+    if (!value) continue;
+    const instant = readDate(value, bound);
+    if (!instant) {
+      return invalid('Invalid date', `${bound} must be a date (YYYY-MM-DD) or an ISO 8601 timestamp.`, 'INVALID_DATE');
+    }
+    if (bound === 'from') query.createdFrom = instant;
+    else query.createdBefore = instant;
+  }
+  if (query.createdFrom && query.createdBefore && query.createdFrom >= query.createdBefore) {
+    return invalid('Invalid date range', 'from must be earlier than to.', 'INVALID_DATE_RANGE');
+  }
+
+  const since = params.get('since');
+  if (since) {
+    const instant = readDate(since, 'since');
+    if (!instant) {
+      return invalid('Invalid date', 'since must be a date (YYYY-MM-DD) or an ISO 8601 timestamp.', 'INVALID_DATE');
+    }
+    query.since = instant;
+  }
+
+  const fields = params.get('fields');
+  if (fields) {
+    const requested = fields.split(',').map((field) => field.trim()).filter(Boolean);
+    const unknown = requested.filter((field) => !(BOARD_FIELDS as readonly string[]).includes(field));
+    if (requested.length === 0 || unknown.length > 0) {
+      return invalid(
+        'Invalid fields',
+        `fields must be a comma-separated list of ${BOARD_FIELDS.join(', ')}${unknown.length > 0 ? `; not ${unknown.join(', ')}` : ''}.`,
+        'INVALID_FIELDS',
+      );
+    }
+    query.fields = [...new Set([...CURSOR_FIELDS, ...requested as BoardField[]])];
+  }
+
+  const cursor = params.get('cursor');
+  if (cursor) {
+    const decoded = decodeBoardCursor(cursor);
+    if (!decoded) {
+      return invalid('Invalid cursor', 'cursor must be the next value from an earlier page of this listing.', 'INVALID_CURSOR');
+    }
+    query.cursor = decoded;
+  }
+
+  const limit = readInteger(params.get('limit'), 1, MAX_BOARD_PAGE_SIZE, DEFAULT_BOARD_PAGE_SIZE);
+  if (!limit) {
+    return invalid('Invalid limit', `limit must be a whole number from 1 to ${MAX_BOARD_PAGE_SIZE}.`, 'INVALID_LIMIT');
+  }
+  query.limit = limit;
+
+  return { query };
+}
+
+/**
+ * The LIKE patterns a board id must all match to contain `letters` (sorted):
+ * one per distinct letter, repeated as often as the letter is, so `OO`
+ * becomes `%O%O%` and needs two O's.
+ */
+export function containsLettersPatterns(letters: string): string[] {
+  const counts = new Map<string, number>();
+  for (const letter of letters) counts.set(letter, (counts.get(letter) ?? 0) + 1);
+  return [...counts].map(([letter, count]) => `%${`${letter}%`.repeat(count)}`);
+}
+
+// base64url, so a cursor can go in a query string as it is.
+export const toBase64Url = (text: string) =>
+  btoa(String.fromCharCode(...new TextEncoder().encode(text)))
+    .replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+export const fromBase64Url = (value: string) =>
+  new TextDecoder().decode(Uint8Array.from(atob(value.replace(/-/g, '+').replace(/_/g, '/')), (c) => c.charCodeAt(0)));
+
+/**
+ * The `next` cursor for a page whose last board is `board`. Opaque to
+ * callers: they only ever hand it back.
+ */
+export function encodeBoardCursor(board: { created_at: string; id: string }): string {
+  return toBase64Url(JSON.stringify([board.created_at, board.id]));
+}
+
+export function decodeBoardCursor(value: string): BoardCursor | null {
+  try {
+    const decoded: unknown = JSON.parse(fromBase64Url(value));
+    if (!Array.isArray(decoded) || decoded.length !== 2) return null;
+    const [createdAt, id] = decoded as unknown[];
+    if (typeof createdAt !== 'string' || Number.isNaN(Date.parse(createdAt))) return null;
+    if (typeof id !== 'string' || id === '') return null;
+    return { createdAt, id };
+  } catch {
+    return null;
+  }
+}
+
+// A value quoted for a PostgREST or=() filter, where `,`, `.`, `:` and
+// parentheses would otherwise be read as syntax.
+export const quoted = (value: string) => `"${value.replace(/[\\"]/g, '\\$&')}"`;
+
+/**
+ * The or=() filter for the boards after `cursor` in the listing's order:
+ * captured earlier, or captured at the same instant with a later id.
+ */
+export function afterCursorFilter(cursor: BoardCursor): string {
+  const createdAt = quoted(cursor.createdAt);
+  return `created_at.lt.${createdAt},and(created_at.eq.${createdAt},id.gt.${quoted(cursor.id)})`;
+}
+
+/**
+ * The or=() filter for boards captured or repaired since `since`. A board
+ * never repaired has no updated_at, so its capture time is all that counts.
+ */
+export function changedSinceFilter(since: string): string {
+  return `created_at.gte.${quoted(since)},updated_at.gte.${quoted(since)}`;
+}
@@ -5,6 +5,7 @@
 
 import { canFormWord } from '../scripts/wos-words';
 import { normalizeTwitchLogin } from '../scripts/twitch-channel';
+import { isBoardNameSpelling } from './wos-letters';
 
 /**
  * The `slots` column comes back from the database as a JSON string rather
@@ -70,11 +71,12 @@ export function hasRedundantWords(slots: unknown): boolean {
  * Returns the offending words (lower-cased, deduplicated). An empty array
  * means every word on the board is spellable from the big word. Reuses
  * `canFormWord`'s letter-frequency check from wos-words.ts rather than
- * re-implementing it. Slots without a usable `word` string are ignored, and a
- * missing or empty `bigWord` yields no findings, since there is then nothing
- * to check against.
+ * re-implementing it, with the letters compared the way WoS compares them in
+ * the board's `languageCode`. Slots without a usable `word` string are
+ * ignored, and a missing or empty `bigWord` yields no findings, since there is
+ * then nothing to check against.
  */
-export function findInvalidWords(slots: unknown, bigWord: string): string[] {
+export function findInvalidWords(slots: unknown, bigWord: string, languageCode: string = 'en'): string[] {
   const slotsArray = coerceSlots(slots);
   if (!slotsArray || typeof bigWord !== 'string' || bigWord.length === 0) {
     return [];
@@ -87,7 +89,7 @@ export function findInvalidWords(slots: unknown, bigWord: string): string[] {
     if (typeof word !== 'string' || word.length === 0) {
       continue;
     }
-    if (!canFormWord(word, bigWordLetters)) {
+    if (!canFormWord(word, bigWordLetters, languageCode)) {
       invalid.add(word.toLowerCase());
     }
   }
@@ -95,8 +97,74 @@ export function findInvalidWords(slots: unknown, bigWord: string): string[] {
   return [...invalid];
 }
 
-export function hasInvalidWords(slots: unknown, bigWord: string): boolean {
-  return findInvalidWords(slots, bigWord).length > 0;
+export function hasInvalidWords(slots: unknown, bigWord: string, languageCode: string = 'en'): boolean {
+  return findInvalidWords(slots, bigWord, languageCode).length > 0;
+}
+
+// The lower-cased words of a slots array (or its stored JSON string), skipping
+// slots without a usable word.
+function slotWords(slots: unknown): string[] {
+  return (coerceSlots(slots) ?? [])
+    .map((slot) => (slot && typeof slot === 'object' ? (slot as { word?: unknown }).word : undefined))
+    .filter((word): word is string => typeof word === 'string' && word.length > 0)
+    .map((word) => word.toLowerCase());
+}
+
+/**
+ * Returns the words (lower-cased, deduplicated) that are on one of two copies
+ * of a board but not the other. An empty array means the copies agree: the
+ * same words in the same number of slots, which is what a merge requires
+ * before it adds a capture to a stored board (specs/boards.md § Merging a
+ * board captured again). A stored copy whose slots can't be read has no
+ * words, so every word of the other copy disagrees with it.
+ */
+export function findDisagreeingWords(storedSlots: unknown, incomingSlots: unknown): string[] {
+  const stored = slotWords(storedSlots);
+  const incoming = slotWords(incomingSlots);
+  const disagreeing = new Set([
+    ...stored.filter((word) => !incoming.includes(word)),
+    ...incoming.filter((word) => !stored.includes(word)),
+  ]);
+  if (disagreeing.size === 0 && stored.length !== incoming.length) {
+    // Same words, different slot counts: whichever copy repeats a word.
+    return findRedundantWords(stored.length > incoming.length ? storedSlots : incomingSlots);
+  }
+  return [...disagreeing];
+}
+
+/**
+ * Adds one observation of every slot word to a board's stored counts (the
+ * `word_observations` column, db-scripts/add-contributions-to-boards.sql) and
+ * returns the new counts. Anything in `observations` that isn't a whole,
+ * non-negative count is dropped, so a freshly captured board can start from
+ * `{}` or null.
+ */
+export function addWordObservations(observations: unknown, slots: unknown): Record<string, number> {
+  const counts: Record<string, number> = {};
+  if (observations && typeof observations === 'object' && !Array.isArray(observations)) {
+    for (const [word, count] of Object.entries(observations)) {
+      if (Number.isInteger(count) && count >= 0) {
+        counts[word] = count;
+      }
+    }
+  }
+  for (const word of new Set(slotWords(slots))) {
+    counts[word] = (counts[word] ?? 0) + 1;
+  }
+  return counts;
+}
+
+/**
+ * Adds a channel to the channels a board has been captured from (the
+ * `channels` column) and returns the new list. The channel is expected to be
+ * normalized already (normalizeTwitchChannel); a missing one, or one already
+ * listed, leaves the list as it was.
+ */
+export function addContributingChannel(channels: unknown, channel: string | null | undefined): string[] {
+  const listed = Array.isArray(channels)
+    ? channels.filter((entry): entry is string => typeof entry === 'string')
+    : [];
+  return channel && !listed.includes(channel) ? [...listed, channel] : listed;
 }
 
 /**
@@ -121,16 +189,17 @@ export function isWellFormedSlot(slot: unknown): boolean {
  * `[id].ts`): letters only, 4-12 characters once whitespace is stripped and
  * the value is upper-cased. Shared with the save path (POST /api/boards,
  * issue #162) so a board can no longer be filed under a name the lookup path
- * will then always reject.
+ * will then always reject. Portuguese and French boards may also use accented
+ * letters (src/lib/wos-letters.ts), so `languageCode` is the board's language.
  */
-export function validateBoardName(id: unknown): { cleanId: string } | { error: string } {
+export function validateBoardName(id: unknown, languageCode: string = 'en'): { cleanId: string } | { error: string } {
   if (typeof id !== 'string' || id.length === 0) {
     return { error: 'Board ID is required' };
   }
 
-  const cleanId = id.replace(/\s+/g, '').toUpperCase();
+  const cleanId = id.normalize('NFC').replace(/\s+/g, '').toUpperCase();
 
-  if (!/^[A-Z]+$/.test(cleanId)) {
+  if (!isBoardNameSpelling(cleanId, languageCode)) {
     return { error: 'Invalid board ID format. Only letters are allowed.' };
   }
 
@@ -184,8 +253,7 @@ export function normalizeLanguageCode(code: unknown): string | null {
 /**
  * Normalizes a Twitch channel name for storage on a board (lowercase, no
  * leading '#'). Returns null when the value isn't a valid Twitch username
- * (letters, digits, underscores, max 50 chars) so callers can simply omit it —
- * the channel is informational and must never block a board from saving.
+ * (letters, digits, underscores, max 50 chars).
  */
 export function normalizeTwitchChannel(channel: unknown): string | null {
   return normalizeTwitchLogin(channel);
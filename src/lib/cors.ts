@@ -82,7 +82,8 @@ export function getCorsHeaders(
     ...(allowOrigin === undefined ? {} : { 'Access-Control-Allow-Origin': allowOrigin }),
     'Vary': 'Origin',
     'Access-Control-Allow-Methods': allowedMethods.join(', '),
-    'Access-Control-Allow-Headers': 'Content-Type',
+    // Authorization carries the write token board writes need (write-tokens.ts).
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
     'Access-Control-Max-Age': '86400', // 24 hours
   };
 }
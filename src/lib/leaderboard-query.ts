@@ -0,0 +1,140 @@
+import { fromBase64Url, quoted, toBase64Url, type BoardQueryError } from './board-query';
+
+/**
+ * Reads the query string of GET /api/leaderboard — channels that opted in,
+ * ranked by their highest level (specs/channel-stats.md § Ranking channels
+ * against each other) — and ranks each page it returns.
+ *
+ * The leaderboard is paged with a cursor, like the archive listing
+ * (./board-query.ts). Besides the last channel of the previous page, the
+ * cursor carries that channel's rank and position, so the next page goes on
+ * numbering where it left off and a tie across the page break keeps one rank.
+ */
+
+export const LEADERBOARD_MODES = ['all-time', 'daily'] as const;
+export type LeaderboardMode = typeof LEADERBOARD_MODES[number];
+
+export const DEFAULT_LEADERBOARD_PAGE_SIZE = 25;
+export const MAX_LEADERBOARD_PAGE_SIZE = 100;
+
+// Where a page starts: just after this channel in the leaderboard's order
+// (highest level first, then by channel).
+export interface LeaderboardCursor {
+  highestLevel: number;
+  channel: string;
+  // The channel's rank, and its place in the order (1 for the first channel);
+  // the two differ after a tie.
+  rank: number;
+  position: number;
+}
+
+export interface LeaderboardQuery {
+  mode: LeaderboardMode;
+  // The UTC day a daily leaderboard is for (YYYY-MM-DD); absent for all-time.
+  date?: string;
+  // Absent for the first page.
+  cursor?: LeaderboardCursor;
+  limit: number;
+}
+
+export interface RankedChannel {
+  rank: number;
+  channel: string;
+  highestLevel: number;
+}
+
+const invalid = (error: string, message: string, code: string): { error: BoardQueryError } =>
+  ({ error: { error, message, code } });
+
+// What a cursor is good for: one mode, and for a daily leaderboard one day,
+// so a page of yesterday's leaderboard can't continue today's.
+const cursorScope = (query: Pick<LeaderboardQuery, 'mode' | 'date'>) => query.date ?? query.mode;
+
+/**
+ * `todayUtc` is the day a daily leaderboard is for; it is passed in so the
+ * whole request agrees on one day, the way the channel-stats route computes
+ * it once.
+ */
+export function parseLeaderboardQuery(params: URLSearchParams, todayUtc: string): { query: LeaderboardQuery } | { error: BoardQueryError } {
+  const mode = params.get('mode') || 'all-time';
+  if (!(LEADERBOARD_MODES as readonly string[]).includes(mode)) {
+    return invalid('Invalid leaderboard mode', `mode must be one of ${LEADERBOARD_MODES.join(' or ')}.`, 'INVALID_MODE');
+  }
+  const query: LeaderboardQuery = { mode: mode as LeaderboardMode, limit: DEFAULT_LEADERBOARD_PAGE_SIZE };
+  if (query.mode === 'daily') query.date = todayUtc;
+
+  const limit = params.get('limit');
+  if (limit) {
+    const parsed = /^\d+$/.test(limit) ? Number(limit) : NaN;
+    if (!(parsed >= 1 && parsed <= MAX_LEADERBOARD_PAGE_SIZE)) {
+      return invalid('Invalid limit', `limit must be a whole number from 1 to ${MAX_LEADERBOARD_PAGE_SIZE}.`, 'INVALID_LIMIT');
+    }
+    query.limit = parsed;
+  }
+
+  const cursor = params.get('cursor');
+  if (cursor) {
+    const decoded = decodeLeaderboardCursor(cursor, cursorScope(query));
+    if (!decoded) {
+      return invalid('Invalid cursor', 'cursor must be the next value from an earlier page of this leaderboard.', 'INVALID_CURSOR');
+    }
+    query.cursor = decoded;
+  }
+
+  return { query };
+}
+
+/**
+ * The `next` cursor for a page whose last channel is `last`, at `position`
+ * in the order. Opaque to callers: they only ever hand it back.
+ */
+export function encodeLeaderboardCursor(query: Pick<LeaderboardQuery, 'mode' | 'date'>, last: RankedChannel, position: number): string {
+  return toBase64Url(JSON.stringify([cursorScope(query), last.highestLevel, last.channel, last.rank, position]));
+}
+
+export function decodeLeaderboardCursor(value: string, scope: string): LeaderboardCursor | null {
+  try {
+    const decoded: unknown = JSON.parse(fromBase64Url(value));
+    if (!Array.isArray(decoded) || decoded.length !== 5) return null;
+    const [decodedScope, highestLevel, channel, rank, position] = decoded as unknown[];
+    if (decodedScope !== scope) return null;
+    if (typeof channel !== 'string' || channel === '') return null;
+    const counts = [highestLevel, rank, position];
+    if (!counts.every((count) => Number.isInteger(count) && (count as number) >= 0)) return null;
+    if ((rank as number) < 1 || (rank as number) > (position as number)) return null;
+    return { highestLevel: highestLevel as number, channel, rank: rank as number, position: position as number };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The or=() filter for the channels after `cursor` in the leaderboard's
+ * order: a lower level, or the same level and a later name.
+ */
+export function afterLeaderboardCursorFilter(cursor: LeaderboardCursor): string {
+  return `highest_level.lt.${cursor.highestLevel},and(highest_level.eq.${cursor.highestLevel},channel.gt.${quoted(cursor.channel)})`;
+}
+
+/**
+ * Ranks a page of channels, already in the leaderboard's order, carrying on
+ * from `cursor` when the page isn't the first. Channels on the same level
+ * share a rank and the next level down skips the places they took, so two
+ * channels tied for first are followed by third.
+ */
+export function rankChannels<T extends { channel: string; highestLevel: number }>(
+  channels: T[],
+  cursor?: LeaderboardCursor,
+): Array<T & { rank: number }> {
+  let position = cursor?.position ?? 0;
+  let rank = cursor?.rank ?? 0;
+  let level = cursor?.highestLevel;
+  return channels.map((channel) => {
+    position += 1;
+    if (channel.highestLevel !== level) {
+      rank = position;
+      level = channel.highestLevel;
+    }
+    return { rank, ...channel };
+  });
+}
@@ -0,0 +1,130 @@
+import { env } from 'cloudflare:workers';
+import { jsonResponse } from './api-utils';
+
+/**
+ * Per-IP, per-route request throttling for the public API routes.
+ *
+ * Each route allows a caller so many requests a minute; the next one inside
+ * the same minute is answered 429 with a `Retry-After`, through jsonResponse
+ * so a browser can still read why. Preflights are never counted.
+ *
+ * Counts are kept in the worker isolate's memory, so each isolate limits on
+ * its own and a restart forgets them. That is enough to stop one caller
+ * hammering a route (a reload loop re-reading /api/words, a script walking
+ * the archive) without a storage binding; it is not a global quota.
+ */
+
+/** The routes that are throttled, as their Astro route patterns. */
+export type RateLimitedRoute =
+  | '/api/boards'
+  | '/api/boards/[id]'
+  | '/api/boards/by-letters/[letters]'
+  | '/api/channel-stats/[channel]'
+  | '/api/channel-stats/[channel]/boards'
+  | '/api/channel-stats/[channel]/history'
+  | '/api/leaderboard'
+  | '/api/leaderboard/[channel]'
+  | '/api/player-stats/[channel]'
+  | '/api/player-stats/[channel]/[player]'
+  | '/api/words'
+  | '/api/write-token';
+
+/**
+ * Requests a minute one caller may make to each route. `/api/words` is the
+ * lowest of the reads because a miss pages through the whole word list; a
+ * view reads it once and revalidates with If-None-Match after that.
+ * `/api/player-stats/[channel]/[player]` is the highest because the
+ * streamer's view reports every player who scored, all at once, as each level
+ * ends.
+ */
+export const DEFAULT_RATE_LIMITS: Readonly<Record<RateLimitedRoute, number>> = {
+  '/api/boards': 60,
+  '/api/boards/[id]': 120,
+  '/api/boards/by-letters/[letters]': 120,
+  '/api/channel-stats/[channel]': 60,
+  '/api/channel-stats/[channel]/boards': 30,
+  '/api/channel-stats/[channel]/history': 30,
+  '/api/leaderboard': 30,
+  '/api/leaderboard/[channel]': 30,
+  '/api/player-stats/[channel]': 30,
+  '/api/player-stats/[channel]/[player]': 240,
+  '/api/words': 20,
+  '/api/write-token': 10,
+};
+
+const WINDOW_MS = 60 * 1000;
+
+// Past this many tracked callers, windows that have ended are swept before a
+// new one is added, so the map can't grow without bound.
+const MAX_TRACKED_WINDOWS = 10_000;
+
+// `${route} ${ip}` → the caller's current window on that route.
+const windows = new Map<string, { startedAt: number; count: number }>();
+
+/**
+ * Parses the RATE_LIMITS environment variable: comma-separated
+ * `route=limit` pairs overriding DEFAULT_RATE_LIMITS, where a limit of 0
+ * turns throttling off for that route. Unknown routes and limits that aren't
+ * whole numbers are ignored.
+ * Example: "/api/words=30,/api/boards=0"
+ */
+export function parseRateLimits(envValue: string | undefined): Record<RateLimitedRoute, number> {
+  const limits = { ...DEFAULT_RATE_LIMITS };
+  for (const entry of (envValue ?? '').split(',')) {
+    const [route, limit] = entry.split('=').map((part) => part.trim());
+    if (route in limits && /^\d+$/.test(limit ?? '')) {
+      limits[route as RateLimitedRoute] = Number(limit);
+    }
+  }
+  return limits;
+}
+
+function sweepEndedWindows(now: number): void {
+  for (const [key, window] of windows) {
+    if (now - window.startedAt >= WINDOW_MS) {
+      windows.delete(key);
+    }
+  }
+}
+
+/**
+ * Counts a request against its caller's limit on `route`. Returns null when
+ * it may go ahead, otherwise the 429 to send. The caller is the
+ * `CF-Connecting-IP` Cloudflare puts on every request it proxies; a request
+ * without one didn't come through Cloudflare's edge (local development) and
+ * isn't throttled.
+ */
+export function rateLimit(
+  request: Request,
+  route: RateLimitedRoute,
+  allowedMethods?: readonly string[],
+  now: number = Date.now(),
+): Response | null {
+  const ip = request.headers.get('cf-connecting-ip');
+  const limit = parseRateLimits(env.RATE_LIMITS)[route];
+  if (!ip || limit === 0) {
+    return null;
+  }
+
+  const key = `${route} ${ip}`;
+  let window = windows.get(key);
+  if (!window || now - window.startedAt >= WINDOW_MS) {
+    if (!window && windows.size >= MAX_TRACKED_WINDOWS) {
+      sweepEndedWindows(now);
+    }
+    window = { startedAt: now, count: 0 };
+    windows.set(key, window);
+  }
+
+  window.count += 1;
+  if (window.count <= limit) {
+    return null;
+  }
+
+  const retryAfter = Math.ceil((window.startedAt + WINDOW_MS - now) / 1000);
+  return jsonResponse({
+    error: 'Too many requests',
+    message: `Too many requests to ${route}. Try again in ${retryAfter} seconds.`,
+    code: 'RATE_LIMITED',
+  }, request, allowedMethods, 429, { 'Retry-After': String(retryAfter) });
+}
@@ -0,0 +1,39 @@
+// Checks a Twitch user access token against Twitch's own validate endpoint
+// (https://dev.twitch.tv/docs/authentication/validate-tokens/), so the
+// archive can tell who is asking for a write token (specs/boards.md § Write
+// access). The token comes from the overlay's "Sign in with Twitch"
+// (src/scripts/twitch-login.ts); it needs no scopes, since only the login it
+// was issued to is read.
+
+const TWITCH_VALIDATE_ENDPOINT = 'https://id.twitch.tv/oauth2/validate';
+
+export interface TwitchLogin {
+  // The Twitch login (lowercase username) the token was issued to.
+  login: string;
+  // The Twitch application the token was issued through.
+  clientId: string;
+}
+
+/**
+ * The login a Twitch user access token belongs to, or null when Twitch does
+ * not accept the token (expired, revoked, or not a token at all). Throws when
+ * Twitch cannot be asked, so the caller can tell an outage from a bad token.
+ */
+export async function validateTwitchToken(token: string): Promise<TwitchLogin | null> {
+  const response = await fetch(TWITCH_VALIDATE_ENDPOINT, {
+    headers: { Authorization: `OAuth ${token}` },
+  });
+
+  if (response.status === 401) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`Twitch token validation failed: ${response.status} ${response.statusText}`);
+  }
+
+  const body = await response.json() as { login?: unknown; client_id?: unknown };
+  if (typeof body.login !== 'string' || typeof body.client_id !== 'string') {
+    return null;
+  }
+  return { login: body.login.toLowerCase(), clientId: body.client_id };
+}
@@ -0,0 +1,43 @@
+// How Words on Stream compares letters in each of its languages. English
+// tiles are plain A–Z. Portuguese and French boards also deal accented tiles
+// (Ç, É, Ã, …), and WoS treats an accented letter as its plain one: a player
+// who types `acao` has found `AÇÃO`, and a Ç tile can stand wherever a word
+// needs a C. Every comparison of a word with tiles, another word or a board
+// name goes through foldLetters so the two sides agree.
+
+const ACCENT_FOLDING_LANGUAGES = new Set(['pt', 'fr']);
+
+/**
+ * `text` lower-cased and, for a language whose tiles carry accents, with the
+ * accents removed (`AÇÃO` → `acao`). Characters are kept one for one, so the
+ * result lines up with the original letter by letter.
+ */
+export function foldLetters(text: string, languageCode: string = 'en'): string {
+  const lower = text.normalize('NFC').toLowerCase();
+  if (!ACCENT_FOLDING_LANGUAGES.has(languageCode)) {
+    return lower;
+  }
+  return Array.from(lower, letter => letter.normalize('NFD').replace(/\p{M}+/gu, '')).join('');
+}
+
+/**
+ * True when `name` (already upper-cased, no spaces) is spelled only with
+ * letters a `languageCode` board can have: A–Z for English, and A–Z with or
+ * without an accent for Portuguese and French.
+ */
+export function isBoardNameSpelling(name: string, languageCode: string = 'en'): boolean {
+  if (!ACCENT_FOLDING_LANGUAGES.has(languageCode)) {
+    return /^[A-Z]+$/.test(name);
+  }
+  const folded = foldLetters(name, languageCode);
+  return /^\p{L}+$/u.test(name) && /^[a-z]+$/.test(folded) && folded.length === name.length;
+}
+
+/**
+ * The letters of `text` folded as `languageCode` compares them and sorted, so
+ * every anagram of a word — and the tiles that spell it, in any order — share
+ * one signature (`CAUTION` and `AUCTION` are both `acinotu`).
+ */
+export function lettersSignature(text: string, languageCode: string = 'en'): string {
+  return Array.from(foldLetters(text, languageCode)).sort().join('');
+}
@@ -0,0 +1,157 @@
+// Signed write tokens for the board archive (specs/boards.md § Write access).
+// POST /api/write-token issues one to an overlay signed in to Twitch as the
+// channel it is connected to, and the routes that write boards
+// (POST /api/boards, PUT /api/boards/[id]) refuse a write without a current
+// one.
+//
+// A token is `<channel>.<expiry>.<signature>`: the Twitch channel it was
+// issued to, when it expires (epoch seconds) and an HMAC-SHA256 of both under
+// the BOARD_WRITE_SECRET binding, base64url-encoded. Checking one needs only
+// the secret, so nothing about issued tokens is stored, and rotating the
+// secret revokes every token at once.
+
+import { env } from 'cloudflare:workers';
+import { jsonResponse } from './api-utils';
+import { normalizeTwitchChannel } from './board-utils';
+
+/** How long a write token stays valid. The overlay asks for a new one before then. */
+export const WRITE_TOKEN_TTL_SECONDS = 60 * 60;
+
+export interface WriteToken {
+  token: string;
+  channel: string;
+  // ISO 8601.
+  expiresAt: string;
+}
+
+async function signingKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify'],
+  );
+}
+
+function toBase64Url(bytes: ArrayBuffer): string {
+  return btoa(String.fromCharCode(...new Uint8Array(bytes)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array<ArrayBuffer> | null {
+  if (!/^[A-Za-z0-9_-]+$/.test(text)) return null;
+  try {
+    const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Issues a write token for `channel`, which is expected to be normalized
+ * already (normalizeTwitchChannel), valid for WRITE_TOKEN_TTL_SECONDS from
+ * `now`.
+ */
+export async function issueWriteToken(channel: string, secret: string, now: number = Date.now()): Promise<WriteToken> {
+  const expires = Math.floor(now / 1000) + WRITE_TOKEN_TTL_SECONDS;
+  const payload = `${channel}.${expires}`;
+  const signature = await crypto.subtle.sign('HMAC', await signingKey(secret), new TextEncoder().encode(payload));
+  return {
+    token: `${payload}.${toBase64Url(signature)}`,
+    channel,
+    expiresAt: new Date(expires * 1000).toISOString(),
+  };
+}
+
+/**
+ * Checks a write token against `secret`. Returns the channel it was issued to,
+ * or why it can't be accepted: missing, not shaped like a token, signed with
+ * another secret (or altered since), or expired as of `now`.
+ */
+export async function verifyWriteToken(token: unknown, secret: string, now: number = Date.now()): Promise<{ channel: string } | { error: string }> {
+  if (typeof token !== 'string' || token.length === 0) {
+    return { error: 'A write token is required.' };
+  }
+
+  const [channel, expires, signature, ...rest] = token.split('.');
+  const signatureBytes = signature ? fromBase64Url(signature) : null;
+  if (rest.length > 0 || !channel || !/^\d+$/.test(expires ?? '') || !signatureBytes) {
+    return { error: 'The write token is malformed.' };
+  }
+
+  // crypto.subtle.verify compares in constant time.
+  const isSigned = await crypto.subtle.verify(
+    'HMAC',
+    await signingKey(secret),
+    signatureBytes,
+    new TextEncoder().encode(`${channel}.${expires}`),
+  );
+  if (!isSigned) {
+    return { error: 'The write token is not valid.' };
+  }
+
+  if (Number(expires) * 1000 <= now) {
+    return { error: 'The write token has expired.' };
+  }
+
+  return { channel };
+}
+
+/**
+ * The bearer token on a request's `Authorization` header, or null when it
+ * carries none: a write token on a board write, the caller's Twitch access
+ * token when one is asked for.
+ */
+export function bearerTokenFrom(request: Request): string | null {
+  const match = /^Bearer\s+(\S+)$/i.exec(request.headers.get('authorization')?.trim() ?? '');
+  return match ? match[1] : null;
+}
+
+/**
+ * The write check shared by the routes that write boards. Returns null when
+ * the request carries a current token and the write names the channel the
+ * token was issued to; otherwise the response to send.
+ */
+export async function authorizeBoardWrite(
+  request: Request,
+  twitchChannel: unknown,
+  allowedMethods: readonly string[],
+): Promise<Response | null> {
+  const secret = env.BOARD_WRITE_SECRET;
+  if (!secret) {
+    console.error('Refusing a board write: BOARD_WRITE_SECRET is not set.');
+    return jsonResponse({
+      error: 'Board writes are not configured',
+      message: 'The archive cannot check write tokens right now.',
+      code: 'WRITE_TOKENS_NOT_CONFIGURED',
+    }, request, allowedMethods, 503);
+  }
+
+  const verified = await verifyWriteToken(bearerTokenFrom(request), secret);
+  if ('error' in verified) {
+    return jsonResponse({
+      error: 'Invalid write token',
+      message: verified.error,
+      code: 'INVALID_WRITE_TOKEN',
+    }, request, allowedMethods, 401);
+  }
+
+  // A write that names no channel is refused too, or a token for one channel
+  // could write boards without saying whose they are.
+  const cleanTwitchChannel = normalizeTwitchChannel(twitchChannel);
+  if (cleanTwitchChannel !== verified.channel) {
+    return jsonResponse({
+      error: 'Invalid write token',
+      message: cleanTwitchChannel
+        ? `The write token was issued to ${verified.channel}, not ${cleanTwitchChannel}.`
+        : `The write token was issued to ${verified.channel}; the write must name that channel.`,
+      code: 'INVALID_WRITE_TOKEN',
+    }, request, allowedMethods, 403);
+  }
+
+  return null;
+}
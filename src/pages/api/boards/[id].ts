@@ -1,9 +1,12 @@
 import type { APIRoute } from 'astro';
 import { env } from 'cloudflare:workers';
 import { jsonResponse } from '../../../lib/api-utils';
-import { findRedundantWords, hasInvalidWords, hasRedundantWords, isWellFormedSlot, normalizeLanguageCode, normalizeTwitchChannel, validateBoardName } from '../../../lib/board-utils';
+import { addContributingChannel, addWordObservations, findRedundantWords, hasInvalidWords, hasRedundantWords, isWellFormedSlot, normalizeLanguageCode, normalizeTwitchChannel, validateBoardName } from '../../../lib/board-utils';
 import { createCorsPreflightResponse } from '../../../lib/cors';
+import { rateLimit } from '../../../lib/rate-limit';
 import { getSupabaseClient } from '../../../lib/supabase';
+import { lettersSignature } from '../../../lib/wos-letters';
+import { authorizeBoardWrite } from '../../../lib/write-tokens';
 
 export const prerender = false;
 
@@ -14,9 +17,12 @@ const ALLOWED_METHODS = ['GET', 'PUT', 'OPTIONS'] as const;
 // Returns the cleaned ID, or an error response when validation fails.
 // The rules themselves live in `validateBoardName` (src/lib/board-utils.ts),
 // shared with the POST save path (issue #162); this just shapes the result
-// into the Response this route's callers expect.
+// into the Response this route's callers expect. A Portuguese or French board
+// may be named with accented letters, so callers say which language the name
+// is in with `?lang=` (English when absent).
 function validateBoardId(id: string | undefined, request: Request): { cleanId: string } | { errorResponse: Response } {
-  const result = validateBoardName(id);
+  const languageCode = normalizeLanguageCode(new URL(request.url).searchParams.get('lang')) ?? 'en';
+  const result = validateBoardName(id, languageCode);
   if ('error' in result) {
     return {
       errorResponse: jsonResponse({ error: result.error }, request, ALLOWED_METHODS, 400),
@@ -30,6 +36,9 @@ export const OPTIONS: APIRoute = ({ request }) =>
   createCorsPreflightResponse(request, env, ALLOWED_METHODS);
 
 export const GET: APIRoute = async ({ params, request }) => {
+  const limited = rateLimit(request, '/api/boards/[id]', ALLOWED_METHODS);
+  if (limited) return limited;
+
   const validation = validateBoardId(params.id, request);
   if ('errorResponse' in validation) {
     return validation.errorResponse;
@@ -68,6 +77,9 @@ export const GET: APIRoute = async ({ params, request }) => {
 // broken by one of those rules AND the incoming slots are clean, so a healthy
 // board can never be overwritten through this endpoint.
 export const PUT: APIRoute = async ({ params, request }) => {
+  const limited = rateLimit(request, '/api/boards/[id]', ALLOWED_METHODS);
+  if (limited) return limited;
+
   const validation = validateBoardId(params.id, request);
   if ('errorResponse' in validation) {
     return validation.errorResponse;
@@ -81,6 +93,10 @@ export const PUT: APIRoute = async ({ params, request }) => {
     return jsonResponse({ error: 'Invalid JSON body' }, request, ALLOWED_METHODS, 400);
   }
 
+  // A repair needs a write token just as a capture does (src/lib/write-tokens.ts).
+  const denied = await authorizeBoardWrite(request, body?.twitch_channel, ALLOWED_METHODS);
+  if (denied) return denied;
+
   const slots = body?.slots;
   if (!Array.isArray(slots) || slots.length === 0) {
     return jsonResponse({ error: 'slots must be a non-empty array' }, request, ALLOWED_METHODS, 400);
@@ -116,7 +132,8 @@ export const PUT: APIRoute = async ({ params, request }) => {
     }
 
     const isStoredBoardSound =
-      !hasRedundantWords(existingBoard?.slots) && !hasInvalidWords(existingBoard?.slots, cleanId);
+      !hasRedundantWords(existingBoard?.slots) &&
+      !hasInvalidWords(existingBoard?.slots, cleanId, normalizeLanguageCode(existingBoard?.language_code) ?? 'en');
     if (isStoredBoardSound) {
       return jsonResponse({
         error: 'Board update not allowed',
@@ -125,17 +142,33 @@ export const PUT: APIRoute = async ({ params, request }) => {
       }, request, ALLOWED_METHODS, 409);
     }
 
-    // Also record (or back-fill) the channel the clean capture came from when
-    // a valid one is provided; invalid values are dropped, not rejected.
+    // Also record (or back-fill) the channel the clean capture came from:
+    // authorizeBoardWrite has checked it is the write token's channel.
     // updated_at is intentionally absent from the payload: a database trigger
     // (db-scripts/add-updated-at-to-boards.sql) stamps it on every UPDATE so
     // it always reflects server time regardless of how the row was changed.
-    // The board's word language (issue #124) is treated the same way: a valid
-    // code is recorded (or back-filled) with the clean capture, an invalid or
-    // missing one leaves the stored value untouched.
+    // The board's word language (issue #124) is recorded (or back-filled) the
+    // same way when a valid code is provided; an invalid or missing one
+    // leaves the stored value untouched.
+    // The letters signature (see POST) is written on every repair too, in
+    // the language the board ends up with, which back-fills boards captured
+    // before the column existed.
+    // The repair also counts as a fresh capture of the board
+    // (db-scripts/add-contributions-to-boards.sql): the observation counts
+    // start again from the clean slots, since the ones kept for the corrupted
+    // words meant nothing, and its channel joins the board's channels.
     const cleanTwitchChannel = normalizeTwitchChannel(body?.twitch_channel);
     const cleanLanguageCode = normalizeLanguageCode(body?.language_code);
-    const updatePayload: Record<string, unknown> = { slots };
+    const updatePayload: Record<string, unknown> = {
+      slots,
+      letters_signature: lettersSignature(
+        cleanId,
+        cleanLanguageCode ?? normalizeLanguageCode(existingBoard?.language_code) ?? 'en',
+      ),
+      word_observations: addWordObservations(null, slots),
+      channels: addContributingChannel(existingBoard?.channels, cleanTwitchChannel),
+      last_seen_at: new Date().toISOString(),
+    };
     if (cleanTwitchChannel) {
       updatePayload.twitch_channel = cleanTwitchChannel;
     }
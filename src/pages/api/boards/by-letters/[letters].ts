@@ -0,0 +1,69 @@
+import type { APIRoute } from 'astro';
+import { env } from 'cloudflare:workers';
+import { jsonResponse } from '../../../../lib/api-utils';
+import { normalizeLanguageCode, validateBoardName } from '../../../../lib/board-utils';
+import { createCorsPreflightResponse } from '../../../../lib/cors';
+import { rateLimit } from '../../../../lib/rate-limit';
+import { getSupabaseClient } from '../../../../lib/supabase';
+import { lettersSignature } from '../../../../lib/wos-letters';
+
+export const prerender = false;
+
+const ALLOWED_METHODS = ['GET', 'OPTIONS'] as const;
+
+// Handle CORS preflight requests (issue #172).
+export const OPTIONS: APIRoute = ({ request }) =>
+  createCorsPreflightResponse(request, env, ALLOWED_METHODS);
+
+// Looks a board up by its letters rather than its name, so a view can find
+// the board as soon as a level's tiles are dealt instead of once the big word
+// is guessed. The letters may come in any order; a board matches when its big
+// word uses exactly those letters, compared the way WoS compares them in the
+// `?lang=` language (English when absent). They follow the board-name rules
+// (letters only, 4-12 of them), since they spell a big word.
+//
+// Every board records its letters_signature when it is captured or repaired
+// (db-scripts/add-letters-signature-to-boards.sql), so this is one indexed
+// query. Signatures are accent-folded, so the same letters can file an
+// English, French and Portuguese board alike; only a board in the asked-for
+// language matches. When several stored boards match — anagram ids saved before ids
+// were canonicalized — the alphabetically last wins, as it does for
+// determineBoardId.
+export const GET: APIRoute = async ({ params, request }) => {
+  const limited = rateLimit(request, '/api/boards/by-letters/[letters]', ALLOWED_METHODS);
+  if (limited) return limited;
+
+  const languageCode = normalizeLanguageCode(new URL(request.url).searchParams.get('lang')) ?? 'en';
+  const validation = validateBoardName(params.letters, languageCode);
+  if ('error' in validation) {
+    return jsonResponse({
+      error: 'Invalid letters',
+      message: 'letters must be 4 to 12 letters.',
+      code: 'INVALID_LETTERS',
+    }, request, ALLOWED_METHODS, 400);
+  }
+  const letters = validation.cleanId;
+
+  try {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('boards')
+      .select('*')
+      .eq('letters_signature', lettersSignature(letters, languageCode))
+      .eq('language_code', languageCode)
+      .order('id', { ascending: false })
+      .limit(1);
+    if (error) throw error;
+
+    const board = data?.[0];
+    if (!board) {
+      return jsonResponse({ error: 'Board not found' }, request, ALLOWED_METHODS, 404);
+    }
+
+    return jsonResponse(board, request, ALLOWED_METHODS);
+  } catch (error) {
+    console.error('Error fetching board by letters:', error);
+    return jsonResponse({ error: (error as Error).message }, request, ALLOWED_METHODS, 500);
+  }
+};
@@ -1,26 +1,74 @@
 import type { APIRoute } from 'astro';
 import { env } from 'cloudflare:workers';
 import { jsonResponse } from '../../../lib/api-utils';
-import { findRedundantWords, isWellFormedSlot, normalizeLanguageCode, normalizeTwitchChannel, validateBoardName } from '../../../lib/board-utils';
+import { afterCursorFilter, changedSinceFilter, containsLettersPatterns, encodeBoardCursor, parseBoardListQuery } from '../../../lib/board-query';
+import { addContributingChannel, addWordObservations, findDisagreeingWords, findRedundantWords, isWellFormedSlot, normalizeLanguageCode, normalizeTwitchChannel, validateBoardName } from '../../../lib/board-utils';
 import { createCorsPreflightResponse } from '../../../lib/cors';
+import { rateLimit } from '../../../lib/rate-limit';
 import { getSupabaseClient } from '../../../lib/supabase';
+import { lettersSignature } from '../../../lib/wos-letters';
+import { authorizeBoardWrite } from '../../../lib/write-tokens';
 
 export const prerender = false;
 const ALLOWED_METHODS = ['GET', 'POST', 'OPTIONS'] as const;
 
+// How many times a merge re-reads the stored board after another capture
+// merged into it first, before giving up.
+const MERGE_ATTEMPTS = 3;
+
 // Handle CORS preflight requests (issue #172).
 export const OPTIONS: APIRoute = ({ request }) =>
   createCorsPreflightResponse(request, env, ALLOWED_METHODS);
 
+// Lists the archive a page at a time, newest capture first, narrowed by the
+// filters in src/lib/board-query.ts. `next` is the cursor for the page after
+// this one, or null when this page is the last.
 export const GET: APIRoute = async ({ request }) => {
+  const limited = rateLimit(request, '/api/boards', ALLOWED_METHODS);
+  if (limited) return limited;
+
+  const parsed = parseBoardListQuery(new URL(request.url).searchParams);
+  if ('error' in parsed) {
+    return jsonResponse(parsed.error, request, ALLOWED_METHODS, 400);
+  }
+  const { query } = parsed;
+
   try {
     const supabase = getSupabaseClient();
-    const { data, error } = await supabase
+    let select = supabase
       .from('boards')
-      .select('*');
+      .select(query.fields ? query.fields.join(',') : '*');
+
+    if (query.prefix) select = select.like('id', `${query.prefix}%`);
+    if (query.letters) {
+      for (const pattern of containsLettersPatterns(query.letters)) {
+        select = select.like('id', pattern);
+      }
+    }
+    // slot_count is generated from slots (db-scripts/add-slot-count-to-boards.sql).
+    if (query.slotCount !== undefined) select = select.eq('slot_count', query.slotCount);
+    if (query.language) select = select.eq('language_code', query.language);
+    if (query.channel) select = select.eq('twitch_channel', query.channel);
+    if (query.createdFrom) select = select.gte('created_at', query.createdFrom);
+    if (query.createdBefore) select = select.lt('created_at', query.createdBefore);
+    if (query.since) select = select.or(changedSinceFilter(query.since));
+    if (query.cursor) select = select.or(afterCursorFilter(query.cursor));
+
+    // One board more than the page holds says whether there is a next page
+    // without a second request or a count.
+    const { data, error } = await select
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: true })
+      .limit(query.limit + 1);
     if (error) throw error;
 
-    return jsonResponse(data, request, ALLOWED_METHODS);
+    const boards = (data as unknown as { id: string; created_at: string }[]).slice(0, query.limit);
+    const hasMore = data.length > query.limit;
+    return jsonResponse({
+      boards,
+      limit: query.limit,
+      next: hasMore ? encodeBoardCursor(boards[boards.length - 1]) : null,
+    }, request, ALLOWED_METHODS);
   } catch (error: any) {
     console.error('Error fetching boards:', error);
     return jsonResponse({ error: error.message }, request, ALLOWED_METHODS, 500);
@@ -28,6 +76,9 @@ export const GET: APIRoute = async ({ request }) => {
 };
 
 export const POST: APIRoute = async ({ request }) => {
+  const limited = rateLimit(request, '/api/boards', ALLOWED_METHODS);
+  if (limited) return limited;
+
   // An unreadable body must be answered, not thrown: an uncaught parse error
   // escapes the handler and becomes an Astro error page with no CORS headers,
   // which a browser caller can only see as an opaque network failure. The
@@ -41,13 +92,21 @@ export const POST: APIRoute = async ({ request }) => {
     return jsonResponse({ error: 'Invalid JSON body' }, request, ALLOWED_METHODS, 400);
   }
 
+  // Only an overlay holding a current write token for the capture's channel
+  // may save (src/lib/write-tokens.ts).
+  const denied = await authorizeBoardWrite(request, body?.twitch_channel, ALLOWED_METHODS);
+  if (denied) return denied;
+
   // Guard (issue #162): the save path must apply the same board-name rule
   // lookup and repair already enforce (specs/boards.md § Naming a board).
   // Only checked when a name was actually offered — a completely nameless
   // capture is a different failure (the archive's own not-null constraint,
   // or another guard below), not a bad name.
+  // The name is spelled in the board's language (accented letters are fine
+  // on a Portuguese or French board); a board without a usable language is
+  // turned away by the language guard below either way.
   if (body?.id !== undefined) {
-    const nameValidation = validateBoardName(body.id);
+    const nameValidation = validateBoardName(body.id, normalizeLanguageCode(body?.language_code) ?? 'en');
     if ('error' in nameValidation) {
       return jsonResponse({
         error: nameValidation.error,
@@ -68,22 +127,12 @@ export const POST: APIRoute = async ({ request }) => {
     }, request, ALLOWED_METHODS, 400);
   }
 
-  // The twitch channel is informational metadata: store the normalized value
-  // when it's a valid channel name, otherwise drop it rather than failing the
-  // save.
-  if ('twitch_channel' in (body ?? {})) {
-    const cleanTwitchChannel = normalizeTwitchChannel(body.twitch_channel);
-    if (cleanTwitchChannel) {
-      body.twitch_channel = cleanTwitchChannel;
-    } else {
-      delete body.twitch_channel;
-    }
-  }
+  tidyTwitchChannel(body);
 
-  // Unlike the channel, the word language is not informational (issue #161):
-  // a board's words only mean anything alongside the language they were
-  // played in, so a missing or unrecognised language rejects the save
-  // outright rather than silently substituting English.
+  // The word language is required too (issue #161): a board's words only
+  // mean anything alongside the language they were played in, so a missing
+  // or unrecognised language rejects the save outright rather than silently
+  // substituting English.
   const cleanLanguageCode = normalizeLanguageCode(body?.language_code);
   if (!cleanLanguageCode) {
     return jsonResponse({
@@ -107,8 +156,14 @@ export const POST: APIRoute = async ({ request }) => {
     }, request, ALLOWED_METHODS, 400);
   }
 
+  Object.assign(body, serverRecordedFields(body, cleanLanguageCode));
+
   try {
     const supabase = getSupabaseClient();
+    if (new URL(request.url).searchParams.get('merge') === 'true') {
+      return await mergeBoard(supabase, body, request);
+    }
+
     const { data, error } = await supabase
       .from('boards')
       .insert(body)
@@ -136,3 +191,119 @@ export const POST: APIRoute = async ({ request }) => {
     return jsonResponse({ error: error.message }, request, ALLOWED_METHODS, 500);
   }
 };
+
+// Stores the twitch channel normalized. authorizeBoardWrite has already
+// refused a capture whose channel is not the write token's, so by now it is
+// always a valid channel name.
+function tidyTwitchChannel(capture: { twitch_channel?: unknown } | null | undefined): void {
+  if (!capture || !('twitch_channel' in capture)) return;
+  const cleanTwitchChannel = normalizeTwitchChannel(capture.twitch_channel);
+  if (cleanTwitchChannel) {
+    capture.twitch_channel = cleanTwitchChannel;
+  } else {
+    delete capture.twitch_channel;
+  }
+}
+
+// A capture as POST saves it, once the checks above have passed and
+// serverRecordedFields has filled in the rest.
+interface BoardCapture {
+  id?: unknown;
+  slots: unknown[];
+  language_code: string;
+  twitch_channel?: string;
+  letters_signature: string | null;
+  word_observations: Record<string, number>;
+  channels: string[];
+  first_seen_at: string;
+  last_seen_at: string;
+}
+
+// The columns POST works out itself and never takes from the caller: the big
+// word's letters, sorted, so the board can be found by them before anyone
+// knows its big word (GET /api/boards/by-letters), and what this capture
+// contributes (db-scripts/add-contributions-to-boards.sql) — one observation
+// of each word, its channel and the time it was seen.
+function serverRecordedFields(capture: { id?: unknown; slots: unknown[]; twitch_channel?: string }, languageCode: string) {
+  const seenAt = new Date().toISOString();
+  return {
+    letters_signature: typeof capture.id === 'string'
+      ? lettersSignature(capture.id.replace(/\s+/g, ''), languageCode)
+      : null,
+    word_observations: addWordObservations(null, capture.slots),
+    channels: addContributingChannel([], capture.twitch_channel),
+    first_seen_at: seenAt,
+    last_seen_at: seenAt,
+  };
+}
+
+// Merge mode (`?merge=true`): a capture of a board the archive already holds
+// is added to the stored board — one more observation of each word, its
+// channel, a new last-seen time — instead of being turned away. The stored
+// board is the one filed under the capture's name or, failing that, one filed
+// under an anagram of it with the same words in the same language. The merge
+// only goes ahead when the two copies have exactly the same words; a capture
+// of a board nobody has stored yet is saved as usual.
+async function mergeBoard(supabase: ReturnType<typeof getSupabaseClient>, body: BoardCapture, request: Request): Promise<Response> {
+  // A capture with no name has nothing to merge into; the archive turns it
+  // away when it is saved.
+  const cleanId = typeof body.id === 'string' ? body.id.normalize('NFC').replace(/\s+/g, '').toUpperCase() : null;
+
+  for (let attempt = 0; attempt < MERGE_ATTEMPTS; attempt++) {
+    const { data: candidates, error: fetchError } = cleanId
+      ? await supabase
+        .from('boards')
+        .select('*')
+        .or(`id.eq.${cleanId},letters_signature.eq.${body.letters_signature}`)
+        .order('id', { ascending: false })
+      : { data: [], error: null };
+    if (fetchError) throw fetchError;
+
+    const stored = candidates.find((board) => board.id === cleanId) ??
+      candidates.find((board) =>
+        (normalizeLanguageCode(board.language_code) ?? 'en') === body.language_code &&
+        findDisagreeingWords(board.slots, body.slots).length === 0);
+
+    if (!stored) {
+      const { data, error } = await supabase.from('boards').insert(body).select();
+      if (!error) return jsonResponse(data, request, ALLOWED_METHODS);
+      // Someone else saved it first: merge into their copy instead.
+      if (error.code === '23505' || /duplicate key value/i.test(error.message || '')) continue;
+      throw error;
+    }
+
+    const disagreeingWords = findDisagreeingWords(stored.slots, body.slots);
+    if (disagreeingWords.length > 0) {
+      return jsonResponse({
+        error: 'Board slots disagree',
+        message: `Board ${stored.id} was not merged: these words are not on both copies: ${disagreeingWords.join(', ')}.`,
+        code: 'SLOTS_DISAGREE',
+      }, request, ALLOWED_METHODS, 409);
+    }
+
+    const mergePayload: Record<string, unknown> = {
+      word_observations: addWordObservations(stored.word_observations, body.slots),
+      channels: addContributingChannel(stored.channels, body.twitch_channel),
+      first_seen_at: stored.first_seen_at ?? stored.created_at,
+      last_seen_at: body.last_seen_at,
+    };
+    // A board saved without a channel takes this capture's.
+    if (!stored.twitch_channel && body.twitch_channel) {
+      mergePayload.twitch_channel = body.twitch_channel;
+    }
+
+    // Only written if nobody merged since the board was read; otherwise read
+    // it again and add to theirs.
+    let update = supabase.from('boards').update(mergePayload).eq('id', stored.id);
+    update = stored.last_seen_at ? update.eq('last_seen_at', stored.last_seen_at) : update.is('last_seen_at', null);
+    const { data, error } = await update.select();
+    if (error) throw error;
+    if (data.length > 0) return jsonResponse(data, request, ALLOWED_METHODS);
+  }
+
+  return jsonResponse({
+    error: 'Board merge conflict',
+    message: `Board ${cleanId ?? 'ID'} was not merged: it kept changing while the merge was being made.`,
+    code: 'MERGE_CONFLICT',
+  }, request, ALLOWED_METHODS, 409);
+}
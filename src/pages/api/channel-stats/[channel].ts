@@ -1,9 +1,9 @@
 import type { APIRoute } from 'astro';
 import { env } from 'cloudflare:workers';
-import { jsonResponse } from '../../../lib/api-utils';
+import { jsonResponse, validateChannelParam } from '../../../lib/api-utils';
 import { createCorsPreflightResponse } from '../../../lib/cors';
+import { rateLimit } from '../../../lib/rate-limit';
 import { getSupabaseClient } from '../../../lib/supabase';
-import { validateTwitchLogin } from '../../../scripts/twitch-channel';
 
 export const prerender = false;
 
@@ -14,31 +14,12 @@ export const OPTIONS: APIRoute = ({ request }) =>
   createCorsPreflightResponse(request, env, ALLOWED_METHODS);
 
 export const GET: APIRoute = async ({ params, request }) => {
-  const { channel } = params;
+  const limited = rateLimit(request, '/api/channel-stats/[channel]', ALLOWED_METHODS);
+  if (limited) return limited;
 
-  if (!channel) {
-    return jsonResponse({ error: 'Channel name is required' }, request, ALLOWED_METHODS, 400);
-  }
-
-  const validation = validateTwitchLogin(channel);
-  if ('error' in validation && validation.error !== 'length') {
-    return jsonResponse(
-      { error: 'Invalid channel name format. Only lowercase letters, numbers, and underscores are allowed.' },
-      request,
-      ALLOWED_METHODS,
-      400,
-    );
-  }
-
-  if ('error' in validation) {
-    return jsonResponse(
-      { error: 'Invalid channel name length. Must be between 1 and 50 characters.' },
-      request,
-      ALLOWED_METHODS,
-      400,
-    );
-  }
-  const { login: cleanChannel } = validation;
+  const validation = validateChannelParam(params.channel, request, ALLOWED_METHODS);
+  if ('errorResponse' in validation) return validation.errorResponse;
+  const { channel: cleanChannel } = validation;
 
   try {
     const supabase = getSupabaseClient();
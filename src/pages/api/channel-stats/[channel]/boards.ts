@@ -0,0 +1,49 @@
+import type { APIRoute } from 'astro';
+import { env } from 'cloudflare:workers';
+import { jsonResponse, validateChannelParam } from '../../../../lib/api-utils';
+import { createCorsPreflightResponse } from '../../../../lib/cors';
+import { rateLimit } from '../../../../lib/rate-limit';
+import { getSupabaseClient } from '../../../../lib/supabase';
+
+export const prerender = false;
+
+const ALLOWED_METHODS = ['GET', 'OPTIONS'] as const;
+
+// Handle CORS preflight requests (issue #172).
+export const OPTIONS: APIRoute = ({ request }) =>
+  createCorsPreflightResponse(request, env, ALLOWED_METHODS);
+
+// How many boards the archive holds from a channel's stream — the boards whose
+// twitch_channel it is, i.e. that it captured first — and when the latest was
+// captured (specs/channel-stats.md § Boards a channel has captured). The
+// boards themselves are listed by GET /api/boards?channel=.
+export const GET: APIRoute = async ({ params, request }) => {
+  const limited = rateLimit(request, '/api/channel-stats/[channel]/boards', ALLOWED_METHODS);
+  if (limited) return limited;
+
+  const validation = validateChannelParam(params.channel, request, ALLOWED_METHODS);
+  if ('errorResponse' in validation) return validation.errorResponse;
+  const { channel } = validation;
+
+  try {
+    const supabase = getSupabaseClient();
+
+    // The count comes back with the newest board, so one query answers both.
+    const { data, error, count } = await supabase
+      .from('boards')
+      .select('created_at', { count: 'exact' })
+      .eq('twitch_channel', channel)
+      .order('created_at', { ascending: false })
+      .limit(1);
+    if (error) throw error;
+
+    return jsonResponse({
+      channel,
+      boardsCaptured: count ?? 0,
+      lastCapturedAt: (data?.[0] as { created_at?: string } | undefined)?.created_at ?? null,
+    }, request, ALLOWED_METHODS);
+  } catch (error) {
+    console.error('Error counting channel boards:', error);
+    return jsonResponse({ error: (error as Error).message }, request, ALLOWED_METHODS, 500);
+  }
+};
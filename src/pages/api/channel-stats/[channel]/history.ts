@@ -0,0 +1,128 @@
+import type { APIRoute } from 'astro';
+import { env } from 'cloudflare:workers';
+import { jsonResponse, validateChannelParam } from '../../../../lib/api-utils';
+import { createCorsPreflightResponse } from '../../../../lib/cors';
+import { rateLimit } from '../../../../lib/rate-limit';
+import { getSupabaseClient } from '../../../../lib/supabase';
+
+export const prerender = false;
+
+const ALLOWED_METHODS = ['GET', 'OPTIONS'] as const;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A history without ?from= covers the four weeks up to ?to=, so a chart can
+// compare this week with the three before it.
+const DEFAULT_HISTORY_DAYS = 28;
+
+// The longest range one request may ask for; the series has a row per day.
+const MAX_HISTORY_DAYS = 366;
+
+// Handle CORS preflight requests (issue #172).
+export const OPTIONS: APIRoute = ({ request }) =>
+  createCorsPreflightResponse(request, env, ALLOWED_METHODS);
+
+// Midnight UTC of a YYYY-MM-DD date, or null when the value isn't a real one.
+function parseUtcDate(value: string): number | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  const time = Date.parse(`${value}T00:00:00Z`);
+  return !Number.isNaN(time) && new Date(time).toISOString().startsWith(value) ? time : null;
+}
+
+const toUtcDate = (time: number): string => new Date(time).toISOString().slice(0, 10);
+
+/**
+ * Reads the ?from= and ?to= dates (UTC, inclusive). `to` defaults to today
+ * and `from` to DEFAULT_HISTORY_DAYS before it. Returns the range as
+ * timestamps, or the 400 to answer with.
+ */
+function validateRange(request: Request): { from: number; to: number } | { response: Response } {
+  const params = new URL(request.url).searchParams;
+  const to = params.has('to') ? parseUtcDate(params.get('to') ?? '') : Math.floor(Date.now() / DAY_MS) * DAY_MS;
+  const from = params.has('from') ? parseUtcDate(params.get('from') ?? '') : to === null ? null : to - (DEFAULT_HISTORY_DAYS - 1) * DAY_MS;
+
+  const invalid = (message: string) => ({
+    response: jsonResponse({
+      error: 'Invalid date range',
+      message,
+      code: 'INVALID_DATE_RANGE',
+    }, request, ALLOWED_METHODS, 400),
+  });
+  if (from === null || to === null) return invalid('from and to must be dates written YYYY-MM-DD.');
+  if (from > to) return invalid('from must not be after to.');
+  if ((to - from) / DAY_MS >= MAX_HISTORY_DAYS) return invalid(`A history covers at most ${MAX_HISTORY_DAYS} days.`);
+  return { from, to };
+}
+
+// The daily series behind a channel's progress chart: its best level and
+// board clears for every UTC day from ?from= to ?to=. The daily numbers come
+// from the chatbot, as they do for /api/channel-stats/[channel], so a day with
+// no record — not played, or before the chatbot was enabled — is a day of
+// zeros, and chatbotEnabled says whether zeros can mean anything else.
+export const GET: APIRoute = async ({ params, request }) => {
+  const limited = rateLimit(request, '/api/channel-stats/[channel]/history', ALLOWED_METHODS);
+  if (limited) return limited;
+
+  const validation = validateChannelParam(params.channel, request, ALLOWED_METHODS);
+  if ('errorResponse' in validation) return validation.errorResponse;
+  const { channel } = validation;
+  const range = validateRange(request);
+  if ('response' in range) return range.response;
+  const from = toUtcDate(range.from);
+  const to = toUtcDate(range.to);
+
+  try {
+    const supabase = getSupabaseClient();
+
+    const [dailyResult, userResult] = await Promise.all([
+      supabase
+        .from('wos_channel_daily_achievements')
+        .select('stat_date_utc, highest_level_reached, board_clears')
+        .eq('channel', channel)
+        .gte('stat_date_utc', from)
+        .lte('stat_date_utc', to)
+        .order('stat_date_utc', { ascending: true }),
+      // The chatbot-enabled check /api/channel-stats/[channel] makes (issue #79).
+      supabase
+        .from('users')
+        .select('twitch_username')
+        .eq('twitch_username', channel)
+        .limit(1),
+    ]);
+
+    // A range with no rows is simply a history of zeros; an error is a
+    // genuine read failure and must never be presented as zeros (issue #173).
+    if (dailyResult.error) {
+      console.error('Error fetching channel history:', dailyResult.error);
+      return jsonResponse({ error: 'Failed to read channel history' }, request, ALLOWED_METHODS, 500);
+    }
+    if (userResult.error) {
+      console.error('Error fetching chatbot-enabled status:', userResult.error);
+    }
+
+    const recorded = new Map(
+      (dailyResult.data ?? []).map((row) => [row.stat_date_utc, row]),
+    );
+    const days = [];
+    for (let day = range.from; day <= range.to; day += DAY_MS) {
+      const date = toUtcDate(day);
+      days.push({
+        date,
+        dailyBest: recorded.get(date)?.highest_level_reached ?? 0,
+        dailyClears: recorded.get(date)?.board_clears ?? 0,
+      });
+    }
+
+    return jsonResponse({
+      channel: channel,
+      from,
+      to,
+      // Fail closed, as /api/channel-stats/[channel] does.
+      chatbotEnabled: !userResult.error && Array.isArray(userResult.data) && userResult.data.length > 0,
+      days,
+    }, request, ALLOWED_METHODS);
+  } catch (error) {
+    console.error('Error fetching channel history:', error);
+    return jsonResponse({ error: (error as Error).message }, request, ALLOWED_METHODS, 500);
+  }
+};
@@ -0,0 +1,76 @@
+import type { APIRoute } from 'astro';
+import { env } from 'cloudflare:workers';
+import { jsonResponse } from '../../lib/api-utils';
+import { createCorsPreflightResponse } from '../../lib/cors';
+import { afterLeaderboardCursorFilter, encodeLeaderboardCursor, parseLeaderboardQuery, rankChannels } from '../../lib/leaderboard-query';
+import { rateLimit } from '../../lib/rate-limit';
+import { getSupabaseClient } from '../../lib/supabase';
+
+export const prerender = false;
+const ALLOWED_METHODS = ['GET', 'OPTIONS'] as const;
+
+// Handle CORS preflight requests (issue #172).
+export const OPTIONS: APIRoute = ({ request }) =>
+  createCorsPreflightResponse(request, env, ALLOWED_METHODS);
+
+interface LeaderboardRow {
+  channel: string;
+  highest_level: number;
+  board_clears?: number;
+}
+
+// Ranks the channels that opted in (db-scripts/create-leaderboard.sql) by
+// their all-time highest level, or with `?mode=daily` by the highest level
+// they reached today (UTC), a page at a time. `next` is the cursor for the
+// page after this one, or null when this page is the last.
+export const GET: APIRoute = async ({ request }) => {
+  const limited = rateLimit(request, '/api/leaderboard', ALLOWED_METHODS);
+  if (limited) return limited;
+
+  const todayUtc = new Date().toISOString().slice(0, 10);
+  const parsed = parseLeaderboardQuery(new URL(request.url).searchParams, todayUtc);
+  if ('error' in parsed) {
+    return jsonResponse(parsed.error, request, ALLOWED_METHODS, 400);
+  }
+  const { query } = parsed;
+
+  try {
+    const supabase = getSupabaseClient();
+    let select = query.mode === 'daily'
+      ? supabase
+        .from('wos_leaderboard_daily')
+        .select('channel, highest_level, board_clears')
+        .eq('stat_date_utc', todayUtc)
+      : supabase
+        .from('wos_leaderboard_all_time')
+        .select('channel, highest_level');
+    if (query.cursor) select = select.or(afterLeaderboardCursorFilter(query.cursor));
+
+    // One channel more than the page holds says whether there is a next page
+    // without a second request or a count.
+    const { data, error } = await select
+      .order('highest_level', { ascending: false })
+      .order('channel', { ascending: true })
+      .limit(query.limit + 1);
+    if (error) throw error;
+
+    const rows = (data as unknown as LeaderboardRow[]).slice(0, query.limit);
+    const ranked = rankChannels(rows.map((row) => ({
+      channel: row.channel,
+      highestLevel: row.highest_level ?? 0,
+      ...(query.mode === 'daily' ? { boardClears: row.board_clears ?? 0 } : {}),
+    })), query.cursor);
+    const lastPosition = (query.cursor?.position ?? 0) + ranked.length;
+
+    return jsonResponse({
+      mode: query.mode,
+      date: query.date ?? null,
+      channels: ranked,
+      limit: query.limit,
+      next: data.length > query.limit ? encodeLeaderboardCursor(query, ranked[ranked.length - 1], lastPosition) : null,
+    }, request, ALLOWED_METHODS);
+  } catch (error) {
+    console.error('Error fetching leaderboard:', error);
+    return jsonResponse({ error: (error as Error).message }, request, ALLOWED_METHODS, 500);
+  }
+};
@@ -0,0 +1,98 @@
+import type { APIRoute } from 'astro';
+import { env } from 'cloudflare:workers';
+import { jsonResponse, validateChannelParam } from '../../../lib/api-utils';
+import { createCorsPreflightResponse } from '../../../lib/cors';
+import { rateLimit } from '../../../lib/rate-limit';
+import { getSupabaseClient } from '../../../lib/supabase';
+import { authorizeBoardWrite } from '../../../lib/write-tokens';
+
+export const prerender = false;
+
+const ALLOWED_METHODS = ['GET', 'PUT', 'DELETE', 'OPTIONS'] as const;
+
+// Handle CORS preflight requests (issue #172).
+export const OPTIONS: APIRoute = ({ request }) =>
+  createCorsPreflightResponse(request, env, ALLOWED_METHODS);
+
+// Whether a channel is on the leaderboard (db-scripts/create-leaderboard.sql),
+// and since when. Anyone may ask, as anyone may read the leaderboard itself.
+export const GET: APIRoute = async ({ params, request }) => {
+  const limited = rateLimit(request, '/api/leaderboard/[channel]', ALLOWED_METHODS);
+  if (limited) return limited;
+
+  const validation = validateChannelParam(params.channel, request, ALLOWED_METHODS);
+  if ('errorResponse' in validation) return validation.errorResponse;
+  const { channel } = validation;
+
+  try {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+      .from('wos_leaderboard_channels')
+      .select('joined_at')
+      .eq('channel', channel)
+      .limit(1);
+    if (error) throw error;
+
+    const joinedAt = (data?.[0] as { joined_at?: string } | undefined)?.joined_at ?? null;
+    return jsonResponse({ channel, optedIn: joinedAt !== null, joinedAt }, request, ALLOWED_METHODS);
+  } catch (error) {
+    console.error('Error reading leaderboard opt-in:', error);
+    return jsonResponse({ error: (error as Error).message }, request, ALLOWED_METHODS, 500);
+  }
+};
+
+// Puts the channel on the leaderboard. Only a view holding the channel's own
+// write token may (src/lib/write-tokens.ts); joining twice keeps the first
+// joined_at.
+export const PUT: APIRoute = async ({ params, request }) => {
+  const limited = rateLimit(request, '/api/leaderboard/[channel]', ALLOWED_METHODS);
+  if (limited) return limited;
+
+  const validation = validateChannelParam(params.channel, request, ALLOWED_METHODS);
+  if ('errorResponse' in validation) return validation.errorResponse;
+  const { channel } = validation;
+
+  const denied = await authorizeBoardWrite(request, channel, ALLOWED_METHODS);
+  if (denied) return denied;
+
+  try {
+    const supabase = getSupabaseClient();
+    const { error } = await supabase
+      .from('wos_leaderboard_channels')
+      .upsert({ channel }, { onConflict: 'channel', ignoreDuplicates: true });
+    if (error) throw error;
+
+    return jsonResponse({ channel, optedIn: true }, request, ALLOWED_METHODS);
+  } catch (error) {
+    console.error('Error joining the leaderboard:', error);
+    return jsonResponse({ error: (error as Error).message }, request, ALLOWED_METHODS, 500);
+  }
+};
+
+// Takes the channel off the leaderboard, with the same check as PUT. Its
+// records are untouched; the leaderboard simply stops reading them.
+export const DELETE: APIRoute = async ({ params, request }) => {
+  const limited = rateLimit(request, '/api/leaderboard/[channel]', ALLOWED_METHODS);
+  if (limited) return limited;
+
+  const validation = validateChannelParam(params.channel, request, ALLOWED_METHODS);
+  if ('errorResponse' in validation) return validation.errorResponse;
+  const { channel } = validation;
+
+  const denied = await authorizeBoardWrite(request, channel, ALLOWED_METHODS);
+  if (denied) return denied;
+
+  try {
+    const supabase = getSupabaseClient();
+    const { error } = await supabase
+      .from('wos_leaderboard_channels')
+      .delete()
+      .eq('channel', channel);
+    if (error) throw error;
+
+    return jsonResponse({ channel, optedIn: false }, request, ALLOWED_METHODS);
+  } catch (error) {
+    console.error('Error leaving the leaderboard:', error);
+    return jsonResponse({ error: (error as Error).message }, request, ALLOWED_METHODS, 500);
+  }
+};
@@ -0,0 +1,148 @@
+import type { APIRoute } from 'astro';
+import { env } from 'cloudflare:workers';
+import { jsonResponse, validateChannelParam } from '../../../../lib/api-utils';
+import { createCorsPreflightResponse } from '../../../../lib/cors';
+import { rateLimit } from '../../../../lib/rate-limit';
+import { getSupabaseClient } from '../../../../lib/supabase';
+import { authorizeBoardWrite } from '../../../../lib/write-tokens';
+import { isValidGameId } from '../../../../scripts/mirror-url';
+
+export const prerender = false;
+
+const ALLOWED_METHODS = ['GET', 'POST', 'OPTIONS'] as const;
+
+// Longest level key accepted on a report. The client's keys (game room, level
+// number and slot lengths) are well under this; the cap only bounds garbage.
+const MAX_LEVEL_KEY_LENGTH = 200;
+
+// A level key as WoS+ views build it: `<game room>:<level>:<slot lengths>`,
+// e.g. `4fdfc856-0328-4384-a882-8377dcb5a4f6:12:4-4-5-6`.
+function isLevelKey(value: unknown): value is string {
+  if (typeof value !== 'string' || value.length > MAX_LEVEL_KEY_LENGTH) return false;
+  const [gameCode, level, slotLengths, ...rest] = value.split(':');
+  return rest.length === 0 &&
+    isValidGameId(gameCode) &&
+    /^[1-9]\d*$/.test(level ?? '') &&
+    /^[1-9]\d*(-[1-9]\d*)*$/.test(slotLengths ?? '');
+}
+
+// Handle CORS preflight requests (issue #172).
+export const OPTIONS: APIRoute = ({ request }) =>
+  createCorsPreflightResponse(request, env, ALLOWED_METHODS);
+
+function validateLogins(params: Record<string, string | undefined>, request: Request) {
+  const channel = validateChannelParam(params.channel, request, ALLOWED_METHODS);
+  if ('errorResponse' in channel) return channel;
+  const player = validateChannelParam(params.player, request, ALLOWED_METHODS, 'Player');
+  if ('errorResponse' in player) return player;
+  return { channel: channel.channel, player: player.channel };
+}
+
+const isCount = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+export const GET: APIRoute = async ({ params, request }) => {
+  const limited = rateLimit(request, '/api/player-stats/[channel]/[player]', ALLOWED_METHODS);
+  if (limited) return limited;
+
+  const logins = validateLogins(params, request);
+  if ('errorResponse' in logins) return logins.errorResponse;
+  const { channel, player } = logins;
+
+  try {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+      .from('wos_player_stats')
+      .select('words_found, big_words_hit, hidden_words_guessed, levels_played')
+      .eq('channel', channel)
+      .eq('player', player)
+      .single();
+
+    // PGRST116 is `.single()` matching no rows: a player WoS+ has never seen
+    // in this channel, which is an answer of zeros rather than a failure. Any
+    // other error must not be presented as zeros (same rule as issue #173).
+    if (error && error.code !== 'PGRST116') {
+      console.error('Error fetching player stats:', error);
+      return jsonResponse({ error: 'Failed to read player stats' }, request, ALLOWED_METHODS, 500);
+    }
+
+    return jsonResponse({
+      channel,
+      player,
+      wordsFound: data?.words_found ?? 0,
+      bigWordsHit: data?.big_words_hit ?? 0,
+      hiddenWordsGuessed: data?.hidden_words_guessed ?? 0,
+      levelsPlayed: data?.levels_played ?? 0,
+    }, request, ALLOWED_METHODS);
+  } catch (error) {
+    console.error('Error fetching player stats:', error);
+    return jsonResponse({ error: (error as Error).message }, request, ALLOWED_METHODS, 500);
+  }
+};
+
+export const POST: APIRoute = async ({ params, request }) => {
+  const limited = rateLimit(request, '/api/player-stats/[channel]/[player]', ALLOWED_METHODS);
+  if (limited) return limited;
+
+  const logins = validateLogins(params, request);
+  if ('errorResponse' in logins) return logins.errorResponse;
+  const { channel, player } = logins;
+
+  // Answer an unreadable body rather than throwing, for the same reason as
+  // POST /api/boards: an escaped parse error has no CORS headers.
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return jsonResponse({ error: 'Invalid JSON body' }, request, ALLOWED_METHODS, 400);
+  }
+
+  // Only a view holding a current write token for this channel may report a
+  // level, the same protection board writes get (src/lib/write-tokens.ts).
+  const denied = await authorizeBoardWrite(request, channel, ALLOWED_METHODS);
+  if (denied) return denied;
+
+  const levelKey: unknown = body?.levelKey;
+  const { wordsFound, bigWordsHit, hiddenWordsGuessed } = body ?? {};
+  const isValidReport =
+    isLevelKey(levelKey) &&
+    isCount(wordsFound) &&
+    isCount(bigWordsHit) &&
+    isCount(hiddenWordsGuessed) &&
+    // Big words and hidden words are both kinds of found word, so neither
+    // can outnumber the words found.
+    bigWordsHit <= wordsFound &&
+    hiddenWordsGuessed <= wordsFound;
+
+  if (!isValidReport) {
+    return jsonResponse({
+      error: 'Invalid player stats',
+      message: `Stats for ${player} were not recorded: a level key naming the game room, level and slot lengths, and whole, non-negative word counts are required.`,
+      code: 'INVALID_PLAYER_STATS',
+    }, request, ALLOWED_METHODS, 400);
+  }
+
+  try {
+    const supabase = getSupabaseClient();
+    // A level already reported by another open view is ignored rather than
+    // counted again (see db-scripts/create-player-stats.sql).
+    const { data, error } = await supabase
+      .from('wos_player_levels')
+      .upsert({
+        channel,
+        player,
+        level_key: levelKey,
+        words_found: wordsFound,
+        big_words_hit: bigWordsHit,
+        hidden_words_guessed: hiddenWordsGuessed,
+      }, { onConflict: 'channel,player,level_key', ignoreDuplicates: true })
+      .select();
+
+    if (error) throw error;
+
+    return jsonResponse({ recorded: Array.isArray(data) && data.length > 0 }, request, ALLOWED_METHODS);
+  } catch (error) {
+    console.error('Error recording player stats:', error);
+    return jsonResponse({ error: (error as Error).message }, request, ALLOWED_METHODS, 500);
+  }
+};
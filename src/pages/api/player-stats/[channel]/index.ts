@@ -0,0 +1,71 @@
+import type { APIRoute } from 'astro';
+import { env } from 'cloudflare:workers';
+import { jsonResponse, validateChannelParam } from '../../../../lib/api-utils';
+import { createCorsPreflightResponse } from '../../../../lib/cors';
+import { rateLimit } from '../../../../lib/rate-limit';
+import { getSupabaseClient } from '../../../../lib/supabase';
+
+export const prerender = false;
+
+const ALLOWED_METHODS = ['GET', 'OPTIONS'] as const;
+
+const DEFAULT_CONTRIBUTOR_COUNT = 10;
+const MAX_CONTRIBUTOR_COUNT = 50;
+
+// Handle CORS preflight requests (issue #172).
+export const OPTIONS: APIRoute = ({ request }) =>
+  createCorsPreflightResponse(request, env, ALLOWED_METHODS);
+
+// A channel's top contributors: the players who have found the most words in
+// it (specs/player-stats.md § A channel's top contributors), most first, with
+// all four of their numbers. `?limit=` asks for up to MAX_CONTRIBUTOR_COUNT.
+export const GET: APIRoute = async ({ params, request }) => {
+  const limited = rateLimit(request, '/api/player-stats/[channel]', ALLOWED_METHODS);
+  if (limited) return limited;
+
+  const validation = validateChannelParam(params.channel, request, ALLOWED_METHODS);
+  if ('errorResponse' in validation) return validation.errorResponse;
+  const { channel } = validation;
+
+  const limitParam = new URL(request.url).searchParams.get('limit');
+  const limit = limitParam === null ? DEFAULT_CONTRIBUTOR_COUNT : /^\d+$/.test(limitParam) ? Number(limitParam) : NaN;
+  if (!(limit >= 1 && limit <= MAX_CONTRIBUTOR_COUNT)) {
+    return jsonResponse({
+      error: 'Invalid limit',
+      message: `limit must be a whole number from 1 to ${MAX_CONTRIBUTOR_COUNT}.`,
+      code: 'INVALID_LIMIT',
+    }, request, ALLOWED_METHODS, 400);
+  }
+
+  try {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+      .from('wos_player_stats')
+      .select('player, words_found, big_words_hit, hidden_words_guessed, levels_played')
+      .eq('channel', channel)
+      .order('words_found', { ascending: false })
+      .order('player', { ascending: true })
+      .limit(limit);
+
+    // A channel nobody has played in has no contributors, which is an empty
+    // list rather than a failure; any error is a failed read (issue #173).
+    if (error) {
+      console.error('Error fetching top contributors:', error);
+      return jsonResponse({ error: 'Failed to read player stats' }, request, ALLOWED_METHODS, 500);
+    }
+
+    return jsonResponse({
+      channel,
+      players: (data ?? []).map((row) => ({
+        player: row.player,
+        wordsFound: row.words_found ?? 0,
+        bigWordsHit: row.big_words_hit ?? 0,
+        hiddenWordsGuessed: row.hidden_words_guessed ?? 0,
+        levelsPlayed: row.levels_played ?? 0,
+      })),
+    }, request, ALLOWED_METHODS);
+  } catch (error) {
+    console.error('Error fetching top contributors:', error);
+    return jsonResponse({ error: (error as Error).message }, request, ALLOWED_METHODS, 500);
+  }
+};
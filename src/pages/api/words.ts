@@ -1,7 +1,9 @@
 import type { APIRoute } from 'astro';
 import { env } from 'cloudflare:workers';
-import { jsonResponse } from '../../lib/api-utils';
+import { jsonResponse, matchesIfNoneMatch, notModifiedResponse } from '../../lib/api-utils';
+import { normalizeLanguageCode } from '../../lib/board-utils';
 import { createCorsPreflightResponse } from '../../lib/cors';
+import { rateLimit } from '../../lib/rate-limit';
 import { getSupabaseClient } from '../../lib/supabase';
 
 export const prerender = false;
@@ -12,10 +14,56 @@ export const OPTIONS: APIRoute = async ({ request }) => {
   return createCorsPreflightResponse(request, env, ALLOWED_METHODS);
 };
 
+// The list is revalidated on every load rather than trusted for a while: a
+// view that already has it (see src/scripts/word-cache.ts) gets a bodiless 304.
+const CACHE_HEADERS = { 'Cache-Control': 'no-cache' };
+
+// The version of one language's word list, as an ETag: how many words it has
+// and when the most recent of them changed. It is a single-row query, so a
+// view whose copy is current is answered without paging the whole table, and
+// it moves whenever a word is added, removed or edited.
+async function fetchWordListVersion(supabase: ReturnType<typeof getSupabaseClient>, languageCode: string): Promise<string> {
+  const { data, error, count } = await supabase
+    .from('words')
+    .select('updated_at', { count: 'exact' })
+    .eq('language_code', languageCode)
+    .order('updated_at', { ascending: false, nullsFirst: false })
+    .limit(1);
+
+  if (error) throw error;
+
+  const latest = (data?.[0] as { updated_at?: string | null } | undefined)?.updated_at;
+  const latestTime = latest ? Date.parse(latest) : NaN;
+  return `"${languageCode}-${count ?? 0}-${Number.isNaN(latestTime) ? 0 : latestTime}"`;
+}
+
+// Serves one language's word list (`?lang=en|pt|fr`, English when absent):
+// a Portuguese or French game must never be matched against English words.
+// The response carries the list's version as its ETag, and a request whose
+// If-None-Match still names it is answered 304 without reading the list.
 export const GET: APIRoute = async ({ request }) => {
+  const limited = rateLimit(request, '/api/words', ALLOWED_METHODS);
+  if (limited) return limited;
+
+  const lang = new URL(request.url).searchParams.get('lang');
+  const languageCode = lang ? normalizeLanguageCode(lang) : 'en';
+  if (!languageCode) {
+    return jsonResponse({
+      error: 'Unsupported word language',
+      message: 'lang must be one of en, pt or fr.',
+      code: 'INVALID_LANGUAGE',
+    }, request, ALLOWED_METHODS, 400);
+  }
+
   try {
     const supabase = getSupabaseClient();
 
+    const etag = await fetchWordListVersion(supabase, languageCode);
+    const versionHeaders = { ...CACHE_HEADERS, ETag: etag };
+    if (matchesIfNoneMatch(request, etag)) {
+      return notModifiedResponse(request, ALLOWED_METHODS, versionHeaders);
+    }
+
     // Fetch all words using pagination to avoid Supabase's row limit
     const allWords: string[] = [];
     const pageSize = 1000;
@@ -26,6 +74,7 @@ export const GET: APIRoute = async ({ request }) => {
       const { data, error } = await supabase
         .from('words')
         .select('normalized_word')
+        .eq('language_code', languageCode)
         .range(from, from + pageSize - 1);
 
       if (error) throw error;
@@ -39,7 +88,7 @@ export const GET: APIRoute = async ({ request }) => {
       }
     }
 
-    return jsonResponse(allWords, request, ALLOWED_METHODS);
+    return jsonResponse(allWords, request, ALLOWED_METHODS, 200, versionHeaders);
   } catch (error: any) {
     console.error('Error fetching words:', error);
     return jsonResponse({ error: error.message }, request, ALLOWED_METHODS, 500);
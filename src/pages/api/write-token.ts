@@ -0,0 +1,94 @@
+import type { APIRoute } from 'astro';
+import { env } from 'cloudflare:workers';
+import { jsonResponse } from '../../lib/api-utils';
+import { normalizeTwitchChannel } from '../../lib/board-utils';
+import { createCorsPreflightResponse } from '../../lib/cors';
+import { rateLimit } from '../../lib/rate-limit';
+import { validateTwitchToken } from '../../lib/twitch-auth';
+import { bearerTokenFrom, issueWriteToken } from '../../lib/write-tokens';
+
+export const prerender = false;
+
+const ALLOWED_METHODS = ['POST', 'OPTIONS'] as const;
+
+// Handle CORS preflight requests (issue #172).
+export const OPTIONS: APIRoute = ({ request }) =>
+  createCorsPreflightResponse(request, env, ALLOWED_METHODS);
+
+// Issues the write token an overlay needs to save or repair boards once it
+// has connected to a channel (src/lib/write-tokens.ts). The token only lets
+// the overlay write boards captured from that channel, and only for
+// WRITE_TOKEN_TTL_SECONDS.
+//
+// Only the channel's owner is given one: the request carries a Twitch user
+// access token (`Authorization: Bearer …`) issued through WoS+'s own Twitch
+// application (TWITCH_CLIENT_ID), and Twitch must confirm it belongs to the
+// channel asked for (src/lib/twitch-auth.ts).
+export const POST: APIRoute = async ({ request }) => {
+  const limited = rateLimit(request, '/api/write-token', ALLOWED_METHODS);
+  if (limited) return limited;
+
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return jsonResponse({ error: 'Invalid JSON body' }, request, ALLOWED_METHODS, 400);
+  }
+
+  const channel = normalizeTwitchChannel(body?.channel);
+  if (!channel) {
+    return jsonResponse({
+      error: 'Invalid channel',
+      message: 'A write token is only issued for a Twitch channel name.',
+      code: 'INVALID_CHANNEL',
+    }, request, ALLOWED_METHODS, 400);
+  }
+
+  const secret = env.BOARD_WRITE_SECRET;
+  const twitchClientId = env.TWITCH_CLIENT_ID;
+  if (!secret || !twitchClientId) {
+    console.error('Cannot issue a write token: BOARD_WRITE_SECRET or TWITCH_CLIENT_ID is not set.');
+    return jsonResponse({
+      error: 'Board writes are not configured',
+      message: 'The archive cannot issue write tokens right now.',
+      code: 'WRITE_TOKENS_NOT_CONFIGURED',
+    }, request, ALLOWED_METHODS, 503);
+  }
+
+  const twitchToken = bearerTokenFrom(request);
+  if (!twitchToken) {
+    return jsonResponse({
+      error: 'Twitch sign-in required',
+      message: 'Sign in with Twitch as the channel to be given a write token.',
+      code: 'INVALID_TWITCH_LOGIN',
+    }, request, ALLOWED_METHODS, 401);
+  }
+
+  let twitchLogin;
+  try {
+    twitchLogin = await validateTwitchToken(twitchToken);
+  } catch (error) {
+    console.error('Error validating a Twitch token:', error);
+    return jsonResponse({ error: (error as Error).message }, request, ALLOWED_METHODS, 500);
+  }
+
+  // A token issued through another Twitch application is refused even when
+  // it is the channel's own: that application could be asking on its behalf.
+  if (!twitchLogin || twitchLogin.clientId !== twitchClientId) {
+    return jsonResponse({
+      error: 'Twitch sign-in required',
+      message: 'Twitch did not accept the sign-in; sign in with Twitch again.',
+      code: 'INVALID_TWITCH_LOGIN',
+    }, request, ALLOWED_METHODS, 401);
+  }
+
+  if (twitchLogin.login !== channel) {
+    return jsonResponse({
+      error: 'Not the channel owner',
+      message: `Signed in to Twitch as ${twitchLogin.login}, not ${channel}.`,
+      code: 'NOT_CHANNEL_OWNER',
+    }, request, ALLOWED_METHODS, 403);
+  }
+
+  return jsonResponse(await issueWriteToken(channel, secret), request, ALLOWED_METHODS);
+};
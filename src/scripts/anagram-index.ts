@@ -0,0 +1,172 @@
+import { foldLetters } from '../lib/wos-letters';
+
+/**
+ * One language's word list indexed by its letters, built once when the list
+ * loads, so the questions the level-end pipeline asks of it — which words are
+ * anagrams of the big word, which words the level's tiles can spell — are
+ * answered by lookups rather than by a pass over every word.
+ *
+ * Words are grouped by their signature: their letters folded the way WoS
+ * compares them (src/lib/wos-letters.ts) and sorted, so RATE and TEAR both
+ * file under `aert`. An anagram is then a single lookup. The words a set of
+ * tiles can spell are the groups filed under each selection of those tiles —
+ * a few thousand lookups at most for a WoS level, against a 200k-word list.
+ * When there are too many selections to try (a very long tile list, or `?`
+ * tiles that could be any letter), the groups of a fitting length are tested
+ * instead, most of them ruled out by their letter mask alone.
+ */
+
+interface IndexedWord {
+  // Lower-cased, as the callers report words.
+  word: string;
+  // Where the word first appears in the list, so results keep list order.
+  position: number;
+}
+
+interface SignatureGroup {
+  signature: string;
+  // One bit per letter the signature uses (see letterBit).
+  mask: number;
+  words: IndexedWord[];
+}
+
+export interface AnagramIndex {
+  languageCode: string;
+  bySignature: Map<string, SignatureGroup>;
+  // Groups by signature length, for the queries that test groups one by one.
+  byLength: Map<number, SignatureGroup[]>;
+  longest: number;
+}
+
+// Above this many tile selections a query tests groups instead of looking
+// each selection up. 12 distinct tiles make 4096.
+const MAX_SELECTIONS = 1 << 14;
+
+const WILDCARD = '?';
+
+// a–z get a bit each; any other letter shares one of the six left over, which
+// only ever lets a group through to the exact letter count it would get anyway.
+function letterBit(letter: string): number {
+  const code = letter.codePointAt(0)!;
+  return code >= 97 && code <= 122 ? 1 << (code - 97) : 1 << (26 + (code % 6));
+}
+
+function maskOf(letters: readonly string[]): number {
+  let mask = 0;
+  for (const letter of letters) mask |= letterBit(letter);
+  return mask;
+}
+
+function sortedLetters(text: string, languageCode: string): string[] {
+  return Array.from(foldLetters(text, languageCode)).sort();
+}
+
+export function buildAnagramIndex(words: readonly string[], languageCode: string): AnagramIndex {
+  const index: AnagramIndex = { languageCode, bySignature: new Map(), byLength: new Map(), longest: 0 };
+  const seen = new Set<string>();
+
+  words.forEach((rawWord, position) => {
+    const word = rawWord.toLowerCase();
+    if (!word || seen.has(word)) return;
+    seen.add(word);
+
+    const letters = sortedLetters(word, languageCode);
+    const signature = letters.join('');
+    let group = index.bySignature.get(signature);
+    if (!group) {
+      group = { signature, mask: maskOf(letters), words: [] };
+      index.bySignature.set(signature, group);
+      const sameLength = index.byLength.get(letters.length) ?? [];
+      sameLength.push(group);
+      index.byLength.set(letters.length, sameLength);
+      index.longest = Math.max(index.longest, letters.length);
+    }
+    group.words.push({ word, position });
+  });
+
+  return index;
+}
+
+/** The listed words spelled with exactly the letters of `word`, `word` included if listed. */
+export function findAnagrams(index: AnagramIndex, word: string): string[] {
+  const group = index.bySignature.get(sortedLetters(word, index.languageCode).join(''));
+  return group ? group.words.map(entry => entry.word) : [];
+}
+
+// True when `signature` can be spelled from `tiles` (sorted) with at most
+// `wildcards` of its letters standing on a `?` tile.
+function fitsTiles(signature: string, tiles: readonly string[], wildcards: number): boolean {
+  let misses = 0;
+  let next = 0;
+  for (const letter of signature) {
+    while (next < tiles.length && tiles[next] < letter) next++;
+    if (next < tiles.length && tiles[next] === letter) {
+      next++;
+    } else if (++misses > wildcards) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * The listed words of `minLength` to `maxLength` letters that `tiles` can
+ * spell, each tile used at most once and a `?` tile standing for any letter,
+ * in list order.
+ */
+export function findSpellableWords(
+  index: AnagramIndex,
+  tiles: readonly string[],
+  minLength: number,
+  maxLength: number = Infinity,
+): string[] {
+  const letters: string[] = [];
+  let wildcards = 0;
+  for (const tile of tiles) {
+    for (const letter of foldLetters(tile, index.languageCode)) {
+      if (letter === WILDCARD) wildcards++;
+      else letters.push(letter);
+    }
+  }
+  letters.sort();
+
+  const longest = Math.min(maxLength, letters.length + wildcards, index.longest);
+  const groups: SignatureGroup[] = [];
+
+  const counts = new Map<string, number>();
+  for (const letter of letters) counts.set(letter, (counts.get(letter) ?? 0) + 1);
+  const distinct = [...counts];
+  const selections = distinct.reduce((total, [, count]) => total * (count + 1), 1);
+
+  if (wildcards === 0 && selections <= MAX_SELECTIONS) {
+    // Letters still to choose from after distinct[i], for pruning selections
+    // that can no longer reach minLength.
+    const remaining = distinct.map((_, i) => distinct.slice(i).reduce((sum, [, count]) => sum + count, 0));
+    const select = (i: number, signature: string, length: number) => {
+      if (i === distinct.length) {
+        const group = length >= minLength ? index.bySignature.get(signature) : undefined;
+        if (group) groups.push(group);
+        return;
+      }
+      if (length + remaining[i] < minLength) return;
+      const [letter, count] = distinct[i];
+      for (let taken = 0; taken <= count && length + taken <= longest; taken++) {
+        select(i + 1, signature + letter.repeat(taken), length + taken);
+      }
+    };
+    select(0, '', 0);
+  } else {
+    const tileMask = maskOf(letters);
+    for (let length = Math.max(minLength, 1); length <= longest; length++) {
+      for (const group of index.byLength.get(length) ?? []) {
+        if (wildcards === 0 && (group.mask & ~tileMask) !== 0) continue;
+        if (fitsTiles(group.signature, letters, wildcards)) groups.push(group);
+      }
+    }
+  }
+
+  return groups
+    .flatMap(group => group.words)
+    .sort((a, b) => a.position - b.position)
+    .map(entry => entry.word);
+}
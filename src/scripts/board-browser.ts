@@ -0,0 +1,142 @@
+import { fetchBoardPage, type Board, type BoardPage } from './db-service';
+
+/**
+ * The /boards page: a filter form over the board archive (GET /api/boards)
+ * and each matching board drawn as its slot grid, a page at a time. The
+ * filters live in the address bar too, so a search can be shared as a link.
+ */
+
+// Form fields, named as the route's query parameters (src/lib/board-query.ts).
+const FILTER_FIELDS = ['prefix', 'letters', 'slots', 'language', 'channel', 'from', 'to'] as const;
+
+const formatDate = (value: string) => value.slice(0, 10);
+
+/**
+ * One archived board as its slot grid: a row of letter tiles per slot, in the
+ * order the board stores them, with the big word's slot marked.
+ */
+export function renderBoardCard(board: Board): HTMLElement {
+  const card = document.createElement('article');
+  card.className = 'board-card';
+
+  const header = document.createElement('header');
+  header.className = 'board-card__header';
+  const title = document.createElement('h2');
+  title.className = 'board-card__id';
+  title.textContent = board.id;
+  const meta = document.createElement('span');
+  meta.className = 'board-card__meta';
+  meta.textContent = [
+    board.language_code ?? 'en',
+    board.twitch_channel,
+    `${board.slots.length} slots`,
+    formatDate(board.created_at),
+  ].filter(Boolean).join(' · ');
+  header.append(title, meta);
+
+  const grid = document.createElement('ol');
+  grid.className = 'board-slots';
+  for (const slot of board.slots) {
+    const row = document.createElement('li');
+    row.className = `board-slot${slot.hitMax ? ' board-slot--big' : ''}`;
+    if (slot.user) row.title = `Found by ${slot.user}`;
+    const letters = slot.word ? slot.word.split('') : slot.letters;
+    for (const letter of letters) {
+      const tile = document.createElement('span');
+      tile.className = 'board-tile';
+      tile.textContent = letter.toUpperCase();
+      row.appendChild(tile);
+    }
+    grid.appendChild(row);
+  }
+
+  card.append(header, grid);
+  return card;
+}
+
+// `index` is how many pages came before this one.
+function renderPage(page: BoardPage, index: number) {
+  const list = document.getElementById('boards-list')!;
+  list.replaceChildren(...page.boards.map(renderBoardCard));
+
+  const first = index * page.limit + 1;
+  const last = first + page.boards.length - 1;
+  document.getElementById('boards-status')!.textContent = page.boards.length === 0
+    ? 'No captured boards match these filters.'
+    : `Showing boards ${first}–${last}`;
+
+  (document.getElementById('boards-prev') as HTMLButtonElement).disabled = index === 0;
+  (document.getElementById('boards-next') as HTMLButtonElement).disabled = page.next === null;
+}
+
+function readFilters(form: HTMLFormElement): URLSearchParams {
+  const filters = new URLSearchParams();
+  const data = new FormData(form);
+  for (const field of FILTER_FIELDS) {
+    const value = data.get(field);
+    if (typeof value === 'string' && value.trim() !== '') filters.set(field, value.trim());
+  }
+  return filters;
+}
+
+function fillForm(form: HTMLFormElement, filters: URLSearchParams) {
+  for (const field of FILTER_FIELDS) {
+    const input = form.elements.namedItem(field) as HTMLInputElement | HTMLSelectElement | null;
+    if (input) input.value = filters.get(field) ?? '';
+  }
+}
+
+export function initBoardBrowser() {
+  const form = document.getElementById('board-filters') as HTMLFormElement | null;
+  if (!form) return;
+
+  fillForm(form, new URLSearchParams(window.location.search));
+  let filters = readFilters(form);
+  // The cursor each page visited so far started from (the first page has
+  // none), so Newer can step back the way Older came. Only the filters go in
+  // the address bar: a shared link always opens on the newest boards.
+  let cursors: (string | null)[] = [null];
+  let next: string | null = null;
+
+  const load = async () => {
+    const search = filters.toString();
+    window.history.replaceState(null, '', search ? `?${search}` : window.location.pathname);
+
+    const query = new URLSearchParams(filters);
+    const cursor = cursors[cursors.length - 1];
+    if (cursor) query.set('cursor', cursor);
+
+    document.getElementById('boards-status')!.textContent = 'Loading boards…';
+    const result = await fetchBoardPage(query);
+    if ('error' in result) {
+      document.getElementById('boards-list')!.replaceChildren();
+      document.getElementById('boards-status')!.textContent = result.error;
+      return;
+    }
+    next = result.page.next;
+    renderPage(result.page, cursors.length - 1);
+  };
+
+  form.addEventListener('submit', (event) => {
+    event.preventDefault();
+    filters = readFilters(form);
+    cursors = [null];
+    void load();
+  });
+  form.addEventListener('reset', () => {
+    filters = new URLSearchParams();
+    cursors = [null];
+    void load();
+  });
+  document.getElementById('boards-prev')!.addEventListener('click', () => {
+    if (cursors.length > 1) cursors.pop();
+    void load();
+  });
+  document.getElementById('boards-next')!.addEventListener('click', () => {
+    if (!next) return;
+    cursors.push(next);
+    void load();
+  });
+
+  void load();
+}
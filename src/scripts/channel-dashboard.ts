@@ -0,0 +1,208 @@
+import {
+  fetchChannelBoardCount,
+  fetchChannelHistory,
+  fetchChannelStats,
+  fetchTopContributors,
+  type ChannelDay,
+  type PlayerStats,
+} from './db-service';
+
+/**
+ * The /stats/[channel] page: a streamer's own numbers beyond the three HUD
+ * badges — the all-time best, the daily best over time, how many boards a day
+ * the community clears, the boards the channel has added to the archive, and
+ * the players who found the most words. Everything is read in the browser
+ * from the channel-stats and player-stats routes.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The ranges the page offers, in days; the first is the default.
+const HISTORY_RANGES = [28, 84, 365] as const;
+
+const CONTRIBUTOR_COUNT = 10;
+
+export interface HistorySummary {
+  // Days with at least one clear or a level reached.
+  daysPlayed: number;
+  totalClears: number;
+  // Boards cleared per day played; 0 when no day was played.
+  clearsPerDay: number;
+  bestLevel: number;
+}
+
+export interface WeekProgress extends HistorySummary {
+  // The first and last day of the week (YYYY-MM-DD).
+  from: string;
+  to: string;
+}
+
+const wasPlayed = (day: ChannelDay) => day.dailyBest > 0 || day.dailyClears > 0;
+
+/** Totals for a run of days. */
+export function summarizeHistory(days: ChannelDay[]): HistorySummary {
+  const played = days.filter(wasPlayed);
+  const totalClears = played.reduce((sum, day) => sum + day.dailyClears, 0);
+  return {
+    daysPlayed: played.length,
+    totalClears,
+    clearsPerDay: played.length > 0 ? totalClears / played.length : 0,
+    bestLevel: played.reduce((best, day) => Math.max(best, day.dailyBest), 0),
+  };
+}
+
+/**
+ * Splits a history into weeks counted back from its last day, so the last
+ * week is always the latest seven days and weeks compare like for like. A
+ * range that isn't a whole number of weeks leaves a shorter first week.
+ * Oldest week first.
+ */
+export function weeklyProgress(days: ChannelDay[]): WeekProgress[] {
+  const weeks: WeekProgress[] = [];
+  for (let end = days.length; end > 0; end -= 7) {
+    const week = days.slice(Math.max(0, end - 7), end);
+    weeks.unshift({ from: week[0].date, to: week[week.length - 1].date, ...summarizeHistory(week) });
+  }
+  return weeks;
+}
+
+/** The `days`-long range ending today (UTC), as the history route takes it. */
+export function historyRange(days: number, now: number = Date.now()): { from: string; to: string } {
+  const today = Math.floor(now / DAY_MS) * DAY_MS;
+  const toDate = (time: number) => new Date(time).toISOString().slice(0, 10);
+  return { from: toDate(today - (days - 1) * DAY_MS), to: toDate(today) };
+}
+
+const formatRate = (rate: number) => rate.toFixed(1);
+
+/**
+ * The daily best as a bar per day, scaled to the best day in the range. A day
+ * not played is an empty bar rather than a missing one, so gaps show.
+ */
+export function renderDailyBestChart(days: ChannelDay[]): HTMLElement {
+  const chart = document.createElement('ol');
+  chart.className = 'stats-chart';
+  const top = Math.max(1, ...days.map((day) => day.dailyBest));
+  for (const day of days) {
+    const bar = document.createElement('li');
+    bar.className = `stats-chart__bar${wasPlayed(day) ? '' : ' stats-chart__bar--idle'}`;
+    bar.style.setProperty('--bar-height', `${(day.dailyBest / top) * 100}%`);
+    bar.title = `${day.date}: level ${day.dailyBest}, ${day.dailyClears} ${day.dailyClears === 1 ? 'clear' : 'clears'}`;
+    chart.appendChild(bar);
+  }
+  return chart;
+}
+
+/** One row per week: its days, best level, clears and clears per day played. */
+export function renderWeeklyProgress(weeks: WeekProgress[]): HTMLElement {
+  const table = document.createElement('table');
+  table.className = 'stats-weeks';
+  const head = table.createTHead().insertRow();
+  for (const label of ['Week', 'Days played', 'Best level', 'Clears', 'Clears a day']) {
+    const cell = document.createElement('th');
+    cell.scope = 'col';
+    cell.textContent = label;
+    head.appendChild(cell);
+  }
+  const body = table.createTBody();
+  for (const week of [...weeks].reverse()) {
+    const row = body.insertRow();
+    for (const value of [
+      `${week.from} – ${week.to}`,
+      String(week.daysPlayed),
+      String(week.bestLevel),
+      String(week.totalClears),
+      formatRate(week.clearsPerDay),
+    ]) {
+      row.insertCell().textContent = value;
+    }
+  }
+  return table;
+}
+
+/** The top contributors, most words first. */
+export function renderContributors(players: PlayerStats[]): HTMLElement {
+  const list = document.createElement('ol');
+  list.className = 'stats-contributors';
+  for (const player of players) {
+    const item = document.createElement('li');
+    item.className = 'stats-contributor';
+    const name = document.createElement('span');
+    name.className = 'stats-contributor__name';
+    name.textContent = player.player;
+    const detail = document.createElement('span');
+    detail.className = 'stats-contributor__detail';
+    detail.textContent = [
+      `${player.wordsFound} words`,
+      `${player.bigWordsHit} big`,
+      `${player.hiddenWordsGuessed} hidden`,
+      `${player.levelsPlayed} levels`,
+    ].join(' · ');
+    item.append(name, detail);
+    list.appendChild(item);
+  }
+  return list;
+}
+
+function setText(id: string, text: string) {
+  document.getElementById(id)!.textContent = text;
+}
+
+async function loadHistory(channel: string, days: number) {
+  const chart = document.getElementById('stats-history')!;
+  const weeks = document.getElementById('stats-weeks')!;
+  setText('stats-history-status', 'Loading history…');
+
+  const history = await fetchChannelHistory(channel, historyRange(days));
+  if (!history) {
+    chart.replaceChildren();
+    weeks.replaceChildren();
+    setText('stats-history-status', 'The history could not be read.');
+    return;
+  }
+  if (!history.chatbotEnabled) {
+    // Daily records come from the chatbot, so without it every day is zero.
+    chart.replaceChildren();
+    weeks.replaceChildren();
+    setText('stats-history-status', 'Daily records come from the WoS+ chatbot, which this channel does not have.');
+    return;
+  }
+
+  const summary = summarizeHistory(history.days);
+  setText('stats-clear-rate', formatRate(summary.clearsPerDay));
+  setText('stats-days-played', String(summary.daysPlayed));
+  setText('stats-history-status', `${history.from} to ${history.to}`);
+  chart.replaceChildren(renderDailyBestChart(history.days));
+  weeks.replaceChildren(renderWeeklyProgress(weeklyProgress(history.days)));
+}
+
+export function initChannelDashboard() {
+  const root = document.getElementById('channel-dashboard');
+  const channel = root?.dataset.channel;
+  if (!channel) return;
+
+  const range = document.getElementById('stats-range') as HTMLSelectElement | null;
+  const selectedDays = () => {
+    const days = Number(range?.value);
+    return HISTORY_RANGES.find((option) => option === days) ?? HISTORY_RANGES[0];
+  };
+  range?.addEventListener('change', () => void loadHistory(channel, selectedDays()));
+
+  void fetchChannelStats(channel).then((stats) => {
+    setText('stats-all-time', String(stats.allTimePersonalBest));
+  });
+  void fetchChannelBoardCount(channel).then((boards) => {
+    setText('stats-boards', boards ? String(boards.boardsCaptured) : '–');
+  });
+  void fetchTopContributors(channel, CONTRIBUTOR_COUNT).then((players) => {
+    const list = document.getElementById('stats-contributors')!;
+    if (!players || players.length === 0) {
+      list.replaceChildren();
+      setText('stats-contributors-status', players ? 'No one has found a word here yet.' : 'Contributors could not be read.');
+      return;
+    }
+    setText('stats-contributors-status', '');
+    list.replaceChildren(renderContributors(players));
+  });
+  void loadHistory(channel, selectedDays());
+}
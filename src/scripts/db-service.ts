@@ -42,12 +42,206 @@ export async function fetchChannelStats(channel: string): Promise<ChannelStats>
   }
 }
 
+// One UTC day of a channel's history (GET /api/channel-stats/[channel]/history).
+export interface ChannelDay {
+  // YYYY-MM-DD.
+  date: string;
+  dailyBest: number;
+  dailyClears: number;
+}
+
+export interface ChannelHistory {
+  from: string;
+  to: string;
+  chatbotEnabled: boolean;
+  // Every day from `from` to `to`, in order; a day with no record is zeros.
+  days: ChannelDay[];
+}
+
+export interface ChannelBoardCount {
+  boardsCaptured: number;
+  lastCapturedAt: string | null;
+}
+
+// GETs one of the per-channel read routes. Null when the route refused the
+// request or could not be reached; `what` names the read in the log.
+async function fetchChannelRead<T>(url: string, what: string): Promise<T | null> {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) {
+      console.error(`Failed to fetch ${what}: ${response.status} ${response.statusText}`);
+      return null;
+    }
+    return await response.json() as T;
+  } catch (error) {
+    console.error(`Error fetching ${what}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Fetches a channel's daily best and clears for each UTC day from `from` to
+ * `to` (YYYY-MM-DD, both included). Either may be left out: the route then
+ * answers the four weeks up to today. Null when the history can't be read.
+ */
+export async function fetchChannelHistory(channel: string, range: { from?: string; to?: string } = {}): Promise<ChannelHistory | null> {
+  const cleanChannel = normalizeTwitchLogin(channel);
+  if (!cleanChannel) {
+    console.warn('Cannot fetch channel history: channel name is invalid.');
+    return null;
+  }
+
+  const query = new URLSearchParams();
+  if (range.from) query.set('from', range.from);
+  if (range.to) query.set('to', range.to);
+  const url = `/api/channel-stats/${encodeURIComponent(cleanChannel)}/history`;
+  return fetchChannelRead<ChannelHistory>(query.size > 0 ? `${url}?${query}` : url, 'channel history');
+}
+
+/**
+ * Fetches how many archived boards a channel captured first, and when the
+ * latest was captured. Null when the count can't be read.
+ */
+export async function fetchChannelBoardCount(channel: string): Promise<ChannelBoardCount | null> {
+  const cleanChannel = normalizeTwitchLogin(channel);
+  if (!cleanChannel) {
+    console.warn('Cannot fetch channel boards: channel name is invalid.');
+    return null;
+  }
+
+  return fetchChannelRead<ChannelBoardCount>(`/api/channel-stats/${encodeURIComponent(cleanChannel)}/boards`, 'channel boards');
+}
+
+/**
+ * Whether a channel has put itself on the leaderboard
+ * (GET /api/leaderboard/[channel]). Null when that can't be read.
+ */
+export async function fetchLeaderboardOptIn(channel: string): Promise<boolean | null> {
+  const cleanChannel = normalizeTwitchLogin(channel);
+  if (!cleanChannel) {
+    console.warn('Cannot fetch leaderboard opt-in: channel name is invalid.');
+    return null;
+  }
+
+  const body = await fetchChannelRead<{ optedIn: boolean }>(`/api/leaderboard/${encodeURIComponent(cleanChannel)}`, 'leaderboard opt-in');
+  return body ? body.optedIn : null;
+}
+
+/**
+ * Puts a channel on the leaderboard, or takes it off. Signed with the
+ * channel's write token like a board write, so it only succeeds once
+ * authorizeBoardWrites has been given one. Returns whether the change was
+ * made; failures are logged, never thrown.
+ */
+export async function setLeaderboardOptIn(channel: string, optedIn: boolean): Promise<boolean> {
+  const cleanChannel = normalizeTwitchLogin(channel);
+  if (!cleanChannel) {
+    console.warn('Cannot change leaderboard opt-in: channel name is invalid.');
+    return false;
+  }
+
+  try {
+    const response = await fetch(`/api/leaderboard/${encodeURIComponent(cleanChannel)}`, {
+      method: optedIn ? 'PUT' : 'DELETE',
+      headers: await boardWriteHeaders(),
+    });
+
+    if (!response.ok) {
+      console.error(`Failed to change leaderboard opt-in: ${response.status} ${response.statusText}`);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.error('Error changing leaderboard opt-in:', error);
+    return false;
+  }
+}
+
+// What one player did on one level, as reported to /api/player-stats.
+export interface PlayerLevelStats {
+  wordsFound: number;
+  bigWordsHit: number;
+  hiddenWordsGuessed: number;
+}
+
+/**
+ * Reports one player's stats for one level. `levelKey` identifies the level
+ * across every open WoS+ view, so the server can ignore the same level being
+ * reported more than once. Like a board write, the report is signed with the
+ * channel's write token, and only counted when this view holds one. Failures
+ * are logged and otherwise ignored: stats are a side record and must never
+ * disturb the level flow.
+ */
+export async function recordPlayerLevel(
+  channel: string,
+  player: string,
+  levelKey: string,
+  stats: PlayerLevelStats,
+): Promise<void> {
+  const cleanChannel = normalizeTwitchLogin(channel);
+  const cleanPlayer = normalizeTwitchLogin(player);
+  if (!cleanChannel || !cleanPlayer) {
+    console.warn('Cannot record player stats: channel or player name is invalid.');
+    return;
+  }
+
+  try {
+    const url = `/api/player-stats/${encodeURIComponent(cleanChannel)}/${encodeURIComponent(cleanPlayer)}`;
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(await boardWriteHeaders()),
+      },
+      body: JSON.stringify({ levelKey, ...stats }),
+    });
+
+    if (!response.ok) {
+      console.error(`Failed to record player stats: ${response.status} ${response.statusText}`);
+    }
+  } catch (error) {
+    console.error('Error recording player stats:', error);
+  }
+}
+
+// One player's numbers in a channel (GET /api/player-stats/[channel]).
+export interface PlayerStats extends PlayerLevelStats {
+  player: string;
+  levelsPlayed: number;
+}
+
+/**
+ * Fetches the players who have found the most words in a channel, most first.
+ * Null when they can't be read.
+ */
+export async function fetchTopContributors(channel: string, limit: number = 10): Promise<PlayerStats[] | null> {
+  const cleanChannel = normalizeTwitchLogin(channel);
+  if (!cleanChannel) {
+    console.warn('Cannot fetch top contributors: channel name is invalid.');
+    return null;
+  }
+
+  const body = await fetchChannelRead<{ players: PlayerStats[] }>(
+    `/api/player-stats/${encodeURIComponent(cleanChannel)}?limit=${limit}`,
+    'top contributors',
+  );
+  return body?.players ?? null;
+}
+
+// How sure WoS+ is of a word it recovered from chat for a masked guess:
+// exactly one chat message fitted ('unique'), several did ('ambiguous'), or
+// none was a known word and the newest message of the right length was taken
+// ('fallback').
+export type ResolutionConfidence = 'unique' | 'ambiguous' | 'fallback';
+
 export interface Slot {
   letters: string[];
   user?: string | null;
   hitMax: boolean;
   originalIndex?: number;
   word: string;
+  // Set only on words recovered from a masked guess.
+  confidence?: ResolutionConfidence;
 }
 
 export interface Board {
@@ -66,10 +260,92 @@ export interface Board {
   // before the column existed default to 'en' — the only language WoS+
   // supported at the time.
   language_code?: string | null;
+  // The big word's letters, folded and sorted, which the by-letters lookup
+  // searches on. Written by the API on every save or repair; older boards are
+  // filled in by db-scripts/backfill-letters-signature.mjs.
+  letters_signature?: string | null;
+  // What later captures of the board have contributed (see
+  // db-scripts/add-contributions-to-boards.sql): how many captures saw each
+  // slot word, keyed by the lower-cased word; every channel it was captured
+  // from; and when it was first and last captured.
+  word_observations?: Record<string, number>;
+  channels?: string[];
+  first_seen_at?: string | null;
+  last_seen_at?: string | null;
+}
+
+// The write token board saves, repairs and merges carry (src/lib/write-tokens.ts),
+// issued for the channel this overlay is connected to, along with the Twitch
+// sign-in it was issued for (src/scripts/twitch-login.ts) so it can be
+// renewed. Until
+// authorizeBoardWrites succeeds there is none, so writes go out unsigned and
+// the server refuses them.
+let boardWriteAccess: { channel: string; twitchToken: string; token: string; expiresAt: number } | null = null;
+
+// A token this close to expiring is replaced before the next write.
+const WRITE_TOKEN_REFRESH_MS = 5 * 60 * 1000;
+
+/**
+ * Asks the server for a write token for `channel` and keeps it for the board
+ * writes that follow. Called when the overlay connects to a channel; returns
+ * whether a token was issued. The server only issues one when `twitchToken`
+ * is a Twitch sign-in as the channel itself. Failures are logged, never
+ * thrown.
+ */
+export async function authorizeBoardWrites(channel: string, twitchToken: string | null): Promise<boolean> {
+  boardWriteAccess = null;
+  const cleanChannel = normalizeTwitchLogin(channel);
+  if (!cleanChannel) {
+    console.warn('Cannot authorize board writes: channel name is invalid.');
+    return false;
+  }
+  if (!twitchToken) {
+    console.warn('Cannot authorize board writes: not signed in with Twitch.');
+    return false;
+  }
+
+  try {
+    const response = await fetch('/api/write-token', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${twitchToken}`,
+      },
+      body: JSON.stringify({ channel: cleanChannel }),
+    });
+
+    if (!response.ok) {
+      console.error(`Failed to authorize board writes: ${response.status} ${response.statusText}`);
+      return false;
+    }
+
+    const { token, expiresAt } = await response.json() as { token: string; expiresAt: string };
+    boardWriteAccess = { channel: cleanChannel, twitchToken, token, expiresAt: Date.parse(expiresAt) };
+    return true;
+  } catch (error) {
+    console.error('Error authorizing board writes:', error);
+    return false;
+  }
+}
+
+// The Authorization header for a board write, renewing the token first when
+// it is about to expire. Empty when this overlay holds no token.
+async function boardWriteHeaders(): Promise<Record<string, string>> {
+  if (boardWriteAccess && boardWriteAccess.expiresAt - Date.now() < WRITE_TOKEN_REFRESH_MS) {
+    await authorizeBoardWrites(boardWriteAccess.channel, boardWriteAccess.twitchToken);
+  }
+  return boardWriteAccess ? { Authorization: `Bearer ${boardWriteAccess.token}` } : {};
 }
 
-async function fetchExistingBoard(boardId: string): Promise<{ exists: boolean; board: Board | null }> {
+// A board's own URL. A Portuguese or French board may be named with accented
+// letters, which the route only accepts when told the board's language.
+function boardUrl(boardId: string, languageCode?: string | null): string {
   const url = `/api/boards/${encodeURIComponent(boardId)}`;
+  return languageCode && languageCode !== 'en' ? `${url}?lang=${languageCode}` : url;
+}
+
+async function fetchExistingBoard(boardId: string, languageCode: string): Promise<{ exists: boolean; board: Board | null }> {
+  const url = boardUrl(boardId, languageCode);
   const response = await fetch(url, {
     method: 'GET',
   });
@@ -91,18 +367,30 @@ async function fetchExistingBoard(boardId: string): Promise<{ exists: boolean; b
   }
 }
 
+// The slot fields a board write sends. Anything else on a slot is this view's
+// own bookkeeping — `confidence`, say, only says how a masked guess was worked
+// out — and is not part of the board.
+const ARCHIVED_SLOT_FIELDS = new Set(['letters', 'word', 'user', 'hitMax', 'index', 'length']);
+
+function archivedSlots(slots: Slot[]): Record<string, unknown>[] {
+  return slots.map(slot => Object.fromEntries(
+    Object.entries(slot).filter(([field]) => ARCHIVED_SLOT_FIELDS.has(field)),
+  ));
+}
+
 // Replaces the slots of an already-stored board that was saved with corrupted
 // words (issues #119 and #195). The server only accepts this update when the
 // stored board is actually corrupted, so a clean board can never be overwritten.
 async function updateBoardSlots(boardId: string, slots: Slot[], twitchChannel: string | null, languageCode: string) {
   try {
-    const response = await fetch(`/api/boards/${encodeURIComponent(boardId)}`, {
+    const response = await fetch(boardUrl(boardId, languageCode), {
       method: 'PUT',
       headers: {
         'Content-Type': 'application/json',
+        ...(await boardWriteHeaders()),
       },
       body: JSON.stringify({
-        slots,
+        slots: archivedSlots(slots),
         language_code: languageCode,
         ...(twitchChannel ? { twitch_channel: twitchChannel } : {}),
       }),
@@ -128,10 +416,54 @@ async function updateBoardSlots(boardId: string, slots: Slot[], twitchChannel: s
   }
 }
 
+// Adds a capture of a board the archive already holds, soundly, to the stored
+// copy (POST /api/boards?merge=true): one more observation of each word, and
+// this channel among the channels that have captured it. The server refuses
+// with a 409 when the two copies' words disagree.
+async function mergeBoardCapture(boardId: string, slots: Slot[], twitchChannel: string | null, languageCode: string) {
+  try {
+    const response = await fetch('/api/boards?merge=true', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(await boardWriteHeaders()),
+      },
+      body: JSON.stringify({
+        id: boardId,
+        slots: archivedSlots(slots),
+        language_code: languageCode,
+        ...(twitchChannel ? { twitch_channel: twitchChannel } : {}),
+      }),
+    });
+
+    let responseBody: { error?: string; message?: string; code?: string } | null = null;
+    try {
+      responseBody = await response.json();
+    } catch {
+      responseBody = null;
+    }
+
+    if (response.status === 409) {
+      console.warn(responseBody?.message || `Board ${boardId} was not merged.`);
+      return responseBody;
+    }
+
+    if (!response.ok) {
+      const apiMessage = responseBody?.message || responseBody?.error;
+      throw new Error(apiMessage || `Network response was not ok: ${response.status} ${response.statusText}`);
+    }
+
+    console.log(`Board ${boardId} merged with this capture:`, responseBody);
+    return responseBody;
+  } catch (error) {
+    console.error('Error merging board capture:', error);
+  }
+}
+
 function storedBoardCorruptionReason(board: Board | null, boardId: string): 'redundant words' | 'invalid words' | null {
   if (!board) return null;
   if (hasRedundantWords(board.slots)) return 'redundant words';
-  if (hasInvalidWords(board.slots, boardId)) return 'invalid words';
+  if (hasInvalidWords(board.slots, boardId, normalizeLanguageCode(board.language_code) ?? 'en')) return 'invalid words';
   return null;
 }
 
@@ -149,7 +481,7 @@ function clientBoardIdWarning(error: string): string {
 }
 
 export async function saveBoard(boardId: string, slots: Slot[], twitchChannel?: string, languageCode?: string) {
-  const boardName = validateBoardName(boardId);
+  const boardName = validateBoardName(boardId, normalizeLanguageCode(languageCode) ?? 'en');
   if ('error' in boardName) {
     console.warn(`Cannot save board: ${clientBoardIdWarning(boardName.error)}`);
     return;
@@ -185,6 +517,22 @@ export async function saveBoard(boardId: string, slots: Slot[], twitchChannel?:
     return;
   }
 
+  // A word WoS+ had to guess at from chat may be wrong, and an archived board
+  // is served back to every later game with the same letters, so only boards
+  // whose recovered words are certain are kept.
+  const uncertainWords = slots
+    .filter(slot => slot.confidence !== undefined && slot.confidence !== 'unique')
+    .map(slot => slot.word);
+  if (uncertainWords.length > 0) {
+    const uncertainMessage = `Cannot save board ${cleanBoardId}: low-confidence words in slots: ${uncertainWords.join(', ')}.`;
+    console.warn(uncertainMessage);
+    return {
+      error: 'Low-confidence words in board slots',
+      message: uncertainMessage,
+      code: 'LOW_CONFIDENCE_WORDS',
+    };
+  }
+
   // Guard (issue #119): every slot on a board is a distinct word, so slots
   // containing the same word more than once are corrupted capture data and
   // must never reach the database.
@@ -199,14 +547,15 @@ export async function saveBoard(boardId: string, slots: Slot[], twitchChannel?:
     };
   }
 
-  // The channel is informational metadata: an invalid or missing value is
-  // dropped rather than blocking the save.
+  // An invalid channel is dropped here rather than sent. The archive refuses
+  // a write that does not name the channel of this overlay's write token
+  // (specs/boards.md § Write access), so the save will be refused either way.
   const cleanTwitchChannel = normalizeTwitchLogin(twitchChannel);
   if (twitchChannel !== undefined && cleanTwitchChannel === null) {
     console.warn('Saving board without twitch channel: channel name is invalid.');
   }
 
-  // The word language, unlike the channel, is not informational (issue #161):
+  // The word language must be a real one too (issue #161):
   // a board's words only mean anything alongside the language they were
   // played in, so a fresh save requires one of the languages WoS actually
   // plays in. A repair (the self-healing branch below) keeps the pre-#161
@@ -215,7 +564,7 @@ export async function saveBoard(boardId: string, slots: Slot[], twitchChannel?:
   const requestedLanguageCode = normalizeLanguageCode(languageCode);
 
   try {
-    const { exists, board: existingBoard } = await fetchExistingBoard(cleanBoardId);
+    const { exists, board: existingBoard } = await fetchExistingBoard(cleanBoardId, requestedLanguageCode ?? 'en');
     if (exists) {
       // Self-healing (issues #119 and #195): if the stored copy of this board
       // has redundant or impossible words, replace its slots with this clean
@@ -226,6 +575,17 @@ export async function saveBoard(boardId: string, slots: Slot[], twitchChannel?:
         return await updateBoardSlots(cleanBoardId, slots, cleanTwitchChannel, requestedLanguageCode ?? 'en');
       }
 
+      // A sound stored copy gains this capture as another observation. One
+      // that couldn't be read is left alone, as before merging existed.
+      if (existingBoard) {
+        return await mergeBoardCapture(
+          cleanBoardId,
+          slots,
+          cleanTwitchChannel,
+          requestedLanguageCode ?? normalizeLanguageCode(existingBoard.language_code) ?? 'en',
+        );
+      }
+
       const duplicateMessage = `Board ${cleanBoardId} has already been saved.`;
       console.warn(duplicateMessage);
       return {
@@ -254,10 +614,11 @@ export async function saveBoard(boardId: string, slots: Slot[], twitchChannel?:
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...(await boardWriteHeaders()),
       },
       body: JSON.stringify({
         id: cleanBoardId,
-        slots: slots,
+        slots: archivedSlots(slots),
         created_at: new Date().toISOString(),
         language_code: requestedLanguageCode,
         ...(cleanTwitchChannel ? { twitch_channel: cleanTwitchChannel } : {}),
@@ -299,8 +660,8 @@ export async function saveBoard(boardId: string, slots: Slot[], twitchChannel?:
   }
 }
 
-export async function fetchBoard(boardId: string): Promise<Board | null> {
-  const boardName = validateBoardName(boardId);
+export async function fetchBoard(boardId: string, languageCode: string = 'en'): Promise<Board | null> {
+  const boardName = validateBoardName(boardId, languageCode);
   if ('error' in boardName) {
     console.warn(`Cannot fetch board: ${clientBoardIdWarning(boardName.error)}`);
     return null;
@@ -308,7 +669,7 @@ export async function fetchBoard(boardId: string): Promise<Board | null> {
   const { cleanId: cleanBoardId } = boardName;
 
   try {
-    const url = `/api/boards/${encodeURIComponent(cleanBoardId)}`;
+    const url = boardUrl(cleanBoardId, languageCode);
     const response = await fetch(url);
 
     if (!response.ok) {
@@ -327,3 +688,68 @@ export async function fetchBoard(boardId: string): Promise<Board | null> {
     return null;
   }
 }
+
+/**
+ * Looks up the archived board whose big word uses exactly `letters` — a
+ * level's tiles, in any order — so a board can be found before its big word
+ * is guessed. Null when there is no such board or the lookup failed.
+ */
+export async function fetchBoardByLetters(letters: string[], languageCode: string = 'en'): Promise<Board | null> {
+  const boardLetters = validateBoardName(letters.join(''), languageCode);
+  if ('error' in boardLetters) {
+    console.warn(`Cannot fetch board by letters: ${letters.join('')} is not 4 to 12 letters.`);
+    return null;
+  }
+  const { cleanId: cleanLetters } = boardLetters;
+
+  try {
+    const url = `/api/boards/by-letters/${encodeURIComponent(cleanLetters)}`;
+    const response = await fetch(languageCode !== 'en' ? `${url}?lang=${languageCode}` : url);
+
+    if (!response.ok) {
+      if (response.status === 404) {
+        console.log(`No board with letters ${cleanLetters} in database.`);
+        return null;
+      }
+      throw new Error(`Network response was not ok: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    console.log(`Board ${data?.id} fetched by letters ${cleanLetters}:`, data);
+    return data;
+  } catch (error) {
+    console.error('Error fetching board by letters:', error);
+    return null;
+  }
+}
+
+// One page of the archive listing (GET /api/boards).
+export interface BoardPage {
+  boards: Board[];
+  limit: number;
+  // The cursor for the page after this one, or null when this is the last.
+  next: string | null;
+}
+
+/**
+ * Fetches one page of the board archive for the /boards browser. `filters`
+ * is passed to the route as-is (see src/lib/board-query.ts for what it
+ * accepts). Returns the page, or the message to show when the route refused
+ * the filters or could not be reached.
+ */
+export async function fetchBoardPage(filters: URLSearchParams): Promise<{ page: BoardPage } | { error: string }> {
+  try {
+    const query = filters.toString();
+    const response = await fetch(query ? `/api/boards?${query}` : '/api/boards');
+    const body = await response.json().catch(() => null) as BoardPage | { message?: string; error?: string } | null;
+
+    if (!response.ok || !body || !('boards' in body)) {
+      const refusal = body && !('boards' in body) ? body.message || body.error : undefined;
+      return { error: refusal || `Network response was not ok: ${response.status} ${response.statusText}` };
+    }
+    return { page: body };
+  } catch (error) {
+    console.error('Error fetching boards:', error);
+    return { error: 'The board archive could not be reached.' };
+  }
+}
@@ -0,0 +1,104 @@
+import { determineBoardId as determineBoardIdWithoutWords, type Slot } from './wos-words';
+import type { DictionaryAnswers, DictionaryQuery, DictionaryWorkerResult } from './dictionary-worker';
+
+/**
+ * The main thread's side of the dictionary worker (dictionary-worker.ts): the
+ * word-list functions GameSpectator uses, each posting its question to the
+ * worker and resolving with the answer, so loading the list and searching it
+ * never block the overlay.
+ *
+ * Like wos-words.ts itself, every function degrades to "no words known"
+ * rather than failing: a query the worker could not answer, or any query once
+ * the worker itself has failed, is answered as an empty dictionary would.
+ */
+
+const dictionaryWorker = new Worker(
+  new URL('../scripts/dictionary-worker.ts', import.meta.url),
+  { type: 'module' }
+);
+
+type QueryName = DictionaryQuery['query'];
+
+interface PendingQuery {
+  resolve: (answer: DictionaryAnswers[QueryName]) => void;
+  fallback: () => DictionaryAnswers[QueryName];
+}
+
+const pendingQueries = new Map<number, PendingQuery>();
+let nextQueryId = 1;
+let workerFailed = false;
+
+dictionaryWorker.onmessage = (e: MessageEvent<DictionaryWorkerResult>) => {
+  const pending = pendingQueries.get(e.data.id);
+  if (!pending) return;
+  pendingQueries.delete(e.data.id);
+
+  if (e.data.type === 'dictionary_answer') {
+    pending.resolve(e.data.answer);
+  } else {
+    console.error('Dictionary query failed:', e.data.error);
+    pending.resolve(pending.fallback());
+  }
+};
+
+dictionaryWorker.onerror = (error) => {
+  console.error('Dictionary Worker Error:', error);
+  workerFailed = true;
+  for (const pending of pendingQueries.values()) pending.resolve(pending.fallback());
+  pendingQueries.clear();
+};
+
+function ask<Q extends DictionaryQuery>(
+  query: Q,
+  fallback: () => DictionaryAnswers[Q['query']],
+): Promise<DictionaryAnswers[Q['query']]> {
+  if (workerFailed) return Promise.resolve(fallback());
+
+  return new Promise((resolve) => {
+    const id = nextQueryId++;
+    pendingQueries.set(id, {
+      resolve: resolve as PendingQuery['resolve'],
+      fallback,
+    });
+    dictionaryWorker.postMessage({ ...query, id });
+  });
+}
+
+/** Loads (or reloads) the current language's word list in the worker. */
+export function loadWordsFromDb(): Promise<void> {
+  return ask({ query: 'load_words' }, () => undefined);
+}
+
+/** See setWordLanguage in wos-words.ts. */
+export function setWordLanguage(languageCode: string): Promise<void> {
+  return ask({ query: 'set_language', languageCode }, () => undefined);
+}
+
+export function isWosWord(word: string): Promise<boolean> {
+  return ask({ query: 'is_word', word }, () => false);
+}
+
+export function findAllMissingWords(knownWords: string[], knownLetters: string, minLength: number): Promise<string[]> {
+  return ask({ query: 'missing_words', knownWords, knownLetters, minLength }, () => []);
+}
+
+export function findMissingWordsFromBoard(currentSlots: Slot[], boardSlots: Slot[]): Promise<string[]> {
+  return ask({ query: 'missing_words_from_board', currentSlots, boardSlots }, () => []);
+}
+
+export function findWosWordsFitting(length: number, letters: string[]): Promise<string[]> {
+  return ask({ query: 'words_fitting', length, letters }, () => []);
+}
+
+/**
+ * See determineBoardId in wos-words.ts. Without the worker the id is still
+ * worked out, from `bigWord` and `extraCandidates` alone. The language is
+ * always passed: this thread's copy of wos-words never hears about a language
+ * change, which only reaches the worker.
+ */
+export function determineBoardId(bigWord: string, extraCandidates: string[], languageCode: string): Promise<string> {
+  return ask(
+    { query: 'board_id', bigWord, extraCandidates, languageCode },
+    () => determineBoardIdWithoutWords(bigWord, extraCandidates, languageCode),
+  );
+}
@@ -0,0 +1,91 @@
+import {
+  determineBoardId,
+  findAllMissingWords,
+  findMissingWordsFromBoard,
+  findWosWordsFitting,
+  isWosWord,
+  loadWordsFromDb,
+  setWordLanguage,
+  type Slot,
+} from './wos-words';
+
+declare let self: Worker;
+
+// The questions the main thread asks of the word list, one per wos-words.ts
+// function it used to call directly. The list itself (download, parse, index)
+// lives only in this worker, so none of that work competes with the overlay's
+// animations.
+export type DictionaryQuery =
+  | { query: 'load_words' }
+  | { query: 'set_language'; languageCode: string }
+  | { query: 'is_word'; word: string }
+  | { query: 'missing_words'; knownWords: string[]; knownLetters: string; minLength: number }
+  | { query: 'missing_words_from_board'; currentSlots: Slot[]; boardSlots: Slot[] }
+  | { query: 'words_fitting'; length: number; letters: string[] }
+  | { query: 'board_id'; bigWord: string; extraCandidates: string[]; languageCode: string };
+
+// What each query is answered with.
+export interface DictionaryAnswers {
+  load_words: undefined;
+  set_language: undefined;
+  is_word: boolean;
+  missing_words: string[];
+  missing_words_from_board: string[];
+  words_fitting: string[];
+  board_id: string;
+}
+
+// `id` pairs a query with its answer: several can be in flight at once.
+export type DictionaryWorkerMessage = DictionaryQuery & { id: number };
+
+export type DictionaryWorkerResult =
+  | { type: 'dictionary_answer'; id: number; answer: DictionaryAnswers[DictionaryQuery['query']] }
+  | { type: 'error'; id: number; error: string };
+
+async function answerQuery(message: DictionaryQuery): Promise<DictionaryAnswers[DictionaryQuery['query']]> {
+  switch (message.query) {
+    case 'load_words':
+      await loadWordsFromDb();
+      return undefined;
+    case 'set_language':
+      await setWordLanguage(message.languageCode);
+      return undefined;
+    case 'is_word':
+      return isWosWord(message.word);
+    case 'missing_words':
+      return findAllMissingWords(message.knownWords, message.knownLetters, message.minLength);
+    case 'missing_words_from_board':
+      return findMissingWordsFromBoard(message.currentSlots, message.boardSlots);
+    case 'words_fitting':
+      return findWosWordsFitting(message.length, message.letters);
+    case 'board_id':
+      return determineBoardId(message.bigWord, message.extraCandidates, message.languageCode);
+  }
+}
+
+/** Answers one message; never rejects, so every query gets a reply. */
+export async function answerDictionaryMessage(message: DictionaryWorkerMessage): Promise<DictionaryWorkerResult> {
+  try {
+    return { type: 'dictionary_answer', id: message.id, answer: await answerQuery(message) };
+  } catch (error) {
+    return { type: 'error', id: message.id, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+// Worker implementation. The scope is held on to because replies are posted
+// once an answer is ready, after the handler has returned.
+const scope = self;
+scope.onmessage = function (e: MessageEvent<DictionaryWorkerMessage>) {
+  void answerDictionaryMessage(e.data).then((result) => {
+    scope.postMessage(result);
+  });
+};
+
+// Handle worker errors
+scope.onerror = function (error) {
+  console.error('Dictionary Worker Error:', error);
+};
+
+scope.onmessageerror = function (error) {
+  console.error('Dictionary Worker Message Error:', error);
+};
@@ -0,0 +1,94 @@
+/**
+ * Session leaderboard built from the game's Level Results (event 4) rankings.
+ *
+ * WoS reports two rankings when a level ends: `ranking`, the running total for
+ * the current game, and `rankingTurn`, the points each player earned on the
+ * level that just ended. WoS+ can join a game part-way through and a stream
+ * usually spans several games, so neither total is the one a community asks
+ * about ("who carried that run?"). Instead the leaderboard is built from the
+ * per-level `rankingTurn` entries and summed here, which makes it cover
+ * exactly the levels this view has watched.
+ */
+
+import type { WosRankingEntry } from './wos-worker';
+
+export interface LevelPoints {
+  level: number;
+  points: number;
+}
+
+export interface PlayerStanding {
+  // Lowercased Twitch login; the leaderboard key.
+  login: string;
+  // The name as WoS displays it (e.g. "RuggMattBot"), for rendering.
+  displayName: string;
+  totalPoints: number;
+  // Points per level, in the order the levels were played.
+  levels: LevelPoints[];
+}
+
+export type SessionLeaderboard = Map<string, PlayerStanding>;
+
+/**
+ * Adds one level's `rankingTurn` to the leaderboard.
+ *
+ * Entries without a usable player or a finite, positive points value are
+ * skipped rather than throwing, since the payload comes straight off the
+ * socket. Recording the same level twice replaces that level's points instead
+ * of adding them again, so a re-delivered Level Results event can't inflate a
+ * player's total.
+ */
+export function recordLevelRanking(
+  leaderboard: SessionLeaderboard,
+  level: number,
+  rankingTurn: unknown,
+): void {
+  if (!Array.isArray(rankingTurn)) return;
+
+  const levelPoints = new Map<string, { displayName: string; points: number }>();
+  for (const entry of rankingTurn as WosRankingEntry[]) {
+    const name = entry?.user?.name ?? entry?.user?.id;
+    const id = entry?.user?.id ?? entry?.user?.name;
+    const points = entry?.points;
+    if (typeof name !== 'string' || typeof id !== 'string' || !id.trim()) continue;
+    if (typeof points !== 'number' || !Number.isFinite(points) || points <= 0) continue;
+
+    const login = id.trim().toLowerCase();
+    const existing = levelPoints.get(login);
+    levelPoints.set(login, {
+      displayName: name.trim() || login,
+      points: (existing?.points ?? 0) + points,
+    });
+  }
+
+  for (const [login, { displayName, points }] of levelPoints) {
+    const standing = leaderboard.get(login) ?? { login, displayName, totalPoints: 0, levels: [] };
+    standing.displayName = displayName;
+
+    const previous = standing.levels.find(entry => entry.level === level);
+    if (previous) {
+      standing.totalPoints += points - previous.points;
+      previous.points = points;
+    } else {
+      standing.levels.push({ level, points });
+      standing.totalPoints += points;
+    }
+
+    leaderboard.set(login, standing);
+  }
+}
+
+/** Points `standing` earned on `level`, or 0 when they scored nothing there. */
+export function pointsForLevel(standing: PlayerStanding, level: number): number {
+  return standing.levels.find(entry => entry.level === level)?.points ?? 0;
+}
+
+/**
+ * The leaderboard as a ranked list: highest total first, ties broken
+ * alphabetically by login so the order is stable between renders.
+ */
+export function rankStandings(leaderboard: SessionLeaderboard): PlayerStanding[] {
+  return [...leaderboard.values()].sort(
+    (a, b) => b.totalPoints - a.totalPoints || a.login.localeCompare(b.login)
+  );
+}
@@ -0,0 +1,139 @@
+/**
+ * Level history: what each level this view watched end looked like, kept for
+ * the whole session so a run can be looked back over once its boards are gone.
+ *
+ * `clearBoard` wipes the found words and slots as soon as the next level
+ * starts, so an entry is taken when a level's results are in — the stars, the
+ * big word, the words found and missed, and who scored most on it — and the
+ * player view lists them as a timeline. At the end of a stream the history can
+ * be saved as CSV, for a spreadsheet, or as JSON.
+ *
+ * The JSON carries its own format name and version, like a session recording;
+ * bump `LEVEL_HISTORY_VERSION` for any change a reader of an older file would
+ * misread.
+ */
+
+import { pointsForLevel, type SessionLeaderboard } from './leaderboard';
+
+export const LEVEL_HISTORY_FORMAT = 'wos-plus-level-history';
+export const LEVEL_HISTORY_VERSION = 1;
+
+// How many players an entry names as the level's top guessers.
+export const TOP_GUESSERS_PER_LEVEL = 3;
+
+export interface TopGuesser {
+  // The name as WoS displays it.
+  name: string;
+  points: number;
+}
+
+export interface LevelHistoryEntry {
+  level: number;
+  stars: number;
+  // Every slot was filled, or the level earned five stars.
+  cleared: boolean;
+  // Uppercase, without spaces; empty when nobody found it.
+  bigWord: string;
+  // Uppercase, shortest first, as the found-words list shows them.
+  foundWords: string[];
+  missedWords: string[];
+  topGuessers: TopGuesser[];
+  // When the level's results arrived (ms).
+  endedAt: number;
+}
+
+/** The whole history as exported to JSON. */
+export interface LevelHistoryExport {
+  format: typeof LEVEL_HISTORY_FORMAT;
+  version: typeof LEVEL_HISTORY_VERSION;
+  exportedAt: string;
+  channel: string;
+  levels: LevelHistoryEntry[];
+}
+
+/**
+ * Adds a level to the history. A re-delivered Level Results event for the
+ * level just recorded replaces it rather than listing the level twice.
+ */
+export function recordLevelHistory(history: LevelHistoryEntry[], entry: LevelHistoryEntry): void {
+  if (history[history.length - 1]?.level === entry.level) {
+    history[history.length - 1] = entry;
+  } else {
+    history.push(entry);
+  }
+}
+
+/**
+ * Splits the found-words list (missed words carry a trailing '*') into the
+ * words found and the words missed.
+ */
+export function splitFoundAndMissed(words: string[]): { foundWords: string[]; missedWords: string[] } {
+  const foundWords: string[] = [];
+  const missedWords: string[] = [];
+  for (const word of words) {
+    if (word.endsWith('*')) {
+      missedWords.push(word.slice(0, -1).toUpperCase());
+    } else {
+      foundWords.push(word.toUpperCase());
+    }
+  }
+  return { foundWords, missedWords };
+}
+
+/** The players who scored most on `level`, best first, from the session leaderboard. */
+export function topGuessersForLevel(
+  leaderboard: SessionLeaderboard,
+  level: number,
+  count: number = TOP_GUESSERS_PER_LEVEL,
+): TopGuesser[] {
+  return [...leaderboard.values()]
+    .map((standing) => ({ login: standing.login, name: standing.displayName, points: pointsForLevel(standing, level) }))
+    .filter((guesser) => guesser.points > 0)
+    .sort((a, b) => b.points - a.points || a.login.localeCompare(b.login))
+    .slice(0, count)
+    .map(({ name, points }) => ({ name, points }));
+}
+
+export function levelHistoryToJson(
+  history: LevelHistoryEntry[],
+  session: { channel: string },
+  exportedAt: Date = new Date(),
+): string {
+  const exported: LevelHistoryExport = {
+    format: LEVEL_HISTORY_FORMAT,
+    version: LEVEL_HISTORY_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    channel: session.channel,
+    levels: history,
+  };
+  return `${JSON.stringify(exported, null, 2)}\n`;
+}
+
+const CSV_COLUMNS = ['level', 'stars', 'cleared', 'big_word', 'found_words', 'missed_words', 'top_guessers', 'ended_at'];
+
+// Quotes a field that would otherwise break the row. Player names are
+// displayed names off the socket, so they can hold anything — including text
+// a spreadsheet would run as a formula, which is prefixed with ' to keep it
+// as text.
+function csvField(value: string | number | boolean): string {
+  const text = typeof value === 'string' && /^[=+\-@]/.test(value) ? `'${value}` : `${value}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * The history as CSV, one row per level in the order played. Word lists are
+ * space-separated; top guessers are `name:points`, separated by spaces.
+ */
+export function levelHistoryToCsv(history: LevelHistoryEntry[]): string {
+  const rows = history.map((entry) => [
+    entry.level,
+    entry.stars,
+    entry.cleared,
+    entry.bigWord,
+    entry.foundWords.join(' '),
+    entry.missedWords.join(' '),
+    entry.topGuessers.map(({ name, points }) => `${name}:${points}`).join(' '),
+    new Date(entry.endedAt).toISOString(),
+  ].map(csvField).join(','));
+  return `${[CSV_COLUMNS.join(','), ...rows].join('\r\n')}\r\n`;
+}
@@ -0,0 +1,108 @@
+/**
+ * Session recorder: a bounded, in-memory log of everything WoS+ was told
+ * during a session, exported as a JSON Lines file that can be attached to an
+ * issue.
+ *
+ * Most WoS+ bugs are races between WoS socket events and Twitch chat (a masked
+ * guess arriving before, or long after, the message it came from), and they
+ * cannot be reproduced from a description. The recorder captures both inputs
+ * exactly as `GameSpectator` receives them — before the workers filter or
+ * translate anything — so the order and timing that triggered a bug survive.
+ *
+ * The file format is versioned and documented in
+ * `docs/session-recording.md`. Bump `SESSION_RECORDING_VERSION` for any change
+ * a reader of an older file would misread.
+ */
+
+export const SESSION_RECORDING_FORMAT = 'wos-plus-session';
+export const SESSION_RECORDING_VERSION = 1;
+
+/** A WoS socket event: the socket.io event name and its arguments as received. */
+export interface RecordedWosEvent {
+  source: 'wos';
+  event: string;
+  args: unknown[];
+}
+
+/** A Twitch chat message, exactly as it is handed to the twitch chat worker. */
+export interface RecordedChatMessage {
+  source: 'chat';
+  username: string;
+  message: string;
+  timestamp: number;
+}
+
+export type RecordedInput = RecordedWosEvent | RecordedChatMessage;
+
+/**
+ * One line of the recording. `seq` orders inputs that share a millisecond;
+ * `at` is the wall-clock time WoS+ received the input, in epoch milliseconds.
+ */
+export type SessionRecordEntry = RecordedInput & { seq: number; at: number };
+
+/** The first line of every exported recording. */
+export interface SessionRecordingHeader {
+  format: typeof SESSION_RECORDING_FORMAT;
+  version: typeof SESSION_RECORDING_VERSION;
+  exportedAt: string;
+  channel: string;
+  wosGameCode: string;
+  capacity: number;
+  // How many older entries the ring buffer overwrote before this export.
+  dropped: number;
+}
+
+export class SessionRecorder {
+  readonly capacity: number;
+  private buffer: SessionRecordEntry[] = [];
+  // Index in `buffer` the next entry is written to once the buffer is full.
+  private next = 0;
+  private total = 0;
+
+  constructor(capacity: number) {
+    // A bad WOS_RECORDER_CAPACITY must not turn into an unbounded buffer.
+    this.capacity = Number.isFinite(capacity) && capacity > 0 ? Math.floor(capacity) : 1;
+  }
+
+  record(input: RecordedInput, at: number = Date.now()): void {
+    const entry = { ...input, seq: this.total, at };
+    this.total++;
+    if (this.buffer.length < this.capacity) {
+      this.buffer.push(entry);
+      return;
+    }
+    this.buffer[this.next] = entry;
+    this.next = (this.next + 1) % this.capacity;
+  }
+
+  /** The retained entries, oldest first. */
+  entries(): SessionRecordEntry[] {
+    return [...this.buffer.slice(this.next), ...this.buffer.slice(0, this.next)];
+  }
+
+  /** How many entries have been overwritten since the recorder was created or cleared. */
+  get dropped(): number {
+    return this.total - this.buffer.length;
+  }
+
+  clear(): void {
+    this.buffer = [];
+    this.next = 0;
+    this.total = 0;
+  }
+
+  /** Serializes the header and every retained entry, one JSON value per line. */
+  toJsonLines(session: { channel: string; wosGameCode: string }, exportedAt: Date = new Date()): string {
+    const header: SessionRecordingHeader = {
+      format: SESSION_RECORDING_FORMAT,
+      version: SESSION_RECORDING_VERSION,
+      exportedAt: exportedAt.toISOString(),
+      channel: session.channel,
+      wosGameCode: session.wosGameCode,
+      capacity: this.capacity,
+      dropped: this.dropped,
+    };
+    const lines = [header, ...this.entries()].map((line) => JSON.stringify(line));
+    return `${lines.join('\n')}\n`;
+  }
+}
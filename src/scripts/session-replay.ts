@@ -0,0 +1,149 @@
+/**
+ * Replays a session recording (see session-recorder.ts) into a GameSpectator.
+ *
+ * A replay drives the overlay without a live game: to demo it, or to review a
+ * stream's missed words after the fact, or to reproduce a bug from the file
+ * attached to an issue. Inputs are delivered in recorded order, spaced by the
+ * recorded gaps divided by the speed, or one at a time in step mode.
+ *
+ * Only the gaps *between* inputs are scaled. WoS+'s own processing delays run
+ * in real time whatever the speed, so at 10x more chat arrives while a guess is
+ * waiting to be applied than did live. 1x and step mode reproduce the original
+ * timing most faithfully.
+ */
+
+import {
+  SESSION_RECORDING_FORMAT,
+  SESSION_RECORDING_VERSION,
+  type SessionRecordEntry,
+  type SessionRecordingHeader,
+} from './session-recorder';
+
+export type ReplaySpeed = 1 | 2 | 10 | 'step';
+
+export interface SessionRecording {
+  header: SessionRecordingHeader;
+  entries: SessionRecordEntry[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function isEntry(value: unknown): value is SessionRecordEntry {
+  if (!isRecord(value) || typeof value.seq !== 'number' || typeof value.at !== 'number') {
+    return false;
+  }
+  if (value.source === 'wos') {
+    return typeof value.event === 'string' && Array.isArray(value.args);
+  }
+  if (value.source === 'chat') {
+    return typeof value.username === 'string' &&
+      typeof value.message === 'string' &&
+      typeof value.timestamp === 'number';
+  }
+  return false;
+}
+
+/**
+ * Reads a downloaded recording. Returns the recording, or a message saying
+ * why the file cannot be replayed: a file from a newer WoS+ is refused rather
+ * than half-understood.
+ */
+export function parseSessionRecording(text: string): { recording: SessionRecording } | { error: string } {
+  const lines = text.split('\n').filter((line) => line.trim() !== '');
+  if (lines.length === 0) return { error: 'The file is empty.' };
+
+  const parsed: unknown[] = [];
+  for (const [index, line] of lines.entries()) {
+    try {
+      parsed.push(JSON.parse(line));
+    } catch {
+      return { error: `Line ${index + 1} is not valid JSON.` };
+    }
+  }
+
+  const [header, ...entries] = parsed;
+  if (!isRecord(header) || header.format !== SESSION_RECORDING_FORMAT) {
+    return { error: 'The file is not a WoS+ session recording.' };
+  }
+  if (header.version !== SESSION_RECORDING_VERSION) {
+    return { error: `Recording version ${String(header.version)} is not supported; this WoS+ reads version ${SESSION_RECORDING_VERSION}.` };
+  }
+  const badEntry = entries.findIndex((entry) => !isEntry(entry));
+  if (badEntry !== -1) {
+    return { error: `Line ${badEntry + 2} is not a recorded game event or chat message.` };
+  }
+
+  return {
+    recording: {
+      header: header as unknown as SessionRecordingHeader,
+      entries: (entries as SessionRecordEntry[]).sort((a, b) => a.seq - b.seq),
+    },
+  };
+}
+
+export class SessionReplay {
+  private position = 0;
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private speed: ReplaySpeed = 1;
+
+  constructor(
+    private readonly entries: SessionRecordEntry[],
+    private readonly deliver: (entry: SessionRecordEntry) => void,
+    // Called after every delivered input, for a progress display.
+    private readonly onProgress: (delivered: number, total: number) => void = () => { },
+  ) { }
+
+  get delivered(): number {
+    return this.position;
+  }
+
+  get total(): number {
+    return this.entries.length;
+  }
+
+  get finished(): boolean {
+    return this.position >= this.entries.length;
+  }
+
+  get playing(): boolean {
+    return this.timer !== undefined;
+  }
+
+  /**
+   * Plays from the current position at `speed`. In step mode nothing is
+   * scheduled; each `step()` delivers the next input.
+   */
+  play(speed: ReplaySpeed): void {
+    this.pause();
+    this.speed = speed;
+    if (speed === 'step') return;
+    this.schedule(0);
+  }
+
+  pause(): void {
+    if (this.timer !== undefined) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /** Delivers the next input now. */
+  step(): void {
+    if (this.finished) return;
+    const entry = this.entries[this.position];
+    this.position++;
+    this.deliver(entry);
+    this.onProgress(this.position, this.entries.length);
+  }
+
+  private schedule(delay: number): void {
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.step();
+      if (this.finished || this.speed === 'step') return;
+      const gap = this.entries[this.position].at - this.entries[this.position - 1].at;
+      this.schedule(Math.max(0, gap) / this.speed);
+    }, delay);
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * The stream's own numbers, kept by the view rather than the chatbot: the
+ * highest level reached, the stars each level earned, the clears, and the
+ * levels a game ended on.
+ *
+ * The daily badges come from the chatbot and are hidden on channels without
+ * it (issue #79); these need nothing but the game events this view receives,
+ * so they work on every channel. They are kept in localStorage under the
+ * channel and the moment the session started, so reloading the view or
+ * saving its settings mid-stream carries on the same session rather than
+ * starting again. A session nothing has happened in for SESSION_IDLE_MS is
+ * over, and the next one starts fresh.
+ */
+
+export interface LevelResult {
+  level: number;
+  stars: number;
+  // Every slot was filled, or the level earned five stars.
+  cleared: boolean;
+}
+
+export interface SessionStats {
+  channel: string;
+  // When the session started and when anything was last recorded (ms).
+  startedAt: number;
+  updatedAt: number;
+  highestLevel: number;
+  // Each level that ended with results, in the order played.
+  levels: LevelResult[];
+  // The level each game ended on, in the order played.
+  failedLevels: number[];
+}
+
+// A break longer than this between two recorded events ends a session.
+export const SESSION_IDLE_MS = 6 * 60 * 60 * 1000;
+
+// Sessions kept per channel; the oldest are dropped as new ones start.
+const MAX_STORED_SESSIONS = 10;
+
+const STORAGE_PREFIX = 'wosPlusSession:';
+
+/** The localStorage key a session is kept under. */
+export const sessionStorageKey = (channel: string, startedAt: number) =>
+  `${STORAGE_PREFIX}${channel}:${startedAt}`;
+
+export function createSessionStats(channel: string, now: number = Date.now()): SessionStats {
+  return { channel, startedAt: now, updatedAt: now, highestLevel: 0, levels: [], failedLevels: [] };
+}
+
+export function recordLevelReached(stats: SessionStats, level: number, now: number = Date.now()): void {
+  if (!Number.isFinite(level) || level <= 0) return;
+  stats.highestLevel = Math.max(stats.highestLevel, level);
+  stats.updatedAt = now;
+}
+
+/**
+ * Records how a level ended. A re-delivered Level Results event for the level
+ * just recorded replaces it rather than counting it twice.
+ */
+export function recordLevelResult(stats: SessionStats, result: LevelResult, now: number = Date.now()): void {
+  if (!Number.isFinite(result.stars) || result.stars < 0) return;
+  const last = stats.levels[stats.levels.length - 1];
+  if (last?.level === result.level) {
+    stats.levels[stats.levels.length - 1] = result;
+  } else {
+    stats.levels.push(result);
+  }
+  stats.updatedAt = now;
+}
+
+/** Records the level a game ended on, once however often the end is reported. */
+export function recordGameOver(stats: SessionStats, level: number, now: number = Date.now()): void {
+  if (stats.failedLevels[stats.failedLevels.length - 1] !== level) {
+    stats.failedLevels.push(level);
+  }
+  stats.updatedAt = now;
+}
+
+export const sessionClears = (stats: SessionStats) => stats.levels.filter((level) => level.cleared).length;
+
+/** Stars earned per level that ended with results; 0 before any has. */
+export function averageStars(stats: SessionStats): number {
+  if (stats.levels.length === 0) return 0;
+  return stats.levels.reduce((sum, level) => sum + level.stars, 0) / stats.levels.length;
+}
+
+function isSessionStats(value: unknown, channel: string): value is SessionStats {
+  const stats = value as SessionStats | null;
+  return !!stats &&
+    stats.channel === channel &&
+    Number.isFinite(stats.startedAt) &&
+    Number.isFinite(stats.updatedAt) &&
+    Number.isFinite(stats.highestLevel) &&
+    Array.isArray(stats.levels) &&
+    Array.isArray(stats.failedLevels);
+}
+
+// The stored sessions for a channel, oldest first. Storage may be unavailable
+// (private mode, etc.), which reads as none stored.
+function storedSessionKeys(channel: string): string[] {
+  const prefix = `${STORAGE_PREFIX}${channel}:`;
+  const keys: string[] = [];
+  try {
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key?.startsWith(prefix)) keys.push(key);
+    }
+  } catch {
+    return [];
+  }
+  return keys.sort((a, b) => Number(a.slice(prefix.length)) - Number(b.slice(prefix.length)));
+}
+
+/**
+ * The channel's session to carry on with: its latest stored one when that
+ * was still going at `now`, otherwise a new one.
+ */
+export function loadSessionStats(channel: string, now: number = Date.now()): SessionStats {
+  const latestKey = storedSessionKeys(channel).pop();
+  if (latestKey) {
+    try {
+      const stored: unknown = JSON.parse(localStorage.getItem(latestKey) ?? 'null');
+      if (isSessionStats(stored, channel) && now - stored.updatedAt < SESSION_IDLE_MS) {
+        return stored;
+      }
+    } catch {
+      /* an unreadable session is as good as none */
+    }
+  }
+  return createSessionStats(channel, now);
+}
+
+/** Stores the session, dropping the channel's oldest beyond MAX_STORED_SESSIONS. */
+export function saveSessionStats(stats: SessionStats): void {
+  try {
+    localStorage.setItem(sessionStorageKey(stats.channel, stats.startedAt), JSON.stringify(stats));
+    const keys = storedSessionKeys(stats.channel);
+    for (const key of keys.slice(0, Math.max(0, keys.length - MAX_STORED_SESSIONS))) {
+      localStorage.removeItem(key);
+    }
+  } catch {
+    /* localStorage may be unavailable or full; the session still shows */
+  }
+}
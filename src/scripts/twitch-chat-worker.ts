@@ -15,10 +15,15 @@ export interface TwitchWorkerResult {
 }
 
 // Worker implementation
-const messageRegex = /^[a-zA-Z]{4,12}$/;
+// Any letter, not just A-Z: Portuguese and French guesses (ação, été) are
+// typed with their accents and only folded to the board's tiles later. The
+// message is composed first (NFC) so an accent typed as a combining mark counts
+// as part of its letter rather than failing the match or the length.
+const messageRegex = /^\p{L}{4,12}$/u;
 self.onmessage = function (e: MessageEvent<TwitchWorkerMessage>) {
   try {
-    const { username, message, timestamp } = e.data;
+    const { username, timestamp } = e.data;
+    const message = e.data.message.normalize('NFC');
 
     if (messageRegex.test(message)) {
       const result: TwitchWorkerResult = {
@@ -0,0 +1,70 @@
+/**
+ * Signing in with Twitch, so the archive will give this view a write token
+ * for its channel (specs/boards.md § Write access): a token is only issued to
+ * whoever Twitch says owns the channel.
+ *
+ * This is Twitch's implicit grant flow
+ * (https://dev.twitch.tv/docs/authentication/getting-tokens-oauth/#implicit-grant-flow):
+ * the view sends the streamer to Twitch, and Twitch sends them back to the
+ * same page with an access token in the URL fragment. No scopes are asked
+ * for; the token only says who signed in. The page's own query string (its
+ * settings) travels as the `state` and is put back on the way in, so only
+ * the page itself needs registering as a redirect URL with the Twitch
+ * application.
+ *
+ * The token is kept in localStorage so an overlay reloaded mid-stream stays
+ * signed in until Twitch expires it.
+ */
+
+const TWITCH_AUTHORIZE_ENDPOINT = 'https://id.twitch.tv/oauth2/authorize';
+
+const STORAGE_KEY = 'wosPlusTwitchToken';
+
+/**
+ * Where to send the streamer to sign in with Twitch from `page`, or null when
+ * this build has no Twitch application to sign in through
+ * (PUBLIC_TWITCH_CLIENT_ID).
+ */
+export function twitchLoginUrl(
+  page: URL,
+  clientId: string | undefined = import.meta.env.PUBLIC_TWITCH_CLIENT_ID,
+): string | null {
+  if (!clientId) return null;
+  const url = new URL(TWITCH_AUTHORIZE_ENDPOINT);
+  url.searchParams.set('client_id', clientId);
+  url.searchParams.set('redirect_uri', `${page.origin}${page.pathname}`);
+  url.searchParams.set('response_type', 'token');
+  url.searchParams.set('scope', '');
+  url.searchParams.set('state', page.search);
+  return url.toString();
+}
+
+/**
+ * Finishes a sign-in when `page` is Twitch sending the streamer back: keeps
+ * the access token, if Twitch gave one, and returns the address the page
+ * should show instead — itself with its settings and without the token.
+ * Returns null for any other page.
+ */
+export function completeTwitchLogin(page: URL): string | null {
+  const fragment = new URLSearchParams(page.hash.slice(1));
+  const token = fragment.get('access_token');
+  if (token) {
+    localStorage.setItem(STORAGE_KEY, token);
+    return `${page.pathname}${fragment.get('state') ?? ''}`;
+  }
+
+  // Turned down (or cancelled) on Twitch: the answer comes in the query
+  // string instead, and the view carries on signed out.
+  const query = page.searchParams;
+  if (query.has('error') && query.has('state')) {
+    console.warn(`Twitch sign-in did not complete: ${query.get('error_description') ?? query.get('error')}`);
+    return `${page.pathname}${query.get('state')}`;
+  }
+
+  return null;
+}
+
+/** The Twitch access token this browser signed in with, or null. */
+export function storedTwitchToken(): string | null {
+  return localStorage.getItem(STORAGE_KEY);
+}
@@ -0,0 +1,99 @@
+/**
+ * Keeps each language's word list in IndexedDB between page loads, with the
+ * version (/api/words' ETag) it was served under, so a view can start from
+ * the copy it already has and only download the list again when it changed.
+ *
+ * Every function here degrades to "nothing cached": without IndexedDB (some
+ * embedded browsers, private windows, tests) or with a broken database the
+ * view simply downloads the list as it always did.
+ */
+
+export interface CachedWordList {
+  version: string;
+  words: string[];
+}
+
+const DB_NAME = 'wos-plus';
+const DB_VERSION = 1;
+const STORE_NAME = 'word-lists';
+
+function openWordCache(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === 'undefined') return Promise.resolve(null);
+
+  return new Promise((resolve) => {
+    try {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME);
+      };
+      request.onsuccess = () => {
+        resolve(request.result);
+      };
+      request.onerror = () => {
+        resolve(null);
+      };
+      request.onblocked = () => {
+        resolve(null);
+      };
+    } catch {
+      resolve(null);
+    }
+  });
+}
+
+/** The cached list for `languageCode`, or null when there is none. */
+export async function readCachedWords(languageCode: string): Promise<CachedWordList | null> {
+  const db = await openWordCache();
+  if (!db) return null;
+
+  return new Promise((resolve) => {
+    try {
+      const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(languageCode);
+      request.onsuccess = () => {
+        const entry = request.result as Partial<CachedWordList> | undefined;
+        const isUsable = typeof entry?.version === 'string' && Array.isArray(entry.words);
+        resolve(isUsable ? entry as CachedWordList : null);
+        db.close();
+      };
+      request.onerror = () => {
+        resolve(null);
+        db.close();
+      };
+    } catch {
+      resolve(null);
+      db.close();
+    }
+  });
+}
+
+/**
+ * Stores `words` as the list for `languageCode` at `version`, replacing any
+ * older copy. A failure is logged and otherwise ignored: the next load just
+ * downloads the list again.
+ */
+export async function writeCachedWords(languageCode: string, version: string, words: string[]): Promise<void> {
+  const db = await openWordCache();
+  if (!db) return;
+
+  await new Promise<void>((resolve) => {
+    try {
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      transaction.objectStore(STORE_NAME).put({ version, words }, languageCode);
+      transaction.oncomplete = () => {
+        resolve();
+      };
+      transaction.onerror = () => {
+        console.warn('Could not cache the WOS dictionary:', transaction.error);
+        resolve();
+      };
+      transaction.onabort = () => {
+        resolve();
+      };
+    } catch (error) {
+      console.warn('Could not cache the WOS dictionary:', error);
+      resolve();
+    }
+  }).finally(() => {
+    db.close();
+  });
+}
@@ -0,0 +1,70 @@
+/**
+ * The "words left" panel's view of a level: how many slots of each length are
+ * still empty, and a masked hint for each of them at the level of help the
+ * streamer chose (the page's `hints` param):
+ *
+ * - `off`: no panel at all.
+ * - `length`: each empty slot by its length alone, e.g. `____`.
+ * - `first`: once the board is in the archive, the first letter of the
+ *   archived word with the rest blanked out, e.g. `T___`. A slot the archived
+ *   copy cannot speak for (its word there is a different length, or missing)
+ *   is shown by its length alone.
+ */
+
+import type { Slot } from './db-service';
+
+export const HINT_LEVELS = ['off', 'length', 'first'] as const;
+export type HintLevel = typeof HINT_LEVELS[number];
+
+/**
+ * The hint level a `hints` param asks for. Links made before there were
+ * levels say `true` for first-letter hints; anything unrecognised is off.
+ */
+export function parseHintLevel(value: unknown): HintLevel {
+  const level = typeof value === 'string' ? value.trim().toLowerCase() : '';
+  if (level === 'true') return 'first';
+  return (HINT_LEVELS as readonly string[]).includes(level) ? level as HintLevel : 'off';
+}
+
+export interface RemainingWords {
+  length: number;
+  remaining: number;
+  // One per empty slot, in board order; empty until the board is archived.
+  hints: string[];
+}
+
+const BLANK = '_';
+
+function maskWord(word: string | undefined, length: number): string {
+  if (!word || word.length !== length || word.includes('?')) return BLANK.repeat(length);
+  return word[0].toUpperCase() + BLANK.repeat(length - 1);
+}
+
+/**
+ * The empty slots of `slots`, counted by length, shortest first. At `length`
+ * each count carries its slots blanked out; at `first` it carries them only
+ * with `archivedSlots` (the archived copy of the same board, slot for slot),
+ * each with its first letter.
+ */
+export function summarizeRemainingWords(
+  slots: readonly Pick<Slot, 'letters' | 'user'>[],
+  level: Exclude<HintLevel, 'off'>,
+  archivedSlots?: readonly Pick<Slot, 'word'>[],
+): RemainingWords[] {
+  const byLength = new Map<number, RemainingWords>();
+
+  slots.forEach((slot, index) => {
+    if (!slot || slot.user) return;
+    const length = slot.letters.length;
+    const entry = byLength.get(length) ?? { length, remaining: 0, hints: [] };
+    entry.remaining++;
+    if (level === 'length') {
+      entry.hints.push(BLANK.repeat(length));
+    } else if (archivedSlots) {
+      entry.hints.push(maskWord(archivedSlots[index]?.word, length));
+    }
+    byLength.set(length, entry);
+  });
+
+  return [...byLength.values()].sort((a, b) => a.length - b.length);
+}
@@ -1,10 +1,17 @@
 import tmi, { type Client as tmiClient } from '@tmi.js/chat';
 import io from 'socket.io-client';
 
-import { findAllMissingWords, findMissingWordsFromBoard, loadWordsFromDb, isWosWord, canFormWord, determineBoardId } from './wos-words';
-import { saveBoard, fetchBoard, fetchChannelStats } from './db-service';
+import { canFormWord } from './wos-words';
+import { findAllMissingWords, findMissingWordsFromBoard, findWosWordsFitting, loadWordsFromDb, setWordLanguage, isWosWord, determineBoardId } from './dictionary-client';
+import { authorizeBoardWrites, saveBoard, fetchBoard, fetchBoardByLetters, fetchChannelStats, recordPlayerLevel, type Board, type PlayerLevelStats, type ResolutionConfidence, type Slot } from './db-service';
 import { getMirrorGameId } from './mirror-url';
-import { wosLanguageIdToCode } from '../lib/board-utils';
+import { normalizeLanguageCode, wosLanguageIdToCode } from '../lib/board-utils';
+import { pointsForLevel, rankStandings, recordLevelRanking, type SessionLeaderboard } from './leaderboard';
+import { levelHistoryToCsv, levelHistoryToJson, recordLevelHistory, splitFoundAndMissed, topGuessersForLevel, type LevelHistoryEntry } from './level-history';
+import { SessionRecorder, type RecordedInput } from './session-recorder';
+import { averageStars, createSessionStats, loadSessionStats, recordGameOver, recordLevelReached, recordLevelResult, saveSessionStats, sessionClears, type SessionStats } from './session-stats';
+import { storedTwitchToken } from './twitch-login';
+import { summarizeRemainingWords, type HintLevel } from './word-hints';
 
 
 const twitchWorker = new Worker(
@@ -16,7 +23,7 @@ const wosWorker = new Worker(
   { type: 'module' }
 );
 
-type Slots = { letters: string[], word: string, user?: string, hitMax: boolean; index: number, length: number };
+type Slots = { letters: string[], word: string, user?: string, hitMax: boolean; index: number, length: number, confidence?: ResolutionConfidence };
 
 // A single Twitch chat message we may later match to a hidden correct-guess
 // event. `consumed` is flipped once it's been matched so a second event can't
@@ -71,6 +78,12 @@ export class GameSpectator {
   // (issue #79). The all-time best always shows since it comes from the WoS game
   // instance over the websocket.
   chatbotEnabled: boolean = false;
+  // This stream's own numbers (see session-stats.ts), which need no chatbot.
+  // Loaded for the channel by connectToTwitch; null until a channel is.
+  sessionStats: SessionStats | null = null;
+  // Whether the session badge is shown (the page's `sessionStats` param); set
+  // it through setSessionStatsEnabled so the badge follows.
+  isSessionStatsEnabled: boolean = false;
   currentLevelBigWord: string = '';
   currentLevelCorrectWords: string[] = [];
   wosEventQueue: any[] = [];
@@ -82,7 +95,19 @@ export class GameSpectator {
   currentLevelFakeLetters: string[] = [];
   currentLevelSlots: Slots[] = [];
   currentLevelEmptySlotsCount: { [key: number]: number; } = {};
+  // Masked guesses on the current level that were recovered from chat with
+  // less than full confidence, keyed by the lowercased word. The word log
+  // marks them, and their slots keep the board out of the archive.
+  currentLevelUncertainWords: Map<string, ResolutionConfidence> = new Map();
   isSoundsEnabled: boolean = true;
+  // How much the "words left" panel gives away (the page's `hints` param):
+  // nothing, the lengths, or first letters. Set it through setHintLevel so the
+  // panel follows.
+  hintLevel: HintLevel = 'off';
+  // The archived copy of the current level's board, once found: by the
+  // level's letters when it starts, or by the big word once that is known.
+  // Reset by clearBoard.
+  private currentLevelArchivedBoard: Board | null = null;
   // Identifies the active Twitch join attempt. Each (re)connect bumps this so a
   // channel switch or disconnect can cancel an in-flight join-retry loop (see
   // joinTwitchChannel).
@@ -100,6 +125,34 @@ export class GameSpectator {
   // progress for the first time, and only the former should rebuild the
   // found-words list from the re-reported slots (issue #169).
   private pendingWosReconnect: boolean = false;
+  // Points per player for every level this view has watched, built from the
+  // Level Results rankings. Deliberately not reset by clearBoard: it spans the
+  // whole session, across level transitions and games.
+  sessionLeaderboard: SessionLeaderboard = new Map();
+  // Every level this view has seen end, in the order played, for the player
+  // view's timeline and the end-of-stream export. Like the leaderboard it spans
+  // the whole session.
+  levelHistory: LevelHistoryEntry[] = [];
+  // How many players the on-screen leaderboard lists.
+  private leaderboardSize = parseInt(import.meta.env.WOS_LEADERBOARD_SIZE || '5');
+  // What each player (by lowercased login) has done on the current level,
+  // reported to /api/player-stats when the level ends. Reset by clearBoard.
+  currentLevelPlayerStats: Map<string, PlayerLevelStats> = new Map();
+  // Whether the game is currently accepting guesses from chat: opened by
+  // Guessing Unlocked (event 11), closed when a level starts, ends or the game
+  // ends. Shown on the HUD so a streamer knows when chat can type.
+  guessingOpen: boolean = false;
+  // The WoS room id from the mirror URL; part of the key that lets the server
+  // tell one level apart from the same level reported by another open view.
+  private wosGameCode: string = '';
+  // Every socket event and chat message this view received, newest
+  // WOS_RECORDER_CAPACITY kept, for the settings dialog's "download session
+  // recording". Like the leaderboard it spans the whole session.
+  sessionRecorder = new SessionRecorder(parseInt(import.meta.env.WOS_RECORDER_CAPACITY || '5000'));
+  // Set while a recorded session is being replayed instead of a live game.
+  // The replayed game already happened, and whatever it earned was archived
+  // when it was played live, so a replay never saves boards or player stats.
+  isReplay: boolean = false;
 
   constructor() {
     this.twitchChatLog = new Map();
@@ -222,7 +275,7 @@ export class GameSpectator {
     // Set up WOS worker message handler
     wosWorker.onmessage = async (e) => {
       if (e.data.type === 'wos_event') {
-        const { wosEventType, wosEventName, username, letters, hitMax, stars, level, record, falseLetters, hiddenLetters, slots, index, language } = e.data;
+        const { wosEventType, wosEventName, username, letters, hitMax, stars, level, record, falseLetters, hiddenLetters, slots, index, language, rankingTurn } = e.data;
 
         const message = username ? `:${username} - ${letters.join('')} - Big Word: ${hitMax}` : '';
         console.log(`[WOS Event] <${wosEventName}>${message}`);
@@ -234,6 +287,8 @@ export class GameSpectator {
         if (languageCode && languageCode !== this.currentLanguageCode) {
           this.currentLanguageCode = languageCode;
           this.log(`Game language: ${languageCode}`, this.wosGameLogId);
+          // Missed words and masked-guess recovery need that language's words.
+          void setWordLanguage(languageCode);
         }
 
         if (wosEventType === 1 || wosEventType === 12) {
@@ -257,14 +312,16 @@ export class GameSpectator {
         } else if (wosEventType === 3) {
           await this.handleCorrectGuess(username, letters, index, hitMax);
         } else if (wosEventType === 4) {
+          this.setGuessingOpen(false);
           // Wait for any last-millisecond correct guesses still in the queue
           // to process before reading the board state for results.
           await new Promise(resolve => setTimeout(resolve, this.levelEndGraceDelay));
-          await this.handleLevelResults(stars);
+          await this.handleLevelResults(stars, rankingTurn);
           // Delay to allow the chatbot to update the DB before reading
           await new Promise(resolve => setTimeout(resolve, 1500));
           await this.refreshChannelStats();
         } else if (wosEventType === 5) {
+          this.setGuessingOpen(false);
           // Wait for any last-millisecond correct guesses still in the queue
           // to process before running the game-end logic.
           await new Promise(resolve => setTimeout(resolve, this.levelEndGraceDelay));
@@ -273,6 +330,17 @@ export class GameSpectator {
           await this.refreshChannelStats();
         } else if (wosEventType === 10) {
           this.handleLetterReveal(hiddenLetters, falseLetters);
+        } else if (wosEventType === 7) {
+          this.handleLettersCycled(letters);
+        } else if (wosEventType === 8) {
+          // Level Ended: guessing is over. The chat history is kept, since
+          // Level Ended can arrive before Level Results or the game's end and
+          // both still work masked guesses out again from what players typed;
+          // each frees it once it has done so.
+          this.setGuessingOpen(false);
+        } else if (wosEventType === 11) {
+          this.log('Guessing unlocked', this.wosGameLogId);
+          this.setGuessingOpen(true);
         }
       }
     };
@@ -287,6 +355,50 @@ export class GameSpectator {
     };
   }
 
+  // The game shuffles the board's tiles. Only the order on screen changes:
+  // currentLevelLetters keeps its letters and their counts, so a cycle event
+  // can never bring back a fake letter already removed or undo a hidden letter
+  // already filled in.
+  private handleLettersCycled(letters: string[]) {
+    if (this.currentLevelBigWord !== '') {
+      // #letters is showing the big word, which has no tile order to follow.
+      return;
+    }
+    if (letters.length === 0 || this.currentLevelLetters.length === 0) {
+      return;
+    }
+
+    const ordered = this.orderLettersLike(letters, this.currentLevelLetters);
+    document.getElementById('letters')!.innerText = ordered.join(' ').toUpperCase();
+  }
+
+  // Arranges `pool` in the order of `order`, using each pool letter at most as
+  // often as it occurs. Pool letters `order` doesn't mention keep their
+  // relative order at the end; `order` letters the pool lacks are dropped.
+  private orderLettersLike(order: string[], pool: string[]): string[] {
+    const remaining = [...pool];
+    const ordered: string[] = [];
+    for (const letter of order) {
+      const at = remaining.findIndex(candidate => candidate.toLowerCase() === letter.toLowerCase());
+      if (at !== -1) {
+        ordered.push(remaining[at]);
+        remaining.splice(at, 1);
+      }
+    }
+    return [...ordered, ...remaining];
+  }
+
+  private setGuessingOpen(open: boolean) {
+    this.guessingOpen = open;
+    const statusEl = document.getElementById('guessing-status');
+    if (statusEl) {
+      // Emptied rather than hidden: the stylesheet collapses it when empty.
+      statusEl.innerText = open ? 'GUESSING OPEN' : '';
+    }
+    document.getElementById('level-current')?.classList.toggle('guessing-open', open);
+    this.fitHud();
+  }
+
   private handleLetterReveal(hiddenLetters: any, falseLetters: any) {
     this.log(`Hidden/Fake Letters Revealed`, this.wosGameLogId);
     this.log(`Hidden Letters: ${hiddenLetters.join(' ')}`, this.wosGameLogId);
@@ -330,12 +442,22 @@ export class GameSpectator {
 
   private async handleLevelEnd() {
     this.log(`Game Ended on Level ${this.currentLevel}`, this.wosGameLogId);
+    this.updateSessionStats((stats) => { recordGameOver(stats, this.currentLevel); });
 
+    await this.reconcileMaskedSlots();
     await this.logMissingWords();
+    this.forgetChat();
 
     this.playSound('level_end');
   }
 
+  // Frees what players typed during the level once the masked guesses have
+  // been worked out from it, so a long stream's chat doesn't pile up.
+  private forgetChat() {
+    console.log(`[WOS Helper] Level ${this.currentLevel} is over; forgetting chat history for ${this.twitchChatLog.size} players`);
+    this.twitchChatLog.clear();
+  }
+
   private playSound(eventType: EventTypes) {
     if (!this.isSoundsEnabled) {
       return;
@@ -356,11 +478,16 @@ export class GameSpectator {
     });
   }
 
-  private async handleLevelResults(stars: any) {
+  private async handleLevelResults(stars: any, rankingTurn: unknown = []) {
     this.log(`Level ${this.currentLevel} ended with ${stars} stars`, this.wosGameLogId);
     console.log(`[WOS Helper] Level ${this.currentLevel} ended`);
     this.log(`[WOS Helper] Total slots for level ${this.currentLevel}: ${this.currentLevelSlots.length}`, this.wosGameLogId);
 
+    // Credit the level that just ended, before currentLevel moves on.
+    this.updateLeaderboard(this.currentLevel, rankingTurn);
+    this.reportPlayerStats();
+
+    const finishedLevel = this.currentLevel;
     this.currentLevel += parseInt(stars);
     const levelTitleEl = document.getElementById('level-title')!;
     levelTitleEl.innerText = 'NEXT LEVEL';
@@ -368,15 +495,23 @@ export class GameSpectator {
     document.getElementById('level-value')!.innerText = `${this.currentLevel}`;
     this.fitHud();
 
-    if (stars === 5 || this.currentLevelSlots.every(slot => slot.user)) {
+    await this.reconcileMaskedSlots();
+
+    const cleared = stars === 5 || this.currentLevelSlots.every(slot => slot.user);
+    this.updateSessionStats((stats) => {
+      recordLevelResult(stats, { level: finishedLevel, stars: parseInt(stars), cleared });
+      recordLevelReached(stats, this.currentLevel);
+    });
+
+    if (cleared) {
       // Level completed successfully with all words found on the board (CLEAR)
       // Capture board data
-      if (this.currentLevelBigWord && this.currentLevelSlots) {
+      if (this.currentLevelBigWord && this.currentLevelSlots && !this.isReplay) {
         console.log('[WOS Helper] Saving board data to database...');
         // Save under the canonical id (the alphabetically last big word) —
         // not whichever anagram happened to be guessed or to sit in the
         // game's last slot, both of which vary per session.
-        const boardId = this.determineBoardId();
+        const boardId = await this.determineBoardId();
         console.log('[WOS Helper] Board ID:', boardId);
         console.log('[WOS Helper] Board Slots:', this.currentLevelSlots);
         await saveBoard(boardId, this.currentLevelSlots, this.currentChannel, this.currentLanguageCode);
@@ -394,8 +529,254 @@ export class GameSpectator {
       this.logEmptySlots();
     }
 
+    recordLevelHistory(this.levelHistory, {
+      level: finishedLevel,
+      stars: parseInt(stars),
+      cleared,
+      bigWord: this.currentLevelBigWord.replace(/\s+/g, ''),
+      ...splitFoundAndMissed(this.currentLevelCorrectWords),
+      topGuessers: topGuessersForLevel(this.sessionLeaderboard, finishedLevel),
+      endedAt: Date.now(),
+    });
+    this.renderLevelHistory();
+    this.forgetChat();
+
     console.log(`[WOS Helper] Current Level Slots:`, this.currentLevelSlots);
   }
+
+  // Counts one correct guess towards the player's stats for this level.
+  private tallyPlayerGuess(login: string, hitMax: boolean, wasHidden: boolean) {
+    const stats = this.currentLevelPlayerStats.get(login) ?? { wordsFound: 0, bigWordsHit: 0, hiddenWordsGuessed: 0 };
+    stats.wordsFound++;
+    if (hitMax) stats.bigWordsHit++;
+    if (wasHidden) stats.hiddenWordsGuessed++;
+    this.currentLevelPlayerStats.set(login, stats);
+  }
+
+  // Fire-and-forget: each report handles its own failures, and the level's
+  // results must not wait on a side record.
+  private reportPlayerStats() {
+    if (!this.currentChannel || this.isReplay || this.currentLevelPlayerStats.size === 0) return;
+
+    // The board's slot lengths, not its letters: the letters change as hidden
+    // letters are revealed, so two views could disagree on them, while every
+    // view is told the same slots.
+    const slotLengths = this.currentLevelSlots.map(slot => slot.letters.length).join('-');
+    const levelKey = `${this.wosGameCode}:${this.currentLevel}:${slotLengths}`;
+    for (const [login, stats] of this.currentLevelPlayerStats) {
+      void recordPlayerLevel(this.currentChannel, login, levelKey, stats);
+    }
+    this.currentLevelPlayerStats.clear();
+  }
+
+  private updateLeaderboard(level: number, rankingTurn: unknown) {
+    recordLevelRanking(this.sessionLeaderboard, level, rankingTurn);
+    this.renderLeaderboard(level);
+  }
+
+  /**
+   * Renders the top of the session leaderboard: each player's total over the
+   * session, plus what they scored on `lastLevel` (the level that just ended)
+   * when they scored anything there.
+   */
+  private renderLeaderboard(lastLevel: number) {
+    const listEl = document.getElementById('session-leaderboard');
+    if (!listEl) return;
+
+    const fragment = document.createDocumentFragment();
+    rankStandings(this.sessionLeaderboard)
+      .slice(0, this.leaderboardSize)
+      .forEach((standing, position) => {
+        const rowEl = document.createElement('li');
+        rowEl.className = 'leaderboard-row';
+
+        const rankEl = document.createElement('span');
+        rankEl.className = 'leaderboard-rank';
+        rankEl.textContent = `${position + 1}.`;
+
+        const nameEl = document.createElement('span');
+        nameEl.className = 'leaderboard-name';
+        nameEl.textContent = standing.displayName;
+
+        const levelPoints = pointsForLevel(standing, lastLevel);
+        const levelEl = document.createElement('span');
+        levelEl.className = 'leaderboard-level-points';
+        levelEl.textContent = levelPoints > 0 ? `+${levelPoints}` : '';
+
+        const totalEl = document.createElement('span');
+        totalEl.className = 'leaderboard-total';
+        totalEl.textContent = `${standing.totalPoints}`;
+
+        rowEl.append(rankEl, nameEl, levelEl, totalEl);
+        fragment.appendChild(rowEl);
+      });
+
+    listEl.replaceChildren(fragment);
+  }
+
+  /**
+   * Renders the level history as a timeline, newest level first so the level
+   * that just ended is in view without scrolling. Only the player view has one.
+   */
+  private renderLevelHistory() {
+    const listEl = document.getElementById('level-history');
+    if (!listEl) return;
+
+    const fragment = document.createDocumentFragment();
+    for (const entry of [...this.levelHistory].reverse()) {
+      const rowEl = document.createElement('li');
+      rowEl.className = 'level-history-row';
+      rowEl.classList.toggle('cleared', entry.cleared);
+
+      const levelEl = document.createElement('span');
+      levelEl.className = 'level-history-level';
+      levelEl.textContent = `${entry.level}`;
+
+      const starsEl = document.createElement('span');
+      starsEl.className = 'level-history-stars';
+      starsEl.textContent = `${entry.stars}★`;
+
+      const bigWordEl = document.createElement('span');
+      bigWordEl.className = 'level-history-big-word';
+      bigWordEl.textContent = entry.bigWord || '—';
+
+      const wordsEl = document.createElement('span');
+      wordsEl.className = 'level-history-words';
+      wordsEl.textContent = `${entry.foundWords.length}/${entry.foundWords.length + entry.missedWords.length}`;
+
+      const topEl = document.createElement('span');
+      topEl.className = 'level-history-top';
+      topEl.textContent = entry.topGuessers.map(({ name }) => name).join(', ');
+
+      rowEl.title = entry.missedWords.length > 0 ? `Missed: ${entry.missedWords.join(', ')}` : 'Nothing missed';
+      rowEl.append(levelEl, starsEl, bigWordEl, wordsEl, topEl);
+      fragment.appendChild(rowEl);
+    }
+
+    listEl.replaceChildren(fragment);
+  }
+
+  // Applies one change to the session's numbers, stores them (a replay's
+  // never are) and redraws the badge.
+  private updateSessionStats(change: (stats: SessionStats) => void) {
+    if (!this.sessionStats) return;
+    change(this.sessionStats);
+    if (!this.isReplay) saveSessionStats(this.sessionStats);
+    this.renderSessionStats();
+  }
+
+  /** Shows or hides the session badge. */
+  setSessionStatsEnabled(enabled: boolean) {
+    this.isSessionStatsEnabled = enabled;
+    this.renderSessionStats();
+  }
+
+  /**
+   * Fills the session badge: the highest level this stream and its clears,
+   * with the stars and the games that ended in its title. Unlike the daily
+   * badges it never depends on the chatbot, only on the setting.
+   */
+  private renderSessionStats() {
+    const record = document.getElementById('session-record');
+    if (!record) return;
+
+    record.style.display = this.isSessionStatsEnabled ? '' : 'none';
+    const stats = this.sessionStats ?? createSessionStats(this.currentChannel);
+    const clears = sessionClears(stats);
+    const bestElement = document.getElementById('session-best-value');
+    if (bestElement) {
+      bestElement.innerText = `${stats.highestLevel}`;
+    }
+    const clearElement = document.getElementById('session-clear-value');
+    if (clearElement) {
+      clearElement.innerText = `${clears}✓`;
+    }
+    record.title = [
+      `This stream: highest level ${stats.highestLevel}`,
+      `${clears} ${clears === 1 ? 'clear' : 'clears'}`,
+      `${averageStars(stats).toFixed(1)} stars a level over ${stats.levels.length}`,
+      `${stats.failedLevels.length} ${stats.failedLevels.length === 1 ? 'game' : 'games'} ended`,
+    ].join(', ');
+    this.fitHud();
+  }
+
+  /** Shows, hides or changes the hints of the "words left" panel. */
+  setHintLevel(level: HintLevel) {
+    this.hintLevel = level;
+    if (level === 'first' && this.currentLevelBigWord !== '') void this.loadHintBoard();
+    this.renderRemainingWords();
+  }
+
+  // Looks the board up in the archive for the panel's hints. The level may
+  // have moved on by the time the archive answers, in which case the answer
+  // is dropped.
+  private async loadHintBoard() {
+    if (this.currentLevelArchivedBoard) return;
+    const bigWord = this.currentLevelBigWord;
+    const board = await this.fetchArchivedBoard();
+    if (!board?.slots || this.currentLevelBigWord !== bigWord) return;
+    this.currentLevelArchivedBoard = board;
+    this.renderRemainingWords();
+  }
+
+  // Level start: looks the board up in the archive by the level's letters,
+  // so its words are known for the whole level rather than only once the big
+  // word is. Letters still hidden ('?') can't name the board, so nothing is
+  // looked up then. The answer is dropped if another level has started in
+  // the meantime (each level brings a new slots array).
+  private async prefetchArchivedBoard(letters: string[]) {
+    if (letters.includes('?')) return;
+    const slots = this.currentLevelSlots;
+    const board = await fetchBoardByLetters(letters, this.currentLanguageCode);
+    if (!board?.slots || this.currentLevelSlots !== slots || board.slots.length !== slots.length) return;
+    // Letters are compared accent-folded, so a board in another language can
+    // share them; its words would be the wrong hints for this game.
+    if ((normalizeLanguageCode(board.language_code) ?? 'en') !== this.currentLanguageCode) return;
+    this.currentLevelArchivedBoard = board;
+    this.log(`[WOS Helper] Found this board in the archive: ${board.id}`, this.wosGameLogId);
+    this.renderRemainingWords();
+  }
+
+  /**
+   * Renders the "words left" panel: the empty slots of each length, with
+   * their masked hints at the chosen level (see word-hints.ts).
+   */
+  private renderRemainingWords() {
+    const listEl = document.getElementById('words-remaining');
+    if (!listEl) return;
+
+    const panelEl = document.getElementById('words-remaining-panel');
+    const level = this.hintLevel;
+    if (panelEl) panelEl.style.display = level === 'off' ? 'none' : '';
+    if (level === 'off') {
+      listEl.replaceChildren();
+      return;
+    }
+
+    const fragment = document.createDocumentFragment();
+    for (const group of summarizeRemainingWords(this.currentLevelSlots, level, this.currentLevelArchivedBoard?.slots)) {
+      const rowEl = document.createElement('li');
+      rowEl.className = 'words-remaining-row';
+
+      const lengthEl = document.createElement('span');
+      lengthEl.className = 'words-remaining-length';
+      lengthEl.textContent = `${group.length} letters`;
+
+      const countEl = document.createElement('span');
+      countEl.className = 'words-remaining-count';
+      countEl.textContent = `${group.remaining} left`;
+
+      const hintsEl = document.createElement('span');
+      hintsEl.className = 'words-remaining-hints';
+      hintsEl.textContent = group.hints.join(' ');
+
+      rowEl.append(lengthEl, countEl, hintsEl);
+      fragment.appendChild(rowEl);
+    }
+
+    listEl.replaceChildren(fragment);
+  }
+
   logEmptySlots() {
     // slots missed/empty will have user property set to null
     const emptySlots = this.currentLevelSlots.filter(slot => !slot.user);
@@ -423,7 +804,7 @@ export class GameSpectator {
     await new Promise(resolve => setTimeout(resolve, this.msgProcessDelay));
 
     // Update UI with processed data
-    this.updateGameState(username, letters, index, hitMax);
+    await this.updateGameState(username, letters, index, hitMax);
   }
 
   // Append a chat message to the sending user's bounded history (oldest first).
@@ -451,10 +832,26 @@ export class GameSpectator {
   // correct guess from the same player can't resolve to the same message. This
   // is what keeps near-simultaneous and rapid-fire guesses from colliding
   // (issue #96).
-  private resolveGuessedWord(username: string, length: number): string | null {
+  //
+  // The confidence says how much choosing there was: 'unique' when exactly one
+  // message is a word that fits the board, 'ambiguous' when several were and
+  // the newest won, 'fallback' when none were and the newest same-length
+  // message was taken anyway.
+  private async resolveGuessedWord(username: string, length: number): Promise<{ word: string; confidence: ResolutionConfidence } | null> {
     const history = this.twitchChatLog.get(username.toLowerCase());
     if (!history || history.length === 0) return null;
 
+    // The dictionary answers asynchronously, so it is asked about every
+    // same-length message first and the choice below is made in one go once
+    // it has answered: another guess resolved in the meantime may have
+    // consumed a message or filled a slot.
+    const knownWords = new Set<string>();
+    await Promise.all(history
+      .filter(m => !m.consumed && m.message.length === length)
+      .map(async (m) => {
+        if (await isWosWord(m.message)) knownWords.add(m.message);
+      }));
+
     // Words already placed in a slot can't be the answer to a new masked
     // guess — WoS rejects repeat guesses of a word that's already on the
     // board. Excluding them keeps a re-typed or mis-matched chat message from
@@ -474,15 +871,18 @@ export class GameSpectator {
     // Prefer real dictionary words whose letters also fit within the level's
     // valid letters (with '?' matching any still-hidden letter). Fall back to
     // all same-length candidates if none qualify (e.g. the dictionary hasn't
-    // loaded, or the player used a word we don't have on file yet).
+    // loaded, or the player used a word we don't have on file yet). The
+    // game's language is passed explicitly: only the dictionary worker is told
+    // when it changes, so this thread's wos-words would fold as English.
     const valid = candidates.filter(
-      m => isWosWord(m.message) && canFormWord(m.message, this.currentLevelLetters)
+      m => knownWords.has(m.message) && canFormWord(m.message, this.currentLevelLetters, this.currentLanguageCode)
     );
     const pool = valid.length > 0 ? valid : candidates;
 
     const chosen = pool.reduce((newest, m) => (m.timestamp > newest.timestamp ? m : newest));
     chosen.consumed = true;
-    return chosen.message;
+    const confidence = valid.length === 0 ? 'fallback' : valid.length === 1 ? 'unique' : 'ambiguous';
+    return { word: chosen.message, confidence };
   }
 
   private handleGameInitialization(level: any, wosEventType: any, letters: any, slots: any, isReconnect: boolean = false) {
@@ -491,8 +891,16 @@ export class GameSpectator {
       console.log('[WOS Helper] Game Initialized with slots:', slots);
     }
     this.currentLevelSlots = slots;
+    this.renderRemainingWords();
+    if (wosEventType === 1) {
+      // A new level opens to guesses only once the game unlocks it (event 11).
+      // Joining mid-level (event 12) leaves the state alone: the game doesn't
+      // say whether guessing is open then.
+      this.setGuessingOpen(false);
+    }
     this.log(`Level ${level} ${wosEventType === 1 ? 'Started' : 'In Progress'}`, this.wosGameLogId);
     this.currentLevel = parseInt(level);
+    this.updateSessionStats((stats) => { recordLevelReached(stats, this.currentLevel); });
     const levelTitleEl = document.getElementById('level-title')!;
     levelTitleEl.innerText = 'LEVEL';
     levelTitleEl.classList.remove('long');
@@ -502,6 +910,7 @@ export class GameSpectator {
     if (letters.length > 0) {
       this.currentLevelLetters = letters;
       document.getElementById('letters')!.innerText = letters.join(' ').toUpperCase();
+      if (!this.currentLevelArchivedBoard) void this.prefetchArchivedBoard(letters);
     }
     if (isReconnect) {
       this.rebuildFoundWordsAfterReconnect(slots);
@@ -551,37 +960,23 @@ export class GameSpectator {
 
     let missingWords: string[] = [];
 
-    // Try to fetch board data if we have a big word
-    if (this.currentLevelBigWord !== '') {
-      // Look the board up under its canonical id (the alphabetically last big
-      // word): the guessed big word may be a different anagram of the id the
-      // board was stored under (e.g. LURING guessed, board saved as RULING).
-      const boardId = this.determineBoardId();
-      console.log('Attempting to fetch board with ID:', boardId);
-      let board = await fetchBoard(boardId);
-
-      // Boards saved before ids were canonicalized are keyed by whichever big
-      // word that session happened to capture, so retry with the guessed word
-      // before falling back to dictionary-based detection.
-      const guessedBoardId = this.currentLevelBigWord.replace(/\s+/g, '').toUpperCase();
-      if (!board && guessedBoardId !== boardId) {
-        console.log('Board not found under canonical ID, retrying with guessed big word:', guessedBoardId);
-        board = await fetchBoard(guessedBoardId);
-      }
+    // Try to fetch board data if we have a big word (or already have the board)
+    if (this.currentLevelBigWord !== '' || this.currentLevelArchivedBoard) {
+      const board = await this.fetchArchivedBoard();
 
       if (board && board.slots) {
         console.log('Board found in database, using board slots for missed words detection');
         // Use board-based detection
-        missingWords = findMissingWordsFromBoard(this.currentLevelSlots, board.slots);
+        missingWords = await findMissingWordsFromBoard(this.currentLevelSlots, board.slots);
       } else {
         console.log('Board not found in database, falling back to dictionary-based detection');
         // Fall back to dictionary-based detection
-        missingWords = findAllMissingWords(this.currentLevelCorrectWords, knownLetters, minLength);
+        missingWords = await findAllMissingWords(this.currentLevelCorrectWords, knownLetters, minLength);
       }
     } else {
       // No big word available, use dictionary-based detection
       console.log('No big word available, using dictionary-based detection');
-      missingWords = findAllMissingWords(this.currentLevelCorrectWords, knownLetters, minLength);
+      missingWords = await findAllMissingWords(this.currentLevelCorrectWords, knownLetters, minLength);
     }
 
     if (missingWords.length > 0) {
@@ -591,6 +986,127 @@ export class GameSpectator {
     }
   }
 
+  // Looks the current board up in the archive. Only meaningful once the big
+  // word is known, unless the board was already found by its letters.
+  private async fetchArchivedBoard() {
+    if (this.currentLevelArchivedBoard) return this.currentLevelArchivedBoard;
+
+    // Look the board up under its canonical id (the alphabetically last big
+    // word): the guessed big word may be a different anagram of the id the
+    // board was stored under (e.g. LURING guessed, board saved as RULING).
+    const boardId = await this.determineBoardId();
+    console.log('Attempting to fetch board with ID:', boardId);
+    let board = await fetchBoard(boardId, this.currentLanguageCode);
+
+    // Boards saved before ids were canonicalized are keyed by whichever big
+    // word that session happened to capture, so retry with the guessed word
+    // before falling back to dictionary-based detection.
+    const guessedBoardId = this.currentLevelBigWord.replace(/\s+/g, '').toUpperCase();
+    if (!board && guessedBoardId !== boardId) {
+      console.log('Board not found under canonical ID, retrying with guessed big word:', guessedBoardId);
+      board = await fetchBoard(guessedBoardId, this.currentLanguageCode);
+    }
+    return board;
+  }
+
+  // Level-end second look at the slots masked guesses filled without settling
+  // them: the ones chat could not recover at all (still '?') and the ones it
+  // recovered with low confidence. More is known now than when each guess
+  // arrived — the big word, the revealed letters, perhaps an archived copy of
+  // the board — so every such slot is worked out again, and a word found this
+  // way replaces whatever the slot held, in the word log too, before the board
+  // is saved. Settling one slot takes its word out of the running for the
+  // others, so the pass repeats until a round settles nothing.
+  private async reconcileMaskedSlots() {
+    const unsettled = new Set(
+      this.currentLevelSlots.flatMap((slot, index) => (
+        slot?.user && (slot.letters.includes('?') || (slot.confidence && slot.confidence !== 'unique')) ? [index] : []
+      ))
+    );
+    if (unsettled.size === 0) return;
+
+    const archivedSlots = this.currentLevelBigWord !== '' || this.currentLevelArchivedBoard
+      ? (await this.fetchArchivedBoard())?.slots
+      : undefined;
+    const letters = this.currentLevelBigWord !== ''
+      ? this.currentLevelBigWord.replace(/\s+/g, '').split('')
+      : this.currentLevelLetters;
+
+    let settledAny = true;
+    while (settledAny) {
+      settledAny = false;
+      for (const index of unsettled) {
+        const word = await this.rederiveSlotWord(index, letters, archivedSlots);
+        if (word) {
+          this.settleSlot(index, word);
+          unsettled.delete(index);
+          settledAny = true;
+        }
+      }
+    }
+  }
+
+  // The word a masked slot must hold, or null while it is still open: the
+  // archived board's word at the same position; failing that, the only
+  // dictionary word of the right length the letters still allow; failing
+  // that, the only one of those words the player typed.
+  private async rederiveSlotWord(index: number, letters: string[], archivedSlots?: Slot[]): Promise<string | null> {
+    const slot = this.currentLevelSlots[index];
+    const length = slot.letters.length;
+    // Only words that are certain rule a word out; a low-confidence word in
+    // another slot may itself be the one that is wrong.
+    const settledWords = new Set(
+      this.currentLevelSlots
+        .filter((other, otherIndex) => otherIndex !== index && other?.user && !other.letters.includes('?') &&
+          (!other.confidence || other.confidence === 'unique'))
+        .map(other => other.word.toLowerCase())
+    );
+
+    const archivedWord = archivedSlots?.[index]?.word?.toLowerCase();
+    if (archivedWord && archivedWord.length === length && !settledWords.has(archivedWord)) {
+      return archivedWord;
+    }
+
+    const fitting = (await findWosWordsFitting(length, letters)).filter(word => !settledWords.has(word));
+    if (fitting.length === 1) return fitting[0];
+
+    const typed = new Set(
+      (this.twitchChatLog.get(slot.user!.toLowerCase()) ?? [])
+        .filter(m => !m.consumed)
+        .map(m => m.message.toLowerCase())
+    );
+    if (!slot.letters.includes('?')) typed.add(slot.word.toLowerCase());
+    const typedFitting = fitting.filter(word => typed.has(word));
+    return typedFitting.length === 1 ? typedFitting[0] : null;
+  }
+
+  private settleSlot(index: number, word: string) {
+    const slot = this.currentLevelSlots[index];
+    const previous = slot.letters.includes('?') ? null : slot.word;
+    const user = slot.user!.toLowerCase();
+
+    // A chat message that turns out to be the answer is used up, as it would
+    // have been had it resolved the guess in the first place.
+    const message = (this.twitchChatLog.get(user) ?? []).find(m => !m.consumed && m.message.toLowerCase() === word);
+    if (message) message.consumed = true;
+
+    this.currentLevelSlots[index] = { ...slot, letters: word.split(''), word, confidence: 'unique' };
+    if (previous) this.currentLevelUncertainWords.delete(previous.toLowerCase());
+
+    if (previous?.toLowerCase() === word) {
+      this.log(`[WOS Helper] Confirmed ${user}'s masked guess: ${word}`, this.wosGameLogId);
+      this.renderCorrectWords();
+      return;
+    }
+    this.log(previous
+      ? `[WOS Helper] Corrected ${user}'s masked guess: ${previous} is really ${word}`
+      : `[WOS Helper] Worked out ${user}'s masked guess: ${word}`, this.wosGameLogId);
+    if (previous) {
+      this.currentLevelCorrectWords = this.currentLevelCorrectWords.filter(current => current !== previous);
+    }
+    this.updateCorrectWordsDisplayed(word);
+  }
+
   private clearBoard() {
     console.log('[WOS Helper] Clearing the correct words and big word');
     this.currentLevelCorrectWords = [];
@@ -600,7 +1116,11 @@ export class GameSpectator {
     this.currentLevelHiddenLetters = [];
     this.currentLevelFakeLetters = [];
     this.currentLevelEmptySlotsCount = {};
+    this.currentLevelUncertainWords.clear();
+    this.currentLevelPlayerStats.clear();
+    this.currentLevelArchivedBoard = null;
     this.twitchChatLog.clear();
+    this.renderRemainingWords();
     document.getElementById('correct-words-log')!.innerText = '';
     document.getElementById('letters')!.innerText = '';
     document.getElementById('letters-label')!.innerText = 'Letters:';
@@ -608,9 +1128,10 @@ export class GameSpectator {
     document.getElementById('fake-letter')!.innerText = '';
   }
 
-  private updateGameState(username: string, letters: string[], index: number, hitMax: boolean) {
+  private async updateGameState(username: string, letters: string[], index: number, hitMax: boolean) {
     let word = letters.join('');
     const lowerUsername = username.toLowerCase();
+    this.tallyPlayerGuess(lowerUsername, hitMax, word.includes('?'));
 
     // Only fall back to Twitch chat to recover the word when the WoS event
     // masks it with '?' placeholders (this happens from level 19 onward). For
@@ -627,12 +1148,17 @@ export class GameSpectator {
     // reported as "missed". For hidden levels we still need chat, so we match
     // against the player's recent message history with consumption tracking
     // (resolveGuessedWord) rather than a single latest message.
+    let confidence: ResolutionConfidence | undefined;
     if (word.includes('?')) {
       console.log(`[WOS Helper] Resolving hidden ${letters.length}-letter word for ${lowerUsername}`);
       console.log(`[WOS Helper] Chat history for ${lowerUsername}: ${JSON.stringify(this.twitchChatLog.get(lowerUsername))}`);
-      const resolved = this.resolveGuessedWord(lowerUsername, letters.length);
+      const resolved = await this.resolveGuessedWord(lowerUsername, letters.length);
       if (resolved) {
-        word = resolved;
+        word = resolved.word;
+        confidence = resolved.confidence;
+        if (confidence !== 'unique') {
+          this.currentLevelUncertainWords.set(word.toLowerCase(), confidence);
+        }
       } else {
         console.warn(
           `[WOS Helper] Could not find matching message for ${lowerUsername}`,
@@ -648,11 +1174,14 @@ export class GameSpectator {
       }
     }
 
-    this.log(`[WOS Event] ${lowerUsername} correctly guessed: ${word}`, this.wosGameLogId);
+    const uncertainty = confidence === 'ambiguous'
+      ? ' (uncertain: several words from chat fit)'
+      : confidence === 'fallback' ? ' (uncertain: not a known word)' : '';
+    this.log(`[WOS Event] ${lowerUsername} correctly guessed: ${word}${uncertainty}`, this.wosGameLogId);
 
     // Add to correct words list
     this.updateCorrectWordsDisplayed(word);
-    this.updateCurrentLevelSlots(username, word.split(''), index, hitMax);
+    this.updateCurrentLevelSlots(username, word.split(''), index, hitMax, confidence);
 
     // If hitMax is true, set the current level big word
     if (hitMax) {
@@ -661,6 +1190,7 @@ export class GameSpectator {
       document.getElementById('letters')!.innerText = this.currentLevelBigWord;
       this.calculateHiddenLetters(this.currentLevelBigWord);
       this.calculateFakeLetters(this.currentLevelBigWord);
+      if (this.hintLevel === 'first') void this.loadHintBoard();
     }
 
 
@@ -787,14 +1317,14 @@ export class GameSpectator {
   // word of the level. Filled slot words are passed as extra candidates so a
   // big-word anagram captured in a slot still wins even when the dictionary
   // hasn't loaded (determineBoardId ignores non-anagram words).
-  private determineBoardId(): string {
+  private determineBoardId(): Promise<string> {
     const slotWords = this.currentLevelSlots
       .filter(slot => typeof slot.word === 'string' && slot.word.length > 0)
       .map(slot => slot.word);
-    return determineBoardId(this.currentLevelBigWord, slotWords);
+    return determineBoardId(this.currentLevelBigWord, slotWords, this.currentLanguageCode);
   }
 
-  private updateCurrentLevelSlots(username: string, letters: string[], index: number, hitMax: boolean) {
+  private updateCurrentLevelSlots(username: string, letters: string[], index: number, hitMax: boolean, confidence?: ResolutionConfidence) {
     // Update the current level slots with the correct guess word
     if (index >= 0 && index < this.currentLevelSlots.length) {
       this.currentLevelSlots[index] = {
@@ -803,9 +1333,13 @@ export class GameSpectator {
         user: username,
         hitMax: hitMax,
         index,
-        length: letters.length
+        length: letters.length,
+        // Only a word recovered from chat has a confidence; one the game
+        // named outright needs none.
+        ...(confidence ? { confidence } : {}),
       };
       console.log(`[WOS Helper] Updated slot at index ${index}:`, this.currentLevelSlots[index]);
+      this.renderRemainingWords();
     } else {
       console.warn(`Invalid index ${index} for current level slots`);
     }
@@ -813,7 +1347,10 @@ export class GameSpectator {
 
   private updateCorrectWordsDisplayed(word: string) {
     this.currentLevelCorrectWords.push(word);
+    this.renderCorrectWords();
+  }
 
+  private renderCorrectWords() {
     const sortedWords = [...this.currentLevelCorrectWords].sort((a, b) => {
       const aWord = a.replace('*', '');
       const bWord = b.replace('*', '');
@@ -880,6 +1417,13 @@ export class GameSpectator {
           const wordEl = document.createElement('span');
           wordEl.className = `correct-word${current.endsWith('*') ? ' missing-word' : ''}`;
           wordEl.textContent = `${displayWord}${current.endsWith('*') ? '*' : ''}`;
+          const confidence = current.endsWith('*') ? undefined : this.currentLevelUncertainWords.get(current.toLowerCase());
+          if (confidence) {
+            wordEl.classList.add('uncertain-word');
+            wordEl.title = confidence === 'ambiguous'
+              ? 'Worked out from chat; other words fit too'
+              : 'Worked out from chat; not a word WoS+ knows';
+          }
           wordsContainer.appendChild(wordEl);
         });
 
@@ -1089,6 +1633,8 @@ export class GameSpectator {
       return;
     }
 
+    this.wosGameCode = gameCode;
+
     if (this.wosSocket) {
       this.wosSocket.disconnect();
     }
@@ -1108,10 +1654,11 @@ export class GameSpectator {
 
     this.wosSocket.on('3', (eventType: any, data: any) => {
       // console.log('[WOS Event] Event received: ', eventType, data);
-      wosWorker.postMessage({ eventType, data });
+      this.receiveWosEvent(eventType, data);
     });
 
     this.wosSocket.on('connect', () => {
+      this.sessionRecorder.record({ source: 'wos', event: 'connect', args: [] });
       this.log('Connected to WOS game: ' + gameCode, this.wosGameLogId);
     });
 
@@ -1127,14 +1674,18 @@ export class GameSpectator {
     // this flag.
     this.wosSocket.on('reconnect', () => {
       this.pendingWosReconnect = true;
+      this.sessionRecorder.record({ source: 'wos', event: 'reconnect', args: [] });
       this.log('Reconnected to WOS game: ' + gameCode, this.wosGameLogId);
     });
 
-    this.wosSocket.on('connect_error', (error: string) => {
-      this.log('WOS Connection error: ' + error, this.wosGameLogId);
+    this.wosSocket.on('connect_error', (error: Error | string) => {
+      const reason = error instanceof Error ? error.message : error;
+      this.sessionRecorder.record({ source: 'wos', event: 'connect_error', args: [reason] });
+      this.log('WOS Connection error: ' + reason, this.wosGameLogId);
     });
 
     this.wosSocket.on('disconnect', () => {
+      this.sessionRecorder.record({ source: 'wos', event: 'disconnect', args: [] });
       this.log('Disconnected from WOS game server', this.wosGameLogId);
     });
 
@@ -1150,12 +1701,19 @@ export class GameSpectator {
     }
 
     this.currentChannel = channel.replace('#', '');
+    // Reconnecting to the same channel mid-stream carries on its session.
+    this.sessionStats = loadSessionStats(this.currentChannel);
+    this.renderSessionStats();
     // Unlike the other fire-and-forget calls here, loadChannelRecords has no
     // internal error handling, so a failed record fetch would surface as an
     // unhandled rejection. Log it and carry on — records are non-essential.
     this.loadChannelRecords(this.currentChannel).catch((error: unknown) => {
       console.error('Failed to load channel records:', error);
     });
+    // Boards captured from here on are saved under this channel's write
+    // token, which is only issued when this browser signed in with Twitch as
+    // the channel; authorizeBoardWrites logs its own failures.
+    void authorizeBoardWrites(this.currentChannel, storedTwitchToken());
 
     if (this.twitchClient) {
       this.disconnectTwitch();
@@ -1177,7 +1735,7 @@ export class GameSpectator {
     this.twitchClient = new tmi.Client({});
 
     this.twitchClient.on('message', (e) => {
-      twitchWorker.postMessage({
+      this.receiveChatMessage({
         username: e.user.login.toLowerCase(),
         message: e.message.text.toLowerCase(),
         timestamp: Date.now()
@@ -1247,6 +1805,102 @@ export class GameSpectator {
     }
   }
 
+  // The single entry point for game events, live or replayed: recorded, then
+  // handed to the worker for translation.
+  private receiveWosEvent(eventType: unknown, data: unknown) {
+    if (!this.isReplay) this.sessionRecorder.record({ source: 'wos', event: '3', args: [eventType, data] });
+    wosWorker.postMessage({ eventType, data });
+  }
+
+  // The single entry point for chat messages, live or replayed.
+  private receiveChatMessage(chatMessage: { username: string; message: string; timestamp: number }) {
+    if (!this.isReplay) this.sessionRecorder.record({ source: 'chat', ...chatMessage }, chatMessage.timestamp);
+    twitchWorker.postMessage(chatMessage);
+  }
+
+  /**
+   * Puts the view in replay mode on a clean slate. A replay always starts
+   * fresh: inputs from two recordings, or one recording replayed twice, would
+   * not make one coherent game.
+   */
+  beginReplay() {
+    this.isReplay = true;
+    this.pendingWosReconnect = false;
+    // What is replayed is not recorded again: the replay's own inputs would
+    // carry the recording's chat timestamps alongside today's clock for the
+    // game's events, and mean nothing as a session of their own.
+    this.sessionRecorder.clear();
+    this.setGuessingOpen(false);
+    this.clearBoard();
+    this.sessionLeaderboard.clear();
+    this.renderLeaderboard(this.currentLevel);
+    this.levelHistory = [];
+    this.renderLevelHistory();
+    // The replayed game's numbers are shown but never stored as a stream's.
+    this.sessionStats = createSessionStats(this.currentChannel);
+    this.renderSessionStats();
+  }
+
+  /**
+   * Feeds one input from a session recording through the same workers a live
+   * one goes through, so a replayed game is handled exactly as it was live.
+   * Of the socket's connection events only `reconnect` changes how later
+   * events are handled (issue #169); the rest are nothing to replay.
+   */
+  replayInput(input: RecordedInput) {
+    if (input.source === 'chat') {
+      const { username, message, timestamp } = input;
+      this.receiveChatMessage({ username, message, timestamp });
+    } else if (input.event === '3') {
+      this.receiveWosEvent(input.args[0], input.args[1]);
+    } else if (input.event === 'reconnect') {
+      this.pendingWosReconnect = true;
+    }
+  }
+
+  /** The session recording as a JSON Lines document (see docs/session-recording.md). */
+  exportSessionRecording(): string {
+    return this.sessionRecorder.toJsonLines({
+      channel: this.currentChannel,
+      wosGameCode: this.wosGameCode,
+    });
+  }
+
+  /** Saves the session recording as a `.jsonl` file through the browser. */
+  downloadSessionRecording() {
+    this.downloadFile(this.exportSessionRecording(), 'application/x-ndjson', 'session', 'jsonl');
+  }
+
+  /** The level history as CSV or as JSON (see level-history.ts). */
+  exportLevelHistory(format: 'csv' | 'json'): string {
+    return format === 'csv'
+      ? levelHistoryToCsv(this.levelHistory)
+      : levelHistoryToJson(this.levelHistory, { channel: this.currentChannel });
+  }
+
+  /** Saves the level history as a `.csv` or `.json` file through the browser. */
+  downloadLevelHistory(format: 'csv' | 'json') {
+    const type = format === 'csv' ? 'text/csv' : 'application/json';
+    this.downloadFile(this.exportLevelHistory(format), type, 'levels', format);
+  }
+
+  // Hands `contents` to the browser as a download named after the channel and
+  // the moment it was saved.
+  private downloadFile(contents: string, type: string, kind: string, extension: string) {
+    const blob = new Blob([contents], { type });
+    const url = URL.createObjectURL(blob);
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `wos-plus-${kind}-${this.currentChannel || 'no-channel'}-${stamp}.${extension}`;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    // Revoked once the click has been handled: some browsers only start
+    // reading the blob after the click returns.
+    setTimeout(() => { URL.revokeObjectURL(url); }, 0);
+  }
+
   disconnect() {
     if (this.wosSocket) {
       this.wosSocket.disconnect();
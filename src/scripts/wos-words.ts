@@ -1,12 +1,34 @@
-// import localDictionary from './wos_dictionary.json';
-// Starts empty rather than undefined: loadWordsFromDb() is fire-and-forget and
-// deliberately swallows failures, so every consumer here can run before (or
-// without) a successful load and must degrade to "no words known" instead of
-// throwing.
-let wosDictionary: string[] = []; // = localDictionary as string[];
-// Lower-cased lookup set kept in sync with wosDictionary so membership checks
-// (used to disambiguate Twitch chat messages, see isWosWord) are O(1).
+import { foldLetters } from '../lib/wos-letters';
+import { buildAnagramIndex, findAnagrams, findSpellableWords, type AnagramIndex } from './anagram-index';
+import { readCachedWords, writeCachedWords } from './word-cache';
+
+// Both start empty rather than undefined: loadWordsFromDb() is fire-and-forget
+// and deliberately swallows failures, so every consumer here can run before
+// (or without) a successful load and must degrade to "no words known" instead
+// of throwing.
+// Lookup set of the words folded (src/lib/wos-letters.ts), so membership
+// checks (used to disambiguate Twitch chat messages, see isWosWord) are O(1).
 let wosDictionarySet: Set<string> = new Set();
+// The words by their letters (src/scripts/anagram-index.ts), for the anagram
+// and "what can these tiles spell" questions asked on every big word and at
+// level end.
+let wosAnagramIndex: AnagramIndex = buildAnagramIndex([], 'en');
+
+// wosDictionarySet and wosAnagramIndex are the word list of the game's
+// current language; every language loaded so far is kept here, so switching
+// back to one is instant and doesn't refetch it.
+interface WosDictionary {
+  wordSet: Set<string>;
+  anagramIndex: AnagramIndex;
+}
+const EMPTY_DICTIONARY: WosDictionary = { wordSet: wosDictionarySet, anagramIndex: wosAnagramIndex };
+const loadedDictionaries = new Map<string, WosDictionary>();
+let activeLanguageCode = 'en';
+
+function activateDictionary(dictionary: WosDictionary) {
+  wosDictionarySet = dictionary.wordSet;
+  wosAnagramIndex = dictionary.anagramIndex;
+}
 
 /**
  * Returns true when `word` is a known Words on Stream dictionary word.
@@ -16,7 +38,7 @@ let wosDictionarySet: Set<string> = new Set();
  */
 export function isWosWord(word: string): boolean {
   if (!word) return false;
-  return wosDictionarySet.has(word.toLowerCase());
+  return wosDictionarySet.has(foldLetters(word, activeLanguageCode));
 }
 
 /**
@@ -28,14 +50,16 @@ export function isWosWord(word: string): boolean {
  * Used when reconstructing a masked correct-guess from a player's Twitch chat:
  * a candidate message must not only be a real word but also actually be
  * spellable from the level's tiles, otherwise it can't be the word WoS accepted.
+ * Letters are compared the way WoS compares them in `languageCode` (the
+ * current game's language unless given), so in Portuguese a Ç tile spells C.
  */
-export function canFormWord(word: string, availableLetters: string[]): boolean {
+export function canFormWord(word: string, availableLetters: string[], languageCode: string = activeLanguageCode): boolean {
   if (!word) return false;
 
   const available: { [key: string]: number } = {};
   let wildcards = 0;
   for (const rawLetter of availableLetters) {
-    const letter = rawLetter.toLowerCase();
+    const letter = foldLetters(rawLetter, languageCode);
     if (letter === '?') {
       wildcards++;
     } else {
@@ -43,7 +67,7 @@ export function canFormWord(word: string, availableLetters: string[]): boolean {
     }
   }
 
-  for (const char of word.toLowerCase()) {
+  for (const char of foldLetters(word, languageCode)) {
     if (available[char]) {
       available[char]--;
     } else if (wildcards > 0) {
@@ -56,6 +80,18 @@ export function canFormWord(word: string, availableLetters: string[]): boolean {
   return true;
 }
 
+/**
+ * Returns the dictionary words of exactly `length` letters that can be spelled
+ * from `availableLetters`, with '?' matching any letter as in canFormWord.
+ *
+ * Used at level end to work out a masked guess from the board itself: once
+ * the other slots are known, a slot with a single fitting word left can only
+ * hold that word. Returns an empty list while the dictionary hasn't loaded.
+ */
+export function findWosWordsFitting(length: number, availableLetters: string[]): string[] {
+  return findSpellableWords(wosAnagramIndex, availableLetters, length, length);
+}
+
 export interface Slot {
   letters: string[];
   user?: string | null;
@@ -78,17 +114,20 @@ export interface Slot {
  * `extraCandidates` observed during play (e.g. filled slot words); candidates
  * that aren't anagrams of `bigWord` are ignored. Falls back to `bigWord`
  * itself when the dictionary hasn't loaded and nothing else qualifies.
- * Returns the id uppercased with any display spaces removed.
+ * Letters are compared as `languageCode` compares them (the current game's
+ * language unless given). Returns the id uppercased with any display spaces
+ * removed.
  */
-export function determineBoardId(bigWord: string, extraCandidates: string[] = []): string {
+export function determineBoardId(bigWord: string, extraCandidates: string[] = [], languageCode: string = activeLanguageCode): string {
   const cleanBigWord = bigWord.replace(/\s+/g, '').toLowerCase();
   if (cleanBigWord.length === 0) {
     return '';
   }
 
-  const signature = cleanBigWord.split('').sort().join('');
+  const signatureOf = (word: string) => Array.from(foldLetters(word, languageCode)).sort().join('');
+  const signature = signatureOf(cleanBigWord);
   const isAnagram = (word: string) =>
-    word.length === cleanBigWord.length && word.split('').sort().join('') === signature;
+    word.length === cleanBigWord.length && signatureOf(word) === signature;
 
   const candidates = new Set<string>([cleanBigWord]);
 
@@ -99,35 +138,80 @@ export function determineBoardId(bigWord: string, extraCandidates: string[] = []
     }
   }
 
-  for (const word of wosDictionary) {
-    const clean = word.toLowerCase();
-    if (isAnagram(clean)) {
-      candidates.add(clean);
-    }
+  for (const word of findAnagrams(wosAnagramIndex, cleanBigWord)) {
+    candidates.add(word);
   }
 
   return [...candidates].sort((a, b) => a.localeCompare(b)).pop()!.toUpperCase();
 }
 
-export async function loadWordsFromDb() {
+function storeDictionary(languageCode: string, words: string[]) {
+  const dictionary = {
+    wordSet: new Set(words.map(word => foldLetters(word, languageCode))),
+    anagramIndex: buildAnagramIndex(words, languageCode),
+  };
+  loadedDictionaries.set(languageCode, dictionary);
+  if (languageCode === activeLanguageCode) activateDictionary(dictionary);
+}
+
+/**
+ * Loads (or reloads) the word list for `languageCode` from /api/words. It
+ * becomes the dictionary every lookup here uses once it is the game's current
+ * language, which it already is unless setWordLanguage has moved on.
+ *
+ * A copy kept from an earlier visit (src/scripts/word-cache.ts) is used
+ * straight away and then revalidated with its version, so the list is only
+ * downloaded again when it has changed.
+ */
+export async function loadWordsFromDb(languageCode: string = activeLanguageCode) {
+  const cached = await readCachedWords(languageCode);
+  if (cached && !loadedDictionaries.has(languageCode)) {
+    storeDictionary(languageCode, cached.words);
+    console.log(`WOS Dictionary loaded from cache (${languageCode}):`, cached.words.length, 'words');
+  }
+
   try {
-    const url = '/api/words';
+    const url = `/api/words?lang=${encodeURIComponent(languageCode)}`;
 
-    const response = await fetch(url);
+    const response = cached
+      ? await fetch(url, { headers: { 'If-None-Match': cached.version } })
+      : await fetch(url);
+
+    if (response.status === 304) {
+      console.log(`WOS Dictionary is up to date (${languageCode})`);
+      return;
+    }
 
     if (!response.ok) {
       throw new Error('Network response was not ok');
     }
 
     const wordsJson = await response.json();
-    wosDictionary = wordsJson.map((word: string) => word.trim());
-    wosDictionarySet = new Set(wosDictionary.map(word => word.toLowerCase()));
-    console.log('WOS Dictionary loaded:', wosDictionary.length, 'words');
+    const words: string[] = wordsJson.map((word: string) => word.trim().normalize('NFC'));
+    storeDictionary(languageCode, words);
+    console.log(`WOS Dictionary loaded (${languageCode}):`, words.length, 'words');
+
+    const version = response.headers.get('ETag');
+    if (version) await writeCachedWords(languageCode, version, words);
   } catch (error) {
     console.error('Error loading WOS dictionary:', error);
   }
 }
 
+/**
+ * Switches every lookup here to the word list for the game's language,
+ * loading it the first time that language is played. Until it arrives no
+ * words are known, rather than the previous language's words standing in.
+ */
+export async function setWordLanguage(languageCode: string) {
+  if (languageCode === activeLanguageCode) return;
+  activeLanguageCode = languageCode;
+
+  const dictionary = loadedDictionaries.get(languageCode);
+  activateDictionary(dictionary ?? EMPTY_DICTIONARY);
+  if (!dictionary) await loadWordsFromDb(languageCode);
+}
+
 export function findAllMissingWords(knownWords: string[], knownLetters: string, minLength: number): string[] {
   // Find all possible words that can be formed from knownLetters
   // and filter out words that are already known
@@ -152,7 +236,7 @@ export function findMissingWordsFromBoard(currentSlots: Slot[], boardSlots: Slot
   const guessedWords = new Set(
     currentSlots
       .filter(slot => slot.user && slot.word)
-      .map(slot => slot.word.toLowerCase())
+      .map(slot => foldLetters(slot.word, activeLanguageCode))
   );
   
   // For each slot in the board, check if it was guessed in current level
@@ -163,7 +247,7 @@ export function findMissingWordsFromBoard(currentSlots: Slot[], boardSlots: Slot
     }
     
     // Check if this word was guessed
-    if (!guessedWords.has(word.toLowerCase())) {
+    if (!guessedWords.has(foldLetters(word, activeLanguageCode))) {
       // Check if current slot at this position is empty (not guessed)
       const currentSlot = currentSlots[index];
       if (currentSlot && !currentSlot.user) {
@@ -188,10 +272,10 @@ function findMissingWordsFromList(knownWords: string[], dictionaryWords: string[
   // it displays them with, so the marker is stripped before comparing —
   // otherwise "beard*" wouldn't match "beard" and the same word would be
   // reported missing again every time the level-end pipeline runs.
-  const knownWordsSet = new Set(knownWords.map(word => word.replace(/\*+$/, '').toLowerCase()));
+  const knownWordsSet = new Set(knownWords.map(word => foldLetters(word.replace(/\*+$/, ''), activeLanguageCode)));
 
   // Filter dictionaryWords to find words not in knownWordsSet
-  return dictionaryWords.filter(word => !knownWordsSet.has(word.toLowerCase()));
+  return dictionaryWords.filter(word => !knownWordsSet.has(foldLetters(word, activeLanguageCode)));
 }
 
 /**
@@ -201,40 +285,10 @@ function findMissingWordsFromList(knownWords: string[], dictionaryWords: string[
  * @returns Array of words sorted by length (longest first)
  */
 function findWosWordsByLetters(letters: string, length?: number): string[] {
-  // Create a map to track letter frequencies in the input
-  const letterFrequency: { [key: string]: number } = {};
-  letters = letters.toLowerCase();
-
-  for (const char of letters) {
-    letterFrequency[char] = (letterFrequency[char] || 0) + 1;
-  }
-
-  // Filter words that can be formed from the given letters
-  let possibleWords = wosDictionary.filter((word) => {
-    // Create a copy of the letter frequency map for each word check
-    const availableLetters = { ...letterFrequency };
-
-    for (const char of word.toLowerCase()) {
-      // If the character isn't available or has been used up, word can't be formed
-      if (!availableLetters[char]) {
-        return false;
-      }
-      availableLetters[char]--;
-    }
-
-    return true;
-  });
-
-  // Filter by length if specified
-  if (length !== undefined) {
-    possibleWords = possibleWords.filter(word => word.length >= length);
-  } else {
-    // Words on stream only uses words with 4 or more letters
-    possibleWords = possibleWords.filter(word => word.length > 3);
-  }
-
-  // Remove duplicates by converting to a Set and back to an array
-  possibleWords = Array.from(new Set(possibleWords.map(word => word.toLowerCase())));
+  // Words on stream only uses words with 4 or more letters. A '?' among the
+  // letters is not a tile here, so it can't stand in for anything.
+  const tiles = Array.from(letters).filter(letter => letter !== '?');
+  const possibleWords = findSpellableWords(wosAnagramIndex, tiles, length ?? 4);
 
   // Sort words by length (descending)
   return possibleWords.sort((a, b) => b.length - a.length);
@@ -1,5 +1,16 @@
 declare let self: Worker;
 
+// One player's line in a Level Results (event 4) ranking. `ranking` carries
+// the game's running total for the current game, `rankingTurn` the points
+// earned on the level that just ended.
+export interface WosRankingEntry {
+  user?: {
+    id?: string;
+    name?: string;
+  };
+  points?: number;
+}
+
 export interface WosWorkerMessage {
   eventType: number;
   data: {
@@ -19,6 +30,8 @@ export interface WosWorkerMessage {
     // (1 = pt, 2 = en, 4 = fr). Present on state-carrying events such as
     // "Game Connected".
     language?: number;
+    ranking?: WosRankingEntry[];
+    rankingTurn?: WosRankingEntry[];
   };
 }
 
@@ -38,6 +51,9 @@ export interface WosWorkerResult {
   index?: number;
   // Passed through untranslated; the main thread maps it to a language code.
   language?: number;
+  // Only present on Level Results (event 4); see WosRankingEntry.
+  ranking?: WosRankingEntry[];
+  rankingTurn?: WosRankingEntry[];
 }
 
 let currentLevel = 0;
@@ -74,6 +90,8 @@ self.onmessage = function (e: MessageEvent<WosWorkerMessage>) {
       self.postMessage(result);
     } else if (eventType === 4) {
       result.wosEventName = 'Level Results';
+      result.ranking = data.ranking || [];
+      result.rankingTurn = data.rankingTurn || [];
       self.postMessage(result);
     } else if (eventType === 5) {
       result.wosEventName = 'Game Ended';
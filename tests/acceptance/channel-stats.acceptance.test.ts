@@ -26,6 +26,15 @@
  * three doubles as an assertion that the route made exactly three calls — no
  * more, no fewer.
  *
+ * `/api/channel-stats/[channel]/history` (§ Reading a channel's history) makes
+ * two lookups instead: a range of `wos_channel_daily_achievements` rows and
+ * the same `users` check. `/api/channel-stats/[channel]/boards` (§ Boards a
+ * channel has captured) makes one: a counted read of `boards`. `/api/leaderboard`
+ * (§ Ranking channels against each other) makes one too: a page of one of the
+ * two leaderboard views, which only hold channels that opted in.
+ * `/api/leaderboard/[channel]` (§ Joining and leaving the leaderboard) reads,
+ * adds or deletes the channel's row in `wos_leaderboard_channels`.
+ *
  * `specs/channel-stats.md § Showing the records on screen` is **not** covered
  * here. Those scenarios (badges hidden, a refresh may only raise a number, the
  * one-row scaling) are view behaviour in `src/scripts/wos-plus-main.ts`, not
@@ -34,11 +43,17 @@
  */
 
 import { afterEach, describe, expect, it, vi } from 'vitest';
+import { env } from 'cloudflare:workers';
 import type { HttpHandler } from 'msw';
 
 import * as channelStatsRoute from '../../src/pages/api/channel-stats/[channel]';
 import { GET } from '../../src/pages/api/channel-stats/[channel]';
+import { GET as GET_BOARDS } from '../../src/pages/api/channel-stats/[channel]/boards';
+import { GET as GET_HISTORY } from '../../src/pages/api/channel-stats/[channel]/history';
+import { GET as GET_LEADERBOARD } from '../../src/pages/api/leaderboard';
+import { DELETE as LEAVE_LEADERBOARD, GET as GET_LEADERBOARD_OPT_IN, PUT as JOIN_LEADERBOARD } from '../../src/pages/api/leaderboard/[channel]';
 import { normalizeTwitchChannel } from '../../src/lib/board-utils';
+import { issueWriteToken } from '../../src/lib/write-tokens';
 import { invokeRoute, readJson, responseHeaders } from './api-harness';
 import {
   server,
@@ -270,7 +285,6 @@ describe('specs/channel-stats.md — Naming a channel', () => {
       ['an apostrophe', "clark'io"],
       ['a PostgREST filter operator', 'clarkio,twitch_username.gt.a'],
       ['a wildcard', 'clark*io'],
-      ['a name that is nothing but spacing', '   '],
     ])('rejects a name containing %s, without reading any records', async (_label, channel) => {
       const response = await invokeRoute(GET, {
         url: '/api/channel-stats/x',
@@ -371,6 +385,17 @@ describe('specs/channel-stats.md — Naming a channel', () => {
       expect(await readJson(response)).toEqual({ error: 'Channel name is required' });
       expect(unhandledNetworkRequests()).toEqual([]);
     });
+
+    it('rejects a name that is nothing but spacing', async () => {
+      const response = await invokeRoute(GET, {
+        url: '/api/channel-stats/x',
+        params: { channel: '   ' },
+      });
+
+      expect(response.status).toBe(400);
+      expect(await readJson(response)).toEqual({ error: 'Channel name is required' });
+      expect(unhandledNetworkRequests()).toEqual([]);
+    });
   });
 });
 
@@ -768,6 +793,617 @@ describe("specs/channel-stats.md — Reading a channel's records", () => {
   });
 });
 
+// ===========================================================================
+// specs/channel-stats.md § Reading a channel's history
+// ===========================================================================
+
+describe("specs/channel-stats.md — Reading a channel's history", () => {
+  /** Reads `channel`'s history with the given query string. */
+  async function readHistory(channel: string, query = '', options: { workerEnv?: Record<string, string | undefined> } = {}): Promise<Response> {
+    return invokeRoute(GET_HISTORY, {
+      url: `/api/channel-stats/${encodeURIComponent(channel)}/history${query}`,
+      params: { channel },
+      ...options,
+    });
+  }
+
+  /** A range of daily achievement rows, as the history lookup returns them. */
+  function dailyRows(rows: Array<[string, number, number]>, options = {}): HttpHandler {
+    return supabaseSuccess(DAILY, rows.map(([date, best, clears]) => ({
+      stat_date_utc: date,
+      highest_level_reached: best,
+      board_clears: clears,
+    })), { once: true, ...options });
+  }
+
+  describe("Scenario: a channel's progress over a range of days", () => {
+    // Given the channel clarkio has the chatbot enabled
+    // And it reached level 30 and cleared 2 boards on 2026-10-05, and reached
+    //     level 34 and cleared 3 boards on 2026-10-07
+    // When its history from 2026-10-05 to 2026-10-07 is read
+    // Then there is one entry per day, in order: 30 and 2, then zero and zero
+    //      for 2026-10-06, then 34 and 3
+
+    it('answers one entry per day, with zeros for a day with no record', async () => {
+      server.use(
+        dailyRows([['2026-10-05', 30, 2], ['2026-10-07', 34, 3]]),
+        chatbotEnabledFor('clarkio'),
+      );
+
+      const response = await readHistory('clarkio', '?from=2026-10-05&to=2026-10-07');
+
+      expect(response.status).toBe(200);
+      expect(await readJson(response)).toEqual({
+        channel: 'clarkio',
+        from: '2026-10-05',
+        to: '2026-10-07',
+        chatbotEnabled: true,
+        days: [
+          { date: '2026-10-05', dailyBest: 30, dailyClears: 2 },
+          { date: '2026-10-06', dailyBest: 0, dailyClears: 0 },
+          { date: '2026-10-07', dailyBest: 34, dailyClears: 3 },
+        ],
+      });
+    });
+
+    it("asks only for the channel's rows in the range, whatever case the name is typed in", async () => {
+      const daily = urlRecorder();
+      server.use(
+        dailyRows([], { onRequest: daily.onRequest }),
+        chatbotEnabledFor('clarkio'),
+      );
+
+      await readHistory('#ClarkIO', '?from=2026-10-05&to=2026-10-07');
+
+      expect(filterOn(daily.captured, 'channel')).toBe('eq.clarkio');
+      expect(new URL(daily.captured.url ?? '').searchParams.getAll('stat_date_utc'))
+        .toEqual(['gte.2026-10-05', 'lte.2026-10-07']);
+    });
+  });
+
+  describe('Scenario: a history with no range given', () => {
+    // Given today is 2026-10-19
+    // When a channel's history is read without saying which days
+    // Then it covers the 28 days from 2026-09-22 to 2026-10-19
+
+    it('covers the four weeks up to today', async () => {
+      pinClockTo('2026-10-19T15:30:00Z');
+      server.use(dailyRows([]), chatbotEnabledFor('clarkio'));
+
+      const body = await readJson<{ from: string; to: string; days: unknown[] }>(await readHistory('clarkio'));
+
+      expect(body).toMatchObject({ from: '2026-09-22', to: '2026-10-19' });
+      expect(body.days).toHaveLength(28);
+    });
+
+    it('counts back from the last day when only that is given', async () => {
+      server.use(dailyRows([]), chatbotEnabledFor('clarkio'));
+
+      const body = await readJson<{ from: string; to: string }>(await readHistory('clarkio', '?to=2026-03-01'));
+
+      expect(body).toMatchObject({ from: '2026-02-02', to: '2026-03-01' });
+    });
+  });
+
+  describe('Scenario: a channel without the chatbot', () => {
+    // Given the channel somestreamer does not have the chatbot enabled
+    // When its history is read
+    // Then every day is zero, and the channel is reported as not having the
+    //      chatbot
+
+    it('answers zeros and says the chatbot is not enabled', async () => {
+      server.use(dailyRows([]), supabaseSuccess(USERS, [], { once: true }));
+
+      const body = await readJson<{ chatbotEnabled: boolean; days: Array<{ dailyBest: number; dailyClears: number }> }>(
+        await readHistory('somestreamer', '?from=2026-10-01&to=2026-10-02'),
+      );
+
+      expect(body.chatbotEnabled).toBe(false);
+      expect(body.days.map(({ dailyBest, dailyClears }) => [dailyBest, dailyClears])).toEqual([[0, 0], [0, 0]]);
+    });
+
+    it('treats the channel as not having the chatbot when that cannot be determined', async () => {
+      silenceRouteLogging();
+      server.use(dailyRows([]), supabaseFailure(USERS, { code: '57014', message: 'canceling statement due to statement timeout' }, { once: true }));
+
+      const response = await readHistory('clarkio', '?from=2026-10-01&to=2026-10-01');
+
+      expect(response.status).toBe(200);
+      expect(await readJson(response)).toMatchObject({ chatbotEnabled: false });
+    });
+  });
+
+  describe('Scenario: a range that makes no sense', () => {
+    // Given a history is requested from a date that is not a real day, from a
+    //       day after the day it ends, or for more than 366 days
+    // When WoS+ handles the request
+    // Then it is rejected as an invalid date range and no records are looked up
+
+    it.each([
+      ['a date that is not a real day', '?from=2026-02-30&to=2026-03-01', 'from and to must be dates written YYYY-MM-DD.'],
+      ['a date written another way', '?from=10/05/2026', 'from and to must be dates written YYYY-MM-DD.'],
+      ['an empty date', '?to=', 'from and to must be dates written YYYY-MM-DD.'],
+      ['a range that ends before it starts', '?from=2026-10-07&to=2026-10-05', 'from must not be after to.'],
+      ['more than 366 days', '?from=2025-01-01&to=2026-01-02', 'A history covers at most 366 days.'],
+    ])('rejects %s', async (_label, query, message) => {
+      const response = await readHistory('clarkio', query);
+
+      expect(response.status).toBe(400);
+      expect(await readJson(response)).toEqual({ error: 'Invalid date range', message, code: 'INVALID_DATE_RANGE' });
+      expect(unhandledNetworkRequests()).toEqual([]);
+    });
+
+    it('accepts exactly 366 days', async () => {
+      server.use(dailyRows([]), chatbotEnabledFor('clarkio'));
+
+      const body = await readJson<{ days: unknown[] }>(await readHistory('clarkio', '?from=2024-01-01&to=2024-12-31'));
+
+      expect(body.days).toHaveLength(366);
+    });
+
+    it('rejects a channel name the same way the stats route does', async () => {
+      const response = await readHistory('clark.io');
+
+      expect(response.status).toBe(400);
+      expect(await readJson(response)).toEqual({
+        error: 'Invalid channel name format. Only lowercase letters, numbers, and underscores are allowed.',
+      });
+      expect(unhandledNetworkRequests()).toEqual([]);
+    });
+  });
+
+  describe('Scenario: the history cannot be read', () => {
+    // Given the daily records are unavailable
+    // When a history is read
+    // Then WoS+ is told the read failed, and no days come back
+
+    it('reports a genuine database error as a failed read, never as zeros', async () => {
+      silenceRouteLogging();
+      server.use(
+        supabaseFailure(DAILY, { code: '42P01', message: 'relation does not exist' }, { once: true }),
+        chatbotEnabledFor('clarkio'),
+      );
+
+      const response = await readHistory('clarkio', '?from=2026-10-01&to=2026-10-07');
+
+      expect(response.status).toBe(500);
+      const body = await readJson<{ error?: string; days?: unknown }>(response);
+      expect(body.error).toBe('Failed to read channel history');
+      expect(body.days).toBeUndefined();
+    });
+
+    it('reports a failure when the archive credentials are missing, without reaching out', async () => {
+      silenceRouteLogging();
+
+      const response = await readHistory('clarkio', '', { workerEnv: { SUPABASE_URL: undefined, SUPABASE_KEY: undefined } });
+
+      expect(response.status).toBe(500);
+      expect(unhandledNetworkRequests()).toEqual([]);
+    });
+  });
+});
+
+// ===========================================================================
+// specs/channel-stats.md § Boards a channel has captured
+// ===========================================================================
+
+describe('specs/channel-stats.md — Boards a channel has captured', () => {
+  function countBoards(channel: string, options: { workerEnv?: Record<string, string | undefined> } = {}): Promise<Response> {
+    return invokeRoute(GET_BOARDS, {
+      url: `/api/channel-stats/${encodeURIComponent(channel)}/boards`,
+      params: { channel },
+      ...options,
+    });
+  }
+
+  describe("Scenario: counting a channel's boards", () => {
+    // Given 12 boards in the archive were first captured from clarkio's
+    //       stream, the latest on 2026-10-18
+    // When the channel's boards are counted
+    // Then the count is 12, and the latest capture is 2026-10-18
+
+    it('answers the count and the latest capture', async () => {
+      const boards = urlRecorder();
+      server.use(supabaseSuccess('boards', [{ created_at: '2026-10-18T21:04:00.000Z' }], {
+        once: true,
+        headers: { 'content-range': '0-0/12' },
+        onRequest: boards.onRequest,
+      }));
+
+      const response = await countBoards('#ClarkIO');
+
+      expect(response.status).toBe(200);
+      expect(await readJson(response)).toEqual({
+        channel: 'clarkio',
+        boardsCaptured: 12,
+        lastCapturedAt: '2026-10-18T21:04:00.000Z',
+      });
+      expect(filterOn(boards.captured, 'twitch_channel')).toBe('eq.clarkio');
+    });
+  });
+
+  describe('Scenario: a channel that has captured no boards', () => {
+    // Given no board in the archive was first captured from brandnew
+    // When the channel's boards are counted
+    // Then the count is zero and there is no latest capture
+
+    it('answers zero, not a failure', async () => {
+      server.use(supabaseSuccess('boards', [], { once: true, headers: { 'content-range': '*/0' } }));
+
+      const response = await countBoards('brandnew');
+
+      expect(response.status).toBe(200);
+      expect(await readJson(response)).toEqual({ channel: 'brandnew', boardsCaptured: 0, lastCapturedAt: null });
+    });
+  });
+
+  it('rejects a channel name Twitch does not allow, without counting', async () => {
+    const response = await countBoards('clark.io');
+
+    expect(response.status).toBe(400);
+    expect(unhandledNetworkRequests()).toEqual([]);
+  });
+
+  it('reports a failed count rather than a zero', async () => {
+    silenceRouteLogging();
+    server.use(supabaseFailure('boards', { code: '42P01', message: 'relation "boards" does not exist' }, { once: true }));
+
+    const response = await countBoards('clarkio');
+
+    expect(response.status).toBe(500);
+  });
+});
+
+// ===========================================================================
+// specs/channel-stats.md § Ranking channels against each other
+// ===========================================================================
+
+describe('specs/channel-stats.md — Ranking channels against each other', () => {
+  /**
+   * Which channels opted in is decided by the two views the route reads
+   * (db-scripts/create-leaderboard.sql), which join the record tables to the
+   * opt-in list. What the route can be held to here is that it reads those
+   * views and never the record tables themselves.
+   */
+  const ALL_TIME_BOARD = 'wos_leaderboard_all_time';
+  const DAILY_BOARD = 'wos_leaderboard_daily';
+
+  function readLeaderboard(query = ''): Promise<Response> {
+    return invokeRoute(GET_LEADERBOARD, { url: `/api/leaderboard${query}` });
+  }
+
+  interface LeaderboardBody {
+    mode: string;
+    date: string | null;
+    channels: Array<{ rank: number; channel: string; highestLevel: number; boardClears?: number }>;
+    limit: number;
+    next: string | null;
+  }
+
+  describe('Scenario: the all-time leaderboard', () => {
+    // Given clarkio (best level 80), biocow (64) and somestreamer (71) are on
+    //       the leaderboard
+    // When the all-time leaderboard is read
+    // Then it lists clarkio first, somestreamer second and biocow third
+
+    it('ranks the channels by their all-time best', async () => {
+      server.use(supabaseSuccess(ALL_TIME_BOARD, [
+        { channel: 'clarkio', highest_level: 80 },
+        { channel: 'somestreamer', highest_level: 71 },
+        { channel: 'biocow', highest_level: 64 },
+      ], { once: true }));
+
+      const response = await readLeaderboard();
+
+      expect(response.status).toBe(200);
+      expect(await readJson(response)).toEqual({
+        mode: 'all-time',
+        date: null,
+        channels: [
+          { rank: 1, channel: 'clarkio', highestLevel: 80 },
+          { rank: 2, channel: 'somestreamer', highestLevel: 71 },
+          { rank: 3, channel: 'biocow', highestLevel: 64 },
+        ],
+        limit: 25,
+        next: null,
+      });
+    });
+
+    it('asks for one page and one channel more, highest level first', async () => {
+      const board = urlRecorder();
+      server.use(supabaseSuccess(ALL_TIME_BOARD, [], { once: true, onRequest: board.onRequest }));
+
+      await readLeaderboard('?limit=10');
+
+      const params = new URL(board.captured.url ?? '').searchParams;
+      expect(params.get('order')).toBe('highest_level.desc,channel.asc');
+      expect(params.get('limit')).toBe('11');
+    });
+  });
+
+  describe("Scenario: today's leaderboard", () => {
+    // Given today is 2026-10-19, and clarkio reached level 30 and cleared 2
+    //       boards today while biocow reached level 34 and cleared 1
+    // When today's leaderboard is read
+    // Then biocow is first and clarkio second, each with their clears
+    // And a channel that has not played today is not listed
+
+    it("ranks today's records, with their clears", async () => {
+      pinClockTo('2026-10-19T23:30:00Z');
+      const board = urlRecorder();
+      server.use(supabaseSuccess(DAILY_BOARD, [
+        { channel: 'biocow', highest_level: 34, board_clears: 1 },
+        { channel: 'clarkio', highest_level: 30, board_clears: 2 },
+      ], { once: true, onRequest: board.onRequest }));
+
+      const body = await readJson<LeaderboardBody>(await readLeaderboard('?mode=daily'));
+
+      expect(body).toMatchObject({ mode: 'daily', date: '2026-10-19' });
+      expect(body.channels).toEqual([
+        { rank: 1, channel: 'biocow', highestLevel: 34, boardClears: 1 },
+        { rank: 2, channel: 'clarkio', highestLevel: 30, boardClears: 2 },
+      ]);
+      expect(filterOn(board.captured, 'stat_date_utc')).toBe('eq.2026-10-19');
+    });
+  });
+
+  describe('Scenario: a channel that has not opted in', () => {
+    // Given somestreamer has the highest level of any channel but has not
+    //       asked to be on the leaderboard
+    // When either leaderboard is read
+    // Then somestreamer is not on it
+
+    it('reads only the opted-in views, never the record tables', async () => {
+      server.use(
+        supabaseSuccess(ALL_TIME_BOARD, [], { once: true }),
+        supabaseSuccess(DAILY_BOARD, [], { once: true }),
+      );
+
+      expect((await readLeaderboard()).status).toBe(200);
+      expect((await readLeaderboard('?mode=daily')).status).toBe(200);
+      // A read of wos_channel_all_time_records or wos_channel_daily_achievements
+      // would have no handler and be listed here.
+      expect(unhandledNetworkRequests()).toEqual([]);
+    });
+  });
+
+  describe('Scenario: channels on the same level', () => {
+    // Given biocow and clarkio both have a best of level 64, and only
+    //       somestreamer is higher
+    // When the leaderboard is read
+    // Then somestreamer is first, biocow and clarkio are both second, and the
+    //      next channel down is fourth
+
+    it('gives tied channels one rank and skips the places they take', async () => {
+      server.use(supabaseSuccess(ALL_TIME_BOARD, [
+        { channel: 'somestreamer', highest_level: 71 },
+        { channel: 'biocow', highest_level: 64 },
+        { channel: 'clarkio', highest_level: 64 },
+        { channel: 'brandnew', highest_level: 12 },
+      ], { once: true }));
+
+      const body = await readJson<LeaderboardBody>(await readLeaderboard());
+
+      expect(body.channels.map(({ rank, channel }) => [rank, channel])).toEqual([
+        [1, 'somestreamer'],
+        [2, 'biocow'],
+        [2, 'clarkio'],
+        [4, 'brandnew'],
+      ]);
+    });
+  });
+
+  describe('Scenario: a leaderboard too long for one page', () => {
+    // Given more channels are on the leaderboard than fit on one page
+    // When the leaderboard is read a page at a time
+    // Then each page carries on numbering where the last one stopped, even
+    //      through a tie that spans the two pages, and the last page says
+    //      there is no more
+    // And a page of yesterday's leaderboard cannot be continued into today's
+
+    it('carries the numbering and a tie across the page break', async () => {
+      server.use(supabaseSuccess(ALL_TIME_BOARD, [
+        { channel: 'clarkio', highest_level: 80 },
+        { channel: 'biocow', highest_level: 64 },
+        { channel: 'somestreamer', highest_level: 64 },
+      ], { once: true }));
+      const first = await readJson<LeaderboardBody>(await readLeaderboard('?limit=2'));
+      expect(first.channels.map(({ rank }) => rank)).toEqual([1, 2]);
+      expect(first.next).toEqual(expect.any(String));
+
+      const board = urlRecorder();
+      server.use(supabaseSuccess(ALL_TIME_BOARD, [
+        { channel: 'somestreamer', highest_level: 64 },
+        { channel: 'brandnew', highest_level: 12 },
+      ], { once: true, onRequest: board.onRequest }));
+      const second = await readJson<LeaderboardBody>(await readLeaderboard(`?limit=2&cursor=${first.next}`));
+
+      expect(second.channels.map(({ rank, channel }) => [rank, channel])).toEqual([[2, 'somestreamer'], [4, 'brandnew']]);
+      expect(second.next).toBeNull();
+      expect(filterOn(board.captured, 'or')).toBe('(highest_level.lt.64,and(highest_level.eq.64,channel.gt."biocow"))');
+    });
+
+    it("refuses yesterday's cursor for today's leaderboard, without reading it", async () => {
+      pinClockTo('2026-10-18T23:59:00Z');
+      server.use(supabaseSuccess(DAILY_BOARD, [
+        { channel: 'biocow', highest_level: 34, board_clears: 1 },
+        { channel: 'clarkio', highest_level: 30, board_clears: 2 },
+      ], { once: true }));
+      const yesterday = await readJson<LeaderboardBody>(await readLeaderboard('?mode=daily&limit=1'));
+
+      pinClockTo('2026-10-19T00:01:00Z');
+      const response = await readLeaderboard(`?mode=daily&limit=1&cursor=${yesterday.next}`);
+
+      expect(response.status).toBe(400);
+      expect(await readJson(response)).toMatchObject({ code: 'INVALID_CURSOR' });
+      expect(unhandledNetworkRequests()).toEqual([]);
+    });
+  });
+
+  describe('Scenario: an unknown kind of leaderboard', () => {
+    // Given a leaderboard other than all-time or today's is asked for, or a
+    //       page size that is not a whole number from 1 to 100
+    // When WoS+ handles the request
+    // Then it is rejected and no records are looked up
+
+    it.each([
+      ['?mode=weekly', 'INVALID_MODE'],
+      ['?limit=0', 'INVALID_LIMIT'],
+      ['?limit=101', 'INVALID_LIMIT'],
+      ['?limit=ten', 'INVALID_LIMIT'],
+      ['?cursor=not-a-cursor', 'INVALID_CURSOR'],
+    ])('rejects %s', async (query, code) => {
+      const response = await readLeaderboard(query);
+
+      expect(response.status).toBe(400);
+      expect(await readJson(response)).toMatchObject({ code });
+      expect(unhandledNetworkRequests()).toEqual([]);
+    });
+  });
+
+  describe('Scenario: the leaderboard cannot be read', () => {
+    // Given the records are unavailable
+    // When the leaderboard is read
+    // Then WoS+ is told the read failed — never an empty leaderboard
+
+    it('reports the failed read', async () => {
+      silenceRouteLogging();
+      server.use(supabaseFailure(ALL_TIME_BOARD, { code: '42P01', message: 'relation "wos_leaderboard_all_time" does not exist' }, { once: true }));
+
+      const response = await readLeaderboard();
+
+      expect(response.status).toBe(500);
+    });
+  });
+});
+
+// ===========================================================================
+// specs/channel-stats.md § Joining and leaving the leaderboard
+// ===========================================================================
+
+describe('specs/channel-stats.md — Joining and leaving the leaderboard', () => {
+  const OPTED_IN = 'wos_leaderboard_channels';
+
+  /** The Authorization header of a view holding `channel`'s write token. */
+  async function writeHeaders(channel = 'clarkio'): Promise<Record<string, string>> {
+    const { token } = await issueWriteToken(channel, env.BOARD_WRITE_SECRET ?? '');
+    return { authorization: `Bearer ${token}` };
+  }
+
+  function optInCall(channel: string, method: string, headers: Record<string, string> = {}) {
+    return { method, url: `/api/leaderboard/${channel}`, params: { channel }, headers };
+  }
+
+  describe('Scenario: the streamer puts their channel on the leaderboard', () => {
+    // Given WoS+ holds clarkio's write token
+    // When it puts clarkio on the leaderboard
+    // Then clarkio is on it
+
+    it('adds the channel to the opted-in channels, keeping an earlier join', async () => {
+      const recorder = urlRecorder();
+      let body: unknown;
+      server.use(supabaseSuccess(OPTED_IN, [], {
+        method: 'post',
+        once: true,
+        onRequest: async (request) => {
+          recorder.onRequest(request);
+          body = await request.json();
+        },
+      }));
+
+      const response = await invokeRoute(JOIN_LEADERBOARD, optInCall('ClarkIO', 'PUT', await writeHeaders()));
+
+      expect(response.status).toBe(200);
+      expect(await readJson(response)).toEqual({ channel: 'clarkio', optedIn: true });
+      expect(body).toEqual({ channel: 'clarkio' });
+      expect(filterOn(recorder.captured, 'on_conflict')).toBe('channel');
+    });
+  });
+
+  describe('Scenario: the streamer takes their channel off the leaderboard', () => {
+    // Given clarkio is on the leaderboard and WoS+ holds clarkio's write token
+    // When it takes clarkio off
+    // Then clarkio is no longer on it, and its records are untouched
+
+    it('deletes only the channel\'s opt-in', async () => {
+      const recorder = urlRecorder();
+      server.use(supabaseSuccess(OPTED_IN, [], { method: 'delete', once: true, onRequest: recorder.onRequest }));
+
+      const response = await invokeRoute(LEAVE_LEADERBOARD, optInCall('clarkio', 'DELETE', await writeHeaders()));
+
+      expect(response.status).toBe(200);
+      expect(await readJson(response)).toEqual({ channel: 'clarkio', optedIn: false });
+      expect(filterOn(recorder.captured, 'channel')).toBe('eq.clarkio');
+    });
+  });
+
+  describe('Scenario: someone else puts a channel on the leaderboard', () => {
+    // Given a caller that does not hold clarkio's write token
+    // When it puts clarkio on the leaderboard, or takes it off
+    // Then it is refused, and the leaderboard is unchanged
+
+    it.each([
+      ['joining', JOIN_LEADERBOARD, 'PUT'],
+      ['leaving', LEAVE_LEADERBOARD, 'DELETE'],
+    ] as const)('refuses %s with no write token', async (_label, route, method) => {
+      const response = await invokeRoute(route, optInCall('clarkio', method));
+
+      expect(response.status).toBe(401);
+      expect(await readJson(response)).toMatchObject({ code: 'INVALID_WRITE_TOKEN' });
+      expect(unhandledNetworkRequests()).toEqual([]);
+    });
+
+    it.each([
+      ['joining', JOIN_LEADERBOARD, 'PUT'],
+      ['leaving', LEAVE_LEADERBOARD, 'DELETE'],
+    ] as const)('refuses %s with another channel\'s write token', async (_label, route, method) => {
+      const response = await invokeRoute(route, optInCall('clarkio', method, await writeHeaders('biocow')));
+
+      expect(response.status).toBe(403);
+      expect(await readJson(response)).toMatchObject({ code: 'INVALID_WRITE_TOKEN' });
+      expect(unhandledNetworkRequests()).toEqual([]);
+    });
+  });
+
+  describe('Scenario: asking whether a channel is on the leaderboard', () => {
+    // Given clarkio joined the leaderboard and biocow did not
+    // When each is asked about
+    // Then clarkio is on it, with when it joined, and biocow is not
+
+    it('says since when a channel that joined has been on it', async () => {
+      server.use(supabaseSuccess(OPTED_IN, [{ joined_at: '2026-10-01T12:00:00+00:00' }], { once: true }));
+
+      const response = await invokeRoute(GET_LEADERBOARD_OPT_IN, optInCall('clarkio', 'GET'));
+
+      expect(await readJson(response)).toEqual({ channel: 'clarkio', optedIn: true, joinedAt: '2026-10-01T12:00:00+00:00' });
+    });
+
+    it('says a channel that never joined is not on it', async () => {
+      server.use(supabaseSuccess(OPTED_IN, [], { once: true }));
+
+      const response = await invokeRoute(GET_LEADERBOARD_OPT_IN, optInCall('biocow', 'GET'));
+
+      expect(await readJson(response)).toEqual({ channel: 'biocow', optedIn: false, joinedAt: null });
+    });
+
+    it('reports a failed read rather than saying the channel is not on it', async () => {
+      silenceRouteLogging();
+      server.use(supabaseFailure(OPTED_IN, { code: '42P01', message: 'relation does not exist' }, { once: true }));
+
+      const response = await invokeRoute(GET_LEADERBOARD_OPT_IN, optInCall('clarkio', 'GET'));
+
+      expect(response.status).toBe(500);
+    });
+
+    it('rejects an invalid channel name without reading anything', async () => {
+      const response = await invokeRoute(GET_LEADERBOARD_OPT_IN, optInCall('clark.io', 'GET'));
+
+      expect(response.status).toBe(400);
+      expect(unhandledNetworkRequests()).toEqual([]);
+    });
+  });
+});
+
 // ===========================================================================
 // specs/channel-stats.md § Open questions for the maintainer
 // ===========================================================================
@@ -966,4 +1602,22 @@ describe('/api/channel-stats/[channel] — transport concerns (no spec section)'
       'access-control-allow-methods': 'GET, OPTIONS',
     });
   });
+
+  it('turns a caller away with a 429 once they pass the limit, before reading any records', async () => {
+    const call = {
+      url: '/api/channel-stats/clarkio',
+      params: { channel: 'clarkio' },
+      headers: { origin: ALLOWED_ORIGIN, 'cf-connecting-ip': '203.0.113.7' },
+      workerEnv: { CORS_ALLOWED_ORIGINS: ALLOWED_ORIGIN, RATE_LIMITS: '/api/channel-stats/[channel]=1' },
+    };
+    archiveHas();
+    await invokeRoute(GET, call);
+
+    const response = await invokeRoute(GET, call);
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('retry-after')).toMatch(/^\d+$/);
+    expect(responseHeaders(response)['access-control-allow-origin']).toBe(ALLOWED_ORIGIN);
+    expect(await readJson(response)).toMatchObject({ code: 'RATE_LIMITED' });
+  });
 });
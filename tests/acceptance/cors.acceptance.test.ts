@@ -214,7 +214,7 @@ describe('src/lib/cors.ts — building the header set a route sends', () => {
         'Access-Control-Allow-Origin': SECONDARY,
         'Vary': 'Origin',
         'Access-Control-Allow-Methods': 'GET, OPTIONS',
-        'Access-Control-Allow-Headers': 'Content-Type',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
         'Access-Control-Max-Age': '86400',
       });
     });
@@ -230,7 +230,7 @@ describe('src/lib/cors.ts — building the header set a route sends', () => {
         'Access-Control-Allow-Origin': PRIMARY,
         'Vary': 'Origin',
         'Access-Control-Allow-Methods': 'GET, OPTIONS',
-        'Access-Control-Allow-Headers': 'Content-Type',
+        'Access-Control-Allow-Headers': 'Content-Type, Authorization',
         'Access-Control-Max-Age': '86400',
       });
     });
@@ -273,7 +273,7 @@ describe('src/lib/cors.ts — building the header set a route sends', () => {
         expect(headers).toEqual({
           'Vary': 'Origin',
           'Access-Control-Allow-Methods': 'GET, OPTIONS',
-          'Access-Control-Allow-Headers': 'Content-Type',
+          'Access-Control-Allow-Headers': 'Content-Type, Authorization',
           'Access-Control-Max-Age': '86400',
         });
       });
@@ -323,7 +323,7 @@ describe('src/lib/cors.ts — building the header set a route sends', () => {
         'access-control-allow-origin': SECONDARY,
         'vary': 'Origin',
         'access-control-allow-methods': 'GET, OPTIONS',
-        'access-control-allow-headers': 'Content-Type',
+        'access-control-allow-headers': 'Content-Type, Authorization',
         'access-control-max-age': '86400',
       });
     });
@@ -41,6 +41,9 @@
  * is the sequence of events a stream would actually produce.
  *
  * Twitch chat arrives the same way, through the twitch worker's `onmessage`.
+ * The spectator's questions about words go to the **real**
+ * `dictionary-worker.ts` and are answered through the dictionary worker's
+ * `onmessage`, as they are in a browser.
  *
  * ---------------------------------------------------------------------------
  * Network
@@ -88,14 +91,21 @@ import { http, HttpResponse } from 'msw';
 
 import { GameSpectator } from '@scripts/wos-plus-main';
 import type { WosWorkerMessage, WosWorkerResult } from '@scripts/wos-worker';
-import { loadWordsFromDb } from '@scripts/wos-words';
+import type { DictionaryWorkerMessage, DictionaryWorkerResult } from '@scripts/dictionary-worker';
+import { isWosWord, loadWordsFromDb, setWordLanguage } from '@scripts/wos-words';
+import { SessionRecorder } from '@scripts/session-recorder';
+import { parseSessionRecording, SessionReplay, type ReplaySpeed } from '@scripts/session-replay';
 
 import { server, setupNetworkMocking } from './network-mock';
 
 import levelStartFixture from '../fixtures/wos-events/01-level-start.json';
 import correctGuessHiddenFixture from '../fixtures/wos-events/03-correct-guess-hidden.json';
+import levelResultsFixture from '../fixtures/wos-events/04-level-results.json';
 import gameEndedFixture from '../fixtures/wos-events/05-game-ended.json';
+import lettersCycledFixture from '../fixtures/wos-events/07-letters-cycled.json';
+import levelEndedFixture from '../fixtures/wos-events/08-level-ended.json';
 import lettersRevealedFixture from '../fixtures/wos-events/10-letters-revealed.json';
+import guessingUnlockedFixture from '../fixtures/wos-events/11-guessing-unlocked.json';
 import gameConnectedFixture from '../fixtures/wos-events/12-game-connected.json';
 
 setupNetworkMocking();
@@ -105,8 +115,8 @@ setupNetworkMocking();
 // ---------------------------------------------------------------------------
 
 /** The slice of worker global scope `wos-worker.ts` installs itself on. */
-interface WorkerScopeStub {
-  postMessage: (result: WosWorkerResult) => void;
+interface WorkerScopeStub<Result = WosWorkerResult> {
+  postMessage: (result: Result) => void;
   onmessage: ((event: MessageEvent) => void) | null;
   onerror: ((event: unknown) => void) | null;
   onmessageerror: ((event: unknown) => void) | null;
@@ -123,10 +133,10 @@ let workerOutput: WosWorkerResult[] = [];
  * place for the import and for every translation — but not in between, where
  * happy-dom's own `self` (the window) belongs.
  */
-function installWorkerScope(): () => void {
+function installWorkerScope(scope: WorkerScopeStub<never> = workerScope): () => void {
   const originalSelf = Object.getOwnPropertyDescriptor(globalThis, 'self');
   Object.defineProperty(globalThis, 'self', {
-    value: workerScope,
+    value: scope,
     configurable: true,
     writable: true,
   });
@@ -152,6 +162,32 @@ beforeAll(async () => {
   } finally {
     restoreSelf();
   }
+
+  // The dictionary worker is wired up whole rather than as a translator: the
+  // spectator's queries go to the real `dictionary-worker.ts`, and its answers
+  // come back through the spectator's own `onmessage`. The worker keeps its
+  // scope, so it can answer after `self` is the window again, and it shares
+  // the `wos-words.ts` instance the scenarios load their words into.
+  const spectatorDictionaryWorker = workerNamed('dictionary-worker') as StubWorker & {
+    postMessage: (message: DictionaryWorkerMessage) => void;
+  };
+  const dictionaryScope: WorkerScopeStub<DictionaryWorkerResult> = {
+    postMessage: (result) => {
+      spectatorDictionaryWorker.onmessage!({ data: result } as MessageEvent);
+    },
+    onmessage: null,
+    onerror: null,
+    onmessageerror: null,
+  };
+  const restoreDictionarySelf = installWorkerScope(dictionaryScope);
+  try {
+    await import('@scripts/dictionary-worker');
+  } finally {
+    restoreDictionarySelf();
+  }
+  spectatorDictionaryWorker.postMessage = (message) => {
+    dictionaryScope.onmessage!({ data: message } as MessageEvent);
+  };
 });
 
 /**
@@ -187,6 +223,8 @@ const PAGE_ELEMENT_IDS = [
   'daily-clear-value',
   'level-title',
   'level-value',
+  'level-current',
+  'guessing-status',
   'letters',
   'letters-label',
   'hidden-letter',
@@ -194,6 +232,9 @@ const PAGE_ELEMENT_IDS = [
   'correct-words-log',
   'wos-game-log',
   'twitch-chat-log',
+  'session-leaderboard',
+  'words-remaining-panel',
+  'words-remaining',
 ] as const;
 
 function buildPage(): void {
@@ -230,6 +271,19 @@ function missedWords(): string[] {
   ).map((element) => element.textContent ?? '');
 }
 
+/** The found words marked as recovered from chat with less than full confidence. */
+function uncertainWords(): string[] {
+  return Array.from(
+    document.getElementById('correct-words-log')!.querySelectorAll('.uncertain-word'),
+  ).map((element) => element.textContent ?? '');
+}
+
+/** The words-left panel's rows, one per word length, as rendered text. */
+function wordsLeft(): string[] {
+  return Array.from(document.getElementById('words-remaining')!.children)
+    .map((element) => element.textContent ?? '');
+}
+
 function gameLog(): string {
   return text('wos-game-log');
 }
@@ -400,8 +454,8 @@ function maskedGuess(options: {
   };
 }
 
-function levelResults(stars: number): WosWorkerMessage {
-  return { eventType: 4, data: { stars } };
+function levelResults(stars: number, rankingTurn?: WosWorkerMessage['data']['rankingTurn']): WosWorkerMessage {
+  return { eventType: 4, data: { stars, rankingTurn } };
 }
 
 // ---------------------------------------------------------------------------
@@ -431,9 +485,9 @@ function boardNotArchived() {
   return http.get('*/api/boards/:id', () => HttpResponse.json({ error: 'Not found' }, { status: 404 }));
 }
 
-/** The archive holds a complete capture of this board. */
-function boardArchived(id: string, words: string[]) {
-  return http.get('*/api/boards/:id', () => HttpResponse.json({
+/** A complete capture of a board, as the archive returns it. */
+function archivedBoard(id: string, words: string[]) {
+  return {
     id,
     created_at: '2025-01-01T00:00:00.000Z',
     slots: words.map((word, index) => ({
@@ -442,17 +496,37 @@ function boardArchived(id: string, words: string[]) {
       user: 'someone',
       hitMax: index === words.length - 1,
     })),
-  }));
+  };
+}
+
+/** The archive holds a complete capture of this board. */
+function boardArchived(id: string, words: string[]) {
+  return http.get('*/api/boards/:id', () => HttpResponse.json(archivedBoard(id, words)));
 }
 
-/** Accepts a board capture and records the body the app actually sent. */
-function boardCaptureRecorder(): { posted: Record<string, unknown>[]; handler: ReturnType<typeof http.post> } {
+/** No archived board uses exactly the letters a level starts with. */
+function noBoardWithTheseLetters() {
+  return http.get('*/api/boards/by-letters/:letters', () => HttpResponse.json({ error: 'Board not found' }, { status: 404 }));
+}
+
+/** The archive holds this board, found by the letters a level starts with. */
+function boardArchivedWithTheseLetters(id: string, words: string[]) {
+  return http.get('*/api/boards/by-letters/:letters', () => HttpResponse.json(archivedBoard(id, words)));
+}
+
+/**
+ * Accepts a board capture and records the body the app actually sent, and the
+ * URL it was sent to (a capture of an archived board asks for `?merge=true`).
+ */
+function boardCaptureRecorder(): { posted: Record<string, unknown>[]; urls: string[]; handler: ReturnType<typeof http.post> } {
   const posted: Record<string, unknown>[] = [];
+  const urls: string[] = [];
   const handler = http.post('*/api/boards', async ({ request }) => {
+    urls.push(request.url);
     posted.push(await request.json() as Record<string, unknown>);
     return HttpResponse.json({ id: 'saved' }, { status: 201 });
   });
-  return { posted, handler };
+  return { posted, urls, handler };
 }
 
 /** Serve `/api/words` so the real dictionary loads over the real HTTP path. */
@@ -480,6 +554,12 @@ beforeEach(async () => {
   // The dictionary load the constructor kicks off is fire-and-forget, so the
   // handler has to be in place before the spectator exists.
   server.use(dictionaryContains([]));
+  // Every level start looks its board up by its letters; unless a test says
+  // otherwise the archive has never seen it.
+  server.use(noBoardWithTheseLetters());
+  // A new spectator starts out on English; an earlier test may have left the
+  // word lists on another language.
+  await setWordLanguage('en');
 
   spectator = new GameSpectator();
   spectatorWosWorker = workerNamed('wos-worker');
@@ -539,6 +619,28 @@ describe('specs/game-flow.md § Starting a level', () => {
     expect(spectator.currentLevelSlots.every((slot) => !slot.user)).toBe(true);
   });
 
+  it('recognises a board the archive already holds from its letters alone', async () => {
+    server.use(boardArchivedWithTheseLetters('CAUTION', ['coat', 'tonic', 'action', 'caution']));
+    spectator.setHintLevel('first');
+
+    await playWosEvent(levelStarted({
+      level: 3,
+      letters: CAUTION_LETTERS,
+      slotLengths: CAUTION_SLOT_LENGTHS,
+    }));
+
+    expect(gameLog()).toContain('Found this board in the archive: CAUTION');
+    expect(wordsLeft()).toEqual([
+      '4 letters1 leftC___', '5 letters1 leftT____', '6 letters1 leftA_____', '7 letters1 leftC______',
+    ]);
+
+    // No big word was guessed, yet the missed words come from the board.
+    await playWosEvent(correctGuess({ user: 'clarkio', word: 'coat', index: 0 }));
+    await playWosEvent(levelResults(1));
+
+    expect(missedWords()).toEqual(['TONIC*', 'ACTION*', 'CAUTION*']);
+  });
+
   it('clears everything from the previous level when the next one starts', async () => {
     await useDictionary(CAUTION_DICTIONARY);
 
@@ -605,6 +707,32 @@ describe('specs/game-flow.md § Starting a level', () => {
     expect(spectator.currentLanguageCode).toBe('fr');
   });
 
+  it('switches to the word list of the language the game is played in', async () => {
+    // Portuguese, since no other test here plays it: word lists already
+    // loaded are kept for the rest of the run, and would not be requested.
+    const requested: string[] = [];
+    server.use(http.get('*/api/words', ({ request }) => {
+      const lang = new URL(request.url).searchParams.get('lang') ?? '';
+      requested.push(lang);
+      return HttpResponse.json(lang === 'pt' ? ['cautela'] : ['caution']);
+    }));
+
+    await playWosEvent(levelStarted({
+      level: 3,
+      letters: CAUTION_LETTERS,
+      slotLengths: CAUTION_SLOT_LENGTHS,
+      language: 1,
+    }));
+    vi.useRealTimers();
+    await vi.waitFor(() => {
+      expect(isWosWord('cautela')).toBe(true);
+    });
+
+    expect(requested).toEqual(['pt']);
+    expect(isWosWord('caution')).toBe(false);
+  });
+
+
   it('keeps the language it already knows when a later event carries none', async () => {
     await playWosEvent(levelStarted({
       level: 3,
@@ -626,6 +754,54 @@ describe('specs/game-flow.md § Starting a level', () => {
   });
 });
 
+// ===========================================================================
+// specs/game-flow.md § Guessing opens and closes
+// ===========================================================================
+
+describe('specs/game-flow.md § Guessing opens and closes', () => {
+  function guessingShownOpen(): boolean {
+    return document.getElementById('level-current')!.classList.contains('guessing-open');
+  }
+
+  beforeEach(async () => {
+    await playWosEvent(levelStarted({
+      level: 3,
+      letters: CAUTION_LETTERS,
+      slotLengths: CAUTION_SLOT_LENGTHS,
+    }));
+  });
+
+  it('shows guessing as open once the game unlocks it', async () => {
+    expect(guessingShownOpen()).toBe(false);
+
+    await playWosEvent(guessingUnlockedFixture);
+
+    expect(guessingShownOpen()).toBe(true);
+    expect(text('guessing-status')).toBe('GUESSING OPEN');
+    expect(gameLog()).toContain('Guessing unlocked');
+  });
+
+  it.each([
+    ['the level ends', () => levelEndedFixture],
+    ['the level results arrive', () => levelResultsFixture],
+    ['the game ends', () => gameEndedFixture],
+    ['the next level starts', () => levelStarted({ level: 4, letters: CAUTION_LETTERS, slotLengths: [4] })],
+  ])('stops showing guessing as open when %s', async (_label, event) => {
+    await playWosEvent(guessingUnlockedFixture);
+
+    await playWosEvent(event());
+
+    expect(guessingShownOpen()).toBe(false);
+    expect(text('guessing-status')).toBe('');
+  });
+
+  it('does not guess that guessing is open when joining a level under way', async () => {
+    await playWosEvent(gameConnectedFixture);
+
+    expect(guessingShownOpen()).toBe(false);
+  });
+});
+
 // ===========================================================================
 // specs/game-flow.md § A correct guess
 // ===========================================================================
@@ -683,6 +859,42 @@ describe('specs/game-flow.md § A correct guess', () => {
     expect(spectator.currentLevelSlots[3].hitMax).toBe(true);
   });
 
+  it('lists how many words of each length are left, after every correct guess', async () => {
+    spectator.setHintLevel('first');
+    expect(wordsLeft()).toEqual(['4 letters1 left', '5 letters1 left', '6 letters1 left', '7 letters1 left']);
+
+    await playWosEvent(correctGuess({ user: 'clarkio', word: 'action', index: 2 }));
+
+    expect(wordsLeft()).toEqual(['4 letters1 left', '5 letters1 left', '7 letters1 left']);
+  });
+
+  it('hints at the words left with their first letter once the board is found in the archive', async () => {
+    server.use(boardArchived('CAUTION', ['coat', 'tonic', 'action', 'caution']));
+    spectator.setHintLevel('first');
+
+    await playWosEvent(correctGuess({ user: 'clarkio', word: 'caution', index: 3, hitMax: true }));
+
+    await vi.waitFor(() => {
+      expect(wordsLeft()).toEqual(['4 letters1 leftC___', '5 letters1 leftT____', '6 letters1 leftA_____']);
+    });
+  });
+
+  it('shows the words left by their length alone when only lengths were asked for', async () => {
+    server.use(boardArchived('CAUTION', ['coat', 'tonic', 'action', 'caution']));
+    spectator.setHintLevel('length');
+
+    await playWosEvent(correctGuess({ user: 'clarkio', word: 'caution', index: 3, hitMax: true }));
+
+    expect(wordsLeft()).toEqual(['4 letters1 left____', '5 letters1 left_____', '6 letters1 left______']);
+  });
+
+  it('shows no words-left panel unless it was asked for', async () => {
+    await playWosEvent(correctGuess({ user: 'clarkio', word: 'action', index: 2 }));
+
+    expect(document.getElementById('words-remaining-panel')!.style.display).toBe('none');
+    expect(wordsLeft()).toEqual([]);
+  });
+
   it('trusts the word the game gave it and never looks at chat', async () => {
     // Chat is full of a different word of the same length. An unmasked event
     // carries the word itself, so chat must not get a vote.
@@ -827,6 +1039,27 @@ describe('specs/game-flow.md § Hidden and fake letters', () => {
     expect(text('letters')).toBe('T R A P');
     expect(spectator.currentLevelLetters).toEqual(['t', 'r', 'a', 'x', 'z', 'p']);
   });
+
+  it('shows the letters in the order the game shuffles them into', async () => {
+    // `07-letters-cycled.json` shuffles C A U T I O N into N O I T U A C.
+    await playWosEvent(levelStarted({ level: 3, letters: CAUTION_LETTERS, slotLengths: [4] }));
+
+    await playWosEvent(lettersCycledFixture);
+
+    expect(text('letters')).toBe('N O I T U A C');
+    // The board's own letters are untouched, so no letter is gained or lost.
+    expect(spectator.currentLevelLetters).toEqual(CAUTION_LETTERS);
+  });
+
+  it('leaves the big word alone when the game shuffles after it was guessed', async () => {
+    await useDictionary(CAUTION_DICTIONARY);
+    await playWosEvent(levelStarted({ level: 3, letters: CAUTION_LETTERS, slotLengths: [7] }));
+    await playWosEvent(correctGuess({ user: 'clarkio', word: 'caution', index: 0, hitMax: true }));
+
+    await playWosEvent(lettersCycledFixture);
+
+    expect(text('letters')).toBe('C A U T I O N');
+  });
 });
 
 // ===========================================================================
@@ -897,6 +1130,71 @@ describe('specs/game-flow.md § Masked guesses', () => {
     await playWosEvent(maskedGuess({ user: 'clarkio', length: 6, index: 0 }));
 
     expect(foundWords()).toEqual(['BROOMS']);
+    // Either word could have been the answer, so the choice is flagged.
+    expect(uncertainWords()).toEqual(['BROOMS']);
+    expect(spectator.currentLevelSlots[0].confidence).toBe('ambiguous');
+    expect(gameLog()).toContain('clarkio correctly guessed: brooms (uncertain');
+  });
+
+  it('does not mark a word only one chat message could have been', async () => {
+    await startTrilbyLevel();
+    playChatMessage('clarkio', 'trilby', 1_000);
+
+    await playWosEvent(maskedGuess({ user: 'clarkio', length: 6, index: 0 }));
+
+    expect(uncertainWords()).toEqual([]);
+    expect(spectator.currentLevelSlots[0].confidence).toBe('unique');
+    expect(gameLog()).not.toContain('(uncertain');
+  });
+
+  it('falls back to a message that is not a known word, and marks it uncertain', async () => {
+    await startTrilbyLevel();
+    playChatMessage('clarkio', 'zzzzzz', 1_000);
+
+    await playWosEvent(maskedGuess({ user: 'clarkio', length: 6, index: 0 }));
+
+    expect(foundWords()).toEqual(['ZZZZZZ']);
+    expect(uncertainWords()).toEqual(['ZZZZZZ']);
+    expect(spectator.currentLevelSlots[0]).toMatchObject({ word: 'zzzzzz', confidence: 'fallback' });
+  });
+
+  it('keeps a board with an uncertain word out of the archive', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => { });
+    const capture = boardCaptureRecorder();
+    server.use(boardNotArchived(), capture.handler);
+    await useDictionary(BROOMED_DICTIONARY);
+    await playWosEvent(levelStarted({ level: 19, letters: BROOMED_LETTERS, slotLengths: [6, 6, 7] }));
+    await playWosEvent(correctGuess({ user: 'biocow', word: 'bedroom', index: 2, hitMax: true }));
+    playChatMessage('clarkio', 'broods', 1_000);
+    playChatMessage('clarkio', 'brooms', 2_000);
+
+    // The first guess has to choose between the two; the second gets
+    // whichever is left, which is certain.
+    await playWosEvent(maskedGuess({ user: 'clarkio', length: 6, index: 0 }));
+    await playWosEvent(maskedGuess({ user: 'clarkio', length: 6, index: 1 }));
+    await playWosEvent(levelResults(3));
+
+    expect(spectator.currentLevelSlots.map((slot) => slot.confidence)).toEqual(['ambiguous', 'unique', undefined]);
+    expect(capture.posted).toEqual([]);
+    expect(warn.mock.calls.flat().join(' ')).toContain('low-confidence words in slots: brooms');
+    warn.mockRestore();
+  });
+
+  it('archives a board whose masked guesses were each certain', async () => {
+    const capture = boardCaptureRecorder();
+    server.use(boardNotArchived(), capture.handler);
+    await useDictionary(BROOMED_DICTIONARY);
+    await playWosEvent(levelStarted({ level: 19, letters: BROOMED_LETTERS, slotLengths: [6, 6, 7] }));
+    await playWosEvent(correctGuess({ user: 'biocow', word: 'bedroom', index: 2, hitMax: true }));
+
+    playChatMessage('clarkio', 'broods', 1_000);
+    await playWosEvent(maskedGuess({ user: 'clarkio', length: 6, index: 0 }));
+    playChatMessage('clarkio', 'brooms', 2_000);
+    await playWosEvent(maskedGuess({ user: 'clarkio', length: 6, index: 1 }));
+    await playWosEvent(levelResults(3));
+
+    expect(capture.posted).toHaveLength(1);
+    expect(capture.posted[0].slots).toMatchObject([{ word: 'broods' }, { word: 'brooms' }, { word: 'bedroom' }]);
   });
 
   it('resolves two masked guesses from one player to two different words', async () => {
@@ -1064,6 +1362,147 @@ describe('specs/game-flow.md § Masked guesses', () => {
     warn.mockRestore();
   });
 
+  it('works out an unrecovered masked guess from the archived board at level end', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => { });
+    // No 5-letter word in the dictionary, so only the archive can say.
+    await useDictionary(CAUTION_DICTIONARY.filter((word) => word !== 'tonic'));
+    server.use(boardArchived('CAUTION', ['coat', 'tonic', 'action', 'caution']), boardCaptureRecorder().handler);
+    await playWosEvent(levelStarted({ level: 19, letters: CAUTION_LETTERS, slotLengths: CAUTION_SLOT_LENGTHS }));
+    await playWosEvent(correctGuess({ user: 'clarkio', word: 'coat', index: 0 }));
+    await playWosEvent(maskedGuess({ user: 'biocow', length: 5, index: 1 }));
+    await playWosEvent(correctGuess({ user: 'smc_may_i', word: 'action', index: 2 }));
+    await playWosEvent(correctGuess({ user: 'clarkio', word: 'caution', index: 3, hitMax: true }));
+    expect(foundWords()).not.toContain('TONIC');
+
+    await playWosEvent(levelResults(2));
+
+    expect(spectator.currentLevelSlots[1]).toMatchObject({ word: 'tonic', user: 'biocow', confidence: 'unique' });
+    expect(foundWords()).toContain('TONIC');
+    expect(gameLog()).toContain("Worked out biocow's masked guess: tonic");
+    warn.mockRestore();
+  });
+
+  it('works out an unrecovered masked guess from the only word left that fits, and archives the board', async () => {
+    const capture = boardCaptureRecorder();
+    server.use(boardNotArchived(), capture.handler);
+    await useDictionary(CAUTION_DICTIONARY);
+    await playWosEvent(levelStarted({ level: 19, letters: CAUTION_LETTERS, slotLengths: CAUTION_SLOT_LENGTHS }));
+    await playWosEvent(correctGuess({ user: 'clarkio', word: 'coat', index: 0 }));
+    await playWosEvent(maskedGuess({ user: 'biocow', length: 5, index: 1 }));
+    await playWosEvent(correctGuess({ user: 'smc_may_i', word: 'action', index: 2 }));
+    await playWosEvent(correctGuess({ user: 'clarkio', word: 'caution', index: 3, hitMax: true }));
+
+    await playWosEvent(levelResults(2));
+
+    expect(foundWords()).toContain('TONIC');
+    expect(capture.posted).toHaveLength(1);
+    expect(capture.posted[0].slots).toMatchObject([
+      { word: 'coat' },
+      { word: 'tonic', user: 'biocow' },
+      { word: 'action' },
+      { word: 'caution' },
+    ]);
+  });
+
+  it('replaces a last-resort word once the board shows what it must have been', async () => {
+    await startTrilbyLevel();
+    // Spelled from the tiles without the masked one, so it deduces no hidden
+    // letter, but not a word.
+    playChatMessage('clarkio', 'brimst', 1_000);
+    await playWosEvent(maskedGuess({ user: 'clarkio', length: 6, index: 0 }));
+    expect(uncertainWords()).toEqual(['BRIMST']);
+
+    await playWosEvent(levelResults(1));
+
+    // TRILBY is the only 6-letter word these tiles allow.
+    expect(spectator.currentLevelSlots[0]).toMatchObject({ word: 'trilby', confidence: 'unique' });
+    expect(foundWords()).toContain('TRILBY');
+    expect(foundWords()).not.toContain('BRIMST');
+    expect(uncertainWords()).toEqual([]);
+    expect(gameLog()).toContain("Corrected clarkio's masked guess: brimst is really trilby");
+  });
+
+  it('works out a masked guess from a chat message that arrived after it', async () => {
+    await startTrilbyLevel();
+    await playWosEvent(maskedGuess({ user: 'biocow', length: 5, index: 1 }));
+    // Chat lagged behind the game: the word turns up only after the guess.
+    playChatMessage('biocow', 'brims', 3_000);
+
+    await playWosEvent(levelResults(1));
+
+    // LIMBS and TRIMS fit the tiles too; only BRIMS was typed.
+    expect(spectator.currentLevelSlots[1]).toMatchObject({ word: 'brims', user: 'biocow' });
+    expect(foundWords()).toContain('BRIMS');
+  });
+
+  it('still works a masked guess out from chat when Level Ended comes before the results', async () => {
+    await startTrilbyLevel();
+    await playWosEvent(maskedGuess({ user: 'biocow', length: 5, index: 1 }));
+    playChatMessage('biocow', 'brims', 3_000);
+
+    await playWosEvent(levelEndedFixture);
+    await playWosEvent(levelResults(1));
+
+    expect(spectator.currentLevelSlots[1]).toMatchObject({ word: 'brims', user: 'biocow' });
+    expect(foundWords()).toContain('BRIMS');
+  });
+
+  it('still works a masked guess out from chat when Level Ended comes before the game ends', async () => {
+    await startTrilbyLevel();
+    await playWosEvent(maskedGuess({ user: 'biocow', length: 5, index: 1 }));
+    playChatMessage('biocow', 'brims', 3_000);
+
+    await playWosEvent(levelEndedFixture);
+    await playWosEvent(gameEndedFixture);
+
+    expect(spectator.currentLevelSlots[1]).toMatchObject({ word: 'brims', user: 'biocow' });
+  });
+
+  it('leaves a masked guess alone when nothing settles it', async () => {
+    await startTrilbyLevel();
+    await playWosEvent(maskedGuess({ user: 'biocow', length: 5, index: 1 }));
+
+    await playWosEvent(levelResults(1));
+
+    // LIMBS, BRIMS and TRIMS all fit, and biocow typed none of them.
+    expect(spectator.currentLevelSlots[1].word).toBe('?????');
+    expect(gameLog()).not.toContain("biocow's masked guess");
+  });
+
+  it('lets go of chat once the results are in, not when the level ends', async () => {
+    await startTrilbyLevel();
+    playChatMessage('clarkio', 'trilby', 1_000);
+
+    await playWosEvent(levelEndedFixture);
+    expect(spectator.twitchChatLog.size).toBe(1);
+
+    await playWosEvent(levelResults(1));
+    expect(spectator.twitchChatLog.size).toBe(0);
+  });
+
+  it('lets go of chat once the game has ended', async () => {
+    await startTrilbyLevel();
+    playChatMessage('clarkio', 'trilby', 1_000);
+
+    await playWosEvent(levelEndedFixture);
+    await playWosEvent(gameEndedFixture);
+
+    expect(spectator.twitchChatLog.size).toBe(0);
+  });
+
+  it('still recovers a guess from the last moments of a level that has just ended', async () => {
+    await startTrilbyLevel();
+    playChatMessage('clarkio', 'trilby', 1_000);
+
+    // The guess and the level's end arrive together; the guess is still
+    // waiting out its delay when the level ends.
+    const guess = startWosEvent(maskedGuess({ user: 'clarkio', length: 6, index: 0 }));
+    const ended = startWosEvent(levelEndedFixture);
+    await drain(Promise.all([guess, ended]));
+
+    expect(foundWords()).toEqual(['TRILBY']);
+  });
+
   it.todo(
     'known gap (#168): a masked guess of 13+ letters can never be recovered — the ' +
     'maintainer ruled the chat filter must keep messages long enough to be big words. ' +
@@ -1227,6 +1666,23 @@ describe('specs/game-flow.md § Ending a level', () => {
     expect(missedWords()).toEqual([]);
   });
 
+  it('adds the capture to the archived copy when the board was captured before', async () => {
+    const capture = boardCaptureRecorder();
+    server.use(boardArchived('CAUTION', ['coat', 'tonic', 'action', 'caution']), capture.handler);
+
+    await playWosEvent(levelStarted({
+      level: 3,
+      letters: CAUTION_LETTERS,
+      slotLengths: CAUTION_SLOT_LENGTHS,
+    }));
+    await clearTheBoard();
+    await playWosEvent(levelResults(2));
+
+    expect(capture.posted).toHaveLength(1);
+    expect(new URL(capture.urls[0]).searchParams.get('merge')).toBe('true');
+    expect(capture.posted[0]).toMatchObject({ id: 'CAUTION', language_code: 'en' });
+  });
+
   it('still clears and captures the board when the clear sound is switched off', async () => {
     // The clear sound is a user setting (`clearSound` in both views, which sets
     // `isSoundsEnabled`). Switching it off must silence the sound and change
@@ -1439,4 +1895,143 @@ describe('specs/game-flow.md § Ending a level', () => {
     expect(missedWords()).not.toContain('ACT*');
     expect(gameLog()).not.toContain('0 letter words');
   });
+
+  it('keeps a session leaderboard of the points each player earned per level', async () => {
+    spectator.isSoundsEnabled = false;
+    await playWosEvent(levelStarted({ level: 4, letters: CAUTION_LETTERS, slotLengths: [4] }));
+    // The recorded payload: smc_may_i +18 and RuggMattBot +13 on this level.
+    // Its `ranking` (the game's running total) is not what the leaderboard sums.
+    await playWosEvent(levelResultsFixture);
+
+    await playWosEvent(levelStarted({ level: 9, letters: CAUTION_LETTERS, slotLengths: [4] }));
+    await playWosEvent(levelResults(1, [
+      { user: { id: 'ruggmattbot', name: 'RuggMattBot' }, points: 9 },
+      { user: { id: 'clarkio', name: 'Clarkio' }, points: 4 },
+    ]));
+
+    const rows = Array.from(document.getElementById('session-leaderboard')!.children);
+    expect(rows.map((row) => row.textContent)).toEqual([
+      '1.RuggMattBot+922',
+      '2.smc_may_i18',
+      '3.Clarkio+44',
+    ]);
+  });
+});
+
+// ===========================================================================
+// specs/game-flow.md § Replaying a recorded session
+// ===========================================================================
+//
+// A replay hands each recorded input to the spectator, which posts it to its
+// workers exactly as a live one. Here those posts are routed the way the rest
+// of this file drives a game: socket events through the real wos-worker
+// translation, chat straight to the twitch worker's output (the chat filter
+// is covered in tests/unit/twitch-chat-worker.test.ts).
+
+describe('specs/game-flow.md § Replaying a recorded session', () => {
+  type PostingWorker = StubWorker & { postMessage: (message: unknown) => void };
+  let inFlight: Promise<unknown>[];
+
+  /** Record a session the way a live view would: one input every `gap` ms. */
+  function recordSession(inputs: (WosWorkerMessage | [string, string])[], gap = 300): string {
+    const recorder = new SessionRecorder(100);
+    inputs.forEach((input, index) => {
+      const at = 1_000 + index * gap;
+      if (Array.isArray(input)) {
+        recorder.record({ source: 'chat', username: input[0], message: input[1], timestamp: at }, at);
+      } else {
+        recorder.record({ source: 'wos', event: '3', args: [input.eventType, input.data] }, at);
+      }
+    });
+    return recorder.toJsonLines({ channel: 'clarkio', wosGameCode: '' });
+  }
+
+  async function replaySession(jsonl: string, speed: ReplaySpeed = 1): Promise<SessionReplay> {
+    const parsed = parseSessionRecording(jsonl);
+    if ('error' in parsed) throw new Error(parsed.error);
+    spectator.beginReplay();
+    const replay = new SessionReplay(parsed.recording.entries, (entry) => { spectator.replayInput(entry); });
+    replay.play(speed);
+    for (let step = 0; step < 200 && !replay.finished; step++) {
+      await vi.advanceTimersByTimeAsync(100);
+    }
+    await drain(Promise.all(inFlight));
+    return replay;
+  }
+
+  beforeEach(() => {
+    inFlight = [];
+    (spectatorWosWorker as PostingWorker).postMessage = (raw) => {
+      inFlight.push(startWosEvent(raw as WosWorkerMessage));
+    };
+    (spectatorTwitchWorker as PostingWorker).postMessage = (message) => {
+      const { username, message: text, timestamp } = message as { username: string; message: string; timestamp: number };
+      playChatMessage(username, text, timestamp);
+    };
+  });
+
+  afterEach(() => {
+    // The stub workers outlive this block; put their own postMessage back.
+    delete (spectatorWosWorker as Partial<PostingWorker>).postMessage;
+    delete (spectatorTwitchWorker as Partial<PostingWorker>).postMessage;
+  });
+
+  it('recovers the same masked word from the recorded chat', async () => {
+    await useDictionary(TRILBY_DICTIONARY);
+    spectator.isSoundsEnabled = false;
+    const recording = recordSession([
+      levelStarted({ level: 19, letters: TRILBY_LETTERS, slotLengths: [6, 5] }),
+      ['clarkio', 'trilby'],
+      maskedGuess({ user: 'clarkio', length: 6, index: 0 }),
+    ]);
+
+    await replaySession(recording);
+
+    expect(foundWords()).toEqual(['TRILBY']);
+    expect(spectator.currentLevelSlots[0]).toMatchObject({ word: 'trilby', user: 'clarkio' });
+    expect(text('letters')).toBe('T L R I S M Y B');
+  });
+
+  it('delivers every input, in order, at ten times speed', async () => {
+    await useDictionary(CAUTION_DICTIONARY);
+    spectator.isSoundsEnabled = false;
+    const recording = recordSession([
+      levelStarted({ level: 3, letters: CAUTION_LETTERS, slotLengths: [4, 5] }),
+      correctGuess({ user: 'clarkio', word: 'coat', index: 0 }),
+      correctGuess({ user: 'biocow', word: 'tonic', index: 1 }),
+    ], 5_000);
+
+    // Ten seconds of recorded gaps take one second to replay.
+    const replay = await replaySession(recording, 10);
+
+    expect(replay.finished).toBe(true);
+    expect(foundWords()).toEqual(['COAT', 'TONIC']);
+  });
+
+  it('does not capture a board cleared in a replay', async () => {
+    // No board handler is registered: an attempted capture would be an
+    // unmatched request and fail this test.
+    await useDictionary(CAUTION_DICTIONARY);
+    const recording = recordSession([
+      levelStarted({ level: 3, letters: CAUTION_LETTERS, slotLengths: [4, 7] }),
+      correctGuess({ user: 'clarkio', word: 'coat', index: 0 }),
+      correctGuess({ user: 'clarkio', word: 'caution', index: 1, hitMax: true }),
+      levelResults(5),
+    ]);
+
+    await replaySession(recording);
+
+    expect(gameLog()).toContain('Level 3 ended with 5 stars');
+    expect(soundsPlayed).toEqual(['/assets/clear.mp3']);
+  });
+
+  it('refuses a recording from a newer WoS+', () => {
+    const [, ...entries] = recordSession([levelStarted({ level: 3, letters: CAUTION_LETTERS, slotLengths: [4] })])
+      .trimEnd().split('\n');
+    const newer = [JSON.stringify({ format: 'wos-plus-session', version: 2 }), ...entries].join('\n');
+
+    expect(parseSessionRecording(newer)).toEqual({
+      error: 'Recording version 2 is not supported; this WoS+ reads version 1.',
+    });
+  });
 });
@@ -0,0 +1,503 @@
+// @vitest-environment node
+/**
+ * ============================================================================
+ * Acceptance tests for per-player stats — `/api/player-stats/[channel]/[player]`
+ * and a channel's top contributors, `/api/player-stats/[channel]`
+ * ============================================================================
+ *
+ * Spec: [specs/player-stats.md](../../specs/player-stats.md)
+ *
+ * Every `describe` below names the spec section it implements.
+ *
+ * The route reads one PostgREST view, `wos_player_stats` (`.single()`), and
+ * writes one table, `wos_player_levels` (an upsert that ignores duplicates).
+ * The top contributors are the same view, ordered and limited.
+ * Both are defined in `db-scripts/create-player-stats.sql`. The view-side half
+ * of § Recording a level — when a level is reported and with what counts — is
+ * `GameSpectator` behaviour and is covered in `tests/unit/wos-plus-main.test.ts`.
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { env } from 'cloudflare:workers';
+
+import * as playerStatsRoute from '../../src/pages/api/player-stats/[channel]/[player]';
+import { GET, POST } from '../../src/pages/api/player-stats/[channel]/[player]';
+import { GET as GET_CONTRIBUTORS } from '../../src/pages/api/player-stats/[channel]/index';
+import { issueWriteToken } from '../../src/lib/write-tokens';
+import { invokeRoute, readJson, responseHeaders } from './api-harness';
+import {
+  server,
+  setupNetworkMocking,
+  supabaseFailure,
+  supabaseNoRows,
+  supabaseSuccess,
+  unhandledNetworkRequests,
+} from './network-mock';
+
+setupNetworkMocking();
+
+// ---------------------------------------------------------------------------
+// Fixtures
+// ---------------------------------------------------------------------------
+
+const STATS = 'wos_player_stats';
+const LEVELS = 'wos_player_levels';
+
+const ALLOWED_ORIGIN = 'https://wosplus.com';
+
+/** A level report as a WoS+ view sends it. */
+const REPORT = {
+  levelKey: '4fdfc856-0328-4384-a882-8377dcb5a4f6:12:4-5-6-7',
+  wordsFound: 3,
+  bigWordsHit: 1,
+  hiddenWordsGuessed: 0,
+};
+
+/** Captures the outgoing request the real `postgrest-js` client built. */
+function requestRecorder(): { captured: { url?: string; body?: unknown; prefer?: string | null }; onRequest: (request: Request) => Promise<void> } {
+  const captured: { url?: string; body?: unknown; prefer?: string | null } = {};
+  return {
+    captured,
+    async onRequest(request: Request) {
+      captured.url = request.url;
+      captured.prefer = request.headers.get('prefer');
+      if (request.method === 'POST') captured.body = await request.json();
+    },
+  };
+}
+
+function filterOn(captured: { url?: string }, column: string): string | null {
+  return new URL(captured.url ?? '').searchParams.get(column);
+}
+
+function readStats(channel: string, player: string) {
+  return invokeRoute(GET, {
+    url: `/api/player-stats/${channel}/${player}`,
+    params: { channel, player },
+  });
+}
+
+/** The Authorization header of a view holding `channel`'s write token. */
+async function writeHeaders(channel = 'clarkio'): Promise<Record<string, string>> {
+  const { token } = await issueWriteToken(channel, env.BOARD_WRITE_SECRET ?? '');
+  return { authorization: `Bearer ${token}` };
+}
+
+/** Reports a level the way a view signed in as `clarkio` does, unless `headers` are given. */
+async function reportLevel(channel: string, player: string, body: unknown, headers?: Record<string, string>) {
+  return invokeRoute(POST, {
+    url: `/api/player-stats/${channel}/${player}`,
+    params: { channel, player },
+    method: 'POST',
+    headers: headers ?? await writeHeaders(),
+    // A string is sent verbatim so a malformed body can be exercised.
+    ...(typeof body === 'string' ? { body } : { json: body }),
+  });
+}
+
+function silenceRouteLogging(): void {
+  vi.spyOn(console, 'error').mockImplementation(() => { /* expected */ });
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+// ===========================================================================
+// specs/player-stats.md § Naming a channel and a player
+// ===========================================================================
+
+describe('specs/player-stats.md — Naming a channel and a player', () => {
+  describe('Scenario: the names are typed with capitals', () => {
+    it('reads the same player and channel when both arrive in mixed case', async () => {
+      const recorder = requestRecorder();
+      server.use(supabaseSuccess(STATS, {
+        words_found: 40, big_words_hit: 6, hidden_words_guessed: 3, levels_played: 12,
+      }, { once: true, onRequest: recorder.onRequest }));
+
+      const response = await readStats('ClarkIO', 'BioCow');
+
+      expect(response.status).toBe(200);
+      expect(filterOn(recorder.captured, 'channel')).toBe('eq.clarkio');
+      expect(filterOn(recorder.captured, 'player')).toBe('eq.biocow');
+    });
+
+    it('records under the normalized names too', async () => {
+      const recorder = requestRecorder();
+      server.use(supabaseSuccess(LEVELS, [{}], { method: 'post', once: true, onRequest: recorder.onRequest }));
+
+      await reportLevel('#ClarkIO', '  BioCow ', REPORT);
+
+      expect(recorder.captured.body).toMatchObject({ channel: 'clarkio', player: 'biocow' });
+    });
+  });
+
+  describe('Scenario: a player name containing characters Twitch does not allow', () => {
+    it('rejects the name without reading anything', async () => {
+      const response = await readStats('clarkio', 'bio.cow');
+
+      expect(response.status).toBe(400);
+      expect(await readJson(response)).toEqual({
+        error: 'Invalid player name format. Only lowercase letters, numbers, and underscores are allowed.',
+      });
+      expect(unhandledNetworkRequests()).toEqual([]);
+    });
+
+    it('rejects the name without recording anything', async () => {
+      const response = await reportLevel('clarkio', 'bio.cow', REPORT);
+
+      expect(response.status).toBe(400);
+      expect(unhandledNetworkRequests()).toEqual([]);
+    });
+  });
+
+  describe('Scenario: a channel name that is too long', () => {
+    it('rejects the channel without reading anything', async () => {
+      const response = await readStats('c'.repeat(51), 'biocow');
+
+      expect(response.status).toBe(400);
+      expect(await readJson(response)).toEqual({
+        error: 'Invalid channel name length. Must be between 1 and 50 characters.',
+      });
+      expect(unhandledNetworkRequests()).toEqual([]);
+    });
+
+    it('requires both names', async () => {
+      const response = await invokeRoute(GET, {
+        url: '/api/player-stats/clarkio/',
+        params: { channel: 'clarkio' },
+      });
+
+      expect(response.status).toBe(400);
+      expect(await readJson(response)).toEqual({ error: 'Player name is required' });
+    });
+  });
+});
+
+// ===========================================================================
+// specs/player-stats.md § Reading a player's stats
+// ===========================================================================
+
+describe("specs/player-stats.md — Reading a player's stats", () => {
+  describe('Scenario: a player with stats', () => {
+    it('reports all four numbers', async () => {
+      server.use(supabaseSuccess(STATS, {
+        words_found: 40, big_words_hit: 6, hidden_words_guessed: 3, levels_played: 12,
+      }, { once: true }));
+
+      const response = await readStats('clarkio', 'biocow');
+
+      expect(response.status).toBe(200);
+      expect(await readJson(response)).toEqual({
+        channel: 'clarkio',
+        player: 'biocow',
+        wordsFound: 40,
+        bigWordsHit: 6,
+        hiddenWordsGuessed: 3,
+        levelsPlayed: 12,
+      });
+    });
+  });
+
+  describe('Scenario: a player WoS+ has never seen', () => {
+    it('answers zeros, not a failure', async () => {
+      server.use(supabaseNoRows(STATS, { once: true }));
+
+      const response = await readStats('clarkio', 'brandnew');
+
+      expect(response.status).toBe(200);
+      expect(await readJson(response)).toMatchObject({
+        wordsFound: 0,
+        bigWordsHit: 0,
+        hiddenWordsGuessed: 0,
+        levelsPlayed: 0,
+      });
+    });
+  });
+
+  describe('Scenario: the stats cannot be reached', () => {
+    it('reports a failed read rather than zeros on a database error', async () => {
+      silenceRouteLogging();
+      server.use(supabaseFailure(STATS, { code: '42P01', message: 'relation does not exist' }, { status: 500, once: true }));
+
+      const response = await readStats('clarkio', 'biocow');
+
+      expect(response.status).toBe(500);
+      expect(await readJson(response)).toEqual({ error: 'Failed to read player stats' });
+    });
+
+    it('reports a failed read when the archive has no credentials', async () => {
+      silenceRouteLogging();
+
+      const response = await invokeRoute(GET, {
+        url: '/api/player-stats/clarkio/biocow',
+        params: { channel: 'clarkio', player: 'biocow' },
+        workerEnv: { SUPABASE_URL: undefined, SUPABASE_KEY: undefined },
+      });
+
+      expect(response.status).toBe(500);
+    });
+  });
+});
+
+// ===========================================================================
+// specs/player-stats.md § A channel's top contributors
+// ===========================================================================
+
+describe("specs/player-stats.md — A channel's top contributors", () => {
+  function readContributors(channel: string, query = '') {
+    return invokeRoute(GET_CONTRIBUTORS, {
+      url: `/api/player-stats/${channel}${query}`,
+      params: { channel },
+    });
+  }
+
+  function statsRow(player: string, wordsFound: number) {
+    return { player, words_found: wordsFound, big_words_hit: 2, hidden_words_guessed: 1, levels_played: 5 };
+  }
+
+  describe('Scenario: the players who found the most words', () => {
+    // Given biocow has found 40 words in the channel clarkio, wosfan 25 and
+    //       lurker 3
+    // When the channel's top two contributors are read
+    // Then biocow and then wosfan come back, each with all four numbers
+
+    it('answers the players with the most words first', async () => {
+      const read = requestRecorder();
+      server.use(supabaseSuccess(STATS, [statsRow('biocow', 40), statsRow('wosfan', 25)], {
+        once: true,
+        onRequest: read.onRequest,
+      }));
+
+      const response = await readContributors('ClarkIO', '?limit=2');
+
+      expect(response.status).toBe(200);
+      expect(await readJson(response)).toEqual({
+        channel: 'clarkio',
+        players: [
+          { player: 'biocow', wordsFound: 40, bigWordsHit: 2, hiddenWordsGuessed: 1, levelsPlayed: 5 },
+          { player: 'wosfan', wordsFound: 25, bigWordsHit: 2, hiddenWordsGuessed: 1, levelsPlayed: 5 },
+        ],
+      });
+      expect(filterOn(read.captured, 'channel')).toBe('eq.clarkio');
+      expect(filterOn(read.captured, 'order')).toBe('words_found.desc,player.asc');
+      expect(filterOn(read.captured, 'limit')).toBe('2');
+    });
+
+    it('asks for ten when no limit is given', async () => {
+      const read = requestRecorder();
+      server.use(supabaseSuccess(STATS, [], { once: true, onRequest: read.onRequest }));
+
+      await readContributors('clarkio');
+
+      expect(filterOn(read.captured, 'limit')).toBe('10');
+    });
+  });
+
+  describe('Scenario: a channel nobody has played in', () => {
+    // Given no player has found a word in the channel brandnew
+    // When its top contributors are read
+    // Then the list is empty
+
+    it('answers an empty list', async () => {
+      server.use(supabaseSuccess(STATS, [], { once: true }));
+
+      const response = await readContributors('brandnew');
+
+      expect(response.status).toBe(200);
+      expect(await readJson(response)).toEqual({ channel: 'brandnew', players: [] });
+    });
+  });
+
+  describe('Scenario: asking for too many', () => {
+    // Given a request for more than 50 contributors, or for none
+    // When WoS+ handles the request
+    // Then it is rejected, and nothing is looked up
+
+    it.each(['?limit=0', '?limit=51', '?limit=ten', '?limit=2.5', '?limit='])('rejects %s', async (query) => {
+      const response = await readContributors('clarkio', query);
+
+      expect(response.status).toBe(400);
+      expect(await readJson(response)).toMatchObject({ code: 'INVALID_LIMIT' });
+      expect(unhandledNetworkRequests()).toEqual([]);
+    });
+
+    it('rejects a channel name Twitch does not allow', async () => {
+      const response = await readContributors('clark.io');
+
+      expect(response.status).toBe(400);
+      expect(unhandledNetworkRequests()).toEqual([]);
+    });
+  });
+
+  describe('Scenario: the contributors cannot be read', () => {
+    // Given the player stats are unavailable
+    // When the top contributors are read
+    // Then WoS+ is told the read failed, never handed an empty list
+
+    it('reports the failure', async () => {
+      silenceRouteLogging();
+      server.use(supabaseFailure(STATS, { code: '42P01', message: 'relation does not exist' }, { once: true }));
+
+      const response = await readContributors('clarkio');
+
+      expect(response.status).toBe(500);
+      expect(await readJson(response)).toEqual({ error: 'Failed to read player stats' });
+    });
+  });
+});
+
+// ===========================================================================
+// specs/player-stats.md § Recording a level
+// ===========================================================================
+
+describe('specs/player-stats.md — Recording a level', () => {
+  describe('Scenario: a level ends', () => {
+    it('records the level as one row of counts for the player', async () => {
+      const recorder = requestRecorder();
+      server.use(supabaseSuccess(LEVELS, [{}], { method: 'post', once: true, onRequest: recorder.onRequest }));
+
+      const response = await reportLevel('clarkio', 'biocow', REPORT);
+
+      expect(response.status).toBe(200);
+      expect(await readJson(response)).toEqual({ recorded: true });
+      expect(recorder.captured.body).toEqual({
+        channel: 'clarkio',
+        player: 'biocow',
+        level_key: REPORT.levelKey,
+        words_found: 3,
+        big_words_hit: 1,
+        hidden_words_guessed: 0,
+      });
+    });
+  });
+
+  describe('Scenario: several views are watching the same level', () => {
+    it('asks the archive to ignore a level it already has', async () => {
+      const recorder = requestRecorder();
+      server.use(supabaseSuccess(LEVELS, [{}], { method: 'post', once: true, onRequest: recorder.onRequest }));
+
+      await reportLevel('clarkio', 'biocow', REPORT);
+
+      expect(filterOn(recorder.captured, 'on_conflict')).toBe('channel,player,level_key');
+      expect(recorder.captured.prefer).toContain('resolution=ignore-duplicates');
+    });
+
+    it('tells the caller when its report was a duplicate', async () => {
+      // An ignored duplicate comes back from PostgREST as an empty list.
+      server.use(supabaseSuccess(LEVELS, [], { method: 'post', once: true }));
+
+      const response = await reportLevel('clarkio', 'biocow', REPORT);
+
+      expect(response.status).toBe(200);
+      expect(await readJson(response)).toEqual({ recorded: false });
+    });
+  });
+
+  describe('Scenario: a report that does not add up', () => {
+    it.each([
+      ['more big words than words found', { ...REPORT, bigWordsHit: 4 }],
+      ['more hidden words than words found', { ...REPORT, hiddenWordsGuessed: 4 }],
+      ['a negative count', { ...REPORT, wordsFound: -1 }],
+      ['a fractional count', { ...REPORT, wordsFound: 2.5 }],
+      ['a count sent as text', { ...REPORT, wordsFound: '3' }],
+      ['no level key', { ...REPORT, levelKey: undefined }],
+      ['a blank level key', { ...REPORT, levelKey: '   ' }],
+      ['an overlong level key', { ...REPORT, levelKey: 'k'.repeat(201) }],
+      ['a level key that names no game room', { ...REPORT, levelKey: 'room:12:4-5-6-7' }],
+      ['a level key with no level number', { ...REPORT, levelKey: '4fdfc856-0328-4384-a882-8377dcb5a4f6::4-5-6-7' }],
+      ['a level key with no slot lengths', { ...REPORT, levelKey: '4fdfc856-0328-4384-a882-8377dcb5a4f6:12:' }],
+      ['a level key with more parts', { ...REPORT, levelKey: `${REPORT.levelKey}:extra` }],
+    ])('rejects a report with %s, recording nothing', async (_label, body) => {
+      const response = await reportLevel('clarkio', 'biocow', body);
+
+      expect(response.status).toBe(400);
+      expect(await readJson(response)).toMatchObject({ code: 'INVALID_PLAYER_STATS' });
+      expect(unhandledNetworkRequests()).toEqual([]);
+    });
+
+    it('rejects a body that is not JSON', async () => {
+      const response = await reportLevel('clarkio', 'biocow', 'not json');
+
+      expect(response.status).toBe(400);
+      expect(await readJson(response)).toEqual({ error: 'Invalid JSON body' });
+    });
+  });
+
+  describe('Scenario: a report that did not come from the channel', () => {
+    it('refuses a report carrying no write token, recording nothing', async () => {
+      const response = await reportLevel('clarkio', 'biocow', REPORT, {});
+
+      expect(response.status).toBe(401);
+      expect(await readJson(response)).toMatchObject({ code: 'INVALID_WRITE_TOKEN' });
+      expect(unhandledNetworkRequests()).toEqual([]);
+    });
+
+    it('refuses a report for another channel, recording nothing', async () => {
+      const response = await reportLevel('clarkio', 'biocow', REPORT, await writeHeaders('biocow'));
+
+      expect(response.status).toBe(403);
+      expect(await readJson(response)).toMatchObject({ code: 'INVALID_WRITE_TOKEN' });
+      expect(unhandledNetworkRequests()).toEqual([]);
+    });
+  });
+
+  it('reports a failed write rather than pretending it was recorded', async () => {
+    silenceRouteLogging();
+    server.use(supabaseFailure(LEVELS, { code: '42P01', message: 'relation does not exist' }, { method: 'post', status: 500, once: true }));
+
+    const response = await reportLevel('clarkio', 'biocow', REPORT);
+
+    expect(response.status).toBe(500);
+  });
+});
+
+// ===========================================================================
+// CORS (issue #172)
+// ===========================================================================
+
+describe('CORS', () => {
+  it('exports a handler for every method its preflight promises', () => {
+    const exportedHandlers = Object.keys(playerStatsRoute)
+      .filter((name) => /^[A-Z]+$/.test(name))
+      .sort();
+
+    expect(exportedHandlers).toEqual(['GET', 'OPTIONS', 'POST']);
+  });
+
+  it('answers a preflight with no body', async () => {
+    const response = await invokeRoute(playerStatsRoute.OPTIONS, {
+      method: 'OPTIONS',
+      url: '/api/player-stats/clarkio/biocow',
+      params: { channel: 'clarkio', player: 'biocow' },
+      headers: { origin: ALLOWED_ORIGIN },
+      workerEnv: { CORS_ALLOWED_ORIGINS: ALLOWED_ORIGIN },
+    });
+
+    expect(response.status).toBe(204);
+    expect(await response.text()).toBe('');
+    expect(responseHeaders(response)).toMatchObject({
+      'access-control-allow-origin': ALLOWED_ORIGIN,
+      'access-control-allow-methods': 'GET, POST, OPTIONS',
+    });
+  });
+
+  it('turns a caller away with a 429 once they pass the limit, counting reads and reports together', async () => {
+    server.use(supabaseSuccess(STATS, { words_found: 40, big_words_hit: 6, hidden_words_guessed: 3, levels_played: 12 }, { once: true }));
+    const call = {
+      url: '/api/player-stats/clarkio/biocow',
+      params: { channel: 'clarkio', player: 'biocow' },
+      headers: { ...await writeHeaders(), origin: ALLOWED_ORIGIN, 'cf-connecting-ip': '203.0.113.7' },
+      workerEnv: { CORS_ALLOWED_ORIGINS: ALLOWED_ORIGIN, RATE_LIMITS: '/api/player-stats/[channel]/[player]=1' },
+    };
+    await invokeRoute(GET, call);
+
+    const response = await invokeRoute(POST, { ...call, method: 'POST', json: REPORT });
+
+    expect(response.status).toBe(429);
+    expect(response.headers.get('retry-after')).toMatch(/^\d+$/);
+    expect(responseHeaders(response)['access-control-allow-origin']).toBe(ALLOWED_ORIGIN);
+    expect(await readJson(response)).toMatchObject({ code: 'RATE_LIMITED' });
+    expect(unhandledNetworkRequests()).toEqual([]);
+  });
+});
@@ -53,10 +53,23 @@ function fullPage(prefix: string): string[] {
   return Array.from({ length: PAGE_SIZE }, (_, index) => `${prefix}${index}`);
 }
 
+/**
+ * Answers the route's version query — the one-row read it makes before paging
+ * to learn how many words the list holds and when the latest one changed. It
+ * is registered `once`, ahead of the page handlers a test scripts after it.
+ */
+function wordListVersion(count: number, latestUpdate: string | null): ReturnType<typeof supabaseSuccess> {
+  return supabaseSuccess('words', [{ updated_at: latestUpdate }], {
+    once: true,
+    headers: { 'content-range': `0-0/${count}` },
+  });
+}
+
 /**
  * Records the `?offset=…&limit=…` of each outgoing page request. `.range(from,
  * to)` in postgrest-js sets exactly those two params, so this is the paging the
- * route actually performed rather than a re-derivation of it.
+ * route actually performed rather than a re-derivation of it. The version
+ * query is not a page, so it is left out.
  */
 function pageRecorder(): { seen: string[]; onRequest: (request: Request) => void } {
   const seen: string[] = [];
@@ -64,6 +77,7 @@ function pageRecorder(): { seen: string[]; onRequest: (request: Request) => void
     seen,
     onRequest(request: Request) {
       const params = new URL(request.url).searchParams;
+      if (params.get('select') !== 'normalized_word') return;
       seen.push(`offset=${params.get('offset')}&limit=${params.get('limit')}`);
     },
   };
@@ -113,12 +127,15 @@ describe('specs/words.md — Loading the shared word list', () => {
       const recorder = pageRecorder();
       let selected: string | null = null;
 
-      server.use(supabaseSuccess('words', rows(['caution']), {
-        onRequest(request) {
-          recorder.onRequest(request);
-          selected = new URL(request.url).searchParams.get('select');
-        },
-      }));
+      server.use(
+        wordListVersion(1, '2026-01-01T00:00:00Z'),
+        supabaseSuccess('words', rows(['caution']), {
+          onRequest(request) {
+            recorder.onRequest(request);
+            selected = new URL(request.url).searchParams.get('select');
+          },
+        }),
+      );
 
       await invokeRoute(GET, { url: '/api/words' });
 
@@ -140,6 +157,7 @@ describe('specs/words.md — Loading the shared word list', () => {
       const recorder = pageRecorder();
 
       server.use(
+        wordListVersion(first.length + second.length + last.length, '2026-01-01T00:00:00Z'),
         supabaseSuccess('words', rows(first), { once: true, onRequest: recorder.onRequest }),
         supabaseSuccess('words', rows(second), { once: true, onRequest: recorder.onRequest }),
         supabaseSuccess('words', rows(last), { once: true, onRequest: recorder.onRequest }),
@@ -158,6 +176,7 @@ describe('specs/words.md — Loading the shared word list', () => {
       const recorder = pageRecorder();
 
       server.use(
+        wordListVersion(PAGE_SIZE * 2 + 1, '2026-01-01T00:00:00Z'),
         supabaseSuccess('words', rows(fullPage('a-')), { once: true, onRequest: recorder.onRequest }),
         supabaseSuccess('words', rows(fullPage('b-')), { once: true, onRequest: recorder.onRequest }),
         supabaseSuccess('words', rows(['tail']), { once: true, onRequest: recorder.onRequest }),
@@ -182,6 +201,7 @@ describe('specs/words.md — Loading the shared word list', () => {
       const recorder = pageRecorder();
 
       server.use(
+        wordListVersion(PAGE_SIZE, '2026-01-01T00:00:00Z'),
         supabaseSuccess('words', rows(exact), { once: true, onRequest: recorder.onRequest }),
         supabaseSuccess('words', [], { once: true, onRequest: recorder.onRequest }),
       );
@@ -213,7 +233,10 @@ describe('specs/words.md — Loading the shared word list', () => {
 
     it('asks the store only once when the first page is empty', async () => {
       const recorder = pageRecorder();
-      server.use(supabaseSuccess('words', [], { once: true, onRequest: recorder.onRequest }));
+      server.use(
+        wordListVersion(0, null),
+        supabaseSuccess('words', [], { once: true, onRequest: recorder.onRequest }),
+      );
 
       await invokeRoute(GET, { url: '/api/words' });
 
@@ -256,6 +279,7 @@ describe('specs/words.md — Loading the shared word list', () => {
       // never received as unknown, and report them as missed at end of level.
       silenceRouteLogging();
       server.use(
+        wordListVersion(PAGE_SIZE + 1, '2026-01-01T00:00:00Z'),
         supabaseSuccess('words', rows(fullPage('page-one-')), { once: true }),
         supabaseFailure('words', { message: 'connection reset by peer' }, { once: true, status: 500 }),
       );
@@ -286,6 +310,144 @@ describe('specs/words.md — Loading the shared word list', () => {
     });
   });
 
+  describe('Scenario: one word list per language', () => {
+    // Given the shared word list holds English, Portuguese and French words
+    // When WoS+ loads the list for a game played in Portuguese
+    // Then it gets the Portuguese words only
+    // And a view that does not say which language it wants gets the English
+    //     words
+
+    /** The language the route asked the store for, for the version and the words alike. */
+    async function languageAskedFor(url: string): Promise<string | null> {
+      const asked = new Set<string | null>();
+      server.use(supabaseSuccess('words', rows(['cautela']), {
+        onRequest(request) {
+          asked.add(new URL(request.url).searchParams.get('language_code'));
+        },
+      }));
+
+      const response = await invokeRoute(GET, { url });
+      expect(response.status).toBe(200);
+      expect(asked.size).toBe(1);
+      return [...asked][0];
+    }
+
+    it('asks the store for the requested language only', async () => {
+      expect(await languageAskedFor('/api/words?lang=pt')).toBe('eq.pt');
+    });
+
+    it('reads the language the way boards store it', async () => {
+      expect(await languageAskedFor('/api/words?lang=%20FR%20')).toBe('eq.fr');
+    });
+
+    it('serves the English words when no language is given', async () => {
+      expect(await languageAskedFor('/api/words')).toBe('eq.en');
+    });
+  });
+
+  describe('Scenario: a view that already has the word list', () => {
+    // Given a view has loaded the English word list before
+    // And no English word has been added, removed or changed since
+    // When the view opens again
+    // Then it uses the copy it kept, without downloading the list again
+
+    /** The version the route hands out, read off a full download. */
+    async function servedVersion(): Promise<string | null> {
+      server.use(
+        wordListVersion(2, '2026-03-04T05:06:07Z'),
+        supabaseSuccess('words', rows(['caution', 'action']), { once: true }),
+      );
+      const response = await invokeRoute(GET, { url: '/api/words' });
+      expect(response.status).toBe(200);
+      return responseHeaders(response).etag ?? null;
+    }
+
+    it('labels the list with its version and asks for it to be checked on every load', async () => {
+      server.use(
+        wordListVersion(2, '2026-03-04T05:06:07Z'),
+        supabaseSuccess('words', rows(['caution', 'action']), { once: true }),
+      );
+
+      const response = await invokeRoute(GET, { url: '/api/words?lang=pt' });
+
+      expect(responseHeaders(response)).toMatchObject({
+        etag: `"pt-2-${Date.parse('2026-03-04T05:06:07Z')}"`,
+        'cache-control': 'no-cache',
+      });
+    });
+
+    it('answers "not modified", without paging the list, while the copy is current', async () => {
+      const version = await servedVersion();
+      const recorder = pageRecorder();
+      // Only the version query is answered: a page request would reach the
+      // catch-all and fail the test.
+      server.use(wordListVersion(2, '2026-03-04T05:06:07Z'));
+
+      const response = await invokeRoute(GET, {
+        url: '/api/words',
+        headers: { 'if-none-match': version! },
+      });
+
+      expect(response.status).toBe(304);
+      expect(await response.text()).toBe('');
+      expect(responseHeaders(response).etag).toBe(version);
+      expect(recorder.seen).toEqual([]);
+    });
+
+    it('serves the whole list again once a word has changed', async () => {
+      const version = await servedVersion();
+      server.use(
+        wordListVersion(2, '2026-05-06T07:08:09Z'),
+        supabaseSuccess('words', rows(['caution', 'auction']), { once: true }),
+      );
+
+      const response = await invokeRoute(GET, {
+        url: '/api/words',
+        headers: { 'if-none-match': version! },
+      });
+
+      expect(response.status).toBe(200);
+      expect(await readJson<string[]>(response)).toEqual(['caution', 'auction']);
+      expect(responseHeaders(response).etag).not.toBe(version);
+    });
+
+    it('serves the whole list again once a word has been removed', async () => {
+      const version = await servedVersion();
+      server.use(
+        wordListVersion(1, '2026-03-04T05:06:07Z'),
+        supabaseSuccess('words', rows(['caution']), { once: true }),
+      );
+
+      const response = await invokeRoute(GET, {
+        url: '/api/words',
+        headers: { 'if-none-match': version! },
+      });
+
+      expect(response.status).toBe(200);
+      expect(await readJson<string[]>(response)).toEqual(['caution']);
+    });
+  });
+
+  describe('Scenario: a language Words on Stream does not play in', () => {
+    // Given WoS+ is asked for the word list of a language other than English,
+    //       Portuguese or French
+    // When it tries to load it
+    // Then it is told the language is not supported, rather than being handed
+    //      an empty list
+
+    it('refuses the language without asking the store', async () => {
+      const response = await invokeRoute(GET, { url: '/api/words?lang=de' });
+
+      expect(response.status).toBe(400);
+      expect(await readJson(response)).toEqual({
+        error: 'Unsupported word language',
+        message: 'lang must be one of en, pt or fr.',
+        code: 'INVALID_LANGUAGE',
+      });
+      expect(unhandledNetworkRequests()).toEqual([]);
+    });
+  });
+
   describe('Scenario: extra spacing around a stored word', () => {
     // Given the shared word list holds a word with stray spaces around it
     // When WoS+ loads the list
@@ -439,4 +601,36 @@ describe('/api/words — transport concerns (no spec section; see task owning sr
     expect(response.headers.has('access-control-allow-origin')).toBe(false);
     expect(responseHeaders(response)['access-control-allow-origin']).toBeUndefined();
   });
+
+  it('turns a caller away with a 429 once they pass the limit, without reading the list', async () => {
+    server.use(supabaseSuccess('words', rows(['caution'])));
+    const call = {
+      url: '/api/words',
+      headers: { origin: 'https://wosplus.com', 'cf-connecting-ip': '203.0.113.7' },
+      workerEnv: { CORS_ALLOWED_ORIGINS: 'https://wosplus.com', RATE_LIMITS: '/api/words=2' },
+    };
+
+    expect((await invokeRoute(GET, call)).status).toBe(200);
+    expect((await invokeRoute(GET, call)).status).toBe(200);
+    const limited = await invokeRoute(GET, { ...call, url: '/api/words?lang=pt' });
+
+    expect(limited.status).toBe(429);
+    expect(Number(limited.headers.get('retry-after'))).toBeGreaterThan(0);
+    expect(Number(limited.headers.get('retry-after'))).toBeLessThanOrEqual(60);
+    // Through jsonResponse, so the browser can read why.
+    expect(responseHeaders(limited)['access-control-allow-origin']).toBe('https://wosplus.com');
+    expect(await readJson(limited)).toMatchObject({ error: 'Too many requests', code: 'RATE_LIMITED' });
+  });
+
+  it('keeps serving other callers, and never counts a preflight', async () => {
+    server.use(supabaseSuccess('words', rows(['caution'])));
+    const workerEnv = { RATE_LIMITS: '/api/words=1' };
+
+    await invokeRoute(OPTIONS, { method: 'OPTIONS', url: '/api/words', headers: { 'cf-connecting-ip': '203.0.113.8' }, workerEnv });
+    const first = await invokeRoute(GET, { url: '/api/words', headers: { 'cf-connecting-ip': '203.0.113.8' }, workerEnv });
+    const second = await invokeRoute(GET, { url: '/api/words', headers: { 'cf-connecting-ip': '203.0.113.8' }, workerEnv });
+    const other = await invokeRoute(GET, { url: '/api/words', headers: { 'cf-connecting-ip': '203.0.113.9' }, workerEnv });
+
+    expect([first.status, second.status, other.status]).toEqual([200, 429, 200]);
+  });
 });
@@ -14,4 +14,6 @@
 export const env: Record<string, string> = {
   SUPABASE_URL: 'https://stub.supabase.invalid',
   SUPABASE_KEY: 'stub-key-not-a-real-credential',
+  BOARD_WRITE_SECRET: 'stub-secret-not-a-real-credential',
+  TWITCH_CLIENT_ID: 'stub-twitch-client-id',
 };
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { buildAnagramIndex, findAnagrams, findSpellableWords } from '@scripts/anagram-index';
+
+/**
+ * Unit tests for the word list's letter index. How wos-words.ts answers the
+ * game's questions with it is covered in tests/unit/wos-words.test.ts.
+ */
+
+const WORDS = ['rate', 'TEAR', 'tare', 'rat', 'tree', 'treat', 'eater', 'art', 'rate'];
+
+describe('findAnagrams', () => {
+  const index = buildAnagramIndex(WORDS, 'en');
+
+  it('finds every word with exactly the same letters, lower-cased, once each', () => {
+    expect(findAnagrams(index, 'RATE')).toEqual(['rate', 'tear', 'tare']);
+  });
+
+  it('finds nothing for letters no word uses', () => {
+    expect(findAnagrams(index, 'zzz')).toEqual([]);
+  });
+
+  it('compares accented letters as WoS does in the index language', () => {
+    const portuguese = buildAnagramIndex(['ação', 'caos'], 'pt');
+
+    expect(findAnagrams(portuguese, 'ACAO')).toEqual(['ação']);
+    expect(findAnagrams(buildAnagramIndex(['ação'], 'en'), 'acao')).toEqual([]);
+  });
+});
+
+describe('findSpellableWords', () => {
+  const index = buildAnagramIndex(WORDS, 'en');
+
+  it('finds the words the tiles can spell, in list order', () => {
+    expect(findSpellableWords(index, ['t', 'a', 'e', 'r'], 3)).toEqual(['rate', 'tear', 'tare', 'rat', 'art']);
+  });
+
+  it('uses each tile at most once', () => {
+    expect(findSpellableWords(index, ['t', 'r', 'e'], 3)).not.toContain('tree');
+    expect(findSpellableWords(index, ['t', 'r', 'e', 'e'], 3)).toContain('tree');
+  });
+
+  it('keeps to the lengths asked for', () => {
+    expect(findSpellableWords(index, ['t', 'a', 'e', 'r'], 4)).toEqual(['rate', 'tear', 'tare']);
+    expect(findSpellableWords(index, ['t', 'a', 'e', 'r'], 3, 3)).toEqual(['rat', 'art']);
+  });
+
+  it('lets a ? tile stand for any one letter', () => {
+    expect(findSpellableWords(index, ['t', 'r', 'e', '?'], 4, 4)).toEqual(['rate', 'tear', 'tare', 'tree']);
+    expect(findSpellableWords(index, ['t', 'r', '?'], 4, 4)).toEqual([]);
+  });
+
+  it('gives the same answer when there are too many tiles to try every selection', () => {
+    const tiles = Array.from('taerbcdfghijklmnopqsuvwxyz');
+
+    expect(findSpellableWords(index, tiles, 3)).toEqual(['rate', 'tear', 'tare', 'rat', 'art']);
+  });
+
+  it('spells accented words with plain tiles, and plain words with accented tiles, in Portuguese', () => {
+    const portuguese = buildAnagramIndex(['ação', 'caos', 'casa'], 'pt');
+
+    expect(findSpellableWords(portuguese, ['C', 'A', 'O', 'A', 'S'], 4)).toEqual(['ação', 'caos', 'casa']);
+    expect(findSpellableWords(portuguese, ['Ç', 'Ã', 'O', 'A'], 4)).toEqual(['ação']);
+  });
+
+  it('finds nothing in an empty list or with no tiles', () => {
+    expect(findSpellableWords(buildAnagramIndex([], 'en'), ['r', 'a', 't', 'e'], 3)).toEqual([]);
+    expect(findSpellableWords(index, [], 0)).toEqual([]);
+  });
+});
@@ -1,15 +1,15 @@
 import { afterEach, beforeEach, describe, expect, it } from 'vitest';
 import { env } from 'cloudflare:workers';
 
-import { jsonResponse } from '../../src/lib/api-utils';
+import { jsonResponse, matchesIfNoneMatch, notModifiedResponse } from '../../src/lib/api-utils';
 
 const ALLOWED_ORIGIN = 'https://wosplus.com';
 const mutableEnv = env as unknown as Record<string, string | undefined>;
 const originalAllowedOrigins = mutableEnv.CORS_ALLOWED_ORIGINS;
 
-function requestFrom(origin = ALLOWED_ORIGIN): Request {
+function requestFrom(origin = ALLOWED_ORIGIN, headers: Record<string, string> = {}): Request {
   return new Request('https://wos-plus.test/api/example', {
-    headers: { origin },
+    headers: { origin, ...headers },
   });
 }
 
@@ -51,4 +51,53 @@ describe('jsonResponse', () => {
     expect(response.headers.has('access-control-allow-origin')).toBe(false);
     expect(response.headers.get('vary')).toBe('Origin');
   });
+
+  it('adds extra headers without letting them change the content type', () => {
+    const response = jsonResponse([], requestFrom(), ['GET'], 200, {
+      ETag: '"en-1-0"',
+      'Content-Type': 'text/plain',
+    });
+
+    expect(response.headers.get('etag')).toBe('"en-1-0"');
+    expect(response.headers.get('content-type')).toBe('application/json');
+  });
+});
+
+describe('notModifiedResponse', () => {
+  beforeEach(() => {
+    mutableEnv.CORS_ALLOWED_ORIGINS = ALLOWED_ORIGIN;
+  });
+
+  afterEach(() => {
+    mutableEnv.CORS_ALLOWED_ORIGINS = originalAllowedOrigins;
+  });
+
+  it('answers 304 with no body, the shared CORS policy and the given headers', async () => {
+    const response = notModifiedResponse(requestFrom(), ['GET', 'OPTIONS'], { ETag: '"en-1-0"' });
+
+    expect(response.status).toBe(304);
+    expect(await response.text()).toBe('');
+    expect(response.headers.get('access-control-allow-origin')).toBe(ALLOWED_ORIGIN);
+    expect(response.headers.get('etag')).toBe('"en-1-0"');
+  });
+});
+
+describe('matchesIfNoneMatch', () => {
+  const matches = (ifNoneMatch: string | undefined, etag = '"en-1-0"') =>
+    matchesIfNoneMatch(requestFrom(ALLOWED_ORIGIN, ifNoneMatch === undefined ? {} : { 'if-none-match': ifNoneMatch }), etag);
+
+  it('matches the same tag, weak or strong', () => {
+    expect(matches('"en-1-0"')).toBe(true);
+    expect(matches('W/"en-1-0"')).toBe(true);
+  });
+
+  it('matches any tag in a list, and a wildcard', () => {
+    expect(matches('"pt-4-2", "en-1-0"')).toBe(true);
+    expect(matches('*')).toBe(true);
+  });
+
+  it('does not match another tag or a missing header', () => {
+    expect(matches('"en-2-0"')).toBe(false);
+    expect(matches(undefined)).toBe(false);
+  });
 });
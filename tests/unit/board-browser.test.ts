@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { initBoardBrowser, renderBoardCard } from '@scripts/board-browser';
+import type { Board } from '@scripts/db-service';
+import { mockFetchResponse } from '../test-utils';
+
+/**
+ * Unit tests for the /boards page: drawing a board as its slot grid, and the
+ * filter form driving GET /api/boards.
+ */
+
+const CAUTION: Board = {
+  id: 'CAUTION',
+  created_at: '2025-01-01T18:04:11.532Z',
+  twitch_channel: 'clarkio',
+  language_code: 'en',
+  slots: [
+    { letters: ['c', 'o', 'a', 't'], word: 'coat', user: 'clarkio', hitMax: false },
+    { letters: ['c', 'a', 'u', 't', 'i', 'o', 'n'], word: 'caution', user: 'biocow', hitMax: true },
+  ],
+};
+
+const PAGE_HTML = `
+  <form id="board-filters">
+    <input name="prefix" />
+    <input name="letters" />
+    <input name="slots" />
+    <select name="language"><option value=""></option><option value="pt"></option></select>
+    <input name="channel" />
+    <input name="from" />
+    <input name="to" />
+  </form>
+  <p id="boards-status"></p>
+  <div id="boards-list"></div>
+  <button id="boards-prev"></button>
+  <button id="boards-next"></button>
+`;
+
+/** Lets the page's pending fetch and render finish. */
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('renderBoardCard', () => {
+  it('draws each slot as a row of tiles and marks the big word', () => {
+    const card = renderBoardCard(CAUTION);
+
+    const rows = Array.from(card.querySelectorAll('.board-slot'));
+    expect(rows.map((row) => row.textContent)).toEqual(['COAT', 'CAUTION']);
+    expect(rows[1].classList.contains('board-slot--big')).toBe(true);
+    expect(rows[0].getAttribute('title')).toBe('Found by clarkio');
+    expect(card.querySelector('.board-card__meta')?.textContent).toBe('en · clarkio · 2 slots · 2025-01-01');
+  });
+});
+
+describe('initBoardBrowser', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    document.body.innerHTML = PAGE_HTML;
+    window.history.replaceState(null, '', '/boards');
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('loads the first page of boards', async () => {
+    global.fetch = vi.fn(() => mockFetchResponse({ boards: [CAUTION], limit: 24, next: null }));
+
+    initBoardBrowser();
+    await settle();
+
+    expect(global.fetch).toHaveBeenCalledWith('/api/boards');
+    expect(document.querySelectorAll('#boards-list .board-card')).toHaveLength(1);
+    expect(document.getElementById('boards-status')?.textContent).toBe('Showing boards 1–1');
+    expect((document.getElementById('boards-prev') as HTMLButtonElement).disabled).toBe(true);
+    expect((document.getElementById('boards-next') as HTMLButtonElement).disabled).toBe(true);
+  });
+
+  it('steps through pages with the cursors the archive hands out', async () => {
+    global.fetch = vi.fn(() => mockFetchResponse({ boards: [CAUTION], limit: 1, next: 'c2' }));
+    initBoardBrowser();
+    await settle();
+
+    (document.getElementById('boards-next') as HTMLButtonElement).click();
+    await settle();
+
+    expect(global.fetch).toHaveBeenLastCalledWith('/api/boards?cursor=c2');
+    expect(document.getElementById('boards-status')?.textContent).toBe('Showing boards 2–2');
+    // The cursor stays out of the address bar.
+    expect(window.location.search).toBe('');
+
+    (document.getElementById('boards-prev') as HTMLButtonElement).click();
+    await settle();
+
+    expect(global.fetch).toHaveBeenLastCalledWith('/api/boards');
+    expect((document.getElementById('boards-prev') as HTMLButtonElement).disabled).toBe(true);
+  });
+
+  it('searches with the filters filled in and keeps them in the address bar', async () => {
+    global.fetch = vi.fn(() => mockFetchResponse({ boards: [], limit: 24, next: null }));
+    initBoardBrowser();
+    await settle();
+
+    const form = document.getElementById('board-filters') as HTMLFormElement;
+    (form.elements.namedItem('letters') as HTMLInputElement).value = ' tno ';
+    (form.elements.namedItem('language') as HTMLSelectElement).value = 'pt';
+    form.dispatchEvent(new Event('submit', { cancelable: true }));
+    await settle();
+
+    expect(global.fetch).toHaveBeenLastCalledWith('/api/boards?letters=tno&language=pt');
+    expect(window.location.search).toBe('?letters=tno&language=pt');
+    expect(document.getElementById('boards-status')?.textContent).toBe('No captured boards match these filters.');
+  });
+
+  it('starts from the filters in the address bar, on the newest boards', async () => {
+    window.history.replaceState(null, '', '/boards?channel=clarkio&cursor=c2');
+    global.fetch = vi.fn(() => mockFetchResponse({ boards: [CAUTION], limit: 1, next: 'c3' }));
+
+    initBoardBrowser();
+    await settle();
+
+    expect(global.fetch).toHaveBeenCalledWith('/api/boards?channel=clarkio');
+    expect((document.querySelector('[name="channel"]') as HTMLInputElement).value).toBe('clarkio');
+    expect((document.getElementById('boards-next') as HTMLButtonElement).disabled).toBe(false);
+  });
+
+  it('shows why the archive refused a search', async () => {
+    global.fetch = vi.fn(() => mockFetchResponse({ error: 'Invalid slot count', message: 'slots must be a whole number from 1 to 100.', code: 'INVALID_SLOT_COUNT' }, false, 400));
+
+    initBoardBrowser();
+    await settle();
+
+    expect(document.getElementById('boards-status')?.textContent).toBe('slots must be a whole number from 1 to 100.');
+  });
+});
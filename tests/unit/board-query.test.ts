@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import {
+  afterCursorFilter,
+  containsLettersPatterns,
+  decodeBoardCursor,
+  DEFAULT_BOARD_PAGE_SIZE,
+  encodeBoardCursor,
+  parseBoardListQuery,
+} from '@/lib/board-query';
+
+/**
+ * Unit tests for reading the archive listing's query string. What the route
+ * sends the archive for each filter is covered in
+ * tests/acceptance/boards.acceptance.test.ts § Browsing the archive.
+ */
+
+const parse = (query: string) => parseBoardListQuery(new URLSearchParams(query));
+
+describe('parseBoardListQuery', () => {
+  it('defaults to the first page and no filters', () => {
+    expect(parse('')).toEqual({ query: { limit: DEFAULT_BOARD_PAGE_SIZE } });
+  });
+
+  it('tidies names and letters the way board ids are stored', () => {
+    expect(parse('prefix=cau%20t&letters=Ont')).toMatchObject({
+      query: { prefix: 'CAUT', letters: 'NOT' },
+    });
+  });
+
+  it('accepts accented names and letters on a Portuguese or French board', () => {
+    expect(parse('language=pt&prefix=cora%C3%A7&letters=%C3%A3o')).toMatchObject({
+      query: { language: 'pt', prefix: 'CORAÇ', letters: 'OÃ' },
+    });
+    expect(parse('language=fr&prefix=%C3%A9t%C3%A9')).toMatchObject({
+      query: { language: 'fr', prefix: 'ÉTÉ' },
+    });
+  });
+
+  it('composes an accent typed as a combining mark', () => {
+    expect(parse('language=fr&prefix=e%CC%81te%CC%81')).toMatchObject({
+      query: { prefix: 'ÉTÉ' },
+    });
+  });
+
+  it.each([
+    ['prefix=cora%C3%A7', 'INVALID_PREFIX'],
+    ['letters=%C3%A3o', 'INVALID_LETTERS'],
+    ['language=pt&prefix=c4', 'INVALID_PREFIX'],
+    ['language=fr&letters=%C3%A9-', 'INVALID_LETTERS'],
+  ])('refuses %s, which is not spelled in the board\'s language', (query, code) => {
+    expect(parse(query)).toMatchObject({ error: { code } });
+  });
+
+  it('treats an empty parameter as absent', () => {
+    expect(parse('prefix=&slots=&language=&cursor=')).toEqual({ query: { limit: DEFAULT_BOARD_PAGE_SIZE } });
+  });
+
+  it('reads a bare date as a whole day', () => {
+    expect(parse('from=2025-01-01&to=2025-01-01')).toMatchObject({
+      query: {
+        createdFrom: '2025-01-01T00:00:00.000Z',
+        createdBefore: '2025-01-02T00:00:00.000Z',
+      },
+    });
+  });
+
+  it('keeps a timestamp end bound inclusive', () => {
+    expect(parse('to=2025-01-01T12:00:00Z')).toMatchObject({
+      query: { createdBefore: '2025-01-01T12:00:00.001Z' },
+    });
+  });
+
+  it('always selects the fields the cursor is made from', () => {
+    expect(parse('fields=slots,id')).toMatchObject({
+      query: { fields: ['id', 'created_at', 'slots'] },
+    });
+  });
+
+  it('names the fields it does not know', () => {
+    expect(parse('fields=id,owner')).toMatchObject({
+      error: { code: 'INVALID_FIELDS', message: expect.stringContaining('not owner') },
+    });
+  });
+
+  it('reads back a cursor it handed out', () => {
+    const cursor = encodeBoardCursor({ created_at: '2025-01-02T10:00:00.123456+00:00', id: 'TRILBY' });
+
+    expect(parse(`cursor=${cursor}`)).toMatchObject({
+      query: { cursor: { createdAt: '2025-01-02T10:00:00.123456+00:00', id: 'TRILBY' } },
+    });
+  });
+
+  it.each([
+    ['slots=2.5', 'INVALID_SLOT_COUNT'],
+    ['slots=-1', 'INVALID_SLOT_COUNT'],
+    ['limit=0', 'INVALID_LIMIT'],
+    ['cursor=two', 'INVALID_CURSOR'],
+    ['fields=,', 'INVALID_FIELDS'],
+    ['since=soon', 'INVALID_DATE'],
+    ['to=2025-13-45', 'INVALID_DATE'],
+    ['from=2025-01-02&to=2025-01-01', 'INVALID_DATE_RANGE'],
+  ])('refuses %s', (query, code) => {
+    expect(parse(query)).toMatchObject({ error: { code } });
+  });
+});
+
+describe('containsLettersPatterns', () => {
+  it('needs a letter once per time it is given', () => {
+    expect(containsLettersPatterns('NOOT')).toEqual(['%N%', '%O%O%', '%T%']);
+  });
+});
+
+describe('decodeBoardCursor', () => {
+  it.each([
+    ['not base64', '%%%'],
+    ['not JSON', btoa('page 2')],
+    ['the wrong shape', btoa(JSON.stringify({ id: 'TRILBY' }))],
+    ['a time that is not a time', btoa(JSON.stringify(['yesterday', 'TRILBY']))],
+    ['no board id', btoa(JSON.stringify(['2025-01-02T10:00:00Z', '']))],
+  ])('refuses a cursor that is %s', (_label, value) => {
+    expect(decodeBoardCursor(value)).toBeNull();
+  });
+});
+
+describe('afterCursorFilter', () => {
+  it('quotes values PostgREST would otherwise read as syntax', () => {
+    expect(afterCursorFilter({ createdAt: '2025-01-02T10:00:00+00:00', id: 'A"B' })).toBe(
+      'created_at.lt."2025-01-02T10:00:00+00:00",and(created_at.eq."2025-01-02T10:00:00+00:00",id.gt."A\\"B")',
+    );
+  });
+});
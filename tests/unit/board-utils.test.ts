@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { coerceSlots, findInvalidWords, findRedundantWords, hasInvalidWords, hasRedundantWords, isWellFormedSlot, normalizeLanguageCode, normalizeTwitchChannel, validateBoardName, wosLanguageIdToCode } from '@/lib/board-utils';
+import { addContributingChannel, addWordObservations, coerceSlots, findDisagreeingWords, findInvalidWords, findRedundantWords, hasInvalidWords, hasRedundantWords, isWellFormedSlot, normalizeLanguageCode, normalizeTwitchChannel, validateBoardName, wosLanguageIdToCode } from '@/lib/board-utils';
 
 /**
  * Unit tests for board-utils.ts module (issue #119)
@@ -131,6 +131,15 @@ describe('board-utils module', () => {
       expect(findInvalidWords(slots, 'caution')).toEqual([]);
     });
 
+    it('should match accented letters the way the board\'s language does', () => {
+      // A Portuguese board spells ACAO and AÇÃO with the same tiles.
+      const slots = [{ word: 'ação' }, { word: 'acao' }, { word: 'AÇOR' }];
+      expect(findInvalidWords(slots, 'CORAÇÃO', 'pt')).toEqual([]);
+      // On an English board Ç and Ã are letters of their own, so ACAO would
+      // need a C and an A the big word does not have.
+      expect(findInvalidWords([{ word: 'acao' }], 'CORAÇÃO')).toEqual(['acao']);
+    });
+
     it('should ignore slots without a usable word', () => {
       const slots = [{ word: '' }, {}, null, { word: 123 }, { word: 'ACT' }];
       expect(findInvalidWords(slots, 'CAUTION')).toEqual([]);
@@ -187,6 +196,71 @@ describe('board-utils module', () => {
     });
   });
 
+  describe('findDisagreeingWords', () => {
+    it('should return empty array when both copies have the same words', () => {
+      expect(findDisagreeingWords(
+        [{ word: 'act' }, { word: 'caution' }],
+        [{ word: 'ACT' }, { word: 'caution' }],
+      )).toEqual([]);
+    });
+
+    it('should return the words on only one of the copies', () => {
+      expect(findDisagreeingWords(
+        [{ word: 'act' }, { word: 'coat' }, { word: 'caution' }],
+        [{ word: 'act' }, { word: 'tonic' }, { word: 'caution' }],
+      )).toEqual(['coat', 'tonic']);
+    });
+
+    it('should read stored slots kept as a JSON string', () => {
+      expect(findDisagreeingWords('[{"word":"act"},{"word":"caution"}]', [{ word: 'act' }, { word: 'caution' }])).toEqual([]);
+    });
+
+    it('should report the repeated word when one copy has an extra slot for it', () => {
+      expect(findDisagreeingWords(
+        [{ word: 'action' }, { word: 'action' }, { word: 'caution' }],
+        [{ word: 'action' }, { word: 'caution' }],
+      )).toEqual(['action']);
+    });
+
+    it('should disagree with every word when the stored slots cannot be read', () => {
+      expect(findDisagreeingWords('not json', [{ word: 'act' }, { word: 'caution' }])).toEqual(['act', 'caution']);
+    });
+  });
+
+  describe('addWordObservations', () => {
+    it('should count each word once for a fresh capture', () => {
+      expect(addWordObservations(null, [{ word: 'Act' }, { word: 'caution' }])).toEqual({ act: 1, caution: 1 });
+    });
+
+    it('should add to the stored counts', () => {
+      expect(addWordObservations({ act: 2, caution: 2 }, [{ word: 'act' }, { word: 'caution' }])).toEqual({ act: 3, caution: 3 });
+    });
+
+    it('should keep counts for words this capture does not have', () => {
+      expect(addWordObservations({ coat: 1 }, [{ word: 'act' }])).toEqual({ coat: 1, act: 1 });
+    });
+
+    it('should drop stored counts that are not whole, non-negative numbers', () => {
+      expect(addWordObservations({ act: 'many', coat: -1, tonic: 1.5 }, [{ word: 'act' }])).toEqual({ act: 1 });
+      expect(addWordObservations(['act'], [{ word: 'act' }])).toEqual({ act: 1 });
+    });
+  });
+
+  describe('addContributingChannel', () => {
+    it('should add a new channel to the list', () => {
+      expect(addContributingChannel(['clarkio'], 'biocow')).toEqual(['clarkio', 'biocow']);
+    });
+
+    it('should leave the list alone for a channel already on it, or none', () => {
+      expect(addContributingChannel(['clarkio'], 'clarkio')).toEqual(['clarkio']);
+      expect(addContributingChannel(['clarkio'], null)).toEqual(['clarkio']);
+    });
+
+    it('should start a list for a board that has none', () => {
+      expect(addContributingChannel(null, 'clarkio')).toEqual(['clarkio']);
+    });
+  });
+
   describe('normalizeTwitchChannel', () => {
     it('should lowercase and trim a valid channel name', () => {
       expect(normalizeTwitchChannel('  Clarkio ')).toBe('clarkio');
@@ -302,6 +376,31 @@ describe('board-utils module', () => {
       });
     });
 
+    it('should accept accented letters on a Portuguese or French board', () => {
+      expect(validateBoardName('coração', 'pt')).toEqual({ cleanId: 'CORAÇÃO' });
+      expect(validateBoardName('É L È V E', 'fr')).toEqual({ cleanId: 'ÉLÈVE' });
+    });
+
+    it('should count a decomposed accent as part of its letter', () => {
+      // C + combining cedilla is one letter, as Ç is.
+      expect(validateBoardName('CAC\u0327A', 'pt')).toEqual({ cleanId: 'CAÇA' });
+    });
+
+    it('should reject accented letters on an English board', () => {
+      expect(validateBoardName('CAFÉS')).toEqual({
+        error: 'Invalid board ID format. Only letters are allowed.',
+      });
+    });
+
+    it('should reject letters no WoS language plays with, whatever the language', () => {
+      expect(validateBoardName('ŒUVRES', 'fr')).toEqual({
+        error: 'Invalid board ID format. Only letters are allowed.',
+      });
+      expect(validateBoardName('CAUT10N', 'pt')).toEqual({
+        error: 'Invalid board ID format. Only letters are allowed.',
+      });
+    });
+
     it('should reject a missing or non-string name', () => {
       expect(validateBoardName(undefined)).toEqual({ error: 'Board ID is required' });
       expect(validateBoardName('')).toEqual({ error: 'Board ID is required' });
@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  historyRange,
+  initChannelDashboard,
+  renderContributors,
+  renderDailyBestChart,
+  summarizeHistory,
+  weeklyProgress,
+} from '@scripts/channel-dashboard';
+import type { ChannelDay } from '@scripts/db-service';
+import { mockFetchResponse } from '../test-utils';
+
+/**
+ * Unit tests for the /stats/[channel] page: summing a channel's daily history
+ * into clear rates and weeks, drawing it, and the page reading its routes.
+ */
+
+/** Consecutive days from 2026-10-01, one per [dailyBest, dailyClears] pair. */
+function daysOf(values: Array<[number, number]>): ChannelDay[] {
+  return values.map(([dailyBest, dailyClears], index) => ({
+    date: `2026-10-${String(index + 1).padStart(2, '0')}`,
+    dailyBest,
+    dailyClears,
+  }));
+}
+
+const PAGE_HTML = `
+  <main id="channel-dashboard" data-channel="clarkio">
+    <span id="stats-all-time"></span>
+    <span id="stats-clear-rate"></span>
+    <span id="stats-days-played"></span>
+    <span id="stats-boards"></span>
+    <select id="stats-range">
+      <option value="28">4 weeks</option>
+      <option value="84">12 weeks</option>
+    </select>
+    <p id="stats-history-status"></p>
+    <div id="stats-history"></div>
+    <div id="stats-weeks"></div>
+    <p id="stats-contributors-status"></p>
+    <div id="stats-contributors"></div>
+  </main>
+`;
+
+/** Lets the page's pending fetches and renders finish. */
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('summarizeHistory', () => {
+  it('counts clears a day over the days played only', () => {
+    const summary = summarizeHistory(daysOf([[30, 2], [0, 0], [34, 4], [0, 0]]));
+
+    expect(summary).toEqual({ daysPlayed: 2, totalClears: 6, clearsPerDay: 3, bestLevel: 34 });
+  });
+
+  it('counts a day with a level reached but nothing cleared as played', () => {
+    expect(summarizeHistory(daysOf([[12, 0], [20, 2]])).clearsPerDay).toBe(1);
+  });
+
+  it('answers zeros for a history with no days played', () => {
+    expect(summarizeHistory(daysOf([[0, 0], [0, 0]]))).toEqual({ daysPlayed: 0, totalClears: 0, clearsPerDay: 0, bestLevel: 0 });
+  });
+});
+
+describe('weeklyProgress', () => {
+  it('splits the days into weeks counted back from the last day, oldest first', () => {
+    const days = daysOf(Array.from({ length: 10 }, (_, index): [number, number] => [index + 1, 1]));
+
+    const weeks = weeklyProgress(days);
+
+    expect(weeks.map(({ from, to }) => [from, to])).toEqual([
+      ['2026-10-01', '2026-10-03'],
+      ['2026-10-04', '2026-10-10'],
+    ]);
+    expect(weeks[1]).toMatchObject({ daysPlayed: 7, totalClears: 7, bestLevel: 10 });
+  });
+
+  it('answers no weeks for no days', () => {
+    expect(weeklyProgress([])).toEqual([]);
+  });
+});
+
+describe('historyRange', () => {
+  it('ends today in UTC and includes both ends', () => {
+    expect(historyRange(28, Date.parse('2026-10-19T23:30:00-05:00'))).toEqual({ from: '2026-09-23', to: '2026-10-20' });
+    expect(historyRange(1, Date.parse('2026-10-19T12:00:00Z'))).toEqual({ from: '2026-10-19', to: '2026-10-19' });
+  });
+});
+
+describe('renderDailyBestChart', () => {
+  it('draws a bar per day scaled to the best day, marking days not played', () => {
+    const chart = renderDailyBestChart(daysOf([[20, 1], [0, 0], [40, 3]]));
+
+    const bars = Array.from(chart.querySelectorAll<HTMLElement>('.stats-chart__bar'));
+    expect(bars.map((bar) => bar.style.getPropertyValue('--bar-height'))).toEqual(['50%', '0%', '100%']);
+    expect(bars[1].classList.contains('stats-chart__bar--idle')).toBe(true);
+    expect(bars[2].title).toBe('2026-10-03: level 40, 3 clears');
+  });
+});
+
+describe('renderContributors', () => {
+  it('lists each player with their four numbers', () => {
+    const list = renderContributors([
+      { player: 'biocow', wordsFound: 40, bigWordsHit: 6, hiddenWordsGuessed: 3, levelsPlayed: 12 },
+    ]);
+
+    expect(list.querySelector('.stats-contributor__name')?.textContent).toBe('biocow');
+    expect(list.querySelector('.stats-contributor__detail')?.textContent).toBe('40 words · 6 big · 3 hidden · 12 levels');
+  });
+});
+
+describe('initChannelDashboard', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    document.body.innerHTML = PAGE_HTML;
+    vi.spyOn(console, 'error').mockImplementation(() => { });
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    vi.restoreAllMocks();
+  });
+
+  function routeFetch(history: unknown, players: unknown = [{ player: 'biocow', wordsFound: 40, bigWordsHit: 6, hiddenWordsGuessed: 3, levelsPlayed: 12 }]) {
+    global.fetch = vi.fn((url: string) => {
+      if (url.startsWith('/api/channel-stats/clarkio/history')) return mockFetchResponse(history);
+      if (url === '/api/channel-stats/clarkio/boards') return mockFetchResponse({ boardsCaptured: 12, lastCapturedAt: null });
+      if (url.startsWith('/api/player-stats/clarkio')) return mockFetchResponse({ players });
+      return mockFetchResponse({ allTimePersonalBest: 42, dailyBest: 30, dailyClears: 3, chatbotEnabled: true });
+    }) as unknown as typeof fetch;
+  }
+
+  it("reads the channel's routes and fills the page", async () => {
+    routeFetch({ from: '2026-10-01', to: '2026-10-02', chatbotEnabled: true, days: daysOf([[30, 2], [34, 4]]) });
+
+    initChannelDashboard();
+    await settle();
+
+    expect(document.getElementById('stats-all-time')?.textContent).toBe('42');
+    expect(document.getElementById('stats-boards')?.textContent).toBe('12');
+    expect(document.getElementById('stats-clear-rate')?.textContent).toBe('3.0');
+    expect(document.getElementById('stats-days-played')?.textContent).toBe('2');
+    expect(document.querySelectorAll('.stats-chart__bar')).toHaveLength(2);
+    expect(document.querySelectorAll('.stats-weeks tbody tr')).toHaveLength(1);
+    expect(document.querySelector('.stats-contributor__name')?.textContent).toBe('biocow');
+    expect(global.fetch).toHaveBeenCalledWith('/api/player-stats/clarkio?limit=10');
+  });
+
+  it('asks for the range the streamer picks', async () => {
+    routeFetch({ from: '2026-07-29', to: '2026-10-20', chatbotEnabled: true, days: [] });
+    initChannelDashboard();
+    await settle();
+
+    const range = document.getElementById('stats-range') as HTMLSelectElement;
+    range.value = '84';
+    range.dispatchEvent(new Event('change'));
+    await settle();
+
+    const { from, to } = historyRange(84);
+    expect(global.fetch).toHaveBeenCalledWith(`/api/channel-stats/clarkio/history?from=${from}&to=${to}`);
+  });
+
+  it('explains an empty history for a channel without the chatbot instead of charting it', async () => {
+    routeFetch({ from: '2026-10-01', to: '2026-10-02', chatbotEnabled: false, days: daysOf([[0, 0], [0, 0]]) }, []);
+
+    initChannelDashboard();
+    await settle();
+
+    expect(document.getElementById('stats-history-status')?.textContent).toContain('chatbot');
+    expect(document.querySelector('.stats-chart')).toBeNull();
+    expect(document.getElementById('stats-contributors-status')?.textContent).toBe('No one has found a word here yet.');
+  });
+
+  it('says so when the history cannot be read', async () => {
+    routeFetch(null);
+    global.fetch = vi.fn((url: string) => url.includes('/history')
+      ? mockFetchResponse({ error: 'Failed to read channel history' }, false, 500)
+      : mockFetchResponse({ players: [] })) as unknown as typeof fetch;
+
+    initChannelDashboard();
+    await settle();
+
+    expect(document.getElementById('stats-history-status')?.textContent).toBe('The history could not be read.');
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
-import { fetchBoard, fetchChannelStats, saveBoard, type Slot } from '@scripts/db-service';
+import { authorizeBoardWrites, fetchBoard, fetchBoardByLetters, fetchBoardPage, fetchChannelBoardCount, fetchChannelHistory, fetchChannelStats, fetchLeaderboardOptIn, fetchTopContributors, recordPlayerLevel, saveBoard, setLeaderboardOptIn, type Slot } from '@scripts/db-service';
 import { mockFetchResponse } from '../test-utils';
 
 /**
@@ -60,6 +60,138 @@ describe('db-service module', () => {
     });
   });
 
+  describe('fetchChannelHistory', () => {
+    const history = { from: '2026-10-01', to: '2026-10-01', chatbotEnabled: true, days: [{ date: '2026-10-01', dailyBest: 30, dailyClears: 2 }] };
+
+    it('asks for the range given, for the normalized channel', async () => {
+      global.fetch = vi.fn(() => mockFetchResponse(history));
+
+      const result = await fetchChannelHistory('#ClarkIO', { from: '2026-10-01', to: '2026-10-01' });
+
+      expect(global.fetch).toHaveBeenCalledWith('/api/channel-stats/clarkio/history?from=2026-10-01&to=2026-10-01');
+      expect(result).toEqual(history);
+    });
+
+    it('leaves the range to the route when none is given', async () => {
+      global.fetch = vi.fn(() => mockFetchResponse(history));
+
+      await fetchChannelHistory('clarkio');
+
+      expect(global.fetch).toHaveBeenCalledWith('/api/channel-stats/clarkio/history');
+    });
+
+    it('answers null when the route refuses the range', async () => {
+      global.fetch = vi.fn(() => mockFetchResponse({ error: 'Invalid date range' }, false, 400));
+
+      expect(await fetchChannelHistory('clarkio', { from: '2026-10-02', to: '2026-10-01' })).toBeNull();
+    });
+
+    it('rejects an invalid channel without making a request', async () => {
+      global.fetch = vi.fn();
+
+      expect(await fetchChannelHistory('bad channel!')).toBeNull();
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('fetchChannelBoardCount', () => {
+    it("reads the normalized channel's count", async () => {
+      global.fetch = vi.fn(() => mockFetchResponse({ channel: 'clarkio', boardsCaptured: 12, lastCapturedAt: null }));
+
+      const result = await fetchChannelBoardCount('  ClarkIO ');
+
+      expect(global.fetch).toHaveBeenCalledWith('/api/channel-stats/clarkio/boards');
+      expect(result).toMatchObject({ boardsCaptured: 12, lastCapturedAt: null });
+    });
+
+    it('answers null when the count cannot be reached', async () => {
+      global.fetch = vi.fn(() => Promise.reject(new Error('offline')));
+
+      expect(await fetchChannelBoardCount('clarkio')).toBeNull();
+      expect(consoleErrorSpy).toHaveBeenCalledWith('Error fetching channel boards:', expect.any(Error));
+    });
+  });
+
+  describe('fetchLeaderboardOptIn', () => {
+    it('asks about the normalized channel and answers whether it is on the leaderboard', async () => {
+      global.fetch = vi.fn(() => mockFetchResponse({ channel: 'clarkio', optedIn: true, joinedAt: '2026-10-01T12:00:00+00:00' }));
+
+      expect(await fetchLeaderboardOptIn('#ClarkIO')).toBe(true);
+      expect(global.fetch).toHaveBeenCalledWith('/api/leaderboard/clarkio');
+    });
+
+    it('answers null when it cannot be read', async () => {
+      global.fetch = vi.fn(() => mockFetchResponse({ error: 'nope' }, false, 500));
+
+      expect(await fetchLeaderboardOptIn('clarkio')).toBeNull();
+    });
+  });
+
+  describe('fetchTopContributors', () => {
+    const players = [{ player: 'biocow', wordsFound: 40, bigWordsHit: 6, hiddenWordsGuessed: 3, levelsPlayed: 12 }];
+
+    it('asks for as many players as given and answers the list', async () => {
+      global.fetch = vi.fn(() => mockFetchResponse({ channel: 'clarkio', players }));
+
+      const result = await fetchTopContributors('#clarkio', 5);
+
+      expect(global.fetch).toHaveBeenCalledWith('/api/player-stats/clarkio?limit=5');
+      expect(result).toEqual(players);
+    });
+
+    it('answers null when the players cannot be read', async () => {
+      global.fetch = vi.fn(() => mockFetchResponse({ error: 'Failed to read player stats' }, false, 500));
+
+      expect(await fetchTopContributors('clarkio')).toBeNull();
+    });
+
+    it('rejects an invalid channel without making a request', async () => {
+      global.fetch = vi.fn();
+
+      expect(await fetchTopContributors('bad channel!')).toBeNull();
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('recordPlayerLevel', () => {
+    const stats = { wordsFound: 3, bigWordsHit: 1, hiddenWordsGuessed: 0 };
+
+    it('posts the level report under the normalized channel and player', async () => {
+      global.fetch = vi.fn(() => mockFetchResponse({ recorded: true }));
+
+      await recordPlayerLevel('#ClarkIO', 'BioCow', 'room:12:4-5-6-7', stats);
+
+      expect(global.fetch).toHaveBeenCalledWith('/api/player-stats/clarkio/biocow', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ levelKey: 'room:12:4-5-6-7', ...stats }),
+      });
+    });
+
+    it('rejects an invalid player without making a request', async () => {
+      global.fetch = vi.fn();
+
+      await recordPlayerLevel('clarkio', 'bio cow', 'room:12:4-5-6-7', stats);
+
+      expect(global.fetch).not.toHaveBeenCalled();
+      expect(consoleWarnSpy).toHaveBeenCalled();
+    });
+
+    it('logs rather than throws when the report fails', async () => {
+      global.fetch = vi.fn(() => mockFetchResponse({ error: 'nope' }, false, 500));
+
+      await expect(recordPlayerLevel('clarkio', 'biocow', 'room:12:4-5-6-7', stats)).resolves.toBeUndefined();
+      expect(consoleErrorSpy).toHaveBeenCalled();
+    });
+
+    it('logs rather than throws when the network is down', async () => {
+      global.fetch = vi.fn(() => Promise.reject(new Error('offline')));
+
+      await expect(recordPlayerLevel('clarkio', 'biocow', 'room:12:4-5-6-7', stats)).resolves.toBeUndefined();
+      expect(consoleErrorSpy).toHaveBeenCalled();
+    });
+  });
+
   describe('saveBoard', () => {
     const validSlots: Slot[] = [
       {
@@ -578,7 +710,7 @@ describe('db-service module', () => {
         expect(result).toEqual(updatedBoard);
       });
 
-      it('should not update the existing board when the stored slots column is a clean JSON string', async () => {
+      it('should merge into the existing board rather than repair it when the stored slots column is a clean JSON string', async () => {
         const cleanTestSlots: Slot[] = [
           validSlots[0],
           { letters: ['s', 'e', 't'], user: 'anotheruser', hitMax: true, word: 'set' },
@@ -591,15 +723,14 @@ describe('db-service module', () => {
 
         global.fetch = vi.fn(() => mockFetchResponse(storedCleanBoard));
 
-        const result = await saveBoard('TEST', validSlots);
+        await saveBoard('TEST', validSlots);
 
-        expect(result).toEqual(
-          expect.objectContaining({ code: 'BOARD_EXISTS' })
-        );
-        expect(global.fetch).toHaveBeenCalledTimes(1);
+        expect(global.fetch).toHaveBeenCalledTimes(2);
+        expect(global.fetch).not.toHaveBeenCalledWith('/api/boards/TEST', expect.objectContaining({ method: 'PUT' }));
+        expect(global.fetch).toHaveBeenNthCalledWith(2, '/api/boards?merge=true', expect.objectContaining({ method: 'POST' }));
       });
 
-      it('should not update the existing board when the stored version is clean', async () => {
+      it('should merge into the existing board rather than repair it when the stored version is clean', async () => {
         const cleanTestSlots: Slot[] = [
           validSlots[0],
           { letters: ['s', 'e', 't'], user: 'anotheruser', hitMax: true, word: 'set' },
@@ -612,14 +743,11 @@ describe('db-service module', () => {
 
         global.fetch = vi.fn(() => mockFetchResponse(storedCleanBoard));
 
-        const result = await saveBoard('TEST', validSlots);
+        await saveBoard('TEST', validSlots);
 
-        expect(result).toEqual({
-          error: 'Board already exists',
-          message: 'Board TEST has already been saved.',
-          code: 'BOARD_EXISTS',
-        });
-        expect(global.fetch).toHaveBeenCalledTimes(1);
+        expect(global.fetch).toHaveBeenCalledTimes(2);
+        expect(global.fetch).not.toHaveBeenCalledWith('/api/boards/TEST', expect.objectContaining({ method: 'PUT' }));
+        expect(global.fetch).toHaveBeenNthCalledWith(2, '/api/boards?merge=true', expect.objectContaining({ method: 'POST' }));
       });
 
       it('should handle self-healing update failures gracefully', async () => {
@@ -653,6 +781,121 @@ describe('db-service module', () => {
       });
     });
 
+    describe('merging a capture of an archived board', () => {
+      // Both words can be spelled from TESTWORD, so the stored copy is sound.
+      const storedBoard = {
+        id: 'TESTWORD',
+        slots: validSlots,
+        created_at: '2024-01-01T00:00:00Z',
+        language_code: 'en',
+      };
+
+      it('should send the capture to be merged with the stored copy', async () => {
+        const mergedBoard = [{ ...storedBoard, word_observations: { test: 2, word: 2 } }];
+        global.fetch = vi.fn()
+          .mockImplementationOnce(() => mockFetchResponse(storedBoard))
+          .mockImplementationOnce(() => mockFetchResponse(mergedBoard));
+
+        const result = await saveBoard('testword', validSlots, '#ClarkIO', 'en');
+
+        expect(result).toEqual(mergedBoard);
+        expect(global.fetch).toHaveBeenNthCalledWith(2, '/api/boards?merge=true', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ id: 'TESTWORD', slots: validSlots, language_code: 'en', twitch_channel: 'clarkio' }),
+        });
+      });
+
+      it('should merge in the stored language when the capture has none', async () => {
+        global.fetch = vi.fn()
+          .mockImplementationOnce(() => mockFetchResponse({ ...storedBoard, language_code: 'fr' }))
+          .mockImplementationOnce(() => mockFetchResponse([storedBoard]));
+
+        await saveBoard('TESTWORD', validSlots);
+
+        const [, init] = (global.fetch as ReturnType<typeof vi.fn>).mock.calls[1];
+        expect(JSON.parse(init.body)).toMatchObject({ language_code: 'fr' });
+      });
+
+      it('should report the server refusing the merge without treating it as an error', async () => {
+        const refusal = {
+          error: 'Board slots disagree',
+          message: 'Board TESTWORD was not merged: these words are not on both copies: word.',
+          code: 'SLOTS_DISAGREE',
+        };
+        global.fetch = vi.fn()
+          .mockImplementationOnce(() => mockFetchResponse(storedBoard))
+          .mockImplementationOnce(() => Promise.resolve({
+            ok: false,
+            status: 409,
+            json: () => Promise.resolve(refusal),
+          } as Response));
+
+        const result = await saveBoard('TESTWORD', validSlots, undefined, 'en');
+
+        expect(result).toEqual(refusal);
+        expect(consoleWarnSpy).toHaveBeenCalledWith(refusal.message);
+        expect(consoleErrorSpy).not.toHaveBeenCalled();
+      });
+
+      it('should handle merge failures gracefully', async () => {
+        global.fetch = vi.fn()
+          .mockImplementationOnce(() => mockFetchResponse(storedBoard))
+          .mockImplementationOnce(() => Promise.resolve({
+            ok: false,
+            status: 500,
+            statusText: 'Internal Server Error',
+            json: () => Promise.resolve({ error: 'Merge failed' }),
+          } as Response));
+
+        const result = await saveBoard('TESTWORD', validSlots, undefined, 'en');
+
+        expect(result).toBeUndefined();
+        expect(consoleErrorSpy).toHaveBeenCalledWith('Error merging board capture:', expect.any(Error));
+      });
+    });
+
+    describe('low-confidence words guard', () => {
+      const withConfidence = (confidence: Slot['confidence']): Slot[] => [
+        validSlots[0],
+        { ...validSlots[1], confidence },
+      ];
+
+      it.each(['ambiguous', 'fallback'] as const)('should refuse a board with a %s word without calling the API', async (confidence) => {
+        global.fetch = vi.fn();
+
+        const result = await saveBoard('TEST', withConfidence(confidence), undefined, 'en');
+
+        expect(result).toEqual({
+          error: 'Low-confidence words in board slots',
+          message: 'Cannot save board TEST: low-confidence words in slots: word.',
+          code: 'LOW_CONFIDENCE_WORDS',
+        });
+        expect(global.fetch).not.toHaveBeenCalled();
+        expect(consoleWarnSpy).toHaveBeenCalledWith('Cannot save board TEST: low-confidence words in slots: word.');
+      });
+
+      it('should save a board whose recovered words are all unique matches', async () => {
+        global.fetch = vi.fn()
+          .mockImplementationOnce(() =>
+            Promise.resolve({
+              ok: false,
+              status: 404,
+              statusText: 'Not Found',
+            } as Response)
+          )
+          .mockImplementationOnce(() => mockFetchResponse({ success: true, id: 'TEST' }));
+
+        const result = await saveBoard('TEST', withConfidence('unique'), undefined, 'en');
+
+        expect(result).toEqual({ success: true, id: 'TEST' });
+        expect(global.fetch).toHaveBeenNthCalledWith(2, '/api/boards', expect.objectContaining({ method: 'POST' }));
+        const requestBody = JSON.parse((global.fetch as any).mock.calls[1][1].body);
+        expect(requestBody.slots[1]).not.toHaveProperty('confidence');
+        expect(requestBody.slots).toEqual(validSlots);
+      });
+    });
+
     describe('twitch channel capture', () => {
       it('should include the normalized twitch channel in the POST body', async () => {
         global.fetch = vi.fn()
@@ -812,7 +1055,8 @@ describe('db-service module', () => {
         await saveBoard('TEST', validSlots, undefined, 'fr');
 
         const putCall = (global.fetch as any).mock.calls[1];
-        expect(putCall[0]).toBe('/api/boards/TEST');
+        // A French board's name may be accented, so the route is told its language.
+        expect(putCall[0]).toBe('/api/boards/TEST?lang=fr');
         expect(JSON.parse(putCall[1].body)).toEqual({
           slots: validSlots,
           language_code: 'fr',
@@ -1207,4 +1451,228 @@ describe('db-service module', () => {
       });
     });
   });
+
+  describe('fetchBoardByLetters', () => {
+    const board = { id: 'CAUTION', slots: [], created_at: '2024-01-01T00:00:00Z' };
+
+    it('looks the board up by the letters, in the order given', async () => {
+      global.fetch = vi.fn(() => mockFetchResponse(board));
+
+      const result = await fetchBoardByLetters(['t', 'o', 'n', 'i', 'c', 'a', 'u']);
+
+      expect(result).toEqual(board);
+      expect(global.fetch).toHaveBeenCalledWith('/api/boards/by-letters/TONICAU');
+    });
+
+    it('says which language the letters are in when it is not English', async () => {
+      global.fetch = vi.fn(() => mockFetchResponse(board));
+
+      await fetchBoardByLetters(['a', 'ç', 'ã', 'o'], 'pt');
+
+      expect(global.fetch).toHaveBeenCalledWith(`/api/boards/by-letters/${encodeURIComponent('AÇÃO')}?lang=pt`);
+    });
+
+    it('does not ask for letters that cannot spell a big word', async () => {
+      global.fetch = vi.fn();
+
+      expect(await fetchBoardByLetters(['c', 'a', '?', 't'])).toBeNull();
+      expect(await fetchBoardByLetters(['c', 'a', 't'])).toBeNull();
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('answers null when no board has those letters', async () => {
+      global.fetch = vi.fn(() => Promise.resolve({ ok: false, status: 404 } as Response));
+
+      expect(await fetchBoardByLetters(['z', 'z', 'z', 'z'])).toBeNull();
+    });
+
+    it('answers null when the lookup fails', async () => {
+      global.fetch = vi.fn(() => Promise.reject(new Error('Network error')));
+
+      expect(await fetchBoardByLetters(['c', 'a', 'u', 't', 'i', 'o', 'n'])).toBeNull();
+      expect(consoleErrorSpy).toHaveBeenCalledWith('Error fetching board by letters:', expect.any(Error));
+    });
+  });
+
+  describe('fetchBoardPage', () => {
+    const page = { boards: [], limit: 24, next: null };
+
+    it('should request the listing with the filters as its query string', async () => {
+      global.fetch = vi.fn(() => mockFetchResponse(page));
+
+      const result = await fetchBoardPage(new URLSearchParams({ letters: 'tno', cursor: 'WyIyMDI1Il0' }));
+
+      expect(global.fetch).toHaveBeenCalledWith('/api/boards?letters=tno&cursor=WyIyMDI1Il0');
+      expect(result).toEqual({ page });
+    });
+
+    it('should request the plain listing when there are no filters', async () => {
+      global.fetch = vi.fn(() => mockFetchResponse(page));
+
+      await fetchBoardPage(new URLSearchParams());
+
+      expect(global.fetch).toHaveBeenCalledWith('/api/boards');
+    });
+
+    it('should pass on the message the route refused the filters with', async () => {
+      global.fetch = vi.fn(() => mockFetchResponse(
+        { error: 'Invalid slot count', message: 'slots must be a whole number from 1 to 100.', code: 'INVALID_SLOT_COUNT' },
+        false,
+        400,
+      ));
+
+      const result = await fetchBoardPage(new URLSearchParams({ slots: '0' }));
+
+      expect(result).toEqual({ error: 'slots must be a whole number from 1 to 100.' });
+    });
+
+    it('should report an archive that cannot be reached', async () => {
+      global.fetch = vi.fn(() => Promise.reject(new Error('offline')));
+
+      const result = await fetchBoardPage(new URLSearchParams());
+
+      expect(result).toEqual({ error: 'The board archive could not be reached.' });
+      expect(consoleErrorSpy).toHaveBeenCalledWith('Error fetching boards:', expect.any(Error));
+    });
+  });
+
+  describe('authorizeBoardWrites', () => {
+    const slots: Slot[] = [
+      { letters: ['t', 'e', 's', 't'], user: 'testuser', hitMax: false, word: 'test' },
+      { letters: ['w', 'o', 'r', 'd'], user: 'anotheruser', hitMax: true, word: 'word' },
+    ];
+    const inAnHour = () => new Date(Date.now() + 60 * 60 * 1000).toISOString();
+    const notFound = () => Promise.resolve({ ok: false, status: 404, statusText: 'Not Found' } as Response);
+    // The Twitch sign-in a write token is asked for with.
+    const TWITCH_TOKEN = 'twitch-access-token';
+
+    afterEach(async () => {
+      // Drop the token so later saves go out unsigned again.
+      await authorizeBoardWrites('', null);
+    });
+
+    it('asks for a write token for the normalized channel, with the Twitch sign-in', async () => {
+      global.fetch = vi.fn(() => mockFetchResponse({ token: 'clarkio.1.abc', channel: 'clarkio', expiresAt: inAnHour() }));
+
+      const authorized = await authorizeBoardWrites('#ClarkIO', TWITCH_TOKEN);
+
+      expect(authorized).toBe(true);
+      expect(global.fetch).toHaveBeenCalledWith('/api/write-token', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${TWITCH_TOKEN}` },
+        body: JSON.stringify({ channel: 'clarkio' }),
+      });
+    });
+
+    it('asks for nothing when not signed in with Twitch', async () => {
+      global.fetch = vi.fn();
+
+      const authorized = await authorizeBoardWrites('clarkio', null);
+
+      expect(authorized).toBe(false);
+      expect(global.fetch).not.toHaveBeenCalled();
+      expect(consoleWarnSpy).toHaveBeenCalledWith('Cannot authorize board writes: not signed in with Twitch.');
+    });
+
+    it('signs later board saves with the token', async () => {
+      global.fetch = vi.fn()
+        .mockImplementationOnce(() => mockFetchResponse({ token: 'clarkio.1.abc', channel: 'clarkio', expiresAt: inAnHour() }))
+        .mockImplementationOnce(notFound)
+        .mockImplementationOnce(() => mockFetchResponse([{ id: 'TESTWORD' }]));
+
+      await authorizeBoardWrites('clarkio', TWITCH_TOKEN);
+      await saveBoard('TESTWORD', slots, 'clarkio', 'en');
+
+      expect(global.fetch).toHaveBeenNthCalledWith(3, '/api/boards', expect.objectContaining({
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: 'Bearer clarkio.1.abc' },
+      }));
+    });
+
+    it('asks for a fresh token before a write when the one it holds is about to expire', async () => {
+      const soon = new Date(Date.now() + 60 * 1000).toISOString();
+      global.fetch = vi.fn()
+        .mockImplementationOnce(() => mockFetchResponse({ token: 'clarkio.1.old', channel: 'clarkio', expiresAt: soon }))
+        .mockImplementationOnce(notFound)
+        .mockImplementationOnce(() => mockFetchResponse({ token: 'clarkio.2.new', channel: 'clarkio', expiresAt: inAnHour() }))
+        .mockImplementationOnce(() => mockFetchResponse([{ id: 'TESTWORD' }]));
+
+      await authorizeBoardWrites('clarkio', TWITCH_TOKEN);
+      await saveBoard('TESTWORD', slots, 'clarkio', 'en');
+
+      expect(global.fetch).toHaveBeenNthCalledWith(3, '/api/write-token', expect.objectContaining({
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${TWITCH_TOKEN}` },
+        body: JSON.stringify({ channel: 'clarkio' }),
+      }));
+      expect(global.fetch).toHaveBeenNthCalledWith(4, '/api/boards', expect.objectContaining({
+        headers: { 'Content-Type': 'application/json', Authorization: 'Bearer clarkio.2.new' },
+      }));
+    });
+
+    it('signs level reports with the token', async () => {
+      global.fetch = vi.fn()
+        .mockImplementationOnce(() => mockFetchResponse({ token: 'clarkio.1.abc', channel: 'clarkio', expiresAt: inAnHour() }))
+        .mockImplementationOnce(() => mockFetchResponse({ recorded: true }));
+
+      await authorizeBoardWrites('clarkio', TWITCH_TOKEN);
+      await recordPlayerLevel('clarkio', 'biocow', 'room:12:4-5-6-7', { wordsFound: 3, bigWordsHit: 1, hiddenWordsGuessed: 0 });
+
+      expect(global.fetch).toHaveBeenNthCalledWith(2, '/api/player-stats/clarkio/biocow', expect.objectContaining({
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: 'Bearer clarkio.1.abc' },
+      }));
+    });
+
+    it('signs a leaderboard opt-in with the token, and says when it was refused', async () => {
+      global.fetch = vi.fn()
+        .mockImplementationOnce(() => mockFetchResponse({ token: 'clarkio.1.abc', channel: 'clarkio', expiresAt: inAnHour() }))
+        .mockImplementationOnce(() => mockFetchResponse({ channel: 'clarkio', optedIn: true }))
+        .mockImplementationOnce(() => mockFetchResponse({ code: 'INVALID_WRITE_TOKEN' }, false, 403));
+
+      await authorizeBoardWrites('clarkio', TWITCH_TOKEN);
+
+      expect(await setLeaderboardOptIn('clarkio', true)).toBe(true);
+      expect(global.fetch).toHaveBeenNthCalledWith(2, '/api/leaderboard/clarkio', {
+        method: 'PUT',
+        headers: { Authorization: 'Bearer clarkio.1.abc' },
+      });
+      expect(await setLeaderboardOptIn('biocow', false)).toBe(false);
+      expect(global.fetch).toHaveBeenNthCalledWith(3, '/api/leaderboard/biocow', expect.objectContaining({ method: 'DELETE' }));
+    });
+
+    it('rejects an invalid channel without making a request', async () => {
+      global.fetch = vi.fn();
+
+      const authorized = await authorizeBoardWrites('bad channel!', TWITCH_TOKEN);
+
+      expect(authorized).toBe(false);
+      expect(global.fetch).not.toHaveBeenCalled();
+      expect(consoleWarnSpy).toHaveBeenCalledWith('Cannot authorize board writes: channel name is invalid.');
+    });
+
+    it('leaves writes unsigned when no token is issued', async () => {
+      global.fetch = vi.fn()
+        .mockImplementationOnce(() => mockFetchResponse({ token: 'clarkio.1.abc', channel: 'clarkio', expiresAt: inAnHour() }))
+        .mockImplementationOnce(() => Promise.resolve({ ok: false, status: 503, statusText: 'Service Unavailable' } as Response))
+        .mockImplementationOnce(notFound)
+        .mockImplementationOnce(() => mockFetchResponse([{ id: 'TESTWORD' }]));
+
+      await authorizeBoardWrites('clarkio', TWITCH_TOKEN);
+      const authorized = await authorizeBoardWrites('biocow', TWITCH_TOKEN);
+      await saveBoard('TESTWORD', slots, 'biocow', 'en');
+
+      expect(authorized).toBe(false);
+      expect(consoleErrorSpy).toHaveBeenCalledWith('Failed to authorize board writes: 503 Service Unavailable');
+      expect(global.fetch).toHaveBeenNthCalledWith(4, '/api/boards', expect.objectContaining({
+        headers: { 'Content-Type': 'application/json' },
+      }));
+    });
+
+    it('handles an unreachable server gracefully', async () => {
+      global.fetch = vi.fn(() => Promise.reject(new Error('offline')));
+
+      expect(await authorizeBoardWrites('clarkio', TWITCH_TOKEN)).toBe(false);
+      expect(consoleErrorSpy).toHaveBeenCalledWith('Error authorizing board writes:', expect.any(Error));
+    });
+  });
 });
@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+/**
+ * Unit tests for src/scripts/dictionary-client.ts — the main thread's side of
+ * the dictionary worker. The Worker is the stub from tests/setup.ts: these
+ * tests read what the client posts to it and answer through its onmessage.
+ */
+
+type DictionaryClientModule = typeof import('@scripts/dictionary-client');
+
+interface StubWorker {
+  url: string;
+  onmessage: ((event: MessageEvent) => void) | null;
+  onerror: ((event: unknown) => void) | null;
+  postMessage: (message: unknown) => void;
+}
+
+let client: DictionaryClientModule;
+let worker: StubWorker;
+let posted: { id: number; query: string }[];
+
+/** A fresh client module, and the stub Worker it created. */
+async function importFreshClient(): Promise<void> {
+  vi.resetModules();
+  client = await import('@scripts/dictionary-client');
+  const instances = (globalThis as unknown as { MockWorker: { instances: StubWorker[] } }).MockWorker.instances;
+  worker = instances.filter(instance => instance.url.includes('dictionary-worker')).pop()!;
+  posted = [];
+  worker.postMessage = (message) => {
+    posted.push(message as { id: number; query: string });
+  };
+}
+
+function answer(id: number, value: unknown): void {
+  worker.onmessage!({ data: { type: 'dictionary_answer', id, answer: value } } as MessageEvent);
+}
+
+beforeEach(async () => {
+  vi.spyOn(console, 'error').mockImplementation(() => { });
+  await importFreshClient();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('dictionary-client', () => {
+  it('starts the dictionary worker as a module worker', () => {
+    expect(worker).toBeTruthy();
+    expect(typeof worker.onmessage).toBe('function');
+  });
+
+  it('posts each question with an id and resolves with the answer to that id', async () => {
+    const first = client.isWosWord('rate');
+    const second = client.findWosWordsFitting(4, ['r', 'a', 't', 'e']);
+
+    expect(posted).toEqual([
+      { id: expect.any(Number), query: 'is_word', word: 'rate' },
+      { id: expect.any(Number), query: 'words_fitting', length: 4, letters: ['r', 'a', 't', 'e'] },
+    ]);
+    answer(posted[1].id, ['rate', 'tear']);
+    answer(posted[0].id, true);
+
+    await expect(first).resolves.toBe(true);
+    await expect(second).resolves.toEqual(['rate', 'tear']);
+  });
+
+  it('answers as an empty dictionary would when the worker reports an error', async () => {
+    const missing = client.findAllMissingWords(['rate'], 'rate', 4);
+    worker.onmessage!({ data: { type: 'error', id: posted[0].id, error: 'boom' } } as MessageEvent);
+
+    await expect(missing).resolves.toEqual([]);
+    expect(console.error).toHaveBeenCalledWith('Dictionary query failed:', 'boom');
+  });
+
+  it('answers every waiting and later question without words once the worker fails', async () => {
+    const known = client.isWosWord('rate');
+    worker.onerror!(new Event('error'));
+
+    await expect(known).resolves.toBe(false);
+    await expect(client.findMissingWordsFromBoard([], [])).resolves.toEqual([]);
+    expect(posted).toHaveLength(1);
+  });
+
+  it('still works out a board id from the big word and the slot words without the worker', async () => {
+    worker.onerror!(new Event('error'));
+
+    await expect(client.determineBoardId('L U R I N G', ['ruling', 'ring'], 'en')).resolves.toBe('RULING');
+  });
+
+  it("compares letters in the game's language when working out a board id without the worker", async () => {
+    worker.onerror!(new Event('error'));
+
+    // Only in Portuguese is AÇÃO spelled with the tiles of ACAO.
+    await expect(client.determineBoardId('ACAO', ['ação'], 'pt')).resolves.toBe('AÇÃO');
+    await expect(client.determineBoardId('ACAO', ['ação'], 'en')).resolves.toBe('ACAO');
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { DictionaryWorkerMessage, DictionaryWorkerResult } from '@scripts/dictionary-worker';
+
+/**
+ * Unit tests for src/scripts/dictionary-worker.ts — the Web Worker that owns
+ * the word list and answers GameSpectator's questions about it.
+ *
+ * As in wos-worker.test.ts, a minimal worker-scope stub stands in for `self`
+ * while the module is imported; the worker then answers through that stub.
+ * The word list is served by a stubbed fetch, so the real wos-words.ts loads
+ * and searches it.
+ */
+
+interface WorkerScopeStub {
+  postMessage: ReturnType<typeof vi.fn>;
+  onmessage: ((event: MessageEvent) => void) | null;
+  onerror: ((event: unknown) => void) | null;
+  onmessageerror: ((event: unknown) => void) | null;
+}
+
+let scope: WorkerScopeStub;
+let originalSelf: PropertyDescriptor | undefined;
+
+const WORDS = ['rate', 'tear', 'tare', 'eat', 'tree'];
+
+/** Fresh worker scope + fresh modules (the word list is module state). */
+async function loadWorkerWithFreshScope(): Promise<void> {
+  scope = {
+    postMessage: vi.fn(),
+    onmessage: null,
+    onerror: null,
+    onmessageerror: null,
+  };
+  Object.defineProperty(globalThis, 'self', {
+    value: scope,
+    configurable: true,
+    writable: true,
+  });
+
+  vi.resetModules();
+  await import('@scripts/dictionary-worker');
+}
+
+/** Sends one message and waits for the worker's answer to it. */
+async function ask(message: DictionaryWorkerMessage): Promise<DictionaryWorkerResult> {
+  scope.onmessage!({ data: message } as MessageEvent);
+  await vi.waitFor(() => {
+    expect(scope.postMessage.mock.calls.some(([result]) => result.id === message.id)).toBe(true);
+  });
+  return scope.postMessage.mock.calls.find(([result]) => result.id === message.id)![0] as DictionaryWorkerResult;
+}
+
+beforeEach(async () => {
+  originalSelf = Object.getOwnPropertyDescriptor(globalThis, 'self');
+  vi.spyOn(console, 'log').mockImplementation(() => { });
+  vi.stubGlobal('fetch', vi.fn(async () => ({
+    ok: true,
+    status: 200,
+    headers: new Headers(),
+    json: async () => WORDS,
+  })));
+  await loadWorkerWithFreshScope();
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+  if (originalSelf) {
+    Object.defineProperty(globalThis, 'self', originalSelf);
+  } else {
+    delete (globalThis as Record<string, unknown>).self;
+  }
+});
+
+describe('dictionary-worker', () => {
+  it('installs its handlers on the worker scope', () => {
+    expect(typeof scope.onmessage).toBe('function');
+    expect(typeof scope.onerror).toBe('function');
+    expect(typeof scope.onmessageerror).toBe('function');
+  });
+
+  it('answers once the word list has loaded', async () => {
+    expect(await ask({ id: 1, query: 'load_words' })).toEqual({ type: 'dictionary_answer', id: 1, answer: undefined });
+  });
+
+  it('answers word questions from the loaded list', async () => {
+    await ask({ id: 1, query: 'load_words' });
+
+    expect(await ask({ id: 2, query: 'is_word', word: 'TEAR' })).toMatchObject({ answer: true });
+    expect(await ask({ id: 3, query: 'is_word', word: 'zzzz' })).toMatchObject({ answer: false });
+    expect(await ask({ id: 4, query: 'words_fitting', length: 4, letters: ['t', 'r', 'e', '?'] }))
+      .toMatchObject({ answer: ['rate', 'tear', 'tare', 'tree'] });
+    expect(await ask({ id: 5, query: 'board_id', bigWord: 'R A T E', extraCandidates: [], languageCode: 'en' }))
+      .toMatchObject({ answer: 'TEAR' });
+    expect(await ask({ id: 6, query: 'missing_words', knownWords: ['rate'], knownLetters: 'rate', minLength: 4 }))
+      .toMatchObject({ answer: ['tear', 'tare'] });
+  });
+
+  it('pairs every answer with the message it answers', async () => {
+    await ask({ id: 1, query: 'load_words' });
+    scope.onmessage!({ data: { id: 7, query: 'is_word', word: 'rate' } } as MessageEvent);
+    scope.onmessage!({ data: { id: 8, query: 'is_word', word: 'zzzz' } } as MessageEvent);
+
+    await vi.waitFor(() => {
+      expect(scope.postMessage).toHaveBeenCalledTimes(3);
+    });
+    const answers = scope.postMessage.mock.calls.slice(1).map(([result]) => [result.id, result.answer]);
+    expect(answers).toEqual(expect.arrayContaining([[7, true], [8, false]]));
+  });
+
+  it('reports a question it cannot answer as an error for that message', async () => {
+    const result = await ask({ id: 9, query: 'missing_words_from_board', currentSlots: [], boardSlots: null! });
+
+    expect(result).toMatchObject({ type: 'error', id: 9 });
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import {
+  decodeLeaderboardCursor,
+  DEFAULT_LEADERBOARD_PAGE_SIZE,
+  encodeLeaderboardCursor,
+  parseLeaderboardQuery,
+  rankChannels,
+} from '@/lib/leaderboard-query';
+
+/**
+ * Unit tests for reading the leaderboard's query string and ranking its
+ * pages. What the route asks the archive for is covered in
+ * tests/acceptance/channel-stats.acceptance.test.ts § Ranking channels
+ * against each other.
+ */
+
+const TODAY = '2026-10-19';
+const parse = (query: string) => parseLeaderboardQuery(new URLSearchParams(query), TODAY);
+
+describe('parseLeaderboardQuery', () => {
+  it('defaults to the first page of the all-time leaderboard', () => {
+    expect(parse('')).toEqual({ query: { mode: 'all-time', limit: DEFAULT_LEADERBOARD_PAGE_SIZE } });
+  });
+
+  it('puts the daily leaderboard on the day given', () => {
+    expect(parse('mode=daily&limit=5')).toEqual({ query: { mode: 'daily', date: TODAY, limit: 5 } });
+  });
+
+  it('treats an empty parameter as absent', () => {
+    expect(parse('mode=&limit=&cursor=')).toEqual({ query: { mode: 'all-time', limit: DEFAULT_LEADERBOARD_PAGE_SIZE } });
+  });
+
+  it.each([
+    ['mode=weekly', 'INVALID_MODE'],
+    ['limit=0', 'INVALID_LIMIT'],
+    ['limit=2.5', 'INVALID_LIMIT'],
+    ['cursor=%%%', 'INVALID_CURSOR'],
+  ])('refuses %s', (query, code) => {
+    expect(parse(query)).toMatchObject({ error: { code } });
+  });
+
+  it('reads back a cursor from the same leaderboard', () => {
+    const cursor = encodeLeaderboardCursor({ mode: 'all-time' }, { rank: 2, channel: 'biocow', highestLevel: 64 }, 3);
+
+    expect(parse(`cursor=${cursor}`)).toMatchObject({
+      query: { cursor: { highestLevel: 64, channel: 'biocow', rank: 2, position: 3 } },
+    });
+  });
+});
+
+describe('decodeLeaderboardCursor', () => {
+  const last = { rank: 1, channel: 'clarkio', highestLevel: 30 };
+
+  it("refuses a cursor from the other mode or another day's leaderboard", () => {
+    const daily = encodeLeaderboardCursor({ mode: 'daily', date: '2026-10-18' }, last, 1);
+
+    expect(decodeLeaderboardCursor(daily, '2026-10-18')).toEqual({ ...last, position: 1 });
+    expect(decodeLeaderboardCursor(daily, TODAY)).toBeNull();
+    expect(decodeLeaderboardCursor(daily, 'all-time')).toBeNull();
+  });
+
+  it('refuses a rank that could not come before its position', () => {
+    expect(decodeLeaderboardCursor(encodeLeaderboardCursor({ mode: 'all-time' }, { ...last, rank: 4 }, 3), 'all-time')).toBeNull();
+    expect(decodeLeaderboardCursor(encodeLeaderboardCursor({ mode: 'all-time' }, { ...last, rank: 0 }, 3), 'all-time')).toBeNull();
+  });
+});
+
+describe('rankChannels', () => {
+  const channel = (name: string, highestLevel: number) => ({ channel: name, highestLevel });
+
+  it('numbers the first page from one, sharing a rank on a tie', () => {
+    const ranked = rankChannels([channel('a', 9), channel('b', 7), channel('c', 7), channel('d', 5)]);
+
+    expect(ranked.map(({ rank }) => rank)).toEqual([1, 2, 2, 4]);
+  });
+
+  it('carries on from the cursor, through a tie across the page break', () => {
+    const cursor = { highestLevel: 7, channel: 'b', rank: 2, position: 2 };
+
+    const ranked = rankChannels([channel('c', 7), channel('d', 5)], cursor);
+
+    expect(ranked.map(({ rank }) => rank)).toEqual([2, 4]);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { pointsForLevel, rankStandings, recordLevelRanking } from '@scripts/leaderboard';
+import type { SessionLeaderboard } from '@scripts/leaderboard';
+import levelResults from '../fixtures/wos-events/04-level-results.json';
+
+/**
+ * Unit tests for the session leaderboard built from event 4's `rankingTurn`.
+ * The module is pure, so every test starts from its own empty Map.
+ */
+
+const entry = (id: string, points: number, name = id) => ({ user: { id, name }, points });
+
+describe('recordLevelRanking', () => {
+  it('records each player from the recorded Level Results fixture', () => {
+    const leaderboard: SessionLeaderboard = new Map();
+
+    recordLevelRanking(leaderboard, 4, levelResults.data.rankingTurn);
+
+    expect(leaderboard.get('ruggmattbot')).toEqual({
+      login: 'ruggmattbot',
+      displayName: 'RuggMattBot',
+      totalPoints: 13,
+      levels: [{ level: 4, points: 13 }],
+    });
+    expect(leaderboard.get('smc_may_i')?.totalPoints).toBe(18);
+    // `ranking` (the running game total) is not what gets summed.
+    expect(leaderboard.has('clarkio')).toBe(false);
+  });
+
+  it('sums points across levels', () => {
+    const leaderboard: SessionLeaderboard = new Map();
+
+    recordLevelRanking(leaderboard, 1, [entry('clarkio', 10)]);
+    recordLevelRanking(leaderboard, 2, [entry('clarkio', 7)]);
+
+    expect(leaderboard.get('clarkio')?.totalPoints).toBe(17);
+    expect(leaderboard.get('clarkio')?.levels).toEqual([
+      { level: 1, points: 10 },
+      { level: 2, points: 7 },
+    ]);
+  });
+
+  it('replaces rather than re-adds a level recorded twice', () => {
+    const leaderboard: SessionLeaderboard = new Map();
+
+    recordLevelRanking(leaderboard, 3, [entry('clarkio', 10)]);
+    recordLevelRanking(leaderboard, 3, [entry('clarkio', 12)]);
+
+    expect(leaderboard.get('clarkio')?.totalPoints).toBe(12);
+    expect(leaderboard.get('clarkio')?.levels).toEqual([{ level: 3, points: 12 }]);
+  });
+
+  it('keys players case-insensitively and keeps the latest display name', () => {
+    const leaderboard: SessionLeaderboard = new Map();
+
+    recordLevelRanking(leaderboard, 1, [entry('Clarkio', 5, 'clarkio')]);
+    recordLevelRanking(leaderboard, 2, [entry('clarkio', 5, 'Clarkio')]);
+
+    expect([...leaderboard.keys()]).toEqual(['clarkio']);
+    expect(leaderboard.get('clarkio')?.displayName).toBe('Clarkio');
+  });
+
+  it('skips malformed and non-scoring entries', () => {
+    const leaderboard: SessionLeaderboard = new Map();
+
+    recordLevelRanking(leaderboard, 1, [
+      null,
+      {},
+      { user: {}, points: 4 },
+      { user: { id: '  ' }, points: 4 },
+      entry('zero', 0),
+      entry('negative', -3),
+      { user: { id: 'nan' }, points: Number.NaN },
+      { user: { id: 'text' }, points: '4' },
+      entry('clarkio', 4),
+    ]);
+
+    expect([...leaderboard.keys()]).toEqual(['clarkio']);
+  });
+
+  it('ignores a rankingTurn that is not a list', () => {
+    const leaderboard: SessionLeaderboard = new Map();
+
+    recordLevelRanking(leaderboard, 1, undefined);
+    recordLevelRanking(leaderboard, 1, { user: { id: 'clarkio' }, points: 4 });
+
+    expect(leaderboard.size).toBe(0);
+  });
+});
+
+describe('pointsForLevel', () => {
+  it('returns 0 for a level the player did not score on', () => {
+    const leaderboard: SessionLeaderboard = new Map();
+    recordLevelRanking(leaderboard, 1, [entry('clarkio', 4)]);
+
+    const standing = leaderboard.get('clarkio')!;
+    expect(pointsForLevel(standing, 1)).toBe(4);
+    expect(pointsForLevel(standing, 2)).toBe(0);
+  });
+});
+
+describe('rankStandings', () => {
+  it('orders by total, breaking ties alphabetically by login', () => {
+    const leaderboard: SessionLeaderboard = new Map();
+    recordLevelRanking(leaderboard, 1, [entry('zed', 5), entry('amy', 5), entry('top', 9)]);
+
+    expect(rankStandings(leaderboard).map(standing => standing.login)).toEqual(['top', 'amy', 'zed']);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import {
+  levelHistoryToCsv,
+  levelHistoryToJson,
+  recordLevelHistory,
+  splitFoundAndMissed,
+  topGuessersForLevel,
+  type LevelHistoryEntry,
+} from '@scripts/level-history';
+import { recordLevelRanking, type SessionLeaderboard } from '@scripts/leaderboard';
+
+/**
+ * Unit tests for the level history: what each ended level keeps, and the two
+ * files it can be saved as.
+ */
+
+const ENDED_AT = Date.parse('2026-10-19T20:15:00Z');
+
+const entry = (overrides: Partial<LevelHistoryEntry> = {}): LevelHistoryEntry => ({
+  level: 12,
+  stars: 3,
+  cleared: false,
+  bigWord: 'RULING',
+  foundWords: ['RING', 'RULING'],
+  missedWords: ['LINT'],
+  topGuessers: [{ name: 'BioCow', points: 12 }],
+  endedAt: ENDED_AT,
+  ...overrides,
+});
+
+describe('recordLevelHistory', () => {
+  it('keeps the levels in the order they ended', () => {
+    const history: LevelHistoryEntry[] = [];
+
+    recordLevelHistory(history, entry({ level: 12 }));
+    recordLevelHistory(history, entry({ level: 15 }));
+
+    expect(history.map(({ level }) => level)).toEqual([12, 15]);
+  });
+
+  it('replaces a re-delivered result for the level just recorded instead of listing it twice', () => {
+    const history: LevelHistoryEntry[] = [];
+
+    recordLevelHistory(history, entry({ stars: 2 }));
+    recordLevelHistory(history, entry({ stars: 3 }));
+
+    expect(history).toEqual([entry({ stars: 3 })]);
+  });
+});
+
+describe('splitFoundAndMissed', () => {
+  it('separates the words marked missed from the words found', () => {
+    expect(splitFoundAndMissed(['RING', 'lint*', 'RULING'])).toEqual({
+      foundWords: ['RING', 'RULING'],
+      missedWords: ['LINT'],
+    });
+  });
+});
+
+describe('topGuessersForLevel', () => {
+  const leaderboard: SessionLeaderboard = new Map();
+  recordLevelRanking(leaderboard, 11, [{ user: { id: 'clarkio', name: 'ClarkIO' }, points: 50 }]);
+  recordLevelRanking(leaderboard, 12, [
+    { user: { id: 'smc_may_i', name: 'smc_may_i' }, points: 4 },
+    { user: { id: 'biocow', name: 'BioCow' }, points: 12 },
+    { user: { id: 'ruggmattbot', name: 'RuggMattBot' }, points: 4 },
+    { user: { id: 'aaron', name: 'Aaron' }, points: 1 },
+  ]);
+
+  it("ranks by what was scored on the level, not the session total, ties alphabetically", () => {
+    expect(topGuessersForLevel(leaderboard, 12)).toEqual([
+      { name: 'BioCow', points: 12 },
+      { name: 'RuggMattBot', points: 4 },
+      { name: 'smc_may_i', points: 4 },
+    ]);
+  });
+
+  it('names nobody for a level nobody scored on', () => {
+    expect(topGuessersForLevel(leaderboard, 13)).toEqual([]);
+  });
+});
+
+describe('exporting the history', () => {
+  it('writes one CSV row per level with the word lists space-separated', () => {
+    const csv = levelHistoryToCsv([entry(), entry({ level: 15, stars: 5, cleared: true, missedWords: [], topGuessers: [] })]);
+
+    expect(csv.split('\r\n')).toEqual([
+      'level,stars,cleared,big_word,found_words,missed_words,top_guessers,ended_at',
+      '12,3,false,RULING,RING RULING,LINT,BioCow:12,2026-10-19T20:15:00.000Z',
+      '15,5,true,RULING,RING RULING,,,2026-10-19T20:15:00.000Z',
+      '',
+    ]);
+  });
+
+  it('quotes a field that would break the row', () => {
+    const csv = levelHistoryToCsv([entry({ topGuessers: [{ name: 'Bio, "Cow"', points: 12 }] })]);
+
+    expect(csv).toContain(',"Bio, ""Cow"":12",');
+  });
+
+  it('keeps a guesser name a spreadsheet would run as a formula as text', () => {
+    const csv = levelHistoryToCsv([entry({ topGuessers: [{ name: '=HYPERLINK("http://evil.test","x")', points: 5 }] })]);
+
+    expect(csv).toContain(`,"'=HYPERLINK(""http://evil.test"",""x""):5",`);
+  });
+
+  it('writes the JSON with its format, version and channel', () => {
+    const exported = JSON.parse(levelHistoryToJson([entry()], { channel: 'clarkio' }, new Date(ENDED_AT)));
+
+    expect(exported).toEqual({
+      format: 'wos-plus-level-history',
+      version: 1,
+      exportedAt: '2026-10-19T20:15:00.000Z',
+      channel: 'clarkio',
+      levels: [entry()],
+    });
+  });
+});
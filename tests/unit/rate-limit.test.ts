@@ -0,0 +1,112 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { env } from 'cloudflare:workers';
+
+import { DEFAULT_RATE_LIMITS, parseRateLimits, rateLimit } from '../../src/lib/rate-limit';
+
+const mutableEnv = env as unknown as Record<string, string | undefined>;
+const originalRateLimits = mutableEnv.RATE_LIMITS;
+const NOW = Date.UTC(2026, 9, 19, 12, 0, 0);
+
+// Every test uses its own caller, since the counts live as long as the module.
+let nextCaller = 0;
+function requestFromNewCaller(): Request {
+  nextCaller += 1;
+  return new Request('https://wos-plus.test/api/words', {
+    headers: { 'cf-connecting-ip': `198.51.100.${nextCaller}` },
+  });
+}
+
+describe('parseRateLimits', () => {
+  it('uses the defaults when nothing is configured', () => {
+    expect(parseRateLimits(undefined)).toEqual(DEFAULT_RATE_LIMITS);
+    expect(parseRateLimits('')).toEqual(DEFAULT_RATE_LIMITS);
+  });
+
+  it('overrides the routes it names, including turning one off', () => {
+    expect(parseRateLimits(' /api/words = 30 , /api/boards=0')).toEqual({
+      ...DEFAULT_RATE_LIMITS,
+      '/api/words': 30,
+      '/api/boards': 0,
+    });
+  });
+
+  it('ignores unknown routes and limits that are not whole numbers', () => {
+    expect(parseRateLimits('/api/nope=5,/api/words=lots,/api/boards=-1,/api/write-token=2.5,/api/health')).toEqual(DEFAULT_RATE_LIMITS);
+  });
+});
+
+describe('rateLimit', () => {
+  afterEach(() => {
+    mutableEnv.RATE_LIMITS = originalRateLimits;
+  });
+
+  it('lets a caller make as many requests as the limit allows in a minute', () => {
+    mutableEnv.RATE_LIMITS = '/api/words=3';
+    const request = requestFromNewCaller();
+
+    const results = [0, 1, 2].map((second) => rateLimit(request, '/api/words', undefined, NOW + second * 1000));
+
+    expect(results).toEqual([null, null, null]);
+  });
+
+  it('answers the next one 429, saying when to try again', async () => {
+    mutableEnv.RATE_LIMITS = '/api/words=1';
+    const request = requestFromNewCaller();
+
+    rateLimit(request, '/api/words', undefined, NOW);
+    const response = rateLimit(request, '/api/words', undefined, NOW + 20_500);
+
+    expect(response?.status).toBe(429);
+    expect(response?.headers.get('retry-after')).toBe('40');
+    expect(await response?.json()).toEqual({
+      error: 'Too many requests',
+      message: 'Too many requests to /api/words. Try again in 40 seconds.',
+      code: 'RATE_LIMITED',
+    });
+  });
+
+  it('starts counting again once the minute is up', () => {
+    mutableEnv.RATE_LIMITS = '/api/words=1';
+    const request = requestFromNewCaller();
+
+    rateLimit(request, '/api/words', undefined, NOW);
+    expect(rateLimit(request, '/api/words', undefined, NOW + 59_999)).not.toBeNull();
+    expect(rateLimit(request, '/api/words', undefined, NOW + 60_000)).toBeNull();
+  });
+
+  it('counts each route separately', () => {
+    mutableEnv.RATE_LIMITS = '/api/words=1,/api/boards=1';
+    const request = requestFromNewCaller();
+
+    expect(rateLimit(request, '/api/words', undefined, NOW)).toBeNull();
+    expect(rateLimit(request, '/api/boards', undefined, NOW)).toBeNull();
+    expect(rateLimit(request, '/api/words', undefined, NOW)).not.toBeNull();
+  });
+
+  it('lets the streamer\'s view report a whole level\'s players at once, apart from the channel\'s list', () => {
+    mutableEnv.RATE_LIMITS = '/api/player-stats/[channel]=1';
+    const request = requestFromNewCaller();
+
+    const reports = Array.from({ length: 100 }, () => rateLimit(request, '/api/player-stats/[channel]/[player]', undefined, NOW));
+
+    expect(reports.every((result) => result === null)).toBe(true);
+    expect(rateLimit(request, '/api/player-stats/[channel]', undefined, NOW)).toBeNull();
+  });
+
+  it('never limits a route whose limit is 0', () => {
+    mutableEnv.RATE_LIMITS = '/api/words=0';
+    const request = requestFromNewCaller();
+
+    const results = Array.from({ length: 50 }, () => rateLimit(request, '/api/words', undefined, NOW));
+
+    expect(results.every((result) => result === null)).toBe(true);
+  });
+
+  it('does not limit a request that did not come through Cloudflare', () => {
+    mutableEnv.RATE_LIMITS = '/api/words=1';
+    const request = new Request('https://wos-plus.test/api/words');
+
+    expect(rateLimit(request, '/api/words', undefined, NOW)).toBeNull();
+    expect(rateLimit(request, '/api/words', undefined, NOW)).toBeNull();
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import {
+  SESSION_RECORDING_FORMAT,
+  SESSION_RECORDING_VERSION,
+  SessionRecorder,
+} from '@scripts/session-recorder';
+import correctGuess from '../fixtures/wos-events/03-correct-guess.json';
+
+/**
+ * Unit tests for the session recorder's ring buffer and its JSON Lines export.
+ * The format itself is documented in docs/session-recording.md; the header
+ * and entry tests below pin what that document promises.
+ */
+
+const chat = (message: string, timestamp: number) =>
+  ({ source: 'chat' as const, username: 'clarkio', message, timestamp });
+
+const SESSION = { channel: 'clarkio', wosGameCode: '4fdfc856-0328-4384-a882-8377dcb5a4f6' };
+
+const parseLines = (jsonl: string) =>
+  jsonl.trimEnd().split('\n').map((line) => JSON.parse(line));
+
+describe('SessionRecorder', () => {
+  it('keeps entries oldest first, numbered in the order they arrived', () => {
+    const recorder = new SessionRecorder(10);
+
+    recorder.record(chat('trilby', 1_000), 1_000);
+    recorder.record({ source: 'wos', event: '3', args: [correctGuess.eventType, correctGuess.data] }, 1_400);
+
+    expect(recorder.entries()).toEqual([
+      { ...chat('trilby', 1_000), seq: 0, at: 1_000 },
+      { source: 'wos', event: '3', args: [3, correctGuess.data], seq: 1, at: 1_400 },
+    ]);
+    expect(recorder.dropped).toBe(0);
+  });
+
+  it('overwrites the oldest entries once full and counts what it dropped', () => {
+    const recorder = new SessionRecorder(3);
+
+    for (let i = 0; i < 5; i++) recorder.record(chat(`word${i}`, i), i);
+
+    expect(recorder.entries().map((entry) => entry.seq)).toEqual([2, 3, 4]);
+    expect(recorder.dropped).toBe(2);
+  });
+
+  it('falls back to a one-entry buffer rather than an unbounded one for a bad capacity', () => {
+    const recorder = new SessionRecorder(Number.NaN);
+
+    recorder.record(chat('first', 1), 1);
+    recorder.record(chat('second', 2), 2);
+
+    expect(recorder.capacity).toBe(1);
+    expect(recorder.entries().map((entry) => entry.seq)).toEqual([1]);
+  });
+
+  it('starts over when cleared', () => {
+    const recorder = new SessionRecorder(2);
+    for (let i = 0; i < 3; i++) recorder.record(chat(`word${i}`, i), i);
+
+    recorder.clear();
+    recorder.record(chat('again', 9), 9);
+
+    expect(recorder.entries()).toEqual([{ ...chat('again', 9), seq: 0, at: 9 }]);
+    expect(recorder.dropped).toBe(0);
+  });
+});
+
+describe('SessionRecorder.toJsonLines', () => {
+  it('writes a versioned header followed by one line per entry', () => {
+    const recorder = new SessionRecorder(2);
+    for (let i = 0; i < 3; i++) recorder.record(chat(`word${i}`, i), i);
+
+    const jsonl = recorder.toJsonLines(SESSION, new Date('2026-10-19T18:04:11.532Z'));
+
+    expect(jsonl.endsWith('\n')).toBe(true);
+    const [header, ...entries] = parseLines(jsonl);
+    expect(header).toEqual({
+      format: SESSION_RECORDING_FORMAT,
+      version: SESSION_RECORDING_VERSION,
+      exportedAt: '2026-10-19T18:04:11.532Z',
+      channel: 'clarkio',
+      wosGameCode: SESSION.wosGameCode,
+      capacity: 2,
+      dropped: 1,
+    });
+    expect(entries.map((entry) => entry.message)).toEqual(['word1', 'word2']);
+  });
+
+  it('writes only the header for an empty session', () => {
+    const recorder = new SessionRecorder(2);
+
+    expect(parseLines(recorder.toJsonLines(SESSION))).toHaveLength(1);
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { SessionRecorder, type SessionRecordEntry } from '@scripts/session-recorder';
+import { parseSessionRecording, SessionReplay } from '@scripts/session-replay';
+
+/**
+ * Unit tests for reading a session recording back and pacing its replay. The
+ * end-to-end path — a replay driving GameSpectator — is covered in
+ * tests/acceptance/game-flow.acceptance.test.ts § Replaying a recorded session.
+ */
+
+const SESSION = { channel: 'clarkio', wosGameCode: '' };
+
+/** A recording of chat messages typed at the given times. */
+const recordingAt = (...times: number[]) => {
+  const recorder = new SessionRecorder(100);
+  times.forEach((at, index) => {
+    recorder.record({ source: 'chat', username: 'clarkio', message: `word${index}`, timestamp: at }, at);
+  });
+  return recorder.toJsonLines(SESSION);
+};
+
+const entriesOf = (jsonl: string): SessionRecordEntry[] => {
+  const parsed = parseSessionRecording(jsonl);
+  if ('error' in parsed) throw new Error(parsed.error);
+  return parsed.recording.entries;
+};
+
+describe('parseSessionRecording', () => {
+  it('reads back what the recorder exported', () => {
+    const parsed = parseSessionRecording(recordingAt(1_000, 1_300));
+
+    expect(parsed).toMatchObject({
+      recording: {
+        header: { format: 'wos-plus-session', version: 1, channel: 'clarkio' },
+        entries: [
+          { source: 'chat', message: 'word0', seq: 0, at: 1_000 },
+          { source: 'chat', message: 'word1', seq: 1, at: 1_300 },
+        ],
+      },
+    });
+  });
+
+  it('puts entries back in recorded order', () => {
+    const [header, first, second] = recordingAt(1_000, 1_300).trimEnd().split('\n');
+
+    const entries = entriesOf([header, second, first].join('\n'));
+
+    expect(entries.map((entry) => entry.seq)).toEqual([0, 1]);
+  });
+
+  it.each([
+    ['an empty file', '', 'The file is empty.'],
+    ['a line that is not JSON', '{"format":"wos-plus-session","version":1}\nnot json', 'Line 2 is not valid JSON.'],
+    ['a file that is not a recording', '{"boards":[]}', 'The file is not a WoS+ session recording.'],
+    ['an entry of an unknown kind', '{"format":"wos-plus-session","version":1}\n{"source":"irc","seq":0,"at":1}', 'Line 2 is not a recorded game event or chat message.'],
+  ])('refuses %s', (_label, text, error) => {
+    expect(parseSessionRecording(text)).toEqual({ error });
+  });
+});
+
+describe('SessionReplay', () => {
+  let delivered: string[];
+  const deliver = (entry: SessionRecordEntry) => {
+    if (entry.source === 'chat') delivered.push(entry.message);
+  };
+
+  beforeEach(() => {
+    delivered = [];
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('keeps the recorded gaps at normal speed', () => {
+    const replay = new SessionReplay(entriesOf(recordingAt(1_000, 1_500, 3_500)), deliver);
+
+    replay.play(1);
+    vi.advanceTimersByTime(0);
+    expect(delivered).toEqual(['word0']);
+    vi.advanceTimersByTime(499);
+    expect(delivered).toEqual(['word0']);
+    vi.advanceTimersByTime(1);
+    expect(delivered).toEqual(['word0', 'word1']);
+    vi.advanceTimersByTime(2_000);
+
+    expect(delivered).toEqual(['word0', 'word1', 'word2']);
+    expect(replay.finished).toBe(true);
+    expect(replay.playing).toBe(false);
+  });
+
+  it('divides the gaps by the speed', () => {
+    const replay = new SessionReplay(entriesOf(recordingAt(1_000, 6_000)), deliver);
+
+    replay.play(10);
+    vi.advanceTimersByTime(500);
+
+    expect(delivered).toEqual(['word0', 'word1']);
+  });
+
+  it('delivers one input per step in step mode', () => {
+    const progress = vi.fn();
+    const replay = new SessionReplay(entriesOf(recordingAt(1_000, 6_000)), deliver, progress);
+
+    replay.play('step');
+    vi.advanceTimersByTime(10_000);
+    expect(delivered).toEqual([]);
+
+    replay.step();
+
+    expect(delivered).toEqual(['word0']);
+    expect(progress).toHaveBeenLastCalledWith(1, 2);
+  });
+
+  it('stops delivering when paused and picks up where it left off', () => {
+    const replay = new SessionReplay(entriesOf(recordingAt(1_000, 2_000, 3_000)), deliver);
+
+    replay.play(1);
+    vi.advanceTimersByTime(0);
+    replay.pause();
+    vi.advanceTimersByTime(10_000);
+    expect(delivered).toEqual(['word0']);
+
+    replay.play(1);
+    vi.advanceTimersByTime(0);
+
+    expect(delivered).toEqual(['word0', 'word1']);
+    expect(replay.delivered).toBe(2);
+  });
+
+  it('does nothing once finished', () => {
+    const replay = new SessionReplay(entriesOf(recordingAt(1_000)), deliver);
+    replay.step();
+
+    replay.step();
+
+    expect(delivered).toEqual(['word0']);
+    expect(replay.finished).toBe(true);
+  });
+});
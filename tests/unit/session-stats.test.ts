@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  averageStars,
+  createSessionStats,
+  loadSessionStats,
+  recordGameOver,
+  recordLevelReached,
+  recordLevelResult,
+  saveSessionStats,
+  sessionClears,
+  sessionStorageKey,
+  SESSION_IDLE_MS,
+} from '@scripts/session-stats';
+
+/**
+ * Unit tests for the stream's own numbers: what each game event adds to them,
+ * and carrying a session on across reloads through localStorage.
+ */
+
+const START = Date.parse('2026-10-19T18:00:00Z');
+const HOUR = 60 * 60 * 1000;
+
+describe('recording a session', () => {
+  it('keeps the highest level reached', () => {
+    const stats = createSessionStats('clarkio', START);
+
+    recordLevelReached(stats, 12, START + 1);
+    recordLevelReached(stats, 30, START + 2);
+    recordLevelReached(stats, 4, START + 3);
+
+    expect(stats.highestLevel).toBe(30);
+    expect(stats.updatedAt).toBe(START + 3);
+  });
+
+  it('counts clears and averages the stars over the levels that ended with results', () => {
+    const stats = createSessionStats('clarkio', START);
+
+    recordLevelResult(stats, { level: 10, stars: 5, cleared: true });
+    recordLevelResult(stats, { level: 15, stars: 2, cleared: false });
+    recordLevelResult(stats, { level: 17, stars: 5, cleared: true });
+
+    expect(sessionClears(stats)).toBe(2);
+    expect(averageStars(stats)).toBe(4);
+  });
+
+  it('replaces a re-delivered result for the level just recorded instead of counting it twice', () => {
+    const stats = createSessionStats('clarkio', START);
+
+    recordLevelResult(stats, { level: 10, stars: 5, cleared: true });
+    recordLevelResult(stats, { level: 10, stars: 5, cleared: true });
+
+    expect(stats.levels).toHaveLength(1);
+    expect(sessionClears(stats)).toBe(1);
+  });
+
+  it('records the level each game ended on, once per game', () => {
+    const stats = createSessionStats('clarkio', START);
+
+    recordGameOver(stats, 23);
+    recordGameOver(stats, 23);
+    recordLevelReached(stats, 1);
+    recordGameOver(stats, 31);
+
+    expect(stats.failedLevels).toEqual([23, 31]);
+  });
+
+  it('ignores a level or stars that are not numbers', () => {
+    const stats = createSessionStats('clarkio', START);
+
+    recordLevelReached(stats, NaN);
+    recordLevelResult(stats, { level: 10, stars: NaN, cleared: false });
+
+    expect(stats.highestLevel).toBe(0);
+    expect(stats.levels).toEqual([]);
+    expect(averageStars(stats)).toBe(0);
+  });
+});
+
+describe('storing a session', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('carries on the latest session while it is still going', () => {
+    const stats = createSessionStats('clarkio', START);
+    recordLevelReached(stats, 30, START + HOUR);
+    saveSessionStats(stats);
+
+    const loaded = loadSessionStats('clarkio', START + 2 * HOUR);
+
+    expect(loaded).toEqual(stats);
+    expect(localStorage.getItem(sessionStorageKey('clarkio', START))).not.toBeNull();
+  });
+
+  it('starts a new session once the last one has been idle too long', () => {
+    const stats = createSessionStats('clarkio', START);
+    recordLevelReached(stats, 30, START);
+    saveSessionStats(stats);
+
+    const loaded = loadSessionStats('clarkio', START + SESSION_IDLE_MS);
+
+    expect(loaded).toEqual(createSessionStats('clarkio', START + SESSION_IDLE_MS));
+  });
+
+  it("never carries on another channel's session", () => {
+    saveSessionStats(createSessionStats('clarkio', START));
+
+    expect(loadSessionStats('biocow', START + 1).channel).toBe('biocow');
+    expect(loadSessionStats('biocow', START + 1).startedAt).toBe(START + 1);
+  });
+
+  it('picks the most recently started session, not the first stored', () => {
+    for (const startedAt of [START + 2 * HOUR, START, START + HOUR]) {
+      saveSessionStats(createSessionStats('clarkio', startedAt));
+    }
+
+    expect(loadSessionStats('clarkio', START + 3 * HOUR).startedAt).toBe(START + 2 * HOUR);
+  });
+
+  it('starts fresh when the stored session cannot be read', () => {
+    localStorage.setItem(sessionStorageKey('clarkio', START), '{not json');
+
+    expect(loadSessionStats('clarkio', START + 1)).toEqual(createSessionStats('clarkio', START + 1));
+  });
+
+  it("keeps only the channel's ten latest sessions", () => {
+    for (let day = 0; day < 12; day++) {
+      saveSessionStats(createSessionStats('clarkio', START + day * 24 * HOUR));
+    }
+    saveSessionStats(createSessionStats('biocow', START));
+
+    expect(localStorage.getItem(sessionStorageKey('clarkio', START))).toBeNull();
+    expect(localStorage.getItem(sessionStorageKey('clarkio', START + 24 * HOUR))).toBeNull();
+    expect(localStorage.getItem(sessionStorageKey('clarkio', START + 2 * 24 * HOUR))).not.toBeNull();
+    expect(localStorage.getItem(sessionStorageKey('biocow', START))).not.toBeNull();
+  });
+});
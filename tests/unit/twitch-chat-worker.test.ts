@@ -3,7 +3,7 @@ import type { TwitchWorkerMessage } from '@scripts/twitch-chat-worker';
 
 /**
  * Unit tests for src/scripts/twitch-chat-worker.ts — the Web Worker that
- * filters Twitch chat down to plausible WoS guesses (/^[a-zA-Z]{4,12}$/) before
+ * filters Twitch chat down to plausible WoS guesses (/^\p{L}{4,12}$/u) before
  * `GameSpectator` correlates them with masked correct-guess events.
  *
  * These tests drive the REAL module. An earlier version of this file declared a
@@ -63,6 +63,8 @@ describe('twitch-chat-worker', () => {
       ['a 4-letter word (lower bound)', 'word'],
       ['a 12-letter word (upper bound)', 'exactlytwelv'],
       ['a mixed-case word', 'WoRdS'],
+      ['an accented Portuguese word', 'ação'],
+      ['an accented French word in capitals', 'ÉTÉS'],
     ])('forwards %s', async (_label, message) => {
       await send({ username: 'TestUser', message, timestamp: 1000 });
 
@@ -83,12 +85,21 @@ describe('twitch-chat-worker', () => {
       ['an embedded space', 'test word'],
       ['an empty string', ''],
       ['leading whitespace', ' word'],
-      ['a non-ASCII letter', 'wörd'],
+      ['an emoji', 'word😀'],
+      ['an accented word of 3 letters', 'été'],
     ])('drops %s', async (_label, message) => {
       await send({ username: 'TestUser', message, timestamp: 1000 });
 
       expect(scope.postMessage).not.toHaveBeenCalled();
     });
+
+    it('composes an accent typed as a combining mark before matching', async () => {
+      // "ação" with the cedilla and tilde as separate combining marks: six
+      // code points, but four letters.
+      await send({ username: 'TestUser', message: 'ac\u0327a\u0303o', timestamp: 1000 });
+
+      expect(scope.postMessage).toHaveBeenCalledWith(expect.objectContaining({ message: 'ação' }));
+    });
   });
 
   describe('data transformation', () => {
@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { completeTwitchLogin, storedTwitchToken, twitchLoginUrl } from '@scripts/twitch-login';
+
+/**
+ * Unit tests for signing in with Twitch: where the view sends the streamer,
+ * and what it keeps when Twitch sends them back.
+ */
+
+const PAGE = 'https://wosplus.com/streamer';
+const SETTINGS = '?mirrorUrl=https%3A%2F%2Fwos.gg%2Fr%2Fabc&twitchChannel=clarkio';
+
+describe('twitchLoginUrl', () => {
+  it('asks Twitch for a token with no scopes, to come back to the same page with its settings', () => {
+    const url = new URL(twitchLoginUrl(new URL(`${PAGE}${SETTINGS}`), 'wos-plus-client') ?? '');
+
+    expect(`${url.origin}${url.pathname}`).toBe('https://id.twitch.tv/oauth2/authorize');
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      client_id: 'wos-plus-client',
+      redirect_uri: PAGE,
+      response_type: 'token',
+      scope: '',
+      state: SETTINGS,
+    });
+  });
+
+  it('offers no sign-in when the build has no Twitch application', () => {
+    expect(twitchLoginUrl(new URL(PAGE), '')).toBeNull();
+  });
+});
+
+describe('completeTwitchLogin', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('keeps the token Twitch sent back and puts the settings back in the address', () => {
+    const state = encodeURIComponent(SETTINGS);
+    const returnTo = completeTwitchLogin(new URL(`${PAGE}#access_token=abc123&scope=&state=${state}&token_type=bearer`));
+
+    expect(returnTo).toBe(`/streamer${SETTINGS}`);
+    expect(storedTwitchToken()).toBe('abc123');
+  });
+
+  it('carries on signed out when the sign-in was turned down', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => { /* expected */ });
+    const state = encodeURIComponent(SETTINGS);
+
+    const returnTo = completeTwitchLogin(new URL(`${PAGE}?error=access_denied&error_description=The+user+denied+you+access&state=${state}`));
+
+    expect(returnTo).toBe(`/streamer${SETTINGS}`);
+    expect(storedTwitchToken()).toBeNull();
+    expect(warn).toHaveBeenCalledWith('Twitch sign-in did not complete: The user denied you access');
+    warn.mockRestore();
+  });
+
+  it('leaves any other page alone', () => {
+    expect(completeTwitchLogin(new URL(`${PAGE}${SETTINGS}`))).toBeNull();
+    expect(storedTwitchToken()).toBeNull();
+  });
+});
@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { readCachedWords, writeCachedWords } from '@scripts/word-cache';
+
+/**
+ * Unit tests for word-cache.ts. The test environment has no IndexedDB, which
+ * is exactly the case the module must survive: a view that cannot keep the
+ * word list between visits downloads it every time, as it always did. How
+ * wos-words.ts uses a cached list is covered in tests/unit/wos-words.test.ts.
+ */
+
+describe('word-cache without IndexedDB', () => {
+  it('finds nothing cached', async () => {
+    expect(typeof indexedDB).toBe('undefined');
+    await expect(readCachedWords('en')).resolves.toBeNull();
+  });
+
+  it('quietly keeps nothing', async () => {
+    await expect(writeCachedWords('en', '"en-1-0"', ['rate'])).resolves.toBeUndefined();
+    await expect(readCachedWords('en')).resolves.toBeNull();
+  });
+});
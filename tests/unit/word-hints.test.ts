@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { parseHintLevel, summarizeRemainingWords } from '@scripts/word-hints';
+
+/**
+ * Unit tests for the "words left" panel's summary of a level. How
+ * GameSpectator renders it is covered in tests/unit/wos-plus-main.test.ts.
+ */
+
+const empty = (length: number) => ({ letters: new Array(length).fill('?'), user: null });
+const found = (word: string) => ({ letters: word.split(''), user: 'clarkio' });
+
+describe('parseHintLevel', () => {
+  it.each([
+    ['off', 'off'],
+    ['length', 'length'],
+    ['first', 'first'],
+    ['FIRST', 'first'],
+    // Links made before there were levels.
+    ['true', 'first'],
+    ['false', 'off'],
+    ['everything', 'off'],
+    ['', 'off'],
+    [null, 'off'],
+  ])('reads %s as %s', (value, level) => {
+    expect(parseHintLevel(value)).toBe(level);
+  });
+});
+
+describe('summarizeRemainingWords', () => {
+  it('counts the empty slots of each length, shortest first', () => {
+    const slots = [empty(6), empty(4), found('rate'), empty(4), found('tear')];
+
+    expect(summarizeRemainingWords(slots, 'first')).toEqual([
+      { length: 4, remaining: 2, hints: [] },
+      { length: 6, remaining: 1, hints: [] },
+    ]);
+  });
+
+  it('leaves out lengths with nothing left to find', () => {
+    expect(summarizeRemainingWords([found('rate'), found('tear')], 'first')).toEqual([]);
+  });
+
+  it('hints at each empty slot with the first letter of its archived word', () => {
+    const slots = [found('rate'), empty(4), empty(4), empty(5)];
+    const archived = [{ word: 'rate' }, { word: 'tear' }, { word: 'tare' }, { word: 'eater' }];
+
+    expect(summarizeRemainingWords(slots, 'first', archived)).toEqual([
+      { length: 4, remaining: 2, hints: ['T___', 'T___'] },
+      { length: 5, remaining: 1, hints: ['E____'] },
+    ]);
+  });
+
+  it('shows only the length of a slot the archived board cannot speak for', () => {
+    const slots = [empty(4), empty(4), empty(4)];
+    const archived = [{ word: 'treat' }, { word: 't??e' }];
+
+    expect(summarizeRemainingWords(slots, 'first', archived)).toEqual([
+      { length: 4, remaining: 3, hints: ['____', '____', '____'] },
+    ]);
+  });
+
+  it('shows every empty slot by its length alone at the length level, archived or not', () => {
+    const slots = [found('rate'), empty(4), empty(5)];
+    const archived = [{ word: 'rate' }, { word: 'tear' }, { word: 'eater' }];
+
+    expect(summarizeRemainingWords(slots, 'length')).toEqual([
+      { length: 4, remaining: 1, hints: ['____'] },
+      { length: 5, remaining: 1, hints: ['_____'] },
+    ]);
+    expect(summarizeRemainingWords(slots, 'length', archived)).toEqual(summarizeRemainingWords(slots, 'length'));
+  });
+});
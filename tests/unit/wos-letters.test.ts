@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { foldLetters, isBoardNameSpelling, lettersSignature } from '@/lib/wos-letters';
+
+/**
+ * Unit tests for comparing letters the way Words on Stream does in each of
+ * its languages.
+ */
+
+describe('foldLetters', () => {
+  it('drops accents for Portuguese and French', () => {
+    expect(foldLetters('AÇÃO', 'pt')).toBe('acao');
+    expect(foldLetters('Élève', 'fr')).toBe('eleve');
+  });
+
+  it('only lower-cases English', () => {
+    expect(foldLetters('CAFÉ', 'en')).toBe('café');
+    expect(foldLetters('CAFÉ')).toBe('café');
+  });
+
+  it('keeps one character per letter, however the accent was written', () => {
+    expect(foldLetters('ÇA', 'pt')).toBe('ca');
+    expect(foldLetters('?Ã', 'pt')).toBe('?a');
+  });
+});
+
+describe('isBoardNameSpelling', () => {
+  it.each([
+    ['CAUTION', 'en', true],
+    ['CAFÉ', 'en', false],
+    ['CORAÇÃO', 'pt', true],
+    ['FORÊT', 'fr', true],
+    ['ŒUVRE', 'fr', false],
+    ['CAUT10N', 'pt', false],
+  ])('%s on a %s board → %s', (name, languageCode, expected) => {
+    expect(isBoardNameSpelling(name, languageCode)).toBe(expected);
+  });
+});
+
+describe('lettersSignature', () => {
+  it('gives every anagram, in any case, the same sorted letters', () => {
+    expect(lettersSignature('CAUTION')).toBe('acinotu');
+    expect(lettersSignature('auction')).toBe('acinotu');
+  });
+
+  it('folds accents before sorting for Portuguese and French', () => {
+    expect(lettersSignature('AÇÃO', 'pt')).toBe('aaco');
+    expect(lettersSignature('AÇÃO', 'en')).not.toBe('aaco');
+  });
+});
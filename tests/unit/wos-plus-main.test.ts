@@ -1,8 +1,8 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import tmi from '@tmi.js/chat';
 import { GameSpectator } from '@scripts/wos-plus-main';
-import * as wosWords from '@scripts/wos-words';
-import { fetchChannelStats } from '@scripts/db-service';
+import * as dictionary from '@scripts/dictionary-client';
+import { fetchChannelStats, recordPlayerLevel } from '@scripts/db-service';
 
 // Mock the worker modules
 vi.mock('@scripts/wos-worker', () => ({
@@ -13,32 +13,35 @@ vi.mock('@scripts/twitch-chat-worker', () => ({
   default: {}
 }));
 
-// Mock the wos-words module
-vi.mock('@scripts/wos-words', async (importActual) => {
-  const actual = await importActual<typeof import('@scripts/wos-words')>();
+// Mock the dictionary worker's client: the worker itself is a stub here.
+vi.mock('@scripts/dictionary-client', async () => {
+  const wosWords = await vi.importActual<typeof import('@scripts/wos-words')>('@scripts/wos-words');
   return {
-    findAllMissingWords: vi.fn(() => []),
-    findMissingWordsFromBoard: vi.fn(() => []),
-    loadWordsFromDb: vi.fn(),
+    findAllMissingWords: vi.fn(async () => []),
+    findMissingWordsFromBoard: vi.fn(async () => []),
+    findWosWordsFitting: vi.fn(async () => []),
+    loadWordsFromDb: vi.fn(async () => { }),
+    setWordLanguage: vi.fn(async () => { }),
     // Default to "unknown word" so hidden-word resolution falls back to its
     // length/recency heuristic. Individual tests override this to exercise the
     // dictionary-preference path.
-    isWosWord: vi.fn(() => false),
-    // Keep the real letter-fit check: it's a pure function with no dictionary
-    // dependency, so hidden-word resolution genuinely validates that a candidate
-    // fits within the level's letters.
-    canFormWord: actual.canFormWord,
-    // Keep the real board-id canonicalization too: with the dictionary unloaded
-    // in tests it works purely from the big word and the slot-word candidates,
-    // so save/fetch key derivation is genuinely exercised.
-    determineBoardId: actual.determineBoardId,
+    isWosWord: vi.fn(async () => false),
+    // Keep the real board-id canonicalization: with no words loaded it works
+    // purely from the big word and the slot-word candidates, so save/fetch
+    // key derivation is genuinely exercised. (The real letter-fit check,
+    // canFormWord, is used straight from wos-words.)
+    determineBoardId: vi.fn(async (bigWord: string, extraCandidates: string[], languageCode: string) =>
+      wosWords.determineBoardId(bigWord, extraCandidates, languageCode)),
   };
 });
 
 // Mock the db-service module
 vi.mock('@scripts/db-service', () => ({
+  authorizeBoardWrites: vi.fn().mockResolvedValue(true),
   saveBoard: vi.fn(),
   fetchBoard: vi.fn(),
+  fetchBoardByLetters: vi.fn(),
+  recordPlayerLevel: vi.fn(),
   fetchChannelStats: vi.fn().mockResolvedValue({ allTimePersonalBest: 0, dailyBest: 0, dailyClears: 0, chatbotEnabled: false }),
 }));
 
@@ -73,8 +76,13 @@ const TEST_DOM_IDS = [
   'pb-value',
   'daily-pb-value',
   'daily-clear-value',
+  'session-record',
+  'session-best-value',
+  'session-clear-value',
+  'level-current',
   'level-title',
   'level-value',
+  'guessing-status',
   'letters',
   'letters-label',
   'hidden-letter',
@@ -82,6 +90,10 @@ const TEST_DOM_IDS = [
   'correct-words-log',
   'wos-game-log',
   'twitch-chat-log',
+  'session-leaderboard',
+  'level-history',
+  'words-remaining-panel',
+  'words-remaining',
 ];
 
 // Build a fresh set of empty <div> elements the spectator expects to find.
@@ -434,6 +446,93 @@ describe('GameSpectator class', () => {
     });
   });
 
+  describe('words left panel', () => {
+    const rows = () => [...document.getElementById('words-remaining')!.children].map(row => row.textContent);
+    const panel = () => document.getElementById('words-remaining-panel')!;
+
+    beforeEach(() => {
+      spectator = new GameSpectator();
+      spectator.isSoundsEnabled = false;
+      (spectator as any).handleGameInitialization(10, 1, ['r', 'a', 't', 'e', 's'], [
+        { letters: ['?', '?', '?', '?'], word: '', hitMax: false, index: 0, length: 4 },
+        { letters: ['?', '?', '?', '?'], word: '', hitMax: false, index: 1, length: 4 },
+        { letters: ['?', '?', '?', '?', '?'], word: '', hitMax: false, index: 2, length: 5 },
+      ]);
+    });
+
+    it('stays hidden and empty unless turned on', () => {
+      expect(panel().style.display).toBe('none');
+      expect(rows()).toEqual([]);
+    });
+
+    it('counts the empty slots of each length when turned on', () => {
+      spectator.setHintLevel('first');
+
+      expect(panel().style.display).toBe('');
+      expect(rows()).toEqual(['4 letters2 left', '5 letters1 left']);
+    });
+
+    it('updates on every correct guess', async () => {
+      spectator.setHintLevel('first');
+
+      await (spectator as any).updateGameState('clarkio', ['r', 'a', 't', 'e'], 0, false);
+
+      expect(rows()).toEqual(['4 letters1 left', '5 letters1 left']);
+    });
+
+    it('adds first-letter hints once the big word finds the board in the archive', async () => {
+      const dbService = await import('@scripts/db-service');
+      vi.mocked(dbService.fetchBoard).mockResolvedValueOnce({
+        id: 'STARE', slots: [
+          { letters: ['r', 'a', 't', 'e'], word: 'rate', hitMax: false },
+          { letters: ['t', 'e', 'a', 'r'], word: 'tear', hitMax: false },
+          { letters: ['s', 't', 'a', 'r', 'e'], word: 'stare', hitMax: true },
+        ],
+      } as any);
+      spectator.setHintLevel('first');
+
+      await (spectator as any).updateGameState('clarkio', ['s', 't', 'a', 'r', 'e'], 2, true);
+      await vi.waitFor(() => {
+        expect(rows()).toEqual(['4 letters2 leftR___ T___']);
+      });
+    });
+
+    it('shows each empty slot by its length alone at the length level', async () => {
+      const dbService = await import('@scripts/db-service');
+      spectator.setHintLevel('length');
+
+      await (spectator as any).updateGameState('clarkio', ['s', 't', 'a', 'r', 'e'], 2, true);
+
+      expect(rows()).toEqual(['4 letters2 left____ ____']);
+      expect(dbService.fetchBoard).not.toHaveBeenCalled();
+    });
+
+    it('hides again when turned off', () => {
+      spectator.setHintLevel('first');
+
+      spectator.setHintLevel('off');
+
+      expect(panel().style.display).toBe('none');
+      expect(rows()).toEqual([]);
+    });
+
+    it('does not look the board up while turned off', async () => {
+      const dbService = await import('@scripts/db-service');
+
+      await (spectator as any).updateGameState('clarkio', ['s', 't', 'a', 'r', 'e'], 2, true);
+
+      expect(dbService.fetchBoard).not.toHaveBeenCalled();
+    });
+
+    it('empties when the board is cleared for the next level', () => {
+      spectator.setHintLevel('first');
+
+      (spectator as any).clearBoard();
+
+      expect(rows()).toEqual([]);
+    });
+  });
+
   describe('updateCorrectWordsDisplayed', () => {
     beforeEach(() => {
       spectator = new GameSpectator();
@@ -916,6 +1015,321 @@ describe('GameSpectator class', () => {
     });
   });
 
+  describe('session recording', () => {
+    const socketHandler = (event: string) => {
+      const onMock = spectator.wosSocket.on as ReturnType<typeof vi.fn>;
+      return onMock.mock.calls.find((call: any[]) => call[0] === event)?.[1];
+    };
+
+    beforeEach(() => {
+      spectator = new GameSpectator();
+    });
+
+    it('records a game event before handing it to the worker', () => {
+      const wosWorker = findWorkerByUrlSubstring('wos-worker');
+      // The entry must already exist when the worker sees the event, so a
+      // recording taken mid-race still holds the event that started it.
+      const recordedWhenPosted: number[] = [];
+      const post = vi.spyOn(wosWorker, 'postMessage').mockImplementation(() => {
+        recordedWhenPosted.push(spectator.sessionRecorder.entries().length);
+      });
+      spectator.connectToWosGame(VALID_MIRROR_URL);
+      const data = { user: { name: 'clarkio' }, letters: ['c', 'o', 'a', 't'], index: 0, hitMax: false };
+
+      socketHandler('3')(3, data);
+
+      expect(spectator.sessionRecorder.entries()).toMatchObject([
+        { source: 'wos', event: '3', args: [3, data], seq: 0 },
+      ]);
+      expect(post).toHaveBeenCalledWith({ eventType: 3, data });
+      expect(recordedWhenPosted).toEqual([1]);
+      post.mockRestore();
+    });
+
+    it('records the socket connecting and dropping', () => {
+      spectator.connectToWosGame(VALID_MIRROR_URL);
+
+      socketHandler('connect')();
+      socketHandler('disconnect')();
+      socketHandler('reconnect')();
+      socketHandler('connect_error')(new Error('timeout'));
+
+      expect(spectator.sessionRecorder.entries().map((entry) => entry.source === 'wos' && entry.event))
+        .toEqual(['connect', 'disconnect', 'reconnect', 'connect_error']);
+      expect(spectator.sessionRecorder.entries()[3]).toMatchObject({ args: ['timeout'] });
+    });
+
+    it('records chat messages as they are handed to the chat filter', () => {
+      const twitchWorker = findWorkerByUrlSubstring('twitch-chat-worker');
+      const post = vi.spyOn(twitchWorker, 'postMessage').mockImplementation(() => { });
+      spectator.connectToTwitch('testchannel');
+      const onMock = (spectator.twitchClient as any).on as ReturnType<typeof vi.fn>;
+      const messageHandler = onMock.mock.calls.find((call: any[]) => call[0] === 'message')?.[1];
+
+      messageHandler({ user: { login: 'ClarkIO' }, message: { text: 'TRILBY' } });
+
+      const posted = post.mock.calls[0][0] as { username: string; message: string; timestamp: number };
+      expect(spectator.sessionRecorder.entries()).toEqual([
+        { source: 'chat', ...posted, seq: 0, at: posted.timestamp },
+      ]);
+      expect(posted).toMatchObject({ username: 'clarkio', message: 'trilby' });
+      post.mockRestore();
+    });
+
+    it('exports the recording with the channel and game it was taken from', () => {
+      spectator.connectToWosGame(VALID_MIRROR_URL);
+      spectator.currentChannel = 'clarkio';
+      socketHandler('connect')();
+
+      const [header, ...entries] = spectator.exportSessionRecording()
+        .trimEnd().split('\n').map((line) => JSON.parse(line));
+
+      expect(header).toMatchObject({
+        format: 'wos-plus-session',
+        version: 1,
+        channel: 'clarkio',
+        wosGameCode: VALID_GAME_ID,
+      });
+      expect(entries).toHaveLength(1);
+    });
+
+    it('downloads the recording as a .jsonl file, letting go of it once the click is handled', () => {
+      vi.useFakeTimers();
+      spectator.currentChannel = 'clarkio';
+      const { createObjectURL, revokeObjectURL } = URL;
+      URL.createObjectURL = vi.fn(() => 'blob:recording');
+      URL.revokeObjectURL = vi.fn();
+      const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => { });
+
+      spectator.downloadSessionRecording();
+
+      expect(click).toHaveBeenCalledTimes(1);
+      const link = click.mock.contexts[0] as HTMLAnchorElement;
+      expect(link.download).toMatch(/^wos-plus-session-clarkio-.*\.jsonl$/);
+      expect(URL.revokeObjectURL).not.toHaveBeenCalled();
+      vi.runAllTimers();
+      expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:recording');
+      vi.useRealTimers();
+      click.mockRestore();
+      URL.createObjectURL = createObjectURL;
+      URL.revokeObjectURL = revokeObjectURL;
+    });
+  });
+
+  describe('replay', () => {
+    beforeEach(() => {
+      spectator = new GameSpectator();
+    });
+
+    it('hands replayed inputs to the same workers a live game uses', () => {
+      const wosPost = vi.spyOn(findWorkerByUrlSubstring('wos-worker'), 'postMessage').mockImplementation(() => { });
+      const chatPost = vi.spyOn(findWorkerByUrlSubstring('twitch-chat-worker'), 'postMessage').mockImplementation(() => { });
+      const data = { level: 3, letters: ['c', 'a', 't'], slots: [] };
+
+      spectator.replayInput({ source: 'wos', event: '3', args: [1, data] });
+      spectator.replayInput({ source: 'chat', username: 'clarkio', message: 'coat', timestamp: 42 });
+
+      expect(wosPost).toHaveBeenCalledWith({ eventType: 1, data });
+      expect(chatPost).toHaveBeenCalledWith({ username: 'clarkio', message: 'coat', timestamp: 42 });
+      wosPost.mockRestore();
+      chatPost.mockRestore();
+    });
+
+    it('replays a socket reconnect as the flag the next Game Connected reads (issue #169)', () => {
+      spectator.replayInput({ source: 'wos', event: 'reconnect', args: [] });
+
+      expect((spectator as any).pendingWosReconnect).toBe(true);
+    });
+
+    it('starts from a clean view', () => {
+      spectator.sessionLeaderboard.set('clarkio', { login: 'clarkio', displayName: 'clarkio', totalPoints: 5, levels: [] });
+      spectator.currentLevelCorrectWords = ['coat'];
+
+      spectator.beginReplay();
+
+      expect(spectator.isReplay).toBe(true);
+      expect(spectator.sessionLeaderboard.size).toBe(0);
+      expect(spectator.currentLevelCorrectWords).toEqual([]);
+    });
+
+    it('does not record the inputs it replays', () => {
+      const wosPost = vi.spyOn(findWorkerByUrlSubstring('wos-worker'), 'postMessage').mockImplementation(() => { });
+      const chatPost = vi.spyOn(findWorkerByUrlSubstring('twitch-chat-worker'), 'postMessage').mockImplementation(() => { });
+      spectator.sessionRecorder.record({ source: 'chat', username: 'clarkio', message: 'live', timestamp: 1 }, 1);
+
+      spectator.beginReplay();
+      spectator.replayInput({ source: 'wos', event: '3', args: [1, { level: 3 }] });
+      spectator.replayInput({ source: 'chat', username: 'clarkio', message: 'coat', timestamp: 42 });
+
+      expect(spectator.sessionRecorder.entries()).toEqual([]);
+      wosPost.mockRestore();
+      chatPost.mockRestore();
+    });
+
+    it('does not report player stats for a replayed level', async () => {
+      spectator.currentChannel = 'clarkio';
+      spectator.beginReplay();
+      (spectator as any).tallyPlayerGuess('biocow', false, false);
+
+      await (spectator as any).handleLevelResults(1);
+
+      expect(recordPlayerLevel).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('session stats', () => {
+    const storedSessionKeys = () =>
+      Object.keys(localStorage).filter((key) => key.startsWith('wosPlusSession:'));
+
+    beforeEach(() => {
+      localStorage.clear();
+      spectator = new GameSpectator();
+      spectator.isSoundsEnabled = false;
+      spectator.connectToTwitch('testchannel');
+    });
+
+    it('keeps the badge hidden until the setting turns it on', () => {
+      const record = document.getElementById('session-record')!;
+      expect(record.style.display).toBe('none');
+
+      spectator.setSessionStatsEnabled(true);
+
+      expect(record.style.display).toBe('');
+    });
+
+    it('shows the highest level reached and the clears this stream', async () => {
+      spectator.setSessionStatsEnabled(true);
+      spectator.currentLevel = 10;
+
+      await (spectator as any).handleLevelResults(5);
+      spectator.currentLevelSlots = [
+        { letters: ['c', 'a', 't'], word: 'cat', user: 'clarkio', hitMax: false, index: 0, length: 3 },
+        { letters: ['c', 'o', 'a', 't'], word: '', user: '', hitMax: false, index: 1, length: 4 },
+      ];
+      await (spectator as any).handleLevelResults(2);
+
+      expect(spectator.sessionStats?.levels).toEqual([
+        { level: 10, stars: 5, cleared: true },
+        { level: 15, stars: 2, cleared: false },
+      ]);
+      expect(document.getElementById('session-best-value')!.innerText).toBe('17');
+      expect(document.getElementById('session-clear-value')!.innerText).toBe('1✓');
+      expect(document.getElementById('session-record')!.title).toBe(
+        'This stream: highest level 17, 1 clear, 3.5 stars a level over 2, 0 games ended'
+      );
+    });
+
+    it('records the level a game ended on', async () => {
+      spectator.currentLevel = 23;
+
+      await (spectator as any).handleLevelEnd();
+
+      expect(spectator.sessionStats?.failedLevels).toEqual([23]);
+    });
+
+    it('carries the session on when the view reconnects to the same channel', async () => {
+      spectator.currentLevel = 10;
+      await (spectator as any).handleLevelResults(5);
+      spectator.disconnectTwitch();
+
+      const reloaded = new GameSpectator();
+      reloaded.connectToTwitch('testchannel');
+
+      expect(reloaded.sessionStats?.highestLevel).toBe(15);
+      expect(storedSessionKeys()).toHaveLength(1);
+      reloaded.disconnectTwitch();
+    });
+
+    it('does not store the numbers from a replay', async () => {
+      spectator.beginReplay();
+      spectator.currentLevel = 10;
+
+      await (spectator as any).handleLevelResults(5);
+
+      expect(spectator.sessionStats?.highestLevel).toBe(15);
+      expect(storedSessionKeys()).toHaveLength(0);
+    });
+  });
+
+  describe('level history', () => {
+    beforeEach(() => {
+      spectator = new GameSpectator();
+      spectator.isSoundsEnabled = false;
+      spectator.currentChannel = 'clarkio';
+      spectator.currentLevel = 12;
+    });
+
+    it('keeps each level once its results are in, with the words found and missed', async () => {
+      vi.mocked(dictionary.findAllMissingWords).mockResolvedValueOnce(['LINT']);
+      spectator.currentLevelBigWord = 'R U L I N G';
+      spectator.currentLevelCorrectWords = ['RING', 'RULING'];
+      spectator.currentLevelSlots = [
+        { letters: ['r', 'i', 'n', 'g'], word: 'ring', user: 'clarkio', hitMax: false, index: 0, length: 4 },
+        { letters: ['l', 'i', 'n', 't'], word: '', user: '', hitMax: false, index: 1, length: 4 },
+        { letters: ['r', 'u', 'l', 'i', 'n', 'g'], word: 'ruling', user: 'biocow', hitMax: true, index: 2, length: 6 },
+      ];
+
+      await (spectator as any).handleLevelResults(3, [
+        { user: { id: 'clarkio', name: 'ClarkIO' }, points: 4 },
+        { user: { id: 'biocow', name: 'BioCow' }, points: 12 },
+      ]);
+
+      expect(spectator.levelHistory).toEqual([{
+        level: 12,
+        stars: 3,
+        cleared: false,
+        bigWord: 'RULING',
+        foundWords: ['RING', 'RULING'],
+        missedWords: ['LINT'],
+        topGuessers: [{ name: 'BioCow', points: 12 }, { name: 'ClarkIO', points: 4 }],
+        endedAt: expect.any(Number),
+      }]);
+    });
+
+    it('survives the next level clearing the board', async () => {
+      spectator.currentLevelCorrectWords = ['RING'];
+      await (spectator as any).handleLevelResults(5);
+
+      (spectator as any).handleGameInitialization(17, 1, ['c', 'a', 't'], []);
+
+      expect(spectator.currentLevelCorrectWords).toEqual([]);
+      expect(spectator.levelHistory.map((entry) => entry.foundWords)).toEqual([['RING']]);
+    });
+
+    it('lists the levels as a timeline, the latest first', async () => {
+      spectator.currentLevelBigWord = 'R U L I N G';
+      await (spectator as any).handleLevelResults(5);
+      spectator.currentLevelBigWord = '';
+      await (spectator as any).handleLevelResults(2);
+
+      const rows = [...document.getElementById('level-history')!.children];
+      expect(rows.map((row) => row.textContent)).toEqual(['172★—0/0', '125★RULING0/0']);
+      expect(rows[1].classList.contains('cleared')).toBe(true);
+    });
+
+    it('exports the history as CSV and as JSON', async () => {
+      spectator.currentLevelCorrectWords = ['RING'];
+      await (spectator as any).handleLevelResults(5);
+
+      const [header, row] = spectator.exportLevelHistory('csv').trimEnd().split('\r\n');
+      const exported = JSON.parse(spectator.exportLevelHistory('json'));
+
+      expect(header).toBe('level,stars,cleared,big_word,found_words,missed_words,top_guessers,ended_at');
+      expect(row).toMatch(/^12,5,true,,RING,,,\d{4}-/);
+      expect(exported).toMatchObject({ format: 'wos-plus-level-history', version: 1, channel: 'clarkio' });
+      expect(exported.levels).toHaveLength(1);
+    });
+
+    it('starts a replay with an empty history', async () => {
+      await (spectator as any).handleLevelResults(5);
+
+      spectator.beginReplay();
+
+      expect(spectator.levelHistory).toEqual([]);
+      expect(document.getElementById('level-history')!.children).toHaveLength(0);
+    });
+  });
+
   describe('handleGameInitialization', () => {
     beforeEach(() => {
       spectator = new GameSpectator();
@@ -974,6 +1388,75 @@ describe('GameSpectator class', () => {
       expect(document.getElementById('letters')!.innerText).toBe('A B C');
     });
 
+    describe('finding the board by its letters', () => {
+      const LETTERS = ['t', 'o', 'n', 'i', 'c', 'a', 'u'];
+      const levelSlots = () => [
+        { letters: ['?', '?', '?', '?', '?'], word: '', hitMax: false, index: 0, length: 5 },
+        { letters: ['?', '?', '?', '?', '?', '?', '?'], word: '', hitMax: false, index: 1, length: 7 },
+      ];
+      const archivedBoard = {
+        id: 'CAUTION',
+        created_at: '2025-01-01T00:00:00.000Z',
+        slots: [
+          { letters: ['t', 'o', 'n', 'i', 'c'], word: 'tonic', hitMax: false },
+          { letters: ['c', 'a', 'u', 't', 'i', 'o', 'n'], word: 'caution', hitMax: true },
+        ],
+      };
+
+      it('looks the board up by the level\'s letters as the level starts', async () => {
+        const dbService = await import('@scripts/db-service');
+
+        (spectator as any).handleGameInitialization(3, 1, LETTERS, levelSlots());
+
+        expect(dbService.fetchBoardByLetters).toHaveBeenCalledWith(LETTERS, 'en');
+      });
+
+      it('does not look the board up while some letters are still hidden', async () => {
+        const dbService = await import('@scripts/db-service');
+
+        (spectator as any).handleGameInitialization(3, 1, ['t', 'o', '?', 'i', 'c', 'a', 'u'], levelSlots());
+
+        expect(dbService.fetchBoardByLetters).not.toHaveBeenCalled();
+      });
+
+      it('uses the board it found for the missed words, without waiting for the big word', async () => {
+        const dbService = await import('@scripts/db-service');
+        vi.mocked(dbService.fetchBoardByLetters).mockResolvedValueOnce(archivedBoard);
+
+        (spectator as any).handleGameInitialization(3, 1, LETTERS, levelSlots());
+        await vi.waitFor(() => {
+          expect(document.getElementById('wos-game-log')!.innerText).toContain('Found this board in the archive: CAUTION');
+        });
+        await (spectator as any).logMissingWords();
+
+        expect(dictionary.findMissingWordsFromBoard).toHaveBeenCalledWith(spectator.currentLevelSlots, archivedBoard.slots);
+        expect(dbService.fetchBoard).not.toHaveBeenCalled();
+      });
+
+      it('ignores a board that turns up after the next level has started', async () => {
+        const dbService = await import('@scripts/db-service');
+        let answer!: (board: typeof archivedBoard) => void;
+        vi.mocked(dbService.fetchBoardByLetters).mockReturnValueOnce(new Promise((resolve) => { answer = resolve; }));
+
+        (spectator as any).handleGameInitialization(3, 1, LETTERS, levelSlots());
+        (spectator as any).handleGameInitialization(4, 1, ['r', 'a', 't', 'e', 's'], levelSlots());
+        answer(archivedBoard);
+        await Promise.resolve();
+
+        expect((spectator as any).currentLevelArchivedBoard).toBeNull();
+      });
+
+      it('ignores a board in another language that shares the letters', async () => {
+        const dbService = await import('@scripts/db-service');
+        vi.mocked(dbService.fetchBoardByLetters).mockResolvedValueOnce({ ...archivedBoard, language_code: 'pt' });
+
+        (spectator as any).handleGameInitialization(3, 1, LETTERS, levelSlots());
+        await Promise.resolve();
+
+        expect((spectator as any).currentLevelArchivedBoard).toBeNull();
+      });
+    });
+
     it('does not rebuild the found-words list on a fresh join to a level already in progress (issue #169)', () => {
       // Joining in progress reports the same shape of slots as a reconnect,
       // but with isReconnect left at its default (false) the found-words
@@ -1068,6 +1551,124 @@ describe('GameSpectator class', () => {
         spectator.currentLanguageCode
       );
     });
+
+    it('credits the level that just ended on the session leaderboard', async () => {
+      await (spectator as any).handleLevelResults(5, [
+        { user: { id: 'smc_may_i', name: 'smc_may_i' }, points: 18 },
+        { user: { id: 'ruggmattbot', name: 'RuggMattBot' }, points: 13 },
+      ]);
+
+      const standing = spectator.sessionLeaderboard.get('ruggmattbot');
+      expect(standing?.levels).toEqual([{ level: 10, points: 13 }]);
+      expect(standing?.totalPoints).toBe(13);
+    });
+
+    it('keeps the leaderboard across levels and renders it ranked by total', async () => {
+      await (spectator as any).handleLevelResults(5, [
+        { user: { id: 'smc_may_i', name: 'smc_may_i' }, points: 18 },
+        { user: { id: 'ruggmattbot', name: 'RuggMattBot' }, points: 13 },
+      ]);
+      (spectator as any).clearBoard();
+      await (spectator as any).handleLevelResults(5, [
+        { user: { id: 'ruggmattbot', name: 'RuggMattBot' }, points: 9 },
+      ]);
+
+      const rows = [...document.getElementById('session-leaderboard')!.children];
+      expect(rows.map(row => row.textContent)).toEqual([
+        '1.RuggMattBot+922',
+        '2.smc_may_i18',
+      ]);
+    });
+
+    it('leaves the leaderboard untouched when the event carries no rankings', async () => {
+      await (spectator as any).handleLevelResults(5);
+
+      expect(spectator.sessionLeaderboard.size).toBe(0);
+      expect(document.getElementById('session-leaderboard')!.children).toHaveLength(0);
+    });
+  });
+
+  describe('player stats', () => {
+    beforeEach(() => {
+      spectator = new GameSpectator();
+      spectator.isSoundsEnabled = false;
+      spectator.currentLevel = 20;
+      spectator.currentChannel = 'clarkio';
+      spectator.currentLevelLetters = ['T', 'R', 'E', 'E', 'S', '?'];
+      spectator.currentLevelSlots = [
+        { letters: ['.', '.', '.', '.'], word: '', hitMax: false, index: 0, length: 4 },
+        { letters: ['.', '.', '.', '.'], word: '', hitMax: false, index: 1, length: 4 },
+        { letters: ['.', '.', '.', '.', '.', '.'], word: '', hitMax: false, index: 2, length: 6 },
+      ];
+    });
+
+    it('tallies words found, big words and hidden words per player', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => { });
+
+      await (spectator as any).updateGameState('BioCow', ['r', 'e', 's', 't'], 0, false);
+      await (spectator as any).updateGameState('biocow', ['s', 't', 'r', 'e', 'e', 't'], 2, true);
+      // A masked guess counts even when chat never yields the word (#167).
+      await (spectator as any).updateGameState('clarkio', ['?', '?', '?', '?'], 1, false);
+
+      expect(spectator.currentLevelPlayerStats.get('biocow')).toEqual({ wordsFound: 2, bigWordsHit: 1, hiddenWordsGuessed: 0 });
+      expect(spectator.currentLevelPlayerStats.get('clarkio')).toEqual({ wordsFound: 1, bigWordsHit: 0, hiddenWordsGuessed: 1 });
+    });
+
+    it('reports each player once when the level results arrive', async () => {
+      const dbService = await import('@scripts/db-service');
+      const recordMock = vi.mocked(dbService.recordPlayerLevel);
+      await (spectator as any).updateGameState('biocow', ['r', 'e', 's', 't'], 0, false);
+
+      await (spectator as any).handleLevelResults(1);
+
+      expect(recordMock).toHaveBeenCalledTimes(1);
+      expect(recordMock).toHaveBeenCalledWith('clarkio', 'biocow', ':20:4-4-6', {
+        wordsFound: 1,
+        bigWordsHit: 0,
+        hiddenWordsGuessed: 0,
+      });
+      expect(spectator.currentLevelPlayerStats.size).toBe(0);
+    });
+
+    it('keys the level on its slots, which hidden-letter reveals do not change', async () => {
+      const dbService = await import('@scripts/db-service');
+      const recordMock = vi.mocked(dbService.recordPlayerLevel);
+      await (spectator as any).updateGameState('biocow', ['r', 'e', 's', 't'], 0, false);
+      (spectator as any).handleLetterReveal(['r'], []);
+
+      await (spectator as any).handleLevelResults(1);
+
+      expect(recordMock.mock.calls[0][2]).toBe(':20:4-4-6');
+    });
+
+    it('includes the WoS room in the level key once connected', async () => {
+      const dbService = await import('@scripts/db-service');
+      const recordMock = vi.mocked(dbService.recordPlayerLevel);
+      spectator.connectToWosGame(VALID_MIRROR_URL);
+      await (spectator as any).updateGameState('biocow', ['r', 'e', 's', 't'], 0, false);
+
+      await (spectator as any).handleLevelResults(1);
+
+      expect(recordMock.mock.calls[0][2]).toBe(`${VALID_GAME_ID}:20:4-4-6`);
+    });
+
+    it('reports nothing without a channel to file the stats under', async () => {
+      const dbService = await import('@scripts/db-service');
+      spectator.currentChannel = '';
+      await (spectator as any).updateGameState('biocow', ['r', 'e', 's', 't'], 0, false);
+
+      await (spectator as any).handleLevelResults(1);
+
+      expect(dbService.recordPlayerLevel).not.toHaveBeenCalled();
+    });
+
+    it('drops the tally when the board is cleared', async () => {
+      await (spectator as any).updateGameState('biocow', ['r', 'e', 's', 't'], 0, false);
+
+      (spectator as any).clearBoard();
+
+      expect(spectator.currentLevelPlayerStats.size).toBe(0);
+    });
   });
 
   describe('handleLevelEnd', () => {
@@ -1307,8 +1908,8 @@ describe('GameSpectator class', () => {
       const fetchBoardMock = vi.mocked(dbService.fetchBoard);
       fetchBoardMock.mockResolvedValueOnce(null); // Board not found, falls back to dictionary
 
-      const findAllMissingWordsMock = vi.mocked(wosWords.findAllMissingWords);
-      findAllMissingWordsMock.mockImplementationOnce((knownWords: string[], knownLetters: string, minLength: number) => {
+      const findAllMissingWordsMock = vi.mocked(dictionary.findAllMissingWords);
+      findAllMissingWordsMock.mockImplementationOnce(async (knownWords: string[], knownLetters: string, minLength: number) => {
         // Snapshot the args at call time (the array is later mutated by UI updates).
         expect([...knownWords]).toEqual(['test', 'word']);
         expect(knownLetters).toBe('TESTING'); // Spaces should be removed
@@ -1327,7 +1928,7 @@ describe('GameSpectator class', () => {
 
       // The board is looked up under its canonical id: spaces removed,
       // alphabetically last anagram.
-      expect(fetchBoardMock).toHaveBeenCalledWith('TESTING');
+      expect(fetchBoardMock).toHaveBeenCalledWith('TESTING', 'en');
       expect(findAllMissingWordsMock).toHaveBeenCalledTimes(1);
       expect(spectator.currentLevelCorrectWords).toEqual(
         expect.arrayContaining(['alpha*', 'beta*'])
@@ -1336,8 +1937,8 @@ describe('GameSpectator class', () => {
     });
 
     it('should call findAllMissingWords using currentLevelLetters when big word is not set', async () => {
-      const findAllMissingWordsMock = vi.mocked(wosWords.findAllMissingWords);
-      findAllMissingWordsMock.mockReturnValueOnce([]);
+      const findAllMissingWordsMock = vi.mocked(dictionary.findAllMissingWords);
+      findAllMissingWordsMock.mockResolvedValueOnce([]);
 
       spectator.currentLevelBigWord = '';
       spectator.currentLevelLetters = ['t', 'e', '?', 's', 't'];
@@ -1355,8 +1956,8 @@ describe('GameSpectator class', () => {
     });
 
     it('should compute minLength from currentLevelSlots when present', async () => {
-      const findAllMissingWordsMock = vi.mocked(wosWords.findAllMissingWords);
-      findAllMissingWordsMock.mockReturnValueOnce([]);
+      const findAllMissingWordsMock = vi.mocked(dictionary.findAllMissingWords);
+      findAllMissingWordsMock.mockResolvedValueOnce([]);
 
       spectator.currentLevelBigWord = '';
       spectator.currentLevelLetters = ['t', 'e', 's', 't'];
@@ -1390,8 +1991,8 @@ describe('GameSpectator class', () => {
       };
       fetchBoardMock.mockResolvedValueOnce(mockBoard);
 
-      const findMissingWordsFromBoardMock = vi.mocked(wosWords.findMissingWordsFromBoard);
-      findMissingWordsFromBoardMock.mockReturnValueOnce(['miss']);
+      const findMissingWordsFromBoardMock = vi.mocked(dictionary.findMissingWordsFromBoard);
+      findMissingWordsFromBoardMock.mockResolvedValueOnce(['miss']);
 
       spectator.currentLevelBigWord = 'T E S T I N G';
       spectator.currentLevelCorrectWords = ['test', 'word'];
@@ -1403,7 +2004,7 @@ describe('GameSpectator class', () => {
 
       await (spectator as any).logMissingWords();
 
-      expect(fetchBoardMock).toHaveBeenCalledWith('TESTING');
+      expect(fetchBoardMock).toHaveBeenCalledWith('TESTING', 'en');
       expect(findMissingWordsFromBoardMock).toHaveBeenCalledWith(
         spectator.currentLevelSlots,
         mockBoard.slots
@@ -1423,7 +2024,7 @@ describe('GameSpectator class', () => {
         created_at: '2024-01-01T00:00:00Z',
         slots: [],
       });
-      vi.mocked(wosWords.findMissingWordsFromBoard).mockReturnValueOnce([]);
+      vi.mocked(dictionary.findMissingWordsFromBoard).mockResolvedValueOnce([]);
 
       spectator.currentLevelBigWord = 'L U R I N G';
       spectator.currentLevelSlots = [
@@ -1434,7 +2035,7 @@ describe('GameSpectator class', () => {
       await (spectator as any).logMissingWords();
 
       expect(fetchBoardMock).toHaveBeenCalledTimes(1);
-      expect(fetchBoardMock).toHaveBeenCalledWith('RULING');
+      expect(fetchBoardMock).toHaveBeenCalledWith('RULING', 'en');
     });
 
     it('should retry the fetch with the guessed big word when the canonical id is not stored', async () => {
@@ -1452,8 +2053,8 @@ describe('GameSpectator class', () => {
       fetchBoardMock.mockResolvedValueOnce(null); // canonical id RULING not found
       fetchBoardMock.mockResolvedValueOnce(legacyBoard);
 
-      const findMissingWordsFromBoardMock = vi.mocked(wosWords.findMissingWordsFromBoard);
-      findMissingWordsFromBoardMock.mockReturnValueOnce([]);
+      const findMissingWordsFromBoardMock = vi.mocked(dictionary.findMissingWordsFromBoard);
+      findMissingWordsFromBoardMock.mockResolvedValueOnce([]);
 
       spectator.currentLevelBigWord = 'L U R I N G';
       spectator.currentLevelSlots = [
@@ -1463,8 +2064,8 @@ describe('GameSpectator class', () => {
 
       await (spectator as any).logMissingWords();
 
-      expect(fetchBoardMock).toHaveBeenNthCalledWith(1, 'RULING');
-      expect(fetchBoardMock).toHaveBeenNthCalledWith(2, 'LURING');
+      expect(fetchBoardMock).toHaveBeenNthCalledWith(1, 'RULING', 'en');
+      expect(fetchBoardMock).toHaveBeenNthCalledWith(2, 'LURING', 'en');
       expect(findMissingWordsFromBoardMock).toHaveBeenCalledWith(
         spectator.currentLevelSlots,
         legacyBoard.slots
@@ -1476,9 +2077,9 @@ describe('GameSpectator class', () => {
       const fetchBoardMock = vi.mocked(dbService.fetchBoard);
       fetchBoardMock.mockResolvedValueOnce(null); // Board not found
 
-      const findAllMissingWordsMock = vi.mocked(wosWords.findAllMissingWords);
+      const findAllMissingWordsMock = vi.mocked(dictionary.findAllMissingWords);
       // Simulate finding words of different lengths (4, 5, 7 letters)
-      findAllMissingWordsMock.mockImplementationOnce((knownWords: string[], knownLetters: string, minLength: number) => {
+      findAllMissingWordsMock.mockImplementationOnce(async (knownWords: string[], knownLetters: string, minLength: number) => {
         // Verify parameters at call time (before array mutations)
         expect([...knownWords]).toEqual(['some']);
         expect(knownLetters).toBe('TESTING'); // Spaces removed!
@@ -1674,6 +2275,117 @@ describe('GameSpectator class', () => {
       expect(spectator.currentLevelLetters).not.toContain('?');
     });
 
+    // A worker result for one of the payload-light events (7, 8, 11).
+    const wosEvent = (wosEventType: number, wosEventName: string, letters: string[] = []) => ({
+      type: 'wos_event',
+      wosEventType,
+      wosEventName,
+      username: '',
+      letters,
+      hitMax: false,
+      stars: 0,
+      level: 0,
+      falseLetters: [],
+      hiddenLetters: [],
+      slots: [],
+      index: 0,
+    });
+
+    it('should re-order the letters shown on Letters Cycled without changing the letters', () => {
+      const wosWorker = findWorkerByUrlSubstring('wos-worker');
+      spectator.currentLevelLetters = ['c', 'a', 'u', 't', 'i', 'o', 'n'];
+
+      wosWorker.emitMessage(wosEvent(7, 'Letters Cycled', ['n', 'o', 'i', 't', 'u', 'a', 'c']));
+
+      expect(document.getElementById('letters')!.innerText).toBe('N O I T U A C');
+      expect(spectator.currentLevelLetters).toEqual(['c', 'a', 'u', 't', 'i', 'o', 'n']);
+    });
+
+    it('should keep letter counts when a cycle disagrees with the known letters', () => {
+      // The fake 'x' was already removed and the hidden '?' already filled in
+      // with 'e'; the cycle still carries the tiles as the game dealt them.
+      const wosWorker = findWorkerByUrlSubstring('wos-worker');
+      spectator.currentLevelLetters = ['t', 'r', 'e', 'e'];
+
+      wosWorker.emitMessage(wosEvent(7, 'Letters Cycled', ['x', 'e', '?', 'r', 't', 't']));
+
+      expect(document.getElementById('letters')!.innerText).toBe('E R T E');
+    });
+
+    it('should leave the big word on screen when letters cycle after it is found', () => {
+      const wosWorker = findWorkerByUrlSubstring('wos-worker');
+      spectator.currentLevelLetters = ['c', 'a', 'u', 't', 'i', 'o', 'n'];
+      spectator.currentLevelBigWord = 'C A U T I O N';
+      document.getElementById('letters')!.innerText = 'C A U T I O N';
+
+      wosWorker.emitMessage(wosEvent(7, 'Letters Cycled', ['n', 'o', 'i', 't', 'u', 'a', 'c']));
+
+      expect(document.getElementById('letters')!.innerText).toBe('C A U T I O N');
+    });
+
+    it('should keep the chat history on Level Ended for the results still to come', async () => {
+      const wosWorker = findWorkerByUrlSubstring('wos-worker');
+      seedChat(spectator, 'testuser', 'test');
+
+      vi.useFakeTimers();
+      wosWorker.emitMessage(wosEvent(8, 'Level Ended'));
+      await vi.advanceTimersByTimeAsync(1000);
+      vi.useRealTimers();
+
+      expect(spectator.twitchChatLog.size).toBe(1);
+    });
+
+    it('should free the chat history once the level results are handled', async () => {
+      seedChat(spectator, 'testuser', 'test');
+
+      await (spectator as any).handleLevelResults(2);
+
+      expect(spectator.twitchChatLog.size).toBe(0);
+    });
+
+    it('should free the chat history once the game end is handled', async () => {
+      seedChat(spectator, 'testuser', 'test');
+
+      await (spectator as any).handleLevelEnd();
+
+      expect(spectator.twitchChatLog.size).toBe(0);
+    });
+
+    it('should show guessing as open on Guessing Unlocked and closed on Level Ended', () => {
+      const wosWorker = findWorkerByUrlSubstring('wos-worker');
+      const statusEl = document.getElementById('guessing-status')!;
+
+      wosWorker.emitMessage(wosEvent(11, 'Guessing Unlocked'));
+
+      expect(spectator.guessingOpen).toBe(true);
+      expect(statusEl.innerText).toBe('GUESSING OPEN');
+      expect(document.getElementById('level-current')!.classList.contains('guessing-open')).toBe(true);
+
+      vi.useFakeTimers();
+      wosWorker.emitMessage(wosEvent(8, 'Level Ended'));
+      vi.useRealTimers();
+
+      expect(spectator.guessingOpen).toBe(false);
+      expect(statusEl.innerText).toBe('');
+      expect(document.getElementById('level-current')!.classList.contains('guessing-open')).toBe(false);
+    });
+
+    it('should close guessing when the next level starts', () => {
+      spectator.guessingOpen = true;
+
+      (spectator as any).handleGameInitialization(4, 1, ['a', 'b', 'c', 'd'], []);
+
+      expect(spectator.guessingOpen).toBe(false);
+    });
+
+    it('should leave the guessing state alone when joining a level in progress', () => {
+      spectator.guessingOpen = true;
+
+      (spectator as any).handleGameInitialization(4, 12, ['a', 'b', 'c', 'd'], []);
+
+      expect(spectator.guessingOpen).toBe(true);
+    });
+
     it('should route correct-guess events through delay and update slots', async () => {
       const wosWorker = findWorkerByUrlSubstring('wos-worker');
       expect(wosWorker).toBeTruthy();
@@ -1782,40 +2494,40 @@ describe('GameSpectator class', () => {
       ];
     });
 
-    it('should resolve a hidden (masked) word from the player chat history', () => {
+    it('should resolve a hidden (masked) word from the player chat history', async () => {
       // Level 19+ masks the word with '?' so it must be recovered from chat.
       seedChat(spectator, 'testuser', 'test');
 
-      (spectator as any).updateGameState('testuser', ['?', '?', '?', '?'], 0, false);
+      await (spectator as any).updateGameState('testuser', ['?', '?', '?', '?'], 0, false);
 
       expect(spectator.currentLevelCorrectWords).toContain('test');
     });
 
-    it('should resolve a hidden word by length, ignoring other-length chat noise', () => {
+    it('should resolve a hidden word by length, ignoring other-length chat noise', async () => {
       // The player typed several words; only the matching-length one is the
       // hidden guess.
       seedChat(spectator, 'testuser', 'longword');
       seedChat(spectator, 'testuser', 'test');
       seedChat(spectator, 'testuser', 'bigger');
 
-      (spectator as any).updateGameState('testuser', ['?', '?', '?', '?'], 0, false);
+      await (spectator as any).updateGameState('testuser', ['?', '?', '?', '?'], 0, false);
 
       expect(spectator.currentLevelCorrectWords).toContain('test');
     });
 
-    it('should return early only for a hidden word with no matching message', () => {
+    it('should return early only for a hidden word with no matching message', async () => {
       const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => { });
 
       // A masked word that cannot be resolved from chat is the only case that
       // should be dropped — there is genuinely no way to know the word.
-      (spectator as any).updateGameState('testuser', ['?', '?', '?', '?'], 0, false);
+      await (spectator as any).updateGameState('testuser', ['?', '?', '?', '?'], 0, false);
 
       expect(warnSpy).toHaveBeenCalled();
       expect(spectator.currentLevelCorrectWords).toEqual([]);
       warnSpy.mockRestore();
     });
 
-    it('#167: records an unrecoverable hidden guess as a masked, user-attributed slot rather than an empty one', () => {
+    it('#167: records an unrecoverable hidden guess as a masked, user-attributed slot rather than an empty one', async () => {
       // Approved (#167): the slot still counts as filled — so the level can
       // be a clear and the word is not reported as missed — but the word
       // itself stays unknown. Recording it masked (rather than resolving to
@@ -1823,7 +2535,7 @@ describe('GameSpectator class', () => {
       // `saveBoard` refuses any slot whose `letters`/`word` still contain '?'.
       const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => { });
 
-      (spectator as any).updateGameState('testuser', ['?', '?', '?', '?'], 0, false);
+      await (spectator as any).updateGameState('testuser', ['?', '?', '?', '?'], 0, false);
 
       expect(spectator.currentLevelSlots[0].user).toBe('testuser');
       expect(spectator.currentLevelSlots[0].word).toBe('????');
@@ -1833,14 +2545,14 @@ describe('GameSpectator class', () => {
       warnSpy.mockRestore();
     });
 
-    it('should capture a non-hidden guess directly from letters without any chat message (issue #96)', () => {
+    it('should capture a non-hidden guess directly from letters without any chat message (issue #96)', async () => {
       // The WoS event carries the full word for non-hidden levels, so a correct
       // guess must be captured even when no Twitch chat message is available
       // (e.g. the per-user/last-message state was overwritten by a near-
       // simultaneous guess before this delayed handler ran).
       const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => { });
 
-      (spectator as any).updateGameState('testuser', ['b', 'e', 'a', 'r'], 0, false);
+      await (spectator as any).updateGameState('testuser', ['b', 'e', 'a', 'r'], 0, false);
 
       expect(warnSpy).not.toHaveBeenCalled();
       expect(spectator.currentLevelCorrectWords).toContain('bear');
@@ -1849,7 +2561,7 @@ describe('GameSpectator class', () => {
       warnSpy.mockRestore();
     });
 
-    it('should capture both near-simultaneous non-hidden guesses even with stale chat state (issue #96)', () => {
+    it('should capture both near-simultaneous non-hidden guesses even with stale chat state (issue #96)', async () => {
       // Two players guess different words within milliseconds of each other.
       // Even if each player has since typed a newer, unrelated word, neither
       // guess should be dropped because the words are fully known from the WoS
@@ -1863,8 +2575,8 @@ describe('GameSpectator class', () => {
       seedChat(spectator, 'alice', 'newer');
       seedChat(spectator, 'bob', 'longerword');
 
-      (spectator as any).updateGameState('alice', ['b', 'e', 'a', 'r'], 0, false);
-      (spectator as any).updateGameState('bob', ['b', 'o', 'a', 'r'], 1, false);
+      await (spectator as any).updateGameState('alice', ['b', 'e', 'a', 'r'], 0, false);
+      await (spectator as any).updateGameState('bob', ['b', 'o', 'a', 'r'], 1, false);
 
       expect(spectator.currentLevelSlots[0].word).toBe('bear');
       expect(spectator.currentLevelSlots[0].user).toBe('alice');
@@ -1872,7 +2584,7 @@ describe('GameSpectator class', () => {
       expect(spectator.currentLevelSlots[1].user).toBe('bob');
     });
 
-    it('should resolve two simultaneous hidden guesses from different players without collision (issue #96)', () => {
+    it('should resolve two simultaneous hidden guesses from different players without collision (issue #96)', async () => {
       // Hidden level (19+): both words are masked, so each must be reconstructed
       // from the respective player's chat history. Per-user histories keep the
       // two players from interfering with each other.
@@ -1883,8 +2595,8 @@ describe('GameSpectator class', () => {
       seedChat(spectator, 'alice', 'beard');
       seedChat(spectator, 'bob', 'cloud');
 
-      (spectator as any).updateGameState('alice', ['?', '?', '?', '?', '?'], 0, false);
-      (spectator as any).updateGameState('bob', ['?', '?', '?', '?', '?'], 1, false);
+      await (spectator as any).updateGameState('alice', ['?', '?', '?', '?', '?'], 0, false);
+      await (spectator as any).updateGameState('bob', ['?', '?', '?', '?', '?'], 1, false);
 
       expect(spectator.currentLevelSlots[0].word).toBe('beard');
       expect(spectator.currentLevelSlots[0].user).toBe('alice');
@@ -1892,7 +2604,7 @@ describe('GameSpectator class', () => {
       expect(spectator.currentLevelSlots[1].user).toBe('bob');
     });
 
-    it('should resolve two same-length hidden guesses from one player newest-first with consumption (issue #96)', () => {
+    it('should resolve two same-length hidden guesses from one player newest-first with consumption (issue #96)', async () => {
       // A single player lands two same-length words in quick succession. Each
       // correct-guess event must consume a distinct chat message (newest first)
       // so the second event does not re-resolve to the first word.
@@ -1903,19 +2615,19 @@ describe('GameSpectator class', () => {
       seedChat(spectator, 'alice', 'beard', 1);
       seedChat(spectator, 'alice', 'bread', 2);
 
-      (spectator as any).updateGameState('alice', ['?', '?', '?', '?', '?'], 0, false);
-      (spectator as any).updateGameState('alice', ['?', '?', '?', '?', '?'], 1, false);
+      await (spectator as any).updateGameState('alice', ['?', '?', '?', '?', '?'], 0, false);
+      await (spectator as any).updateGameState('alice', ['?', '?', '?', '?', '?'], 1, false);
 
       // The newest same-length message ('bread', timestamp 2) resolves first.
       expect(spectator.currentLevelSlots[0].word).toBe('bread');
       expect(spectator.currentLevelSlots[1].word).toBe('beard');
     });
 
-    it('should prefer a valid dictionary word when disambiguating a hidden guess (issue #96)', () => {
+    it('should prefer a valid dictionary word when disambiguating a hidden guess (issue #96)', async () => {
       // The player typed an invalid word and a valid word of the same length;
       // the dictionary hint must steer resolution to the real word even though
       // the invalid one was typed first.
-      vi.mocked(wosWords.isWosWord).mockImplementation((w: string) => w === 'beard');
+      vi.mocked(dictionary.isWosWord).mockImplementation(async (w: string) => w === 'beard');
 
       spectator.currentLevelLetters = ['b', 'e', 'a', 'r', 'd'];
       spectator.currentLevelSlots = [
@@ -1924,18 +2636,18 @@ describe('GameSpectator class', () => {
       seedChat(spectator, 'alice', 'zzzzz', 1); // invalid, typed first
       seedChat(spectator, 'alice', 'beard', 2); // valid
 
-      (spectator as any).updateGameState('alice', ['?', '?', '?', '?', '?'], 0, false);
+      await (spectator as any).updateGameState('alice', ['?', '?', '?', '?', '?'], 0, false);
 
       expect(spectator.currentLevelSlots[0].word).toBe('beard');
     });
 
-    it('should reject a dictionary word whose letters do not fit the level (newest-first, letter-fit)', () => {
+    it('should reject a dictionary word whose letters do not fit the level (newest-first, letter-fit)', async () => {
       // The player's chat history contains two real, same-length words but only
       // one can actually be spelled from the level's tiles. The other (even
       // though it is the newest message) must be rejected because its letters
       // don't fit within the level's valid letters.
-      vi.mocked(wosWords.isWosWord).mockImplementation(
-        (w: string) => w === 'beard' || w === 'ghost'
+      vi.mocked(dictionary.isWosWord).mockImplementation(
+        async (w: string) => w === 'beard' || w === 'ghost'
       );
 
       spectator.currentLevelLetters = ['b', 'e', 'a', 'r', 'd', '?'];
@@ -1945,15 +2657,15 @@ describe('GameSpectator class', () => {
       seedChat(spectator, 'alice', 'beard', 1); // fits the level letters
       seedChat(spectator, 'alice', 'ghost', 2); // real word, but doesn't fit
 
-      (spectator as any).updateGameState('alice', ['?', '?', '?', '?', '?'], 0, false);
+      await (spectator as any).updateGameState('alice', ['?', '?', '?', '?', '?'], 0, false);
 
       expect(spectator.currentLevelSlots[0].word).toBe('beard');
     });
 
-    it('should treat a level ? as a wildcard when checking letter-fit', () => {
+    it('should treat a level ? as a wildcard when checking letter-fit', async () => {
       // The guessed word uses a still-hidden letter (shown as ? on level 19+).
       // The single ? must satisfy the one missing 'y' so the word still fits.
-      vi.mocked(wosWords.isWosWord).mockImplementation((w: string) => w === 'trilby');
+      vi.mocked(dictionary.isWosWord).mockImplementation(async (w: string) => w === 'trilby');
 
       spectator.currentLevelLetters = ['t', 'l', 'r', 'i', 's', 'm', '?', 'b'];
       spectator.currentLevelSlots = [
@@ -1961,19 +2673,37 @@ describe('GameSpectator class', () => {
       ];
       seedChat(spectator, 'alice', 'trilby', 1);
 
-      (spectator as any).updateGameState('alice', ['?', '?', '?', '?', '?', '?'], 0, false);
+      await (spectator as any).updateGameState('alice', ['?', '?', '?', '?', '?', '?'], 0, false);
 
       expect(spectator.currentLevelSlots[0].word).toBe('trilby');
     });
 
-    it('should set big word when hitMax is true', () => {
-      (spectator as any).updateGameState('testuser', ['t', 'e', 's', 't', 'i', 'n', 'g'], 0, true);
+    it("should check letter-fit the way the game's language folds accents", async () => {
+      // Only the dictionary worker hears about a language change, so the
+      // main thread must pass the game's language to the letter-fit check
+      // itself; folding as English would leave the Ç and Ã unplaced.
+      vi.mocked(dictionary.isWosWord).mockImplementation(async (w: string) => w === 'ação');
+
+      spectator.currentLanguageCode = 'pt';
+      spectator.currentLevelLetters = ['o', 'c', 'a', 'a'];
+      spectator.currentLevelSlots = [
+        { letters: [], word: '', hitMax: false, index: 0, length: 4 },
+      ];
+      seedChat(spectator, 'alice', 'ação', 1);
+
+      await (spectator as any).updateGameState('alice', ['?', '?', '?', '?'], 0, false);
+
+      expect(spectator.currentLevelSlots[0]).toMatchObject({ word: 'ação', confidence: 'unique' });
+    });
+
+    it('should set big word when hitMax is true', async () => {
+      await (spectator as any).updateGameState('testuser', ['t', 'e', 's', 't', 'i', 'n', 'g'], 0, true);
 
       expect(spectator.currentLevelBigWord).toBe('T E S T I N G');
       expect(document.getElementById('letters-label')!.innerText).toBe('Big Word:');
     });
 
-    it('should reveal both hidden letters after big word found following dictionary detection of one (ADMIRE end-to-end)', () => {
+    it('should reveal both hidden letters after big word found following dictionary detection of one (ADMIRE end-to-end)', async () => {
       // Reproduces the bug reported after #83: starting board "R ? E D Q F ? I"
       // with hidden letters A and M, fake letters Q and F.
       // 1) An earlier guess containing M makes the dictionary path detect M and
@@ -1989,14 +2719,14 @@ describe('GameSpectator class', () => {
       // Step 1: simulate a non-big-word guess that triggers dictionary
       // detection of "M" via the word DREAM (contains M which isn't visible).
       // The guess is non-hidden, so it resolves straight from `letters`.
-      (spectator as any).updateGameState('player1', ['d', 'r', 'e', 'a', 'm'], 0, false);
+      await (spectator as any).updateGameState('player1', ['d', 'r', 'e', 'a', 'm'], 0, false);
 
       // The dictionary path should have detected at least one hidden letter
       // and the corresponding ? should be replaced.
       expect(spectator.currentLevelHiddenLetters.length).toBeGreaterThan(0);
 
       // Step 2: simulate the big word ADMIRE being guessed.
-      (spectator as any).updateGameState('player2', ['a', 'd', 'm', 'i', 'r', 'e'], 1, true);
+      await (spectator as any).updateGameState('player2', ['a', 'd', 'm', 'i', 'r', 'e'], 1, true);
 
       const hiddenEl = document.getElementById('hidden-letter')!;
       const fakeEl = document.getElementById('fake-letter')!;
@@ -15,10 +15,20 @@ import type { Slot } from '@scripts/wos-words';
  * this file is allowed to reach the network.
  */
 
+// The IndexedDB copy of each word list, as an in-memory map: the test
+// environment has no IndexedDB. Empty unless a test fills it.
+const wordCache = vi.hoisted(() => new Map<string, { version: string; words: string[] }>());
+vi.mock('@scripts/word-cache', () => ({
+  readCachedWords: vi.fn(async (languageCode: string) => wordCache.get(languageCode) ?? null),
+  writeCachedWords: vi.fn(async (languageCode: string, version: string, words: string[]) => {
+    wordCache.set(languageCode, { version, words });
+  }),
+}));
+
 type WosWordsModule = typeof import('@scripts/wos-words');
 
-/** Endpoint `loadWordsFromDb()` reads the dictionary from. */
-const WORDS_API_URL = '/api/words';
+/** Endpoint `loadWordsFromDb()` reads the English dictionary from. */
+const WORDS_API_URL = '/api/words?lang=en';
 
 /**
  * A tiny hand-picked dictionary used with the letters 'ater'.
@@ -31,15 +41,27 @@ const TEST_DICTIONARY = ['rate', 'tear', 'rat', 'tree', 'treat'];
 let fetchMock: ReturnType<typeof vi.fn>;
 
 /** Builds a minimal successful `Response` carrying `body` as JSON. */
-function okResponse(body: unknown): Response {
+function okResponse(body: unknown, headers: Record<string, string> = {}): Response {
   return {
     ok: true,
     status: 200,
     statusText: 'OK',
+    headers: new Headers(headers),
     json: async () => body,
   } as Response;
 }
 
+/** Builds the bodiless answer to a request whose cached copy is current. */
+function notModifiedResponse(): Response {
+  return {
+    ok: false,
+    status: 304,
+    statusText: 'Not Modified',
+    headers: new Headers(),
+    json: async () => { throw new SyntaxError('Unexpected end of JSON input'); },
+  } as unknown as Response;
+}
+
 /** Builds a minimal failed `Response` with the given HTTP status. */
 function errorResponse(status: number, statusText: string): Response {
   return {
@@ -85,6 +107,8 @@ describe('wos-words module', () => {
     // readable while still allowing assertions on what was logged.
     vi.spyOn(console, 'log').mockImplementation(() => { });
     vi.spyOn(console, 'error').mockImplementation(() => { });
+
+    wordCache.clear();
   });
 
   afterEach(() => {
@@ -477,6 +501,36 @@ describe('wos-words module', () => {
     it('should return false when there are no available letters', () => {
       expect(canFormWord('beard', [])).toBe(false);
     });
+
+    it('should match accented tiles and words as WoS does in Portuguese and French', () => {
+      expect(canFormWord('ação', ['A', 'Ç', 'Ã', 'O'], 'pt')).toBe(true);
+      expect(canFormWord('acao', ['A', 'Ç', 'Ã', 'O'], 'pt')).toBe(true);
+      expect(canFormWord('élève', ['E', 'L', 'E', 'V', 'È'], 'fr')).toBe(true);
+    });
+
+    it('should keep accented letters distinct in English', () => {
+      expect(canFormWord('acao', ['A', 'Ç', 'Ã', 'O'], 'en')).toBe(false);
+    });
+  });
+
+  describe('findWosWordsFitting', () => {
+    it('should return the dictionary words of exactly that length the letters can spell', async () => {
+      const wosWords = await importModuleWithDictionary(['Limbs', 'brims', 'trilby', 'limb', 'ghost', 'LIMBS']);
+
+      expect(wosWords.findWosWordsFitting(5, ['t', 'l', 'r', 'i', 's', 'm', 'b'])).toEqual(['limbs', 'brims']);
+    });
+
+    it('should let a ? tile stand for any letter', async () => {
+      const wosWords = await importModuleWithDictionary(['trilby']);
+
+      expect(wosWords.findWosWordsFitting(6, ['t', 'l', 'r', 'i', '?', 'b'])).toEqual(['trilby']);
+    });
+
+    it('should return nothing before the dictionary has loaded', async () => {
+      const wosWords = await importFreshModule();
+
+      expect(wosWords.findWosWordsFitting(5, ['l', 'i', 'm', 'b', 's'])).toEqual([]);
+    });
   });
 
   describe('loadWordsFromDb', () => {
@@ -550,4 +604,112 @@ describe('wos-words module', () => {
     });
   });
 
+  describe('loadWordsFromDb with a cached word list', () => {
+    it('should keep a downloaded list under the version it was served with', async () => {
+      const wosWords = await importFreshModule();
+      fetchMock.mockResolvedValueOnce(okResponse([' rate '], { ETag: '"en-1-0"' }));
+
+      await wosWords.loadWordsFromDb();
+
+      expect(wordCache.get('en')).toEqual({ version: '"en-1-0"', words: ['rate'] });
+    });
+
+    it('should use the cached list and only ask whether it is still current', async () => {
+      wordCache.set('en', { version: '"en-1-0"', words: ['rate'] });
+      const wosWords = await importFreshModule();
+      fetchMock.mockResolvedValueOnce(notModifiedResponse());
+
+      await wosWords.loadWordsFromDb();
+
+      expect(fetchMock).toHaveBeenCalledWith(WORDS_API_URL, { headers: { 'If-None-Match': '"en-1-0"' } });
+      expect(wosWords.isWosWord('rate')).toBe(true);
+      expect(console.error).not.toHaveBeenCalled();
+    });
+
+    it('should replace the cached list when the list has changed', async () => {
+      wordCache.set('en', { version: '"en-1-0"', words: ['rate'] });
+      const wosWords = await importFreshModule();
+      fetchMock.mockResolvedValueOnce(okResponse(['rate', 'tear'], { ETag: '"en-2-5"' }));
+
+      await wosWords.loadWordsFromDb();
+
+      expect(wosWords.isWosWord('tear')).toBe(true);
+      expect(wordCache.get('en')).toEqual({ version: '"en-2-5"', words: ['rate', 'tear'] });
+    });
+
+    it('should carry on with the cached list when the word list cannot be reached', async () => {
+      wordCache.set('en', { version: '"en-1-0"', words: ['rate'] });
+      const wosWords = await importFreshModule();
+      fetchMock.mockRejectedValueOnce(new Error('offline'));
+
+      await wosWords.loadWordsFromDb();
+
+      expect(wosWords.isWosWord('rate')).toBe(true);
+    });
+  });
+
+  describe('setWordLanguage', () => {
+    it('should load the word list of a language the first time it is played', async () => {
+      const wosWords = await importModuleWithDictionary(['rate']);
+      fetchMock.mockResolvedValueOnce(okResponse(['taxa']));
+
+      await wosWords.setWordLanguage('pt');
+
+      expect(fetchMock).toHaveBeenCalledWith('/api/words?lang=pt');
+      expect(wosWords.isWosWord('taxa')).toBe(true);
+      expect(wosWords.isWosWord('rate')).toBe(false);
+    });
+
+    it('should know no words while the new language is still loading', async () => {
+      const wosWords = await importModuleWithDictionary(['rate']);
+      let respond: (response: Response) => void = () => { };
+      fetchMock.mockReturnValueOnce(new Promise<Response>((resolve) => { respond = resolve; }));
+
+      const switching = wosWords.setWordLanguage('fr');
+
+      expect(wosWords.isWosWord('rate')).toBe(false);
+      respond(okResponse(['taux']));
+      await switching;
+      expect(wosWords.isWosWord('taux')).toBe(true);
+    });
+
+    it('should recognise a Portuguese word typed without its accents', async () => {
+      const wosWords = await importModuleWithDictionary(['rate']);
+      fetchMock.mockResolvedValueOnce(okResponse(['ação']));
+
+      await wosWords.setWordLanguage('pt');
+
+      expect(wosWords.isWosWord('acao')).toBe(true);
+      expect(wosWords.isWosWord('AÇÃO')).toBe(true);
+      expect(wosWords.findAllMissingWords(['acao'], 'AÇÃO', 4)).toEqual([]);
+    });
+
+    it('should switch back to a language already loaded without fetching it again', async () => {
+      const wosWords = await importModuleWithDictionary(['rate']);
+      fetchMock.mockResolvedValueOnce(okResponse(['taxa']));
+      await wosWords.setWordLanguage('pt');
+      fetchMock.mockClear();
+
+      await wosWords.setWordLanguage('en');
+
+      expect(fetchMock).not.toHaveBeenCalled();
+      expect(wosWords.isWosWord('rate')).toBe(true);
+      expect(wosWords.findWosWordsFitting(4, ['a', 't', 'e', 'r'])).toEqual(['rate']);
+    });
+
+    it('should not let a language that finishes loading late replace the current one', async () => {
+      const wosWords = await importModuleWithDictionary(['rate']);
+      let respond: (response: Response) => void = () => { };
+      fetchMock.mockReturnValueOnce(new Promise<Response>((resolve) => { respond = resolve; }));
+
+      const switching = wosWords.setWordLanguage('fr');
+      await wosWords.setWordLanguage('en');
+      respond(okResponse(['taux']));
+      await switching;
+
+      expect(wosWords.isWosWord('rate')).toBe(true);
+      expect(wosWords.isWosWord('taux')).toBe(false);
+    });
+  });
+
 });
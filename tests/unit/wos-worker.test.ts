@@ -342,16 +342,28 @@ describe('wos-worker', () => {
       });
     });
 
-    it('drops the event 4 ranking data (it is not forwarded to the main thread)', () => {
+    it('forwards the event 4 ranking data for the session leaderboard', () => {
       send(levelResults);
 
-      // Via `unknown`: WosWorkerResult is a closed shape, so TS rejects the
-      // direct widening. The point of this test is to inspect keys the type
-      // says should not be there at all.
-      const result = postedResult() as unknown as Record<string, unknown>;
+      const result = postedResult();
       expect(result.stars).toBe(5);
-      expect(result).not.toHaveProperty('ranking');
-      expect(result).not.toHaveProperty('rankingTurn');
+      expect(result.ranking).toEqual(levelResults.data.ranking);
+      expect(result.rankingTurn).toEqual(levelResults.data.rankingTurn);
+    });
+
+    it('defaults missing event 4 rankings to empty lists', () => {
+      send({ eventType: 4, data: { stars: 2 } });
+
+      const result = postedResult();
+      expect(result.ranking).toEqual([]);
+      expect(result.rankingTurn).toEqual([]);
+    });
+
+    it('only forwards rankings for event 4', () => {
+      send(gameEnded);
+      const result = postedResult();
+      expect(result.ranking).toBeUndefined();
+      expect(result.rankingTurn).toBeUndefined();
     });
 
     it('only forwards `record` for event 12', () => {
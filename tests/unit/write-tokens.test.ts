@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+
+import { issueWriteToken, verifyWriteToken, bearerTokenFrom, WRITE_TOKEN_TTL_SECONDS } from '../../src/lib/write-tokens';
+
+const SECRET = 'unit-test-secret';
+const NOW = Date.UTC(2026, 9, 19, 12, 0, 0);
+
+describe('issueWriteToken', () => {
+  it('names the channel and an expiry WRITE_TOKEN_TTL_SECONDS away', async () => {
+    const issued = await issueWriteToken('clarkio', SECRET, NOW);
+
+    expect(issued.channel).toBe('clarkio');
+    expect(issued.expiresAt).toBe(new Date(NOW + WRITE_TOKEN_TTL_SECONDS * 1000).toISOString());
+    expect(issued.token).toMatch(new RegExp(`^clarkio\\.${NOW / 1000 + WRITE_TOKEN_TTL_SECONDS}\\.[A-Za-z0-9_-]+$`));
+  });
+
+  it('signs the same channel and expiry the same way every time', async () => {
+    const first = await issueWriteToken('clarkio', SECRET, NOW);
+    const second = await issueWriteToken('clarkio', SECRET, NOW);
+
+    expect(first.token).toBe(second.token);
+  });
+});
+
+describe('verifyWriteToken', () => {
+  it('returns the channel of a current token', async () => {
+    const { token } = await issueWriteToken('clarkio', SECRET, NOW);
+
+    expect(await verifyWriteToken(token, SECRET, NOW + 1000)).toEqual({ channel: 'clarkio' });
+  });
+
+  it.each([
+    [undefined],
+    [''],
+    [42],
+  ])('requires a token (%s)', async (token) => {
+    expect(await verifyWriteToken(token, SECRET, NOW)).toEqual({ error: 'A write token is required.' });
+  });
+
+  it.each([
+    ['too few parts', 'clarkio.1760875200'],
+    ['too many parts', 'clarkio.1760875200.abc.def'],
+    ['an expiry that is not a number', 'clarkio.soon.abc'],
+    ['a signature that is not base64url', 'clarkio.1760875200.a+b/c='],
+    ['no channel', '.1760875200.abc'],
+  ])('calls a token with %s malformed', async (_label, token) => {
+    expect(await verifyWriteToken(token, SECRET, NOW)).toEqual({ error: 'The write token is malformed.' });
+  });
+
+  it('rejects a token signed with another secret', async () => {
+    const { token } = await issueWriteToken('clarkio', 'another-secret', NOW);
+
+    expect(await verifyWriteToken(token, SECRET, NOW)).toEqual({ error: 'The write token is not valid.' });
+  });
+
+  it('rejects a token whose channel or expiry was changed after signing', async () => {
+    const { token } = await issueWriteToken('clarkio', SECRET, NOW);
+    const [, expires, signature] = token.split('.');
+
+    expect(await verifyWriteToken(`biocow.${expires}.${signature}`, SECRET, NOW))
+      .toEqual({ error: 'The write token is not valid.' });
+    expect(await verifyWriteToken(`clarkio.${Number(expires) + 3600}.${signature}`, SECRET, NOW))
+      .toEqual({ error: 'The write token is not valid.' });
+  });
+
+  it('rejects a token once it expires', async () => {
+    const { token } = await issueWriteToken('clarkio', SECRET, NOW);
+    const expiry = NOW + WRITE_TOKEN_TTL_SECONDS * 1000;
+
+    expect(await verifyWriteToken(token, SECRET, expiry - 1)).toEqual({ channel: 'clarkio' });
+    expect(await verifyWriteToken(token, SECRET, expiry)).toEqual({ error: 'The write token has expired.' });
+  });
+});
+
+describe('bearerTokenFrom', () => {
+  function requestWith(authorization?: string): Request {
+    return new Request('https://wos-plus.test/api/boards', {
+      headers: authorization === undefined ? {} : { authorization },
+    });
+  }
+
+  it('reads a bearer token', () => {
+    expect(bearerTokenFrom(requestWith('Bearer clarkio.1.abc'))).toBe('clarkio.1.abc');
+    expect(bearerTokenFrom(requestWith('bearer   clarkio.1.abc'))).toBe('clarkio.1.abc');
+  });
+
+  it.each([
+    ['no Authorization header', undefined],
+    ['another scheme', 'Basic Y2xhcmtpbzpodW50ZXIy'],
+    ['a bearer with no token', 'Bearer'],
+    ['a bearer with two tokens', 'Bearer one two'],
+  ])('returns null for %s', (_label, authorization) => {
+    expect(bearerTokenFrom(requestWith(authorization))).toBeNull();
+  });
+});